@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { Activity, AlertTriangle, Store, TrendingDown, TrendingUp } from "lucide-react";
+
+type AnomalyKind = "large_charge" | "new_vendor" | "revenue_drop" | "category_spike";
+
+interface Anomaly {
+  kind: AnomalyKind;
+  severity: "high" | "medium" | "low";
+  title: string;
+  description: string;
+  amount: number;
+  expected: number | null;
+  date: string;
+  transactionId?: string;
+  vendor?: string;
+  accountRef?: string | null;
+}
+
+const KIND_LABELS: Record<AnomalyKind, string> = {
+  large_charge: "Large charge",
+  new_vendor: "New vendor",
+  revenue_drop: "Revenue drop",
+  category_spike: "Category spike",
+};
+
+const KIND_ICONS: Record<AnomalyKind, React.ComponentType<{ size?: number; className?: string }>> = {
+  large_charge: AlertTriangle,
+  new_vendor: Store,
+  revenue_drop: TrendingDown,
+  category_spike: TrendingUp,
+};
+
+function severityBadge(severity: Anomaly["severity"]): string {
+  if (severity === "high") return "bg-red-500/20 text-red-400 border-red-500/30";
+  if (severity === "medium") return "bg-yellow-500/20 text-yellow-400 border-yellow-500/30";
+  return "bg-blue-500/20 text-blue-400 border-blue-500/30";
+}
+
+function formatCurrency(n: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(n);
+}
+
+export default function AnomaliesPage() {
+  const [kind, setKind] = useState<AnomalyKind | "all">("all");
+
+  const { data, isLoading } = useQuery<{ anomalies: Anomaly[] }>({
+    queryKey: ["anomalies"],
+    queryFn: async () => {
+      const res = await fetch("/api/finance/anomalies");
+      if (!res.ok) throw new Error("Failed to load anomalies");
+      return res.json();
+    },
+  });
+
+  const all = data?.anomalies ?? [];
+  const anomalies = all.filter((a) => kind === "all" || a.kind === kind);
+  const countOf = (k: AnomalyKind) => all.filter((a) => a.kind === k).length;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Anomalies</h1>
+        <p className="text-muted-foreground mt-1">
+          Charges, vendors and months that break the practice&apos;s usual pattern
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {(Object.keys(KIND_LABELS) as AnomalyKind[]).map((k) => {
+          const Icon = KIND_ICONS[k];
+          return (
+            <button key={k} onClick={() => setKind(kind === k ? "all" : k)} className="text-left">
+              <Card className={cn("transition-colors hover:bg-accent/50", kind === k && "border-primary")}>
+                <CardContent className="pt-6">
+                  <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                    <Icon size={12} />
+                    {KIND_LABELS[k]}
+                  </p>
+                  <p className="text-2xl font-bold">{countOf(k)}</p>
+                </CardContent>
+              </Card>
+            </button>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Activity size={18} />
+            {kind === "all" ? "All anomalies" : KIND_LABELS[kind]}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Looking for unusual activity...</p>
+          ) : anomalies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nothing out of pattern. Charges from the last 30 days and last month&apos;s
+              totals are checked against the past year.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {anomalies.map((a, i) => {
+                const Icon = KIND_ICONS[a.kind];
+                return (
+                  <div
+                    key={`${a.kind}:${a.transactionId ?? a.vendor ?? a.accountRef ?? ""}:${i}`}
+                    className="flex items-start gap-3 rounded-lg border p-3"
+                  >
+                    <Icon size={16} className="mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium">{a.title}</p>
+                        <Badge variant="outline" className={cn("text-[10px]", severityBadge(a.severity))}>
+                          {a.severity}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-0.5">{a.description}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-sm font-mono">{formatCurrency(a.amount)}</p>
+                      {a.expected != null && (
+                        <p className="text-xs text-muted-foreground">
+                          expected {formatCurrency(a.expected)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
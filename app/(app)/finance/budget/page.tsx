@@ -5,110 +5,244 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Download, Save, Wand2 } from "lucide-react";
+import { Select } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, Copy, Download, Save, Wand2 } from "lucide-react";
 import { useState, useEffect } from "react";
+import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { usePermissions } from "@/lib/hooks/use-permissions";
+import {
+  fiscalMonths,
+  spreadAnnual,
+  type BudgetGranularity,
+} from "@/lib/finance/budget-calendar";
+import type {
+  BudgetConfig,
+  BudgetPeriods,
+  BudgetVersion,
+  BudgetVsActual,
+  SuggestedBudget,
+} from "@/lib/finance/budget";
 import Link from "next/link";
 
-interface BudgetCategory {
-  accountRef: string;
-  monthlyTarget: number;
+const VERSIONS: Array<{ value: BudgetVersion; label: string }> = [
+  { value: "original", label: "Original" },
+  { value: "revised", label: "Revised" },
+  { value: "stretch", label: "Stretch" },
+];
+
+const VIEWS: Array<{ value: BudgetGranularity; label: string }> = [
+  { value: "month", label: "Month" },
+  { value: "quarter", label: "Quarter" },
+  { value: "year", label: "Fiscal Year" },
+];
+
+const FLAT = Array<number>(12).fill(1);
+
+interface BudgetResponse {
+  budget: BudgetConfig | null;
+  suggested?: SuggestedBudget;
+  vsActual?: BudgetVsActual;
+  periods?: BudgetPeriods | null;
+  versions: BudgetVersion[];
+  fiscalYearStart: number;
+  seasonality: number[];
+  year: number;
 }
 
-interface SuggestedCategory {
+interface EditTarget {
   accountRef: string;
-  suggested: number;
-  avgMonthly: number;
+  monthlyTargets: number[];
 }
 
-interface BudgetVsActualRow {
-  accountRef: string;
-  monthlyTarget: number;
-  monthlyActual: number;
-  ytdTarget: number;
-  ytdActual: number;
-  variance: number;
-  variancePercent: number;
-  status: "under" | "on_track" | "over";
+interface CopyForm {
+  fromYear: number;
+  fromVersion: BudgetVersion;
+  toYear: number;
+  toVersion: BudgetVersion;
+  growthPercent: string;
+  overwrite: boolean;
+}
+
+function versionLabel(version: BudgetVersion) {
+  return VERSIONS.find((v) => v.value === version)?.label ?? version;
+}
+
+function StatusBadge({ status }: { status: "under" | "on_track" | "over" }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        status === "under" && "text-green-400 border-green-400/30",
+        status === "on_track" && "text-yellow-400 border-yellow-400/30",
+        status === "over" && "text-red-400 border-red-400/30"
+      )}
+    >
+      {status === "under" ? "Under" : status === "on_track" ? "On Track" : "Over"}
+    </Badge>
+  );
 }
 
 export default function BudgetPage() {
   const queryClient = useQueryClient();
-  const { canWrite } = usePermissions();
-  const year = new Date().getFullYear();
+  const { can } = usePermissions();
+  const canWrite = can("budgets:write");
+  // Undefined until chosen: the server picks the current fiscal year and active version
+  const [year, setYear] = useState<number | undefined>();
+  const [version, setVersion] = useState<BudgetVersion | undefined>();
+  const [view, setView] = useState<BudgetGranularity>("month");
   const [editMode, setEditMode] = useState(false);
-  const [targets, setTargets] = useState<BudgetCategory[]>([]);
+  const [targets, setTargets] = useState<EditTarget[]>([]);
+  const [setupTargets, setSetupTargets] = useState<Array<{ accountRef: string; monthlyTarget: number }>>([]);
+  const [seasonalSetup, setSeasonalSetup] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth() + 1);
+  const [copyForm, setCopyForm] = useState<CopyForm | null>(null);
 
-  const { data, isLoading } = useQuery({
-    queryKey: ["budget", year, selectedMonth],
+  const { data, isLoading } = useQuery<BudgetResponse>({
+    queryKey: ["budget", year, version, selectedMonth, view],
     queryFn: async () => {
-      const res = await fetch(
-        `/api/finance/budget?year=${year}&month=${selectedMonth}`
-      );
+      const params = new URLSearchParams({ month: String(selectedMonth) });
+      if (year) params.set("year", String(year));
+      if (version) params.set("version", version);
+      if (view !== "month") params.set("granularity", view);
+      const res = await fetch(`/api/finance/budget?${params}`);
       if (!res.ok) throw new Error("Failed to load budget");
       return res.json();
     },
   });
 
+  const fiscalYear = data?.year ?? year ?? new Date().getFullYear();
+  const activeVersion = data?.budget?.version ?? version ?? "original";
+  const weights = data?.seasonality ?? FLAT;
+
   const saveMutation = useMutation({
-    mutationFn: async (cats: BudgetCategory[]) => {
+    mutationFn: async (body: object) => {
       const res = await fetch("/api/finance/budget", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ year, categories: cats }),
+        body: JSON.stringify({ year: fiscalYear, version: activeVersion, ...body }),
       });
-      if (!res.ok) throw new Error("Failed to save budget");
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to save budget");
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["budget"] });
       setEditMode(false);
+      toast.success("Budget saved");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const copyMutation = useMutation({
+    mutationFn: async (form: CopyForm) => {
+      const res = await fetch("/api/finance/budget/copy", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          growthPercent: parseFloat(form.growthPercent) || 0,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to copy budget");
+      }
+    },
+    onSuccess: (_, form) => {
+      queryClient.invalidateQueries({ queryKey: ["budget"] });
+      setYear(form.toYear);
+      setVersion(form.toVersion);
+      setCopyForm(null);
+      toast.success(`${versionLabel(form.toVersion)} budget created for FY${form.toYear}`);
     },
+    onError: (err: Error) => toast.error(err.message),
   });
 
   const hasBudget = !!data?.budget;
-  const suggested: SuggestedCategory[] = data?.suggested?.categories || [];
-  const vsActual: BudgetVsActualRow[] = data?.vsActual?.categories || [];
+  const suggested = data?.suggested?.categories || [];
+  const versions = data?.versions || [];
+  const months = fiscalMonths(fiscalYear, data?.fiscalYearStart ?? 1);
 
   // Initialize edit targets from budget or suggested
   useEffect(() => {
-    if (hasBudget && data.budget.categories) {
+    if (data?.budget) {
       setTargets(
-        data.budget.categories.map((c: { accountRef: string; monthlyTarget: number }) => ({
+        data.budget.categories.map((c) => ({
           accountRef: c.accountRef,
-          monthlyTarget: c.monthlyTarget,
+          monthlyTargets: c.monthlyTargets,
         }))
       );
     } else if (suggested.length > 0) {
-      setTargets(
-        suggested.map((s) => ({
-          accountRef: s.accountRef,
-          monthlyTarget: s.suggested,
-        }))
+      setSetupTargets(
+        suggested.map((s) => ({ accountRef: s.accountRef, monthlyTarget: s.suggested }))
       );
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data, hasBudget, suggested.length]);
+  }, [data, suggested.length]);
 
   function handleUseSuggested() {
-    setTargets(
-      suggested.map((s) => ({
-        accountRef: s.accountRef,
-        monthlyTarget: s.suggested,
-      }))
+    setSetupTargets(
+      suggested.map((s) => ({ accountRef: s.accountRef, monthlyTarget: s.suggested }))
+    );
+  }
+
+  function updateSetupTarget(accountRef: string, value: number) {
+    setSetupTargets((prev) =>
+      prev.map((t) => (t.accountRef === accountRef ? { ...t, monthlyTarget: value } : t))
     );
-    setEditMode(true);
   }
 
-  function updateTarget(accountRef: string, value: number) {
+  function updateMonth(accountRef: string, index: number, value: number) {
     setTargets((prev) =>
       prev.map((t) =>
-        t.accountRef === accountRef ? { ...t, monthlyTarget: value } : t
+        t.accountRef === accountRef
+          ? { ...t, monthlyTargets: t.monthlyTargets.map((v, i) => (i === index ? value : v)) }
+          : t
       )
     );
   }
 
+  function updateAnnual(accountRef: string, annual: number) {
+    setTargets((prev) =>
+      prev.map((t) => {
+        if (t.accountRef !== accountRef) return t;
+        // Keep the row's current shape when its total changes
+        const current = t.monthlyTargets.reduce((s, v) => s + v, 0);
+        const shape = current > 0 ? t.monthlyTargets.map((v) => (v / current) * 12) : FLAT;
+        return { ...t, monthlyTargets: spreadAnnual(annual, shape) };
+      })
+    );
+  }
+
+  function reshapeAll(shape: number[]) {
+    setTargets((prev) =>
+      prev.map((t) => ({
+        ...t,
+        monthlyTargets: spreadAnnual(t.monthlyTargets.reduce((s, v) => s + v, 0), shape),
+      }))
+    );
+  }
+
+  function openCopy(form: Partial<CopyForm> = {}) {
+    setCopyForm({
+      fromYear: fiscalYear,
+      fromVersion: activeVersion,
+      toYear: fiscalYear + 1,
+      toVersion: activeVersion,
+      growthPercent: "3",
+      overwrite: false,
+      ...form,
+    });
+  }
+
   if (isLoading) {
     return (
       <div className="p-6 space-y-6">
@@ -122,14 +256,214 @@ export default function BudgetPage() {
     );
   }
 
-  // First-time setup wizard
+  const header = (title: string, subtitle: string) => (
+    <div className="flex flex-wrap items-center justify-between gap-4">
+      <div>
+        <h1 className="text-2xl font-bold">{title}</h1>
+        <p className="text-muted-foreground">{subtitle}</p>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-label="Previous fiscal year"
+            onClick={() => setYear(fiscalYear - 1)}
+          >
+            <ChevronLeft size={14} />
+          </Button>
+          <span className="text-sm font-medium w-16 text-center">FY{fiscalYear}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-label="Next fiscal year"
+            onClick={() => setYear(fiscalYear + 1)}
+          >
+            <ChevronRight size={14} />
+          </Button>
+        </div>
+        <Select
+          value={activeVersion}
+          onChange={(e) => {
+            setVersion(e.target.value as BudgetVersion);
+            setEditMode(false);
+          }}
+          className="w-40 h-9"
+        >
+          {VERSIONS.map((v) => (
+            <option key={v.value} value={v.value}>
+              {v.label}
+              {versions.includes(v.value) ? "" : " (not set)"}
+            </option>
+          ))}
+        </Select>
+        {hasBudget && (
+          <Link href="/api/export/report?type=budget&format=csv">
+            <Button variant="outline" size="sm">
+              <Download size={14} className="mr-1" />
+              Export
+            </Button>
+          </Link>
+        )}
+        {canWrite && hasBudget && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => openCopy()}>
+              <Copy size={14} className="mr-1" />
+              Copy / Roll Forward
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setEditMode(!editMode)}>
+              {editMode ? "Cancel" : "Edit Targets"}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  const copyDialog = copyForm && (
+    <Dialog open onOpenChange={(open) => !open && setCopyForm(null)}>
+      <DialogContent onClose={() => setCopyForm(null)}>
+        <DialogHeader>
+          <DialogTitle>Copy Budget</DialogTitle>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            copyMutation.mutate(copyForm);
+          }}
+          className="space-y-4 mt-4"
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium">From fiscal year</label>
+              <Input
+                type="number"
+                value={copyForm.fromYear}
+                onChange={(e) =>
+                  setCopyForm({ ...copyForm, fromYear: parseInt(e.target.value, 10) || fiscalYear })
+                }
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">From version</label>
+              <Select
+                value={copyForm.fromVersion}
+                onChange={(e) =>
+                  setCopyForm({ ...copyForm, fromVersion: e.target.value as BudgetVersion })
+                }
+              >
+                {VERSIONS.map((v) => (
+                  <option key={v.value} value={v.value}>
+                    {v.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">To fiscal year</label>
+              <Input
+                type="number"
+                value={copyForm.toYear}
+                onChange={(e) =>
+                  setCopyForm({ ...copyForm, toYear: parseInt(e.target.value, 10) || fiscalYear })
+                }
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">To version</label>
+              <Select
+                value={copyForm.toVersion}
+                onChange={(e) =>
+                  setCopyForm({ ...copyForm, toVersion: e.target.value as BudgetVersion })
+                }
+              >
+                {VERSIONS.map((v) => (
+                  <option key={v.value} value={v.value}>
+                    {v.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Growth %</label>
+            <Input
+              type="number"
+              step="0.1"
+              value={copyForm.growthPercent}
+              onChange={(e) => setCopyForm({ ...copyForm, growthPercent: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Applied to every month; the seasonal shape carries over.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={copyForm.overwrite}
+              onChange={(e) => setCopyForm({ ...copyForm, overwrite: e.target.checked })}
+            />
+            Replace the target budget if it already exists
+          </label>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setCopyForm(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={copyMutation.isPending}>
+              {copyMutation.isPending ? "Copying..." : "Copy Budget"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+
+  // First-time setup wizard for this year and version
   if (!hasBudget) {
+    const copySource = versions[0];
     return (
       <div className="p-6 space-y-6">
-        <h1 className="text-2xl font-bold">Set Up Your Budget</h1>
-        <p className="text-muted-foreground">
-          Based on your last 3 months, here&apos;s a suggested monthly budget.
-        </p>
+        {header(
+          `Set Up Your ${versionLabel(activeVersion)} Budget`,
+          "Based on your last 3 months, here's a suggested monthly budget."
+        )}
+
+        {canWrite && (
+          <div className="flex flex-wrap gap-2">
+            {copySource && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  openCopy({
+                    fromVersion: copySource,
+                    toYear: fiscalYear,
+                    toVersion: activeVersion,
+                    growthPercent: "0",
+                  })
+                }
+              >
+                <Copy size={14} className="mr-1" />
+                Copy from {versionLabel(copySource)}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                openCopy({
+                  fromYear: fiscalYear - 1,
+                  fromVersion: "original",
+                  toYear: fiscalYear,
+                  toVersion: activeVersion,
+                })
+              }
+            >
+              <Copy size={14} className="mr-1" />
+              Roll Forward FY{fiscalYear - 1}
+            </Button>
+          </div>
+        )}
 
         <Card>
           <CardHeader>
@@ -147,7 +481,7 @@ export default function BudgetPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {targets.map((t) => (
+                  {setupTargets.map((t) => (
                     <tr key={t.accountRef} className="border-b border-muted/50">
                       <td className="py-2">{t.accountRef}</td>
                       <td className="py-2 text-right text-muted-foreground">
@@ -158,7 +492,7 @@ export default function BudgetPage() {
                           type="number"
                           value={t.monthlyTarget}
                           onChange={(e) =>
-                            updateTarget(t.accountRef, parseFloat(e.target.value) || 0)
+                            updateSetupTarget(t.accountRef, parseFloat(e.target.value) || 0)
                           }
                           className="w-28 ml-auto text-right h-8"
                         />
@@ -172,15 +506,30 @@ export default function BudgetPage() {
               </table>
             </div>
             {canWrite && (
-              <div className="flex items-center justify-between mt-4 pt-4 border-t border-muted">
-                <Button variant="outline" size="sm" onClick={handleUseSuggested}>
-                  <Wand2 size={14} className="mr-1" />
-                  Use Suggested
-                </Button>
+              <div className="flex flex-wrap items-center justify-between gap-2 mt-4 pt-4 border-t border-muted">
+                <div className="flex items-center gap-4">
+                  <Button variant="outline" size="sm" onClick={handleUseSuggested}>
+                    <Wand2 size={14} className="mr-1" />
+                    Use Suggested
+                  </Button>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={seasonalSetup}
+                      onChange={(e) => setSeasonalSetup(e.target.checked)}
+                    />
+                    Shape months by seasonality
+                  </label>
+                </div>
                 <Button
                   size="sm"
-                  onClick={() => saveMutation.mutate(targets)}
-                  disabled={saveMutation.isPending}
+                  onClick={() =>
+                    saveMutation.mutate({
+                      shape: seasonalSetup ? "seasonal" : "flat",
+                      categories: setupTargets,
+                    })
+                  }
+                  disabled={saveMutation.isPending || setupTargets.length === 0}
                 >
                   <Save size={14} className="mr-1" />
                   Save Budget
@@ -189,100 +538,123 @@ export default function BudgetPage() {
             )}
           </CardContent>
         </Card>
+        {copyDialog}
       </div>
     );
   }
 
   // Budget vs Actual view
-  const totalTarget = data.vsActual?.totalTarget || 0;
-  const totalActual = data.vsActual?.totalActual || 0;
-  const totalVariance = data.vsActual?.totalVariance || 0;
-
-  const months = [
-    "Jan", "Feb", "Mar", "Apr", "May", "Jun",
-    "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
-  ];
+  const vsActual = data?.vsActual;
+  const periods = data?.periods;
+  const totalTarget = vsActual?.totalTarget || 0;
+  const totalActual = vsActual?.totalActual || 0;
+  const totalVariance = vsActual?.totalVariance || 0;
 
   return (
     <div className="p-6 space-y-6">
-      <div className="flex items-center justify-between">
-        <div>
-          <h1 className="text-2xl font-bold">Budget vs Actual</h1>
-          <p className="text-muted-foreground">{year} budget tracking</p>
-        </div>
-        <div className="flex items-center gap-2">
-          <Link href="/api/export/report?type=budget&format=csv">
-            <Button variant="outline" size="sm">
-              <Download size={14} className="mr-1" />
-              Export
-            </Button>
-          </Link>
-          {canWrite && (
+      {header(
+        "Budget vs Actual",
+        `FY${fiscalYear} ${versionLabel(activeVersion).toLowerCase()} budget, starting ${months[0].label}`
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex gap-1">
+          {VIEWS.map((v) => (
             <Button
-              variant="outline"
+              key={v.value}
+              variant={view === v.value ? "default" : "ghost"}
               size="sm"
-              onClick={() => setEditMode(!editMode)}
+              onClick={() => setView(v.value)}
             >
-              {editMode ? "Cancel" : "Edit Targets"}
+              {v.label}
             </Button>
-          )}
+          ))}
         </div>
       </div>
 
-      {/* Month selector */}
-      <div className="flex gap-1 overflow-x-auto pb-2">
-        {months.map((m, i) => (
-          <Button
-            key={m}
-            variant={selectedMonth === i + 1 ? "default" : "ghost"}
-            size="sm"
-            className="shrink-0"
-            onClick={() => setSelectedMonth(i + 1)}
-          >
-            {m}
-          </Button>
-        ))}
-      </div>
+      {/* Month selector, in fiscal order */}
+      {view === "month" && !editMode && (
+        <div className="flex gap-1 overflow-x-auto pb-2">
+          {months.map((m) => (
+            <Button
+              key={m.key}
+              variant={selectedMonth === m.month ? "default" : "ghost"}
+              size="sm"
+              className="shrink-0"
+              onClick={() => setSelectedMonth(m.month)}
+            >
+              {m.label.slice(0, 3)}
+            </Button>
+          ))}
+        </div>
+      )}
 
       {/* Edit mode */}
       {editMode ? (
         <Card>
           <CardHeader>
-            <CardTitle className="text-base">Edit Budget Targets</CardTitle>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-base">Edit Budget Targets</CardTitle>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => reshapeAll(weights)}>
+                  <Wand2 size={14} className="mr-1" />
+                  Spread by Seasonality
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => reshapeAll(FLAT)}>
+                  Spread Evenly
+                </Button>
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
-            <table className="w-full text-sm">
-              <thead>
-                <tr className="border-b border-muted">
-                  <th className="text-left py-2">Category</th>
-                  <th className="text-right py-2">Monthly Target</th>
-                </tr>
-              </thead>
-              <tbody>
-                {targets.map((t) => (
-                  <tr key={t.accountRef} className="border-b border-muted/50">
-                    <td className="py-2">{t.accountRef}</td>
-                    <td className="py-2 text-right">
-                      <Input
-                        type="number"
-                        value={t.monthlyTarget}
-                        onChange={(e) =>
-                          updateTarget(
-                            t.accountRef,
-                            parseFloat(e.target.value) || 0
-                          )
-                        }
-                        className="w-28 ml-auto text-right h-8"
-                      />
-                    </td>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-muted">
+                    <th className="text-left py-2">Category</th>
+                    <th className="text-right py-2">Annual</th>
+                    {months.map((m) => (
+                      <th key={m.key} className="text-right py-2 px-1 font-normal text-muted-foreground">
+                        {m.label.slice(0, 3)}
+                      </th>
+                    ))}
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody>
+                  {targets.map((t) => (
+                    <tr key={t.accountRef} className="border-b border-muted/50">
+                      <td className="py-2 pr-2 whitespace-nowrap">{t.accountRef}</td>
+                      <td className="py-2 text-right">
+                        <Input
+                          type="number"
+                          value={Math.round(t.monthlyTargets.reduce((s, v) => s + v, 0) * 100) / 100}
+                          onChange={(e) =>
+                            updateAnnual(t.accountRef, parseFloat(e.target.value) || 0)
+                          }
+                          className="w-28 ml-auto text-right h-8"
+                        />
+                      </td>
+                      {t.monthlyTargets.map((value, i) => (
+                        <td key={i} className="py-2 px-1 text-right">
+                          <Input
+                            type="number"
+                            value={value}
+                            onChange={(e) =>
+                              updateMonth(t.accountRef, i, parseFloat(e.target.value) || 0)
+                            }
+                            className="w-20 text-right h-8 px-2"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
             <div className="flex justify-end mt-4">
               <Button
                 size="sm"
-                onClick={() => saveMutation.mutate(targets)}
+                onClick={() => saveMutation.mutate({ categories: targets })}
                 disabled={saveMutation.isPending}
               >
                 <Save size={14} className="mr-1" />
@@ -291,7 +663,7 @@ export default function BudgetPage() {
             </div>
           </CardContent>
         </Card>
-      ) : (
+      ) : view === "month" ? (
         <Card>
           <CardContent className="pt-6">
             <div className="overflow-x-auto">
@@ -309,7 +681,7 @@ export default function BudgetPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {vsActual.map((row) => (
+                  {(vsActual?.categories || []).map((row) => (
                     <tr key={row.accountRef} className="border-b border-muted/50">
                       <td className="py-2">{row.accountRef}</td>
                       <td className="py-2 text-right">
@@ -330,20 +702,7 @@ export default function BudgetPage() {
                         {row.variancePercent.toFixed(1)}%
                       </td>
                       <td className="py-2 text-center">
-                        <Badge
-                          variant="outline"
-                          className={cn(
-                            row.status === "under" && "text-green-400 border-green-400/30",
-                            row.status === "on_track" && "text-yellow-400 border-yellow-400/30",
-                            row.status === "over" && "text-red-400 border-red-400/30"
-                          )}
-                        >
-                          {row.status === "under"
-                            ? "Under"
-                            : row.status === "on_track"
-                              ? "On Track"
-                              : "Over"}
-                        </Badge>
+                        <StatusBadge status={row.status} />
                       </td>
                       <td className="py-2 text-right text-muted-foreground">
                         ${row.ytdTarget.toLocaleString()}
@@ -378,7 +737,66 @@ export default function BudgetPage() {
             </div>
           </CardContent>
         </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-muted">
+                    <th className="text-left py-2 font-medium">Category</th>
+                    {(periods?.periods || []).map((p) => (
+                      <th key={p.start} className="text-right py-2 font-medium">
+                        {p.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {(data?.budget?.categories || []).map((cat) => (
+                    <tr key={cat.accountRef} className="border-b border-muted/50">
+                      <td className="py-2">{cat.accountRef}</td>
+                      {(periods?.periods || []).map((p) => {
+                        const row = p.categories.find((c) => c.accountRef === cat.accountRef);
+                        if (!row) return <td key={p.start} />;
+                        return (
+                          <td key={p.start} className="py-2 text-right">
+                            <div
+                              className={cn(
+                                p.started && (row.variance >= 0 ? "text-green-400" : "text-red-400")
+                              )}
+                            >
+                              {p.started ? `$${row.actual.toLocaleString()}` : "—"}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              of ${row.target.toLocaleString()}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 border-muted font-medium">
+                    <td className="py-2">Total</td>
+                    {(periods?.periods || []).map((p) => (
+                      <td key={p.start} className="py-2 text-right space-y-1">
+                        <div>{p.started ? `$${p.actual.toLocaleString()}` : "—"}</div>
+                        <div className="text-xs text-muted-foreground">
+                          of ${p.target.toLocaleString()}
+                        </div>
+                        {p.started && <StatusBadge status={p.status} />}
+                      </td>
+                    ))}
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
       )}
+      {copyDialog}
     </div>
   );
 }
@@ -84,7 +84,8 @@ function loanTypeLabel(type: string): string {
 
 export default function LoansPage() {
   const queryClient = useQueryClient();
-  const { canWrite } = usePermissions();
+  const { can } = usePermissions();
+  const canWrite = can("loans:write");
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [dismissedDetected, setDismissedDetected] = useState<Set<string>>(
     new Set()
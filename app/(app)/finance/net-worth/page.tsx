@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
+import { runJob } from "@/lib/jobs/client";
 import { RefreshCw, TrendingUp, TrendingDown, Camera } from "lucide-react";
 import { useState, useEffect } from "react";
 import {
@@ -92,7 +93,7 @@ export default function NetWorthPage() {
   }, [report]);
 
   const syncMutation = useMutation({
-    mutationFn: () => fetch("/api/plaid/sync", { method: "POST" }),
+    mutationFn: () => runJob("/api/plaid/sync"),
     onSuccess: () => {
       toast.success("Balances refreshed");
       queryClient.invalidateQueries({ queryKey: ["net-worth"] });
@@ -1,8 +1,10 @@
 "use client";
 
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
 import { MetricCard } from "@/components/finance/metric-card";
 import { ProfitabilityChart } from "@/components/finance/profitability-chart";
 import { CashFlowAreaChart } from "@/components/finance/cash-flow-area-chart";
@@ -17,6 +19,11 @@ import {
   RefreshCw,
 } from "lucide-react";
 import Link from "next/link";
+import { toast } from "sonner";
+import { runJob } from "@/lib/jobs/client";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+
+type ReportingBasis = "cash" | "accrual";
 
 function formatCurrency(n: number): string {
   if (Math.abs(n) >= 1000) {
@@ -40,22 +47,58 @@ function runwayColor(months: number): string {
 
 export default function FinancePage() {
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canAdmin = can("settings:write");
+  // null until the user picks one; the practice default applies until then
+  const [selectedBasis, setSelectedBasis] = useState<ReportingBasis | null>(null);
+
+  const { data: basisData } = useQuery<{ basis: ReportingBasis }>({
+    queryKey: ["reportingBasis"],
+    queryFn: async () => {
+      const res = await fetch("/api/finance/reporting-basis");
+      if (!res.ok) throw new Error("Failed to load reporting basis");
+      return res.json();
+    },
+  });
+  const defaultBasis = basisData?.basis;
+  const basis = selectedBasis ?? defaultBasis;
 
   const { data: profitability, isLoading: loadingProfit } = useQuery({
-    queryKey: ["profitability"],
+    queryKey: ["profitability", basis],
+    enabled: !!basis,
     queryFn: async () => {
       // Last 12 months
       const now = new Date();
       const start = new Date(now.getFullYear(), now.getMonth() - 11, 1);
       const end = new Date(now.getFullYear(), now.getMonth() + 1, 0);
       const res = await fetch(
-        `/api/finance/profitability?startDate=${start.toISOString()}&endDate=${end.toISOString()}`
+        `/api/finance/profitability?startDate=${start.toISOString()}&endDate=${end.toISOString()}&basis=${basis}`
       );
       if (!res.ok) throw new Error("Failed to load profitability");
       return res.json();
     },
   });
 
+  const defaultBasisMutation = useMutation({
+    mutationFn: async (next: ReportingBasis) => {
+      const res = await fetch("/api/finance/reporting-basis", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ basis: next }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to update reporting basis");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Default reporting basis updated");
+      queryClient.invalidateQueries({ queryKey: ["reportingBasis"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const exportHref = `/api/export/report?type=profitability&format=csv${basis ? `&basis=${basis}` : ""}`;
+
   const { data: cashFlow, isLoading: loadingCash } = useQuery({
     queryKey: ["cashFlow"],
     queryFn: async () => {
@@ -75,7 +118,7 @@ export default function FinancePage() {
   });
 
   const refreshMutation = useMutation({
-    mutationFn: () => fetch("/api/finance/snapshot/refresh", { method: "POST" }),
+    mutationFn: () => runJob("/api/finance/snapshot/refresh"),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["profitability"] });
       queryClient.invalidateQueries({ queryKey: ["cashFlow"] });
@@ -124,6 +167,25 @@ export default function FinancePage() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Select
+            value={basis ?? "cash"}
+            onChange={(e) => setSelectedBasis(e.target.value as ReportingBasis)}
+            className="h-8 w-36"
+            title="Reporting basis"
+          >
+            <option value="cash">Cash basis</option>
+            <option value="accrual">Accrual basis</option>
+          </Select>
+          {canAdmin && basis && defaultBasis && basis !== defaultBasis && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => defaultBasisMutation.mutate(basis)}
+              disabled={defaultBasisMutation.isPending}
+            >
+              Make default
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -133,7 +195,7 @@ export default function FinancePage() {
             <RefreshCw size={14} className={refreshMutation.isPending ? "animate-spin" : ""} />
             <span className="ml-1">Refresh</span>
           </Button>
-          <Link href="/api/export/report?type=profitability&format=csv">
+          <Link href={exportHref}>
             <Button variant="outline" size="sm">
               <Download size={14} />
               <span className="ml-1">Export CSV</span>
@@ -204,6 +266,46 @@ export default function FinancePage() {
         />
       </div>
 
+      {/* Accrual: what's billed but not yet paid */}
+      {profitability?.openItems && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Open Invoices & Bills</CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              Counted in accrual results but not yet received or paid
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-2 text-sm">
+              <div>
+                <p className="text-muted-foreground">Receivables</p>
+                <p className="text-lg font-bold">
+                  {formatCurrency(profitability.openItems.receivables.total)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {profitability.openItems.receivables.count} invoices ·{" "}
+                  <span className={profitability.openItems.receivables.overdue > 0 ? "text-orange-400" : ""}>
+                    {formatCurrency(profitability.openItems.receivables.overdue)} overdue
+                  </span>
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Payables</p>
+                <p className="text-lg font-bold">
+                  {formatCurrency(profitability.openItems.payables.total)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {profitability.openItems.payables.count} bills ·{" "}
+                  <span className={profitability.openItems.payables.overdue > 0 ? "text-orange-400" : ""}>
+                    {formatCurrency(profitability.openItems.payables.overdue)} overdue
+                  </span>
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts Row */}
       <div className="grid gap-4 lg:grid-cols-3">
         {/* Profitability Chart */}
@@ -211,7 +313,7 @@ export default function FinancePage() {
           <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle className="text-base">Monthly Profitability</CardTitle>
             <Link
-              href="/api/export/report?type=profitability&format=csv"
+              href={exportHref}
               className="text-xs text-muted-foreground hover:text-foreground"
             >
               Export
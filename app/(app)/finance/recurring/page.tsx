@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { Repeat, TrendingDown, TrendingUp, User } from "lucide-react";
+
+interface PriceChange {
+  previousAmount: number;
+  currentAmount: number;
+  changePercent: number;
+  changedOn: string;
+}
+
+interface RecurringCharge {
+  name: string;
+  vendorKey: string;
+  cadence: "monthly" | "quarterly" | "annual";
+  category: "business" | "personal" | "ambiguous" | null;
+  accountRef: string | null;
+  lastAmount: number;
+  annualizedCost: number;
+  occurrences: number;
+  firstSeen: string;
+  lastSeen: string;
+  nextExpectedDate: string;
+  status: "active" | "lapsed";
+  priceChange: PriceChange | null;
+}
+
+interface RecurringSummary {
+  charges: RecurringCharge[];
+  totals: {
+    annualized: number;
+    business: number;
+    personal: number;
+    activeCount: number;
+    priceIncreases: number;
+  };
+}
+
+function formatCurrency(n: number, cents = false): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: cents ? 2 : 0,
+  }).format(n);
+}
+
+export default function RecurringChargesPage() {
+  const [showLapsed, setShowLapsed] = useState(false);
+
+  const { data, isLoading } = useQuery<RecurringSummary>({
+    queryKey: ["recurring-charges"],
+    queryFn: async () => {
+      const res = await fetch("/api/finance/recurring");
+      if (!res.ok) throw new Error("Failed to load recurring charges");
+      return res.json();
+    },
+  });
+
+  const charges = (data?.charges ?? []).filter((c) => showLapsed || c.status === "active");
+  const personal = (data?.charges ?? []).filter(
+    (c) => c.status === "active" && c.category === "personal"
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Subscriptions & Recurring Charges</h1>
+        <p className="text-muted-foreground mt-1">
+          Charges that repeat monthly, quarterly or annually, with what they cost per
+          year and when the next one is due
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Annualized cost</p>
+            <p className="text-2xl font-bold">{formatCurrency(data?.totals.annualized ?? 0)}</p>
+            <p className="text-xs text-muted-foreground">
+              {data?.totals.activeCount ?? 0} active charges
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Business</p>
+            <p className="text-2xl font-bold">{formatCurrency(data?.totals.business ?? 0)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Personal, paid by the practice</p>
+            <p className={cn("text-2xl font-bold", personal.length > 0 && "text-amber-600")}>
+              {formatCurrency(data?.totals.personal ?? 0)}
+            </p>
+            <p className="text-xs text-muted-foreground">{personal.length} charges</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Price increases</p>
+            <p className="text-2xl font-bold">{data?.totals.priceIncreases ?? 0}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Repeat size={18} />
+              Recurring charges
+            </CardTitle>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={showLapsed}
+                onChange={(e) => setShowLapsed(e.target.checked)}
+              />
+              Show lapsed
+            </label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Looking for recurring charges...</p>
+          ) : charges.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No recurring charges found yet. A charge needs at least three monthly or
+              quarterly occurrences, or two annual renewals.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Vendor</th>
+                  <th className="py-2 pr-4 font-medium">Cadence</th>
+                  <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                  <th className="py-2 pr-4 font-medium text-right">Per year</th>
+                  <th className="py-2 pr-4 font-medium">Next expected</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {charges.map((c) => (
+                  <tr
+                    key={`${c.vendorKey}:${c.cadence}:${c.lastAmount}`}
+                    className={cn(
+                      "border-b border-border/50",
+                      c.status === "lapsed" && "text-muted-foreground"
+                    )}
+                  >
+                    <td className="py-2 pr-4">
+                      <p>{c.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {c.occurrences} charges since {new Date(c.firstSeen).toLocaleDateString()}
+                        {c.accountRef && ` · ${c.accountRef}`}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-4 capitalize">{c.cadence}</td>
+                    <td className="py-2 pr-4 text-right font-mono">
+                      {formatCurrency(c.lastAmount, true)}
+                    </td>
+                    <td className="py-2 pr-4 text-right font-mono">
+                      {formatCurrency(c.annualizedCost)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {c.status === "lapsed" ? (
+                        <span className="text-xs">
+                          Lapsed — last charged {new Date(c.lastSeen).toLocaleDateString()}
+                        </span>
+                      ) : (
+                        new Date(c.nextExpectedDate).toLocaleDateString()
+                      )}
+                    </td>
+                    <td className="py-2">
+                      <div className="flex flex-wrap gap-1 justify-end">
+                        {c.category === "personal" && (
+                          <Badge variant="outline" className="text-amber-600 border-amber-600/40">
+                            <User size={12} className="mr-1" />
+                            Personal
+                          </Badge>
+                        )}
+                        {c.priceChange && (
+                          <Badge
+                            variant="outline"
+                            className={
+                              c.priceChange.changePercent > 0 ? "text-red-600" : "text-green-600"
+                            }
+                            title={`${formatCurrency(c.priceChange.previousAmount, true)} → ${formatCurrency(
+                              c.priceChange.currentAmount,
+                              true
+                            )} on ${new Date(c.priceChange.changedOn).toLocaleDateString()}`}
+                          >
+                            {c.priceChange.changePercent > 0 ? (
+                              <TrendingUp size={12} className="mr-1" />
+                            ) : (
+                              <TrendingDown size={12} className="mr-1" />
+                            )}
+                            {c.priceChange.changePercent > 0 ? "+" : ""}
+                            {c.priceChange.changePercent}%
+                          </Badge>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
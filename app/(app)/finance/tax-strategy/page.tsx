@@ -118,7 +118,8 @@ function deadlineColor(dateStr: string): string {
 
 export default function TaxStrategyPage() {
   const queryClient = useQueryClient();
-  const { canWrite } = usePermissions();
+  const { can } = usePermissions();
+  const canWrite = can("reports:write");
   const currentYear = new Date().getFullYear();
   const [taxYear, setTaxYear] = useState(currentYear);
   const [showDismissed, setShowDismissed] = useState(false);
@@ -1,10 +1,14 @@
 import { AppSidebar } from "@/components/layout/sidebar";
+import { TwoFactorBanner } from "@/components/layout/two-factor-banner";
 
 export default function AppLayout({ children }: { children: React.ReactNode }) {
   return (
     <div className="flex h-screen overflow-hidden">
       <AppSidebar />
-      <main className="flex-1 overflow-y-auto">{children}</main>
+      <main className="flex-1 overflow-y-auto">
+        <TwoFactorBanner />
+        {children}
+      </main>
     </div>
   );
 }
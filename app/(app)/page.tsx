@@ -11,6 +11,7 @@ import {
   Receipt,
   CheckCircle,
   AlertTriangle,
+  Activity,
   HelpCircle,
   DollarSign,
   ArrowRight,
@@ -81,6 +82,7 @@ interface CFOBriefingData {
     taxAlerts: number;
     referralOpportunities: number;
     budgetOverages: number;
+    anomalies: number;
   };
 }
 
@@ -130,7 +132,7 @@ function formatCurrency(value: number): string {
 }
 
 export default function DashboardPage() {
-  const { canWrite, role } = usePermissions();
+  const { can, role } = usePermissions();
   const [onboardingOpen, setOnboardingOpen] = useState(true);
 
   const { data, isLoading } = useQuery<DashboardData>({
@@ -176,7 +178,8 @@ export default function DashboardPage() {
   const totalAlerts =
     (briefing?.activeAlerts.taxAlerts ?? 0) +
     (briefing?.activeAlerts.referralOpportunities ?? 0) +
-    (briefing?.activeAlerts.budgetOverages ?? 0);
+    (briefing?.activeAlerts.budgetOverages ?? 0) +
+    (briefing?.activeAlerts.anomalies ?? 0);
 
   const stats = [
     {
@@ -224,7 +227,7 @@ export default function DashboardPage() {
           </p>
         </div>
         <div className="flex items-center gap-3">
-          {canWrite && <QuickActions />}
+          {can("transactions:write") && <QuickActions />}
           {data?.qboConnected === false && (
             <Badge variant="outline" className="text-yellow-500 border-yellow-500">
               Demo Mode
@@ -369,6 +372,12 @@ export default function DashboardPage() {
                   {briefing.activeAlerts.budgetOverages} budget overage{briefing.activeAlerts.budgetOverages > 1 ? "s" : ""}
                 </Link>
               )}
+              {briefing.activeAlerts.anomalies > 0 && (
+                <Link href="/finance/anomalies" className="flex items-center gap-1.5 text-red-400 hover:text-red-300">
+                  <Activity size={13} />
+                  {briefing.activeAlerts.anomalies} unusual item{briefing.activeAlerts.anomalies > 1 ? "s" : ""}
+                </Link>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,345 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import { Briefcase, ClipboardCheck, FileText, ExternalLink, ShieldAlert, Sparkles } from "lucide-react";
+
+type OverheadStatus = "healthy" | "normal" | "elevated" | "critical";
+type PortfolioAction = "categorize" | "reports";
+
+interface PortfolioPractice {
+  practiceId: string;
+  name: string;
+  industry: string;
+  role: string;
+  customRole: string | null;
+  isDefault: boolean;
+  reviewBacklog: { needsReview: number; uncategorized: number };
+  overhead: { ratio: number; status: OverheadStatus; computedAt: string } | null;
+  dscr: number | null;
+  openTaxAlerts: number;
+  lastSync: { at: string; source: "qbo" | "plaid" } | null;
+  qboConnected: boolean;
+}
+
+interface LockedPractice {
+  practiceId: string;
+  name: string;
+  reason: string;
+}
+
+interface ActionResult {
+  queued: { practiceId: string; jobIds: string[] }[];
+  skipped: { practiceId: string; reason: string }[];
+}
+
+const OVERHEAD_STYLES: Record<OverheadStatus, string> = {
+  healthy: "bg-green-500/20 text-green-400 border-green-500/30",
+  normal: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  elevated: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  critical: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+const ACTION_LABELS: Record<PortfolioAction, string> = {
+  categorize: "Categorization",
+  reports: "Report refresh",
+};
+
+function dscrColor(dscr: number): string {
+  if (dscr >= 1.5) return "text-green-400";
+  if (dscr >= 1.25) return "text-yellow-400";
+  return "text-red-400";
+}
+
+function formatSync(at: string): string {
+  const days = Math.floor((Date.now() - new Date(at).getTime()) / 86_400_000);
+  if (days === 0) return "Today";
+  if (days === 1) return "Yesterday";
+  return `${days} days ago`;
+}
+
+export default function PortfolioPage() {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [opening, setOpening] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ practices: PortfolioPractice[]; locked: LockedPractice[] }>({
+    queryKey: ["portfolio"],
+    queryFn: async () => {
+      const res = await fetch("/api/portfolio");
+      if (!res.ok) throw new Error("Failed to load portfolio");
+      return res.json();
+    },
+  });
+
+  const practices = data?.practices ?? [];
+  const locked = data?.locked ?? [];
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: PortfolioAction): Promise<ActionResult> => {
+      const res = await fetch("/api/portfolio/actions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          practiceIds: selected.size > 0 ? [...selected] : undefined,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to queue action");
+      return body;
+    },
+    onSuccess: (result, action) => {
+      const count = result.queued.length;
+      toast.success(
+        `${ACTION_LABELS[action]} queued for ${count} practice${count === 1 ? "" : "s"}`
+      );
+      if (result.skipped.length > 0) {
+        toast.warning(
+          `Skipped ${result.skipped.length} practice${result.skipped.length === 1 ? "" : "s"} without access`
+        );
+      }
+      queryClient.invalidateQueries({ queryKey: ["portfolio"] });
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  async function openPractice(practiceId: string) {
+    setOpening(practiceId);
+    try {
+      const res = await fetch("/api/auth/switch-practice", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ practiceId }),
+      });
+      if (!res.ok) {
+        const body = await res.json();
+        toast.error(body.error || "Failed to open practice");
+        return;
+      }
+      // Full navigation so the dashboard loads under the refreshed session
+      window.location.href = "/";
+    } catch {
+      toast.error("Failed to open practice");
+    } finally {
+      setOpening(null);
+    }
+  }
+
+  function toggle(practiceId: string) {
+    const next = new Set(selected);
+    if (next.has(practiceId)) next.delete(practiceId);
+    else next.add(practiceId);
+    setSelected(next);
+  }
+
+  const allSelected = practices.length > 0 && selected.size === practices.length;
+  const totals = {
+    backlog: practices.reduce(
+      (sum, p) => sum + p.reviewBacklog.needsReview + p.reviewBacklog.uncategorized,
+      0
+    ),
+    alerts: practices.reduce((sum, p) => sum + p.openTaxAlerts, 0),
+    overheadFlags: practices.filter(
+      (p) => p.overhead?.status === "elevated" || p.overhead?.status === "critical"
+    ).length,
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Portfolio</h1>
+          <p className="text-muted-foreground mt-1">
+            Every client practice you advise, with what needs attention first
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => actionMutation.mutate("categorize")}
+            disabled={actionMutation.isPending || practices.length === 0}
+          >
+            <Sparkles size={14} className="mr-1" />
+            Categorize {selected.size > 0 ? `(${selected.size})` : "All"}
+          </Button>
+          <Button
+            onClick={() => actionMutation.mutate("reports")}
+            disabled={actionMutation.isPending || practices.length === 0}
+          >
+            <FileText size={14} className="mr-1" />
+            Generate Reports {selected.size > 0 ? `(${selected.size})` : "for All"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Practices</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{practices.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Review Backlog</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{totals.backlog.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Overhead Flags</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{totals.overheadFlags}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Open Tax Alerts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{totals.alerts}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {locked.length > 0 && (
+        <div className="flex items-start gap-3 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-4 text-sm">
+          <ShieldAlert size={18} className="mt-0.5 shrink-0 text-yellow-400" />
+          <p>
+            {locked.map((p) => p.name).join(", ")}{" "}
+            {locked.length === 1 ? "requires" : "require"} two-factor authentication.{" "}
+            <Link href="/settings/security" className="underline">
+              Set it up
+            </Link>{" "}
+            to see {locked.length === 1 ? "it" : "them"} here.
+          </p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Briefcase size={18} />
+            Client Practices
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading portfolio...</p>
+          ) : practices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You don&apos;t have report access to any practices yet.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs text-muted-foreground">
+                    <th className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={() =>
+                          setSelected(
+                            allSelected ? new Set() : new Set(practices.map((p) => p.practiceId))
+                          )
+                        }
+                      />
+                    </th>
+                    <th className="py-2 font-medium">Practice</th>
+                    <th className="py-2 font-medium text-right">Review Backlog</th>
+                    <th className="py-2 font-medium text-center">Overhead</th>
+                    <th className="py-2 font-medium text-right">DSCR</th>
+                    <th className="py-2 font-medium text-right">Tax Alerts</th>
+                    <th className="py-2 font-medium">Last Sync</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {practices.map((p) => (
+                    <tr key={p.practiceId} className="border-b border-border/50">
+                      <td className="py-2 pr-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(p.practiceId)}
+                          onChange={() => toggle(p.practiceId)}
+                        />
+                      </td>
+                      <td className="py-2">
+                        <p className="font-medium">{p.name}</p>
+                        <p className="text-xs text-muted-foreground capitalize">
+                          {p.industry} · {p.customRole ?? p.role}
+                        </p>
+                      </td>
+                      <td className="py-2 text-right">
+                        <span className="inline-flex items-center gap-1">
+                          <ClipboardCheck size={12} className="text-muted-foreground" />
+                          {p.reviewBacklog.needsReview + p.reviewBacklog.uncategorized}
+                        </span>
+                        {p.reviewBacklog.uncategorized > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {p.reviewBacklog.uncategorized} uncategorized
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-2 text-center">
+                        {p.overhead ? (
+                          <Badge variant="outline" className={OVERHEAD_STYLES[p.overhead.status]}>
+                            {Math.round(p.overhead.ratio * 100)}% · {p.overhead.status}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className={cn("py-2 text-right font-medium", p.dscr != null && dscrColor(p.dscr))}>
+                        {p.dscr != null ? `${p.dscr.toFixed(2)}x` : "—"}
+                      </td>
+                      <td className={cn("py-2 text-right", p.openTaxAlerts > 0 && "text-yellow-400")}>
+                        {p.openTaxAlerts}
+                      </td>
+                      <td className="py-2">
+                        {p.lastSync ? (
+                          <span>
+                            {formatSync(p.lastSync.at)}
+                            <span className="ml-1 text-xs text-muted-foreground uppercase">
+                              {p.lastSync.source}
+                            </span>
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">Never</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openPractice(p.practiceId)}
+                          disabled={opening !== null}
+                        >
+                          <ExternalLink size={14} className="mr-1" />
+                          Open
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -165,7 +165,8 @@ function statusBadge(status: string) {
 
 export default function ReferralsPage() {
   const queryClient = useQueryClient();
-  const { canWrite } = usePermissions();
+  const { can } = usePermissions();
+  const canWrite = can("referrals:write");
   const [showDismissed, setShowDismissed] = useState(false);
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   const [showHowItWorks, setShowHowItWorks] = useState(false);
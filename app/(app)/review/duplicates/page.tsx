@@ -0,0 +1,213 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+import { runJob } from "@/lib/jobs/client";
+import { toast } from "sonner";
+import { Copy, Merge, ScanSearch, Split } from "lucide-react";
+
+interface DuplicateSide {
+  id: string;
+  source: "qbo" | "plaid" | "file";
+  date: string;
+  amount: string;
+  vendorName: string | null;
+  description: string | null;
+  accountRef: string | null;
+}
+
+interface DuplicateCandidate {
+  id: string;
+  score: number;
+  reasons: string[];
+  transaction: DuplicateSide;
+  duplicate: DuplicateSide;
+}
+
+const SOURCE_LABELS: Record<DuplicateSide["source"], string> = {
+  qbo: "QuickBooks",
+  plaid: "Bank feed",
+  file: "Statement import",
+};
+
+function formatAmount(amount: string) {
+  const value = parseFloat(amount);
+  const formatted = `$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2 })}`;
+  return value < 0 ? `-${formatted}` : formatted;
+}
+
+function Side({ side }: { side: DuplicateSide }) {
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="text-xs">
+          {SOURCE_LABELS[side.source]}
+        </Badge>
+        <span className="font-mono text-sm">{formatAmount(side.amount)}</span>
+      </div>
+      <p className="text-sm">{side.vendorName || side.description || "Unknown"}</p>
+      <p className="text-xs text-muted-foreground">
+        {new Date(side.date).toLocaleDateString()}
+        {side.accountRef && ` · ${side.accountRef}`}
+      </p>
+    </div>
+  );
+}
+
+export default function DuplicatesPage() {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canWrite = can("transactions:write");
+
+  const { data, isLoading } = useQuery<{ candidates: DuplicateCandidate[] }>({
+    queryKey: ["duplicate-candidates"],
+    queryFn: async () => {
+      const res = await fetch("/api/transactions/duplicates");
+      if (!res.ok) throw new Error("Failed to load suspected duplicates");
+      return res.json();
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["duplicate-candidates"] });
+    queryClient.invalidateQueries({ queryKey: ["all-transactions"] });
+  };
+
+  const detectMutation = useMutation({
+    mutationFn: () => runJob<{ found: number }>("/api/transactions/duplicates"),
+    onSuccess: (result) => {
+      toast.success(`Found ${result.found} new suspected duplicates`);
+      refresh();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({
+      id,
+      action,
+      keepId,
+    }: {
+      id: string;
+      action: "merge" | "keep";
+      keepId?: string;
+    }) => {
+      const res = await fetch(`/api/transactions/duplicates/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, keepId }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to resolve");
+      return body;
+    },
+    onSuccess: (_, { action }) => {
+      toast.success(
+        action === "merge"
+          ? "Merged — reports now count one copy"
+          : "Kept both as separate transactions"
+      );
+      refresh();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const candidates = data?.candidates ?? [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Suspected Duplicates</h1>
+          <p className="text-muted-foreground mt-1">
+            The same charge recorded twice, usually once in QuickBooks and once
+            from a bank feed. Merging keeps one copy in every report.
+          </p>
+        </div>
+        {canWrite && (
+          <Button onClick={() => detectMutation.mutate()} disabled={detectMutation.isPending}>
+            <ScanSearch size={16} className="mr-2" />
+            {detectMutation.isPending ? "Scanning..." : "Scan for duplicates"}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Copy size={18} />
+            Review queue
+            {candidates.length > 0 && <Badge variant="outline">{candidates.length} pending</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading suspected duplicates...</p>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No suspected duplicates to review.</p>
+          ) : (
+            <div className="divide-y">
+              {candidates.map((c) => (
+                <div key={c.id} className="py-4 space-y-3">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge>{c.score}% match</Badge>
+                    {c.reasons.map((reason) => (
+                      <span key={reason} className="text-xs text-muted-foreground">
+                        {reason}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Side side={c.transaction} />
+                    <Side side={c.duplicate} />
+                  </div>
+                  {canWrite && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => resolveMutation.mutate({ id: c.id, action: "merge" })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <Merge size={14} className="mr-1" />
+                        Merge, keep {SOURCE_LABELS[c.transaction.source]}
+                      </Button>
+                      {c.transaction.source !== c.duplicate.source && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            resolveMutation.mutate({
+                              id: c.id,
+                              action: "merge",
+                              keepId: c.duplicate.id,
+                            })
+                          }
+                          disabled={resolveMutation.isPending}
+                        >
+                          <Merge size={14} className="mr-1" />
+                          Keep {SOURCE_LABELS[c.duplicate.source]}
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => resolveMutation.mutate({ id: c.id, action: "keep" })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <Split size={14} className="mr-1" />
+                        Not a duplicate
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
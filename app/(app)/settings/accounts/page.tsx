@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { Trash2, RefreshCw, Landmark, CreditCard, Wallet, Building2 } from "lucide-react";
 import PlaidLinkButton from "@/components/plaid/plaid-link-button";
+import { runJob } from "@/lib/jobs/client";
 
 interface PlaidAccount {
   id: string;
@@ -63,12 +64,16 @@ export default function ConnectedAccountsPage() {
   });
 
   const syncMutation = useMutation({
-    mutationFn: () => fetch("/api/plaid/sync", { method: "POST" }),
-    onSuccess: () => {
-      toast.success("Balances refreshed");
+    mutationFn: () => runJob<{ transactionsAdded: number }>("/api/plaid/sync"),
+    onSuccess: (data) => {
+      toast.success(
+        data.transactionsAdded > 0
+          ? `Balances refreshed, ${data.transactionsAdded} new transactions imported`
+          : "Balances refreshed"
+      );
       queryClient.invalidateQueries({ queryKey: ["plaid-accounts"] });
     },
-    onError: () => toast.error("Failed to sync balances"),
+    onError: () => toast.error("Failed to sync accounts"),
   });
 
   const disconnectMutation = useMutation({
@@ -116,7 +121,7 @@ export default function ConnectedAccountsPage() {
         <div>
           <h1 className="text-2xl font-bold">Connected Accounts</h1>
           <p className="text-muted-foreground mt-1">
-            Manage bank connections for net worth tracking
+            Manage bank connections for net worth tracking and transaction import
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -131,7 +136,7 @@ export default function ConnectedAccountsPage() {
                 size={14}
                 className={syncMutation.isPending ? "animate-spin" : ""}
               />
-              <span className="ml-1">Refresh Balances</span>
+              <span className="ml-1">Sync Accounts</span>
             </Button>
           )}
           <PlaidLinkButton
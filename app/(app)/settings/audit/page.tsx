@@ -0,0 +1,349 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Download, ScrollText, ShieldCheck, ShieldX, ChevronDown, ChevronRight } from "lucide-react";
+
+interface AuditEntry {
+  id: string;
+  sequence: number | null;
+  createdAt: string;
+  userId: string | null;
+  userName: string | null;
+  userEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  oldValue: unknown;
+  newValue: unknown;
+  hash: string | null;
+}
+
+interface AuditResponse {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: {
+    actions: string[];
+    entityTypes: string[];
+    users: { id: string; name: string; email: string }[];
+  };
+}
+
+interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  unchained: number;
+  head: { sequence: number; hash: string } | null;
+  brokenAt: { id: string; sequence: number; reason: string } | null;
+  verifiedAt: string;
+}
+
+const EMPTY_FILTERS = { userId: "", action: "", entityType: "", from: "", to: "" };
+
+function humanize(value: string): string {
+  return value.replace(/[_.]/g, " ");
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const query = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => value !== "")
+  );
+
+  const { data, isLoading } = useQuery<AuditResponse>({
+    queryKey: ["audit-log", query.toString(), page],
+    queryFn: async () => {
+      const res = await fetch(`/api/audit?${query.toString()}&page=${page}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to load audit log");
+      return body;
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (): Promise<ChainVerification> => {
+      const res = await fetch("/api/audit/verify");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to verify audit log");
+      return body;
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  function updateFilter(key: keyof typeof EMPTY_FILTERS, value: string) {
+    setFilters({ ...filters, [key]: value });
+    setPage(1);
+  }
+
+  const entries = data?.entries ?? [];
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const verification = verifyMutation.data;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground mt-1">
+            Every change made in this practice, chained so edits and deletions are detectable
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => verifyMutation.mutate()}
+            disabled={verifyMutation.isPending}
+          >
+            <ShieldCheck size={14} className="mr-1" />
+            {verifyMutation.isPending ? "Verifying..." : "Verify Integrity"}
+          </Button>
+          <Button asChild>
+            <a href={`/api/audit/export?${query.toString()}`}>
+              <Download size={14} className="mr-1" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {verification && (
+        <div
+          className={`flex items-start gap-3 rounded-lg border p-4 text-sm ${
+            verification.valid
+              ? "border-green-700/50 bg-green-500/5"
+              : "border-red-700/50 bg-red-500/5"
+          }`}
+        >
+          {verification.valid ? (
+            <ShieldCheck size={18} className="shrink-0 text-green-400" />
+          ) : (
+            <ShieldX size={18} className="shrink-0 text-red-400" />
+          )}
+          <div className="space-y-1 min-w-0">
+            {verification.valid ? (
+              <p className="font-medium">
+                All {verification.checked.toLocaleString()} chained entries verified
+              </p>
+            ) : (
+              <p className="font-medium">
+                Chain broken at entry #{verification.brokenAt?.sequence}:{" "}
+                {verification.brokenAt?.reason}
+              </p>
+            )}
+            {verification.head && (
+              <p className="text-xs text-muted-foreground break-all">
+                Head hash (#{verification.head.sequence}): <span className="font-mono">{verification.head.hash}</span>
+              </p>
+            )}
+            {verification.unchained > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {verification.unchained.toLocaleString()} entries predate hash chaining and can&apos;t be verified.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">User</label>
+              <Select value={filters.userId} onChange={(e) => updateFilter("userId", e.target.value)}>
+                <option value="">All users</option>
+                {data?.facets.users.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Action</label>
+              <Select value={filters.action} onChange={(e) => updateFilter("action", e.target.value)}>
+                <option value="">All actions</option>
+                {data?.facets.actions.map((a) => (
+                  <option key={a} value={a}>
+                    {humanize(a)}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Entity</label>
+              <Select
+                value={filters.entityType}
+                onChange={(e) => updateFilter("entityType", e.target.value)}
+              >
+                <option value="">All entities</option>
+                {data?.facets.entityTypes.map((t) => (
+                  <option key={t} value={t}>
+                    {humanize(t)}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">From</label>
+              <Input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter("from", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">To</label>
+              <Input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter("to", e.target.value)}
+              />
+            </div>
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setFilters(EMPTY_FILTERS);
+                setPage(1);
+              }}
+            >
+              Clear
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText size={18} />
+            Entries
+            {data && (
+              <span className="text-sm font-normal text-muted-foreground">
+                {data.total.toLocaleString()} total
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading audit log...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No entries match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-muted-foreground">
+                  <th className="py-2 w-6" />
+                  <th className="py-2 font-medium">#</th>
+                  <th className="py-2 font-medium">When</th>
+                  <th className="py-2 font-medium">User</th>
+                  <th className="py-2 font-medium">Action</th>
+                  <th className="py-2 font-medium">Entity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const isOpen = expanded === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr
+                        className="border-b border-border/50 hover:bg-accent/50 cursor-pointer"
+                        onClick={() => setExpanded(isOpen ? null : entry.id)}
+                      >
+                        <td className="py-2 text-muted-foreground">
+                          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        </td>
+                        <td className="py-2 text-muted-foreground">{entry.sequence ?? "—"}</td>
+                        <td className="py-2 whitespace-nowrap">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="py-2">{entry.userName ?? "System"}</td>
+                        <td className="py-2">
+                          <Badge variant="outline" className="capitalize">
+                            {humanize(entry.action)}
+                          </Badge>
+                        </td>
+                        <td className="py-2 text-muted-foreground">
+                          <span className="capitalize">{humanize(entry.entityType)}</span>
+                          {entry.entityId && (
+                            <span className="ml-1 font-mono text-xs">{entry.entityId.slice(0, 8)}</span>
+                          )}
+                        </td>
+                      </tr>
+                      {isOpen && (
+                        <tr className="border-b border-border/50">
+                          <td colSpan={6} className="py-3">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                              <div>
+                                <p className="text-xs text-muted-foreground mb-1">Before</p>
+                                <pre className="rounded-md bg-muted/30 p-2 text-xs overflow-x-auto">
+                                  {formatValue(entry.oldValue)}
+                                </pre>
+                              </div>
+                              <div>
+                                <p className="text-xs text-muted-foreground mb-1">After</p>
+                                <pre className="rounded-md bg-muted/30 p-2 text-xs overflow-x-auto">
+                                  {formatValue(entry.newValue)}
+                                </pre>
+                              </div>
+                            </div>
+                            {entry.hash && (
+                              <p className="mt-2 text-xs text-muted-foreground break-all">
+                                Hash: <span className="font-mono">{entry.hash}</span>
+                              </p>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+import { toast } from "sonner";
+import { CalendarClock, History, Pause, Play, Zap } from "lucide-react";
+
+type Cadence = "daily" | "weekly" | "monthly" | "quarterly";
+type RunStatus = "queued" | "running" | "completed" | "failed";
+
+interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  task: string;
+  trigger: "schedule" | "manual";
+  status: RunStatus;
+  result: unknown;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+interface Schedule {
+  id: string;
+  task: string;
+  label: string;
+  description: string;
+  cadence: Cadence;
+  hour: number;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  isPaused: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  lastRun: ScheduleRun | null;
+}
+
+interface SchedulesResponse {
+  timeZone: string;
+  fiscalYearStart: number;
+  schedules: Schedule[];
+}
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+function formatHour(hour: number) {
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`;
+}
+
+function formatInZone(iso: string | null, timeZone: string) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone,
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function statusClass(status: RunStatus) {
+  switch (status) {
+    case "completed":
+      return "border-green-700 text-green-400";
+    case "failed":
+      return "border-red-700 text-red-400";
+    default:
+      return "border-blue-700 text-blue-400";
+  }
+}
+
+async function putJson(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Request failed");
+  return data;
+}
+
+export default function AutomationSettingsPage() {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canAdmin = can("settings:write");
+  const [timeZone, setTimeZone] = useState("");
+  const [fiscalYearStart, setFiscalYearStart] = useState(1);
+
+  const { data, isLoading } = useQuery<SchedulesResponse>({
+    queryKey: ["schedules"],
+    queryFn: async () => {
+      const res = await fetch("/api/schedules");
+      if (!res.ok) throw new Error("Failed to load schedules");
+      return res.json();
+    },
+  });
+
+  const { data: runData } = useQuery<{ runs: ScheduleRun[] }>({
+    queryKey: ["schedule-runs"],
+    queryFn: async () => {
+      const res = await fetch("/api/schedules/runs?limit=50");
+      if (!res.ok) return { runs: [] };
+      return res.json();
+    },
+    // Keep polling while anything is in flight
+    refetchInterval: (query) =>
+      query.state.data?.runs.some((r) => r.status === "queued" || r.status === "running")
+        ? 3000
+        : false,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setTimeZone(data.timeZone);
+      setFiscalYearStart(data.fiscalYearStart);
+    }
+  }, [data]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["schedules"] });
+    queryClient.invalidateQueries({ queryKey: ["schedule-runs"] });
+  };
+
+  const calendarMutation = useMutation({
+    mutationFn: () => putJson("/api/schedules", { timeZone, fiscalYearStart }),
+    onSuccess: () => {
+      toast.success("Schedule settings saved");
+      refresh();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...changes }: { id: string } & Partial<Schedule>) =>
+      putJson(`/api/schedules/${id}`, changes),
+    onSuccess: refresh,
+    onError: (err) => toast.error(err.message),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/schedules/${id}/run`, { method: "POST" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to start task");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Task started");
+      refresh();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const zone = data?.timeZone ?? "UTC";
+  const labels = new Map(data?.schedules.map((s) => [s.task, s.label]));
+  const runs = runData?.runs ?? [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Automation</h1>
+        <p className="text-muted-foreground mt-1">
+          Recurring syncs, refreshes and emails for this practice
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Practice Calendar</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Time zone</label>
+              <Input
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                placeholder="America/New_York"
+                disabled={!canAdmin}
+                className="w-64"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Fiscal year starts</label>
+              <Select
+                value={fiscalYearStart}
+                onChange={(e) => setFiscalYearStart(parseInt(e.target.value, 10))}
+                disabled={!canAdmin}
+                className="w-44"
+              >
+                {MONTHS.map((m, i) => (
+                  <option key={m} value={i + 1}>
+                    {m}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            {canAdmin && (
+              <Button
+                size="sm"
+                onClick={() => calendarMutation.mutate()}
+                disabled={calendarMutation.isPending}
+              >
+                Save
+              </Button>
+            )}
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Times below are in this time zone. Quarterly tasks run in the first
+            month of each fiscal quarter.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <CalendarClock size={18} />
+            Schedules
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading schedules...</p>
+          ) : (
+            data?.schedules.map((s) => (
+              <div
+                key={s.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-border/50 px-4 py-3"
+              >
+                <div className="min-w-[220px]">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium">{s.label}</p>
+                    {s.isPaused && <Badge variant="outline">Paused</Badge>}
+                    {s.lastRun && (
+                      <Badge variant="outline" className={`capitalize ${statusClass(s.lastRun.status)}`}>
+                        {s.lastRun.status}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-0.5">{s.description}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Next: {s.isPaused ? "—" : formatInZone(s.nextRunAt, zone)} · Last:{" "}
+                    {formatInZone(s.lastRunAt, zone)}
+                  </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={s.cadence}
+                    onChange={(e) => {
+                      const cadence = e.target.value as Cadence;
+                      updateMutation.mutate({
+                        id: s.id,
+                        cadence,
+                        dayOfWeek: cadence === "weekly" ? s.dayOfWeek ?? 1 : null,
+                        dayOfMonth:
+                          cadence === "monthly" || cadence === "quarterly" ? s.dayOfMonth ?? 1 : null,
+                      });
+                    }}
+                    disabled={!canAdmin || updateMutation.isPending}
+                    className="h-8 w-32"
+                  >
+                    <option value="daily">Daily</option>
+                    <option value="weekly">Weekly</option>
+                    <option value="monthly">Monthly</option>
+                    <option value="quarterly">Quarterly</option>
+                  </Select>
+
+                  {s.cadence === "weekly" && (
+                    <Select
+                      value={s.dayOfWeek ?? 1}
+                      onChange={(e) =>
+                        updateMutation.mutate({ id: s.id, dayOfWeek: parseInt(e.target.value, 10) })
+                      }
+                      disabled={!canAdmin || updateMutation.isPending}
+                      className="h-8 w-32"
+                    >
+                      {WEEKDAYS.map((d, i) => (
+                        <option key={d} value={i}>
+                          {d}
+                        </option>
+                      ))}
+                    </Select>
+                  )}
+
+                  {(s.cadence === "monthly" || s.cadence === "quarterly") && (
+                    <Select
+                      value={s.dayOfMonth ?? 1}
+                      onChange={(e) =>
+                        updateMutation.mutate({ id: s.id, dayOfMonth: parseInt(e.target.value, 10) })
+                      }
+                      disabled={!canAdmin || updateMutation.isPending}
+                      className="h-8 w-24"
+                    >
+                      {Array.from({ length: 28 }, (_, i) => (
+                        <option key={i + 1} value={i + 1}>
+                          Day {i + 1}
+                        </option>
+                      ))}
+                    </Select>
+                  )}
+
+                  <Select
+                    value={s.hour}
+                    onChange={(e) =>
+                      updateMutation.mutate({ id: s.id, hour: parseInt(e.target.value, 10) })
+                    }
+                    disabled={!canAdmin || updateMutation.isPending}
+                    className="h-8 w-28"
+                  >
+                    {Array.from({ length: 24 }, (_, h) => (
+                      <option key={h} value={h}>
+                        {formatHour(h)}
+                      </option>
+                    ))}
+                  </Select>
+
+                  {canAdmin && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateMutation.mutate({ id: s.id, isPaused: !s.isPaused })}
+                        disabled={updateMutation.isPending}
+                        title={s.isPaused ? "Resume" : "Pause"}
+                      >
+                        {s.isPaused ? <Play size={14} /> : <Pause size={14} />}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => runMutation.mutate(s.id)}
+                        disabled={runMutation.isPending}
+                      >
+                        <Zap size={14} className="mr-1" />
+                        Run Now
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <History size={18} />
+            Run History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No runs yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Task</th>
+                  <th className="py-2 pr-4 font-medium">Trigger</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Queued</th>
+                  <th className="py-2 pr-4 font-medium">Finished</th>
+                  <th className="py-2 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((r) => (
+                  <tr key={r.id} className="border-b border-border/50">
+                    <td className="py-2 pr-4">{labels.get(r.task) ?? r.task}</td>
+                    <td className="py-2 pr-4 capitalize text-muted-foreground">{r.trigger}</td>
+                    <td className="py-2 pr-4">
+                      <Badge variant="outline" className={`capitalize ${statusClass(r.status)}`}>
+                        {r.status}
+                      </Badge>
+                    </td>
+                    <td className="py-2 pr-4 text-muted-foreground">{formatInZone(r.createdAt, zone)}</td>
+                    <td className="py-2 pr-4 text-muted-foreground">{formatInZone(r.completedAt, zone)}</td>
+                    <td className="py-2 max-w-xs truncate text-xs text-muted-foreground">
+                      {r.error ? (
+                        <span className="text-red-400">{r.error}</span>
+                      ) : r.result ? (
+                        JSON.stringify(r.result)
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+import { toast } from "sonner";
+import { Download, ListTree } from "lucide-react";
+
+interface ChartAccount {
+  id: string;
+  qboAccountId: string;
+  name: string;
+  fullyQualifiedName: string | null;
+  accountType: string;
+  accountSubType: string | null;
+  parentQboAccountId: string | null;
+  isActive: boolean;
+  role: string | null;
+  roleSource: "auto" | "user";
+}
+
+interface ChartResponse {
+  accounts: ChartAccount[];
+  roles: Record<string, string>;
+}
+
+export default function ChartOfAccountsPage() {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canWrite = can("integrations:write");
+  const [showInactive, setShowInactive] = useState(false);
+
+  const { data, isLoading } = useQuery<ChartResponse>({
+    queryKey: ["chart-of-accounts"],
+    queryFn: async () => {
+      const res = await fetch("/api/chart-of-accounts");
+      if (!res.ok) throw new Error("Failed to load chart of accounts");
+      return res.json();
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/chart-of-accounts", { method: "POST" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Import failed");
+      return body as { imported: number; updated: number; deactivated: number };
+    },
+    onSuccess: (result) => {
+      toast.success(
+        `Imported ${result.imported} new accounts, updated ${result.updated}` +
+          (result.deactivated > 0 ? `, ${result.deactivated} now inactive` : "")
+      );
+      queryClient.invalidateQueries({ queryKey: ["chart-of-accounts"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: string | null }) => {
+      const res = await fetch(`/api/chart-of-accounts/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to update role");
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chart-of-accounts"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const roles = Object.entries(data?.roles ?? {});
+  const accounts = (data?.accounts ?? []).filter((a) => showInactive || a.isActive);
+  const unmapped = accounts.filter((a) => !a.role).length;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Chart of Accounts</h1>
+          <p className="text-muted-foreground mt-1">
+            Map QuickBooks accounts to the roles used by profitability, cash flow,
+            valuation, debt capacity and tax planning
+          </p>
+        </div>
+        {canWrite && (
+          <Button onClick={() => importMutation.mutate()} disabled={importMutation.isPending}>
+            <Download size={16} className="mr-2" />
+            {importMutation.isPending ? "Importing..." : "Import from QuickBooks"}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <ListTree size={18} />
+              Accounts
+              {unmapped > 0 && <Badge variant="outline">{unmapped} without a role</Badge>}
+            </CardTitle>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={(e) => setShowInactive(e.target.checked)}
+              />
+              Show inactive
+            </label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading accounts...</p>
+          ) : accounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No accounts yet. Import your chart of accounts from QuickBooks to map
+              roles; until then, account names are matched by keyword.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Account</th>
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium">Role</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {accounts.map((a) => (
+                  <tr key={a.id} className="border-b border-border/50">
+                    <td className="py-2 pr-4">
+                      <p className={a.isActive ? "" : "text-muted-foreground line-through"}>
+                        {a.fullyQualifiedName ?? a.name}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-4 text-muted-foreground">
+                      {a.accountType}
+                      {a.accountSubType && (
+                        <span className="text-xs"> · {a.accountSubType}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Select
+                        value={a.role ?? ""}
+                        onChange={(e) =>
+                          roleMutation.mutate({ id: a.id, role: e.target.value || null })
+                        }
+                        disabled={!canWrite || roleMutation.isPending}
+                        className="h-8 w-56"
+                      >
+                        <option value="">No role</option>
+                        {roles.map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </Select>
+                    </td>
+                    <td className="py-2">
+                      {a.roleSource === "user" ? (
+                        <Badge variant="outline">Set manually</Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Inferred</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
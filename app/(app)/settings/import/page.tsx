@@ -0,0 +1,431 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+import { toast } from "sonner";
+import { FileUp, Plus, Trash2, Upload } from "lucide-react";
+
+interface ImportProfile {
+  id: string;
+  name: string;
+  accountName: string;
+  columns: {
+    date: string;
+    description: string;
+    vendor?: string;
+    amount?: string;
+    debit?: string;
+    credit?: string;
+  };
+  dateFormat: string;
+  delimiter: string;
+  hasHeader: boolean;
+  invertAmounts: boolean;
+}
+
+interface ImportResult {
+  format: "csv" | "ofx" | "qfx";
+  accountName: string;
+  imported: number;
+  skipped: number;
+  errors: string[];
+}
+
+const DELIMITERS: Record<string, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
+
+const EMPTY_PROFILE = {
+  name: "",
+  accountName: "",
+  date: "Date",
+  description: "Description",
+  vendor: "",
+  amountMode: "amount" as "amount" | "split",
+  amount: "Amount",
+  debit: "Debit",
+  credit: "Credit",
+  dateFormat: "MM/DD/YYYY",
+  delimiter: ",",
+  hasHeader: true,
+  invertAmounts: false,
+};
+
+function ProfileForm({
+  dateFormats,
+  onCreated,
+}: {
+  dateFormats: string[];
+  onCreated: () => void;
+}) {
+  const [form, setForm] = useState(EMPTY_PROFILE);
+  const set = <K extends keyof typeof EMPTY_PROFILE>(key: K, value: (typeof EMPTY_PROFILE)[K]) =>
+    setForm((f) => ({ ...f, [key]: value }));
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/import/profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          accountName: form.accountName,
+          columns: {
+            date: form.date,
+            description: form.description,
+            vendor: form.vendor || undefined,
+            ...(form.amountMode === "amount"
+              ? { amount: form.amount }
+              : { debit: form.debit, credit: form.credit }),
+          },
+          dateFormat: form.dateFormat,
+          delimiter: form.delimiter,
+          hasHeader: form.hasHeader,
+          invertAmounts: form.invertAmounts,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to save profile");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Profile saved");
+      setForm(EMPTY_PROFILE);
+      onCreated();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const columnHint = form.hasHeader ? "Header name" : "Column number";
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-muted-foreground">Profile name</label>
+          <Input
+            value={form.name}
+            onChange={(e) => set("name", e.target.value)}
+            placeholder="First Community checking"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground">Account shown on transactions</label>
+          <Input
+            value={form.accountName}
+            onChange={(e) => set("accountName", e.target.value)}
+            placeholder="First Community ····1234"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground">Date column ({columnHint})</label>
+          <Input value={form.date} onChange={(e) => set("date", e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground">Date format</label>
+          <Select value={form.dateFormat} onChange={(e) => set("dateFormat", e.target.value)}>
+            {dateFormats.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground">Description column</label>
+          <Input value={form.description} onChange={(e) => set("description", e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground">Payee column (optional)</label>
+          <Input value={form.vendor} onChange={(e) => set("vendor", e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground">Amounts</label>
+          <Select
+            value={form.amountMode}
+            onChange={(e) => set("amountMode", e.target.value as "amount" | "split")}
+          >
+            <option value="amount">One signed amount column</option>
+            <option value="split">Separate debit and credit columns</option>
+          </Select>
+        </div>
+        {form.amountMode === "amount" ? (
+          <div>
+            <label className="text-xs text-muted-foreground">Amount column</label>
+            <Input value={form.amount} onChange={(e) => set("amount", e.target.value)} />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-muted-foreground">Debit column</label>
+              <Input value={form.debit} onChange={(e) => set("debit", e.target.value)} />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground">Credit column</label>
+              <Input value={form.credit} onChange={(e) => set("credit", e.target.value)} />
+            </div>
+          </div>
+        )}
+        <div>
+          <label className="text-xs text-muted-foreground">Delimiter</label>
+          <Select value={form.delimiter} onChange={(e) => set("delimiter", e.target.value)}>
+            {Object.entries(DELIMITERS).map(([value, label]) => (
+              <option key={label} value={value}>
+                {label}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center gap-6 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={form.hasHeader}
+            onChange={(e) => set("hasHeader", e.target.checked)}
+          />
+          First row is a header
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={form.invertAmounts}
+            onChange={(e) => set("invertAmounts", e.target.checked)}
+          />
+          Charges are positive (flip signs)
+        </label>
+      </div>
+      <Button
+        size="sm"
+        onClick={() => createMutation.mutate()}
+        disabled={createMutation.isPending || !form.name || !form.accountName}
+      >
+        <Plus size={14} className="mr-1" />
+        {createMutation.isPending ? "Saving..." : "Save profile"}
+      </Button>
+    </div>
+  );
+}
+
+export default function StatementImportPage() {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canWrite = can("integrations:write");
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [profileId, setProfileId] = useState("");
+  const [accountName, setAccountName] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [lastResult, setLastResult] = useState<ImportResult | null>(null);
+
+  const { data } = useQuery<{ profiles: ImportProfile[]; dateFormats: string[] }>({
+    queryKey: ["import-profiles"],
+    queryFn: async () => {
+      const res = await fetch("/api/import/profiles");
+      if (!res.ok) throw new Error("Failed to load import profiles");
+      return res.json();
+    },
+  });
+
+  const profiles = data?.profiles ?? [];
+  const isCsv = !!file && file.name.toLowerCase().endsWith(".csv");
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("Choose a file to import");
+      const form = new FormData();
+      form.append("file", file);
+      if (profileId) form.append("profileId", profileId);
+      if (accountName) form.append("accountName", accountName);
+      const res = await fetch("/api/import", { method: "POST", body: form });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Import failed");
+      return body as ImportResult;
+    },
+    onSuccess: (result) => {
+      setLastResult(result);
+      toast.success(
+        `Imported ${result.imported} transactions` +
+          (result.skipped > 0 ? `, ${result.skipped} already imported` : "")
+      );
+      setFile(null);
+      if (fileInput.current) fileInput.current.value = "";
+      queryClient.invalidateQueries({ queryKey: ["all-transactions"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/import/profiles/${id}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to delete profile");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Profile deleted");
+      queryClient.invalidateQueries({ queryKey: ["import-profiles"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Statement Import</h1>
+        <p className="text-muted-foreground mt-1">
+          Bring in accounts QuickBooks and Plaid don&apos;t reach from CSV, OFX or QFX
+          statements. Re-importing an overlapping statement only adds new lines.
+        </p>
+      </div>
+
+      {canWrite && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileUp size={18} />
+              Upload a statement
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.ofx,.qfx"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="text-sm"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs text-muted-foreground">
+                  Column mapping {isCsv ? "(required for CSV)" : "(CSV only)"}
+                </label>
+                <Select
+                  value={profileId}
+                  onChange={(e) => setProfileId(e.target.value)}
+                  disabled={!isCsv}
+                >
+                  <option value="">Choose a profile</option>
+                  {profiles.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div>
+                <label className="text-xs text-muted-foreground">Account name (optional)</label>
+                <Input
+                  value={accountName}
+                  onChange={(e) => setAccountName(e.target.value)}
+                  placeholder="Taken from the file or profile"
+                />
+              </div>
+            </div>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!file || (isCsv && !profileId) || importMutation.isPending}
+            >
+              <Upload size={16} className="mr-2" />
+              {importMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+            {lastResult && (
+              <div className="text-sm space-y-1">
+                <p>
+                  <Badge variant="outline" className="uppercase mr-2">
+                    {lastResult.format}
+                  </Badge>
+                  {lastResult.accountName}: {lastResult.imported} imported, {lastResult.skipped}{" "}
+                  already present. Categorization is running in the background.
+                </p>
+                {lastResult.errors.length > 0 && (
+                  <ul className="text-xs text-muted-foreground list-disc pl-5">
+                    {lastResult.errors.map((e) => (
+                      <li key={e}>{e}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">CSV column mappings</CardTitle>
+            {canWrite && (
+              <Button size="sm" variant="outline" onClick={() => setShowForm(!showForm)}>
+                <Plus size={14} className="mr-1" />
+                New profile
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {showForm && (
+            <ProfileForm
+              dateFormats={data?.dateFormats ?? [EMPTY_PROFILE.dateFormat]}
+              onCreated={() => {
+                setShowForm(false);
+                queryClient.invalidateQueries({ queryKey: ["import-profiles"] });
+              }}
+            />
+          )}
+          {profiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No profiles yet. Each bank lays out its CSV export differently; save one
+              profile per bank or account. OFX and QFX files need no profile.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Profile</th>
+                  <th className="py-2 pr-4 font-medium">Account</th>
+                  <th className="py-2 pr-4 font-medium">Columns</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {profiles.map((p) => (
+                  <tr key={p.id} className="border-b border-border/50">
+                    <td className="py-2 pr-4">{p.name}</td>
+                    <td className="py-2 pr-4 text-muted-foreground">{p.accountName}</td>
+                    <td className="py-2 pr-4 text-xs text-muted-foreground">
+                      {p.columns.date} ({p.dateFormat}) · {p.columns.description} ·{" "}
+                      {p.columns.amount ?? `${p.columns.debit} / ${p.columns.credit}`}
+                      {p.invertAmounts && " · signs flipped"}
+                    </td>
+                    <td className="py-2 text-right">
+                      {canWrite && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => deleteMutation.mutate(p.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 size={14} />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
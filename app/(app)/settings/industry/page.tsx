@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { X, Plus, RotateCcw, Save } from "lucide-react";
+import { RecategorizeButton } from "@/components/rules/recategorize-button";
 
 interface IndustryConfig {
   slug: string;
@@ -225,7 +226,8 @@ export default function IndustrySettingsPage() {
             {config.name} ({config.slug})
           </p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          <RecategorizeButton />
           <Button variant="outline" onClick={handleReset}>
             <RotateCcw size={16} className="mr-2" />
             Reset
@@ -8,7 +8,9 @@ import { Input } from "@/components/ui/input";
 import { Select } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { Trash2, UserPlus } from "lucide-react";
+import { Mail, RotateCw, Trash2, UserPlus, X } from "lucide-react";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+import { CustomRoles, type CustomRole } from "@/components/members/custom-roles";
 
 interface Member {
   id: string;
@@ -16,11 +18,23 @@ interface Member {
   email: string;
   name: string;
   role: string;
+  customRoleId: string | null;
+  customRoleName: string | null;
   invitedAt: string | null;
   acceptedAt: string | null;
   createdAt: string;
 }
 
+interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  customRoleName: string | null;
+  invitedByName: string | null;
+  expiresAt: string;
+  lastSentAt: string;
+}
+
 interface PracticeItem {
   id: string;
   name: string;
@@ -33,9 +47,9 @@ export default function MembersPage() {
   const { data: session } = useSession();
   const queryClient = useQueryClient();
   const [inviteEmail, setInviteEmail] = useState("");
-  const [inviteRole, setInviteRole] = useState<"manager" | "accountant">(
-    "manager"
-  );
+  // "manager", "accountant" or "custom:<role id>"
+  const [inviteRole, setInviteRole] = useState("manager");
+  const { can } = usePermissions();
 
   // Get the current practice
   const { data: practices = [] } = useQuery<PracticeItem[]>({
@@ -48,7 +62,7 @@ export default function MembersPage() {
   });
 
   const currentPractice = practices.find((p) => p.isDefault) ?? practices[0];
-  const isOwner = currentPractice?.role === "owner";
+  const canManage = can("members:write");
 
   const { data: members = [], isLoading } = useQuery<Member[]>({
     queryKey: ["members", currentPractice?.id],
@@ -63,6 +77,27 @@ export default function MembersPage() {
     enabled: !!currentPractice,
   });
 
+  const { data: roles } = useQuery<{ custom: CustomRole[] }>({
+    queryKey: ["practice-roles", currentPractice?.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/practices/${currentPractice!.id}/roles`);
+      if (!res.ok) return { custom: [] };
+      return res.json();
+    },
+    enabled: !!currentPractice,
+  });
+  const customRoles = roles?.custom ?? [];
+
+  const { data: invitations = [] } = useQuery<Invitation[]>({
+    queryKey: ["invitations", currentPractice?.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/practices/${currentPractice!.id}/invitations`);
+      if (!res.ok) return [];
+      return res.json();
+    },
+    enabled: !!currentPractice,
+  });
+
   const inviteMutation = useMutation({
     mutationFn: async ({
       email,
@@ -71,12 +106,19 @@ export default function MembersPage() {
       email: string;
       role: string;
     }) => {
+      // A custom role is assigned on top of the accountant role, so removing
+      // it later leaves the least access
+      const customRoleId = role.startsWith("custom:") ? role.slice(7) : undefined;
       const res = await fetch(
         `/api/practices/${currentPractice!.id}/invite`,
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ email, role }),
+          body: JSON.stringify({
+            email,
+            role: customRoleId ? "accountant" : role,
+            customRoleId,
+          }),
         }
       );
       if (!res.ok) {
@@ -91,6 +133,33 @@ export default function MembersPage() {
       queryClient.invalidateQueries({
         queryKey: ["members", currentPractice?.id],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["invitations", currentPractice?.id],
+      });
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ membershipId, value }: { membershipId: string; value: string }) => {
+      const body = value.startsWith("custom:")
+        ? { membershipId, customRoleId: value.slice(7) }
+        : { membershipId, role: value, customRoleId: null };
+      const res = await fetch(`/api/practices/${currentPractice!.id}/members`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to change role");
+      }
+    },
+    onSuccess: () => {
+      toast.success("Role updated");
+      queryClient.invalidateQueries({
+        queryKey: ["members", currentPractice?.id],
+      });
     },
     onError: (err: Error) => toast.error(err.message),
   });
@@ -115,6 +184,26 @@ export default function MembersPage() {
     onError: (err: Error) => toast.error(err.message),
   });
 
+  const invitationMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "resend" | "revoke" }) => {
+      const base = `/api/practices/${currentPractice!.id}/invitations/${id}`;
+      const res = await fetch(action === "resend" ? `${base}/resend` : base, {
+        method: action === "resend" ? "POST" : "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || `Failed to ${action} invitation`);
+      }
+    },
+    onSuccess: (_data, { action }) => {
+      toast.success(action === "resend" ? "Invitation resent" : "Invitation revoked");
+      queryClient.invalidateQueries({
+        queryKey: ["invitations", currentPractice?.id],
+      });
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
   function handleInvite(e: React.FormEvent) {
     e.preventDefault();
     if (!inviteEmail.trim()) return;
@@ -148,7 +237,7 @@ export default function MembersPage() {
         </p>
       </div>
 
-      {isOwner && (
+      {canManage && (
         <div className="rounded-lg border bg-card p-4">
           <h2 className="text-sm font-medium mb-3 flex items-center gap-2">
             <UserPlus size={16} />
@@ -175,12 +264,15 @@ export default function MembersPage() {
               <Select
                 id="invite-role"
                 value={inviteRole}
-                onChange={(e) =>
-                  setInviteRole(e.target.value as "manager" | "accountant")
-                }
+                onChange={(e) => setInviteRole(e.target.value)}
               >
                 <option value="manager">Manager</option>
                 <option value="accountant">Accountant</option>
+                {customRoles.map((r) => (
+                  <option key={r.id} value={`custom:${r.id}`}>
+                    {r.name}
+                  </option>
+                ))}
               </Select>
             </div>
             <Button
@@ -207,7 +299,7 @@ export default function MembersPage() {
                 <th className="px-4 py-3 text-left font-medium">Email</th>
                 <th className="px-4 py-3 text-left font-medium">Role</th>
                 <th className="px-4 py-3 text-left font-medium">Status</th>
-                {isOwner && (
+                {canManage && (
                   <th className="px-4 py-3 text-right font-medium" />
                 )}
               </tr>
@@ -225,12 +317,36 @@ export default function MembersPage() {
                     {member.email}
                   </td>
                   <td className="px-4 py-3">
-                    <Badge
-                      variant="outline"
-                      className={`capitalize ${roleColors[member.role] ?? ""}`}
-                    >
-                      {member.role}
-                    </Badge>
+                    {canManage && member.role !== "owner" && member.userId !== session?.user?.id ? (
+                      <Select
+                        value={
+                          member.customRoleId ? `custom:${member.customRoleId}` : member.role
+                        }
+                        onChange={(e) =>
+                          roleMutation.mutate({
+                            membershipId: member.id,
+                            value: e.target.value,
+                          })
+                        }
+                        disabled={roleMutation.isPending}
+                        className="h-8 w-40 text-xs"
+                      >
+                        <option value="manager">Manager</option>
+                        <option value="accountant">Accountant</option>
+                        {customRoles.map((r) => (
+                          <option key={r.id} value={`custom:${r.id}`}>
+                            {r.name}
+                          </option>
+                        ))}
+                      </Select>
+                    ) : (
+                      <Badge
+                        variant="outline"
+                        className={`capitalize ${roleColors[member.role] ?? ""}`}
+                      >
+                        {member.customRoleName ?? member.role}
+                      </Badge>
+                    )}
                   </td>
                   <td className="px-4 py-3">
                     {member.acceptedAt ? (
@@ -249,7 +365,7 @@ export default function MembersPage() {
                       </Badge>
                     )}
                   </td>
-                  {isOwner && (
+                  {canManage && (
                     <td className="px-4 py-3 text-right">
                       {member.userId !== session?.user?.id && (
                         <Button
@@ -268,7 +384,7 @@ export default function MembersPage() {
               {members.length === 0 && (
                 <tr>
                   <td
-                    colSpan={isOwner ? 5 : 4}
+                    colSpan={canManage ? 5 : 4}
                     className="px-4 py-8 text-center text-sm text-muted-foreground"
                   >
                     No members found.
@@ -279,6 +395,81 @@ export default function MembersPage() {
           </table>
         )}
       </div>
+
+      {invitations.length > 0 && (
+        <div className="rounded-lg border bg-card p-4 space-y-3">
+          <h2 className="text-sm font-medium flex items-center gap-2">
+            <Mail size={16} />
+            Pending Invitations
+          </h2>
+          <div className="space-y-2">
+            {invitations.map((invite) => {
+              const expired = new Date(invite.expiresAt).getTime() < Date.now();
+              return (
+                <div
+                  key={invite.id}
+                  className="flex items-center justify-between gap-3 rounded-md border p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{invite.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      <span className="capitalize">{invite.customRoleName ?? invite.role}</span>
+                      {invite.invitedByName && ` · invited by ${invite.invitedByName}`}
+                      {" · sent "}
+                      {new Date(invite.lastSentAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {expired ? (
+                      <Badge variant="outline" className="text-red-400 border-red-700">
+                        Expired
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-yellow-400 border-yellow-700">
+                        Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                      </Badge>
+                    )}
+                    {canManage && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() =>
+                            invitationMutation.mutate({ id: invite.id, action: "resend" })
+                          }
+                          disabled={invitationMutation.isPending}
+                          title="Resend"
+                        >
+                          <RotateCw size={14} />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() =>
+                            invitationMutation.mutate({ id: invite.id, action: "revoke" })
+                          }
+                          disabled={invitationMutation.isPending}
+                          title="Revoke"
+                        >
+                          <X size={14} className="text-red-400" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {currentPractice && (
+        <CustomRoles
+          practiceId={currentPractice.id}
+          roles={customRoles}
+          canManage={canManage}
+        />
+      )}
     </div>
   );
 }
@@ -14,6 +14,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { usePermissions } from "@/lib/hooks/use-permissions";
+import { SyncStatus } from "@/components/qbo/sync-status";
 import {
   RefreshCw,
   Upload,
@@ -92,7 +93,8 @@ const CATEGORIES = [
 
 export default function QBOSyncPage() {
   const queryClient = useQueryClient();
-  const { canAdmin } = usePermissions();
+  const { can } = usePermissions();
+  const canAdmin = can("qbo_write_back:write");
 
   // State
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -321,6 +323,19 @@ export default function QBOSyncPage() {
         </div>
       )}
 
+      {/* Transaction Sync */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <RefreshCw size={18} className="text-muted-foreground" />
+            <CardTitle className="text-base">Transaction Sync</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <SyncStatus />
+        </CardContent>
+      </Card>
+
       {/* Account Mappings */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
@@ -10,6 +10,9 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { usePermissions } from "@/lib/hooks/use-permissions";
+import { RuleBuilder } from "@/components/rules/rule-builder";
+import { RuleSuggestions } from "@/components/rules/rule-suggestions";
+import { RecategorizeButton } from "@/components/rules/recategorize-button";
 import { toast } from "sonner";
 import { Trash2 } from "lucide-react";
 
@@ -19,12 +22,18 @@ interface Rule {
   matchValue: string;
   category: string;
   priority: number;
+  actions: {
+    accountMapping?: { qboAccountId: string; qboAccountName: string };
+    tags?: string[];
+    split?: { percentage: number; remainderCategory: string };
+  } | null;
   createdAt: string;
 }
 
 export default function RulesPage() {
   const queryClient = useQueryClient();
-  const { canWrite } = usePermissions();
+  const { can } = usePermissions();
+  const canWrite = can("rules:write");
 
   const { data: rules = [], isLoading } = useQuery<Rule[]>({
     queryKey: ["rules"],
@@ -82,6 +91,33 @@ export default function RulesPage() {
         );
       },
     },
+    {
+      id: "ruleActions",
+      header: "Actions",
+      cell: ({ row }) => {
+        const actions = row.original.actions;
+        if (!actions) return <span className="text-xs text-muted-foreground">—</span>;
+        return (
+          <div className="flex flex-wrap gap-1">
+            {actions.accountMapping && (
+              <Badge variant="outline" className="text-xs">
+                → {actions.accountMapping.qboAccountName}
+              </Badge>
+            )}
+            {actions.split && (
+              <Badge variant="outline" className="text-xs">
+                {actions.split.percentage}% / rest {actions.split.remainderCategory}
+              </Badge>
+            )}
+            {actions.tags?.map((tag) => (
+              <Badge key={tag} variant="outline" className="text-xs text-blue-400">
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        );
+      },
+    },
     {
       accessorKey: "priority",
       header: "Priority",
@@ -131,6 +167,11 @@ export default function RulesPage() {
               Read Only
             </Badge>
           )}
+          {canWrite && (
+            <div className="ml-auto">
+              <RecategorizeButton />
+            </div>
+          )}
         </div>
         <p className="text-muted-foreground mt-1">
           {canWrite
@@ -139,6 +180,10 @@ export default function RulesPage() {
         </p>
       </div>
 
+      {canWrite && <RuleSuggestions />}
+
+      {canWrite && <RuleBuilder />}
+
       <div className="rounded-lg border bg-card">
         {isLoading ? (
           <div className="p-8 text-center text-sm text-muted-foreground">
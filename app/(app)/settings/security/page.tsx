@@ -0,0 +1,440 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { KeyRound, Monitor, ShieldCheck, Building2 } from "lucide-react";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  requiredBy: string[];
+}
+
+interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  twoFactorMethod: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+interface PracticeItem {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+async function postJson<T>(url: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Request failed");
+  return data;
+}
+
+// Enough to tell devices apart without a user-agent parsing library
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Chrome\//.test(userAgent)
+      ? "Chrome"
+      : /Firefox\//.test(userAgent)
+        ? "Firefox"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Browser";
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Mac OS X/.test(userAgent)
+        ? "macOS"
+        : /Android/.test(userAgent)
+          ? "Android"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "Unknown OS";
+  return `${browser} on ${os}`;
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-3 rounded-md border border-yellow-700/50 bg-yellow-500/5 p-4">
+      <p className="text-sm font-medium">Save your recovery codes</p>
+      <p className="text-xs text-muted-foreground">
+        Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            navigator.clipboard.writeText(codes.join("\n"));
+            toast.success("Recovery codes copied");
+          }}
+        >
+          Copy
+        </Button>
+        <Button size="sm" onClick={onDone}>
+          I&apos;ve saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function SecurityPage() {
+  const queryClient = useQueryClient();
+  const { role } = usePermissions();
+  const [setup, setSetup] = useState<{ secret: string; uri: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["two-factor"],
+    queryFn: async () => {
+      const res = await fetch("/api/auth/two-factor");
+      if (!res.ok) throw new Error("Failed to load two-factor status");
+      return res.json();
+    },
+  });
+
+  const { data: sessions = [] } = useQuery<ActiveSession[]>({
+    queryKey: ["sessions"],
+    queryFn: async () => {
+      const res = await fetch("/api/auth/sessions");
+      if (!res.ok) return [];
+      return res.json();
+    },
+  });
+
+  const { data: practices = [] } = useQuery<PracticeItem[]>({
+    queryKey: ["practices"],
+    queryFn: async () => {
+      const res = await fetch("/api/practices");
+      if (!res.ok) return [];
+      return res.json();
+    },
+  });
+  const currentPractice = practices.find((p) => p.isDefault) ?? practices[0];
+
+  const { data: practiceSecurity } = useQuery<{ requireTwoFactor: boolean }>({
+    queryKey: ["practice-security", currentPractice?.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/practices/${currentPractice!.id}/security`);
+      if (!res.ok) return { requireTwoFactor: false };
+      return res.json();
+    },
+    enabled: !!currentPractice,
+  });
+
+  const refreshStatus = () => queryClient.invalidateQueries({ queryKey: ["two-factor"] });
+
+  const setupMutation = useMutation({
+    mutationFn: () => postJson<{ secret: string; uri: string }>("/api/auth/two-factor"),
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => postJson<{ recoveryCodes: string[] }>("/api/auth/two-factor/enable", { code }),
+    onSuccess: (data) => {
+      toast.success("Two-factor authentication enabled");
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refreshStatus();
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => postJson("/api/auth/two-factor/disable", { code }),
+    onSuccess: () => {
+      toast.success("Two-factor authentication disabled");
+      setCode("");
+      refreshStatus();
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () =>
+      postJson<{ recoveryCodes: string[] }>("/api/auth/two-factor/recovery-codes", { code }),
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refreshStatus();
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (target: { sessionId: string } | { others: true }) => {
+      const query = "others" in target ? "others=true" : `sessionId=${target.sessionId}`;
+      const res = await fetch(`/api/auth/sessions?${query}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to revoke session");
+      return data as { revoked: number };
+    },
+    onSuccess: (data) => {
+      toast.success(`Signed out ${data.revoked} session${data.revoked === 1 ? "" : "s"}`);
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const enforcementMutation = useMutation({
+    mutationFn: async (requireTwoFactor: boolean) => {
+      const res = await fetch(`/api/practices/${currentPractice!.id}/security`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requireTwoFactor }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update enforcement");
+    },
+    onSuccess: () => {
+      toast.success("Practice security updated");
+      queryClient.invalidateQueries({ queryKey: ["practice-security", currentPractice?.id] });
+      refreshStatus();
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const busy =
+    enableMutation.isPending || disableMutation.isPending || regenerateMutation.isPending;
+
+  return (
+    <div className="p-6 space-y-6 max-w-3xl">
+      <div>
+        <h1 className="text-2xl font-bold">Security</h1>
+        <p className="text-muted-foreground mt-1">
+          Two-factor authentication and the devices signed in to your account
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck size={18} />
+            Two-Factor Authentication
+            {status?.enabled && (
+              <Badge variant="outline" className="text-green-400 border-green-700">
+                On
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : recoveryCodes ? (
+            <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+          ) : status?.enabled ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Enabled {status.enabledAt && new Date(status.enabledAt).toLocaleDateString()}.{" "}
+                {status.recoveryCodesRemaining} recovery code
+                {status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+              </p>
+              {status.requiredBy.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Required by {status.requiredBy.join(", ")}.
+                </p>
+              )}
+              <div className="flex gap-2 items-end">
+                <div className="flex-1 space-y-1">
+                  <label htmlFor="confirm-code" className="text-xs text-muted-foreground">
+                    Authentication or recovery code
+                  </label>
+                  <Input
+                    id="confirm-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="one-time-code"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => regenerateMutation.mutate()}
+                  disabled={busy || !code}
+                >
+                  <KeyRound size={14} className="mr-1" />
+                  New Recovery Codes
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={busy || !code || status.requiredBy.length > 0}
+                >
+                  Turn Off
+                </Button>
+              </div>
+            </>
+          ) : setup ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Add this key to an authenticator app (1Password, Google Authenticator, Authy),
+                then enter the 6-digit code it shows.
+              </p>
+              <div className="rounded-md border bg-muted/30 p-3 font-mono text-sm break-all">
+                {setup.secret.match(/.{1,4}/g)?.join(" ")}
+              </div>
+              <a href={setup.uri} className="text-xs text-primary underline">
+                Open in authenticator app
+              </a>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  enableMutation.mutate();
+                }}
+                className="flex gap-2 items-end"
+              >
+                <div className="flex-1 space-y-1">
+                  <label htmlFor="setup-code" className="text-xs text-muted-foreground">
+                    Code from your app
+                  </label>
+                  <Input
+                    id="setup-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={busy}>
+                  {enableMutation.isPending ? "Verifying..." : "Verify & Enable"}
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </form>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {status?.requiredBy.length
+                  ? `${status.requiredBy.join(", ")} require${status.requiredBy.length === 1 ? "s" : ""} two-factor authentication.`
+                  : "Require a code from your phone in addition to your password when signing in."}
+              </p>
+              <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+                Set Up
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Monitor size={18} />
+              Active Sessions
+            </span>
+            {sessions.length > 1 && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => revokeMutation.mutate({ others: true })}
+                disabled={revokeMutation.isPending}
+              >
+                Sign Out Other Sessions
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active sessions.</p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((s) => (
+                <div
+                  key={s.id}
+                  className="flex items-center justify-between gap-3 rounded-md border p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      {describeDevice(s.userAgent)}
+                      {s.current && (
+                        <Badge variant="outline" className="text-blue-400 border-blue-700">
+                          This device
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {s.ipAddress ?? "Unknown IP"} · signed in{" "}
+                      {new Date(s.createdAt).toLocaleString()} · last active{" "}
+                      {new Date(s.lastSeenAt).toLocaleTimeString()}
+                      {s.twoFactorMethod && ` · ${s.twoFactorMethod === "recovery" ? "recovery code" : "2FA"}`}
+                    </p>
+                  </div>
+                  {!s.current && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => revokeMutation.mutate({ sessionId: s.id })}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {role === "owner" && currentPractice && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 size={18} />
+              Practice Enforcement
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium">Require two-factor authentication</p>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Members of {currentPractice.name} can&apos;t open practice data until they set it up.
+              </p>
+            </div>
+            <Button
+              variant={practiceSecurity?.requireTwoFactor ? "outline" : "default"}
+              onClick={() => enforcementMutation.mutate(!practiceSecurity?.requireTwoFactor)}
+              disabled={enforcementMutation.isPending || !practiceSecurity}
+            >
+              {practiceSecurity?.requireTwoFactor ? "Stop Requiring" : "Require"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import {
 } from "@/components/transactions/transaction-list-table";
 import { TransactionFilters } from "@/components/transactions/transaction-filters";
 import { ExportButton } from "@/components/transactions/export-button";
+import { MatchedTransactions } from "@/components/transactions/matched-transactions";
 
 interface TransactionsResponse {
   transactions: TransactionListRow[];
@@ -61,6 +62,8 @@ export default function TransactionsPage() {
 
       <TransactionFilters />
 
+      <MatchedTransactions />
+
       <div className="rounded-lg border bg-card">
         {isLoading ? (
           <div className="flex items-center justify-center p-8 text-sm text-muted-foreground">
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { signIn } from "next-auth/react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface InvitationDetails {
+  email: string;
+  role: string;
+  practiceName: string;
+  invitedByName: string | null;
+  expiresAt: string;
+}
+
+export default function AcceptInvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const { data: invitation, isLoading, error: loadError } = useQuery<InvitationDetails>({
+    queryKey: ["invitation", token],
+    queryFn: async () => {
+      const res = await fetch(`/api/invitations/${token}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load invitation");
+      return data;
+    },
+    retry: false,
+  });
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!invitation) return;
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/invitations/${token}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, password }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to accept invitation");
+        setLoading(false);
+        return;
+      }
+
+      const result = await signIn("credentials", {
+        email: invitation.email,
+        password,
+        redirect: false,
+      });
+
+      setLoading(false);
+
+      if (result?.error) {
+        setError("Account created. Please sign in.");
+        router.push("/login");
+        return;
+      }
+
+      router.push("/");
+      router.refresh();
+    } catch {
+      setError("Something went wrong");
+      setLoading(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl">
+          <span className="text-primary">PracticePulse</span>
+        </CardTitle>
+        {invitation && (
+          <p className="text-sm text-muted-foreground">
+            {invitation.invitedByName ?? "A colleague"} invited you to join{" "}
+            <strong>{invitation.practiceName}</strong> as{" "}
+            <span className="capitalize">{invitation.role}</span>
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center text-sm text-muted-foreground">Loading invitation...</p>
+        ) : loadError || !invitation ? (
+          <div className="space-y-4 text-center">
+            <p className="text-sm text-red-500">
+              {loadError?.message ?? "This invitation is invalid or has expired"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Ask the person who invited you to send a new invitation.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="email" className="text-sm font-medium">
+                Email
+              </label>
+              <Input id="email" type="email" value={invitation.email} disabled />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="name" className="text-sm font-medium">
+                Your Name
+              </label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="password" className="text-sm font-medium">
+                Password
+              </label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Min. 8 characters"
+                required
+                minLength={8}
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-red-500">{error}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? "Creating account..." : "Accept & Create Account"}
+            </Button>
+          </form>
+        )}
+        <p className="mt-4 text-center text-sm text-muted-foreground">
+          Already have an account?{" "}
+          <Link href="/login" className="text-primary underline">
+            Sign in
+          </Link>
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,6 +12,9 @@ export default function LoginPage() {
   const router = useRouter();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  // Shown once the password checks out for an account with 2FA
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
@@ -23,11 +26,27 @@ export default function LoginPage() {
     const result = await signIn("credentials", {
       email,
       password,
+      ...(needsCode && { code }),
       redirect: false,
     });
 
     setLoading(false);
 
+    if (result?.code === "two_factor_required") {
+      setNeedsCode(true);
+      return;
+    }
+
+    if (result?.code === "invalid_two_factor_code") {
+      setError("Invalid authentication code");
+      return;
+    }
+
+    if (result?.code === "two_factor_locked") {
+      setError("Too many invalid codes. Try again in a few minutes.");
+      return;
+    }
+
     if (result?.error) {
       setError("Invalid email or password");
       return;
@@ -75,11 +94,27 @@ export default function LoginPage() {
               required
             />
           </div>
+          {needsCode && (
+            <div className="space-y-2">
+              <label htmlFor="code" className="text-sm font-medium">
+                Authentication Code
+              </label>
+              <Input
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="6-digit code or recovery code"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+              />
+            </div>
+          )}
           {error && (
             <p className="text-sm text-red-500">{error}</p>
           )}
           <Button type="submit" className="w-full" disabled={loading}>
-            {loading ? "Signing in..." : "Sign In"}
+            {loading ? "Signing in..." : needsCode ? "Verify" : "Sign In"}
           </Button>
         </form>
         <p className="mt-4 text-center text-sm text-muted-foreground">
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { exportAuditLogCsv, parseAuditFilter } from "@/lib/audit/explorer";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+export const GET = withPermission("audit:read", async (request, { session }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = parseAuditFilter(searchParams);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const csv = await exportAuditLogCsv(session.practiceId, parsed.data);
+
+    // Exports are themselves part of the record
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "export_audit_log",
+      entityType: "audit_log",
+      newValue: parsed.data,
+    });
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="practicepulse-audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Audit export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export audit log" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { getAuditFacets, parseAuditFilter, queryAuditLog } from "@/lib/audit/explorer";
+
+const PAGE_SIZE = 50;
+
+export const GET = withPermission("audit:read", async (request, { session }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = parseAuditFilter(searchParams);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+    const [{ entries, total }, facets] = await Promise.all([
+      queryAuditLog(session.practiceId, parsed.data, {
+        limit: PAGE_SIZE,
+        offset: (page - 1) * PAGE_SIZE,
+      }),
+      getAuditFacets(session.practiceId),
+    ]);
+
+    return NextResponse.json({ entries, total, page, pageSize: PAGE_SIZE, facets });
+  } catch (error) {
+    console.error("Audit log error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+});
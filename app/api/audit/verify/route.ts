@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { verifyAuditChain } from "@/lib/audit/chain";
+
+/** Recompute the practice's hash chain and report the first broken entry. */
+export const GET = withPermission("audit:read", async (_request, { session }) => {
+  try {
+    const result = await verifyAuditChain(session.practiceId);
+    return NextResponse.json({ ...result, verifiedAt: new Date() });
+  } catch (error) {
+    console.error("Audit verify error:", error);
+    return NextResponse.json(
+      { error: "Failed to verify audit log" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+
+/** The signed-in member's role and permissions in their current practice. */
+export const GET = withPermission(null, async (_request, { session }) => {
+  return NextResponse.json({
+    role: session.role,
+    customRole: session.customRole,
+    permissions: session.permissions,
+  });
+});
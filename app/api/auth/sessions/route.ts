@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionOrDemo } from "@/lib/auth/session";
+import {
+  listActiveSessions,
+  revokeOtherSessions,
+  revokeUserSession,
+} from "@/lib/auth/sessions";
+import { isDemoMode } from "@/lib/qbo/demo-mode";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+export async function GET() {
+  try {
+    const session = await getSessionOrDemo();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (isDemoMode()) return NextResponse.json([]);
+
+    const sessions = await listActiveSessions(session.userId);
+    return NextResponse.json(
+      sessions.map((s) => ({
+        id: s.id,
+        userAgent: s.userAgent,
+        ipAddress: s.ipAddress,
+        twoFactorMethod: s.twoFactorMethod,
+        createdAt: s.createdAt,
+        lastSeenAt: s.lastSeenAt,
+        current: s.id === session.sessionId,
+      }))
+    );
+  } catch (error) {
+    console.error("List sessions error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Revoke one session (?sessionId=) or every other session (?others=true). */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getSessionOrDemo();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get("sessionId");
+
+    if (searchParams.get("others") === "true") {
+      const count = await revokeOtherSessions(session.userId, session.sessionId);
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "sessions_revoked",
+        entityType: "user_session",
+        newValue: { count, kept: session.sessionId },
+      });
+
+      return NextResponse.json({ revoked: count });
+    }
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "sessionId is required" },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await revokeUserSession(session.userId, sessionId);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "session_revoked",
+      entityType: "user_session",
+      entityId: sessionId,
+      oldValue: { userAgent: revoked.userAgent, ipAddress: revoked.ipAddress },
+    });
+
+    return NextResponse.json({ revoked: 1 });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke session" },
+      { status: 500 }
+    );
+  }
+}
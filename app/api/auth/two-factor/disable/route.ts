@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionOrDemo } from "@/lib/auth/session";
+import {
+  disableTwoFactor,
+  practicesRequiringTwoFactor,
+  verifySecondFactor,
+  TwoFactorLockedError,
+} from "@/lib/auth/two-factor";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+const disableSchema = z.object({
+  code: z.string().min(1, "Enter an authentication or recovery code"),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSessionOrDemo();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = disableSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const requiredBy = await practicesRequiringTwoFactor(session.userId);
+    if (requiredBy.length > 0) {
+      return NextResponse.json(
+        { error: `Two-factor authentication is required by ${requiredBy.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    let method;
+    try {
+      method = await verifySecondFactor(session.userId, parsed.data.code);
+    } catch (error) {
+      if (error instanceof TwoFactorLockedError) {
+        return NextResponse.json({ error: error.message }, { status: 429 });
+      }
+      throw error;
+    }
+    if (!method) {
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "two_factor_failed",
+        entityType: "user",
+        entityId: session.userId,
+        newValue: { during: "disable" },
+      });
+      return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+    }
+
+    await disableTwoFactor(session.userId);
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "two_factor_disabled",
+      entityType: "user",
+      entityId: session.userId,
+      newValue: { verifiedWith: method },
+    });
+
+    return NextResponse.json({ message: "Two-factor authentication disabled" });
+  } catch (error) {
+    console.error("Two-factor disable error:", error);
+    return NextResponse.json(
+      { error: "Failed to disable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
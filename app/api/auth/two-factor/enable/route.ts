@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionOrDemo } from "@/lib/auth/session";
+import { enableTwoFactor } from "@/lib/auth/two-factor";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+const enableSchema = z.object({
+  code: z.string().min(1, "Enter the code from your authenticator app"),
+});
+
+/** Confirm the authenticator app works; returns one-time recovery codes. */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSessionOrDemo();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = enableSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await enableTwoFactor(session.userId, parsed.data.code);
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: "That code didn't match. Check your device's clock and try again." },
+        { status: 400 }
+      );
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "two_factor_enabled",
+      entityType: "user",
+      entityId: session.userId,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error("Two-factor enable error:", error);
+    return NextResponse.json(
+      { error: "Failed to enable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
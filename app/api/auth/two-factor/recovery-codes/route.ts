@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionOrDemo } from "@/lib/auth/session";
+import {
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+  TwoFactorLockedError,
+} from "@/lib/auth/two-factor";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+const regenerateSchema = z.object({
+  code: z.string().min(1, "Enter an authentication or recovery code"),
+});
+
+/** Replace all recovery codes; the old ones stop working. */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSessionOrDemo();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = regenerateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    let method;
+    try {
+      method = await verifySecondFactor(session.userId, parsed.data.code);
+    } catch (error) {
+      if (error instanceof TwoFactorLockedError) {
+        return NextResponse.json({ error: error.message }, { status: 429 });
+      }
+      throw error;
+    }
+    if (!method) {
+      return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(session.userId);
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "recovery_codes_regenerated",
+      entityType: "user",
+      entityId: session.userId,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error("Recovery codes error:", error);
+    return NextResponse.json(
+      { error: "Failed to regenerate recovery codes" },
+      { status: 500 }
+    );
+  }
+}
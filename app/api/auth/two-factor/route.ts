@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getSessionOrDemo } from "@/lib/auth/session";
+import {
+  beginTwoFactorSetup,
+  getTwoFactorStatus,
+  practicesRequiringTwoFactor,
+} from "@/lib/auth/two-factor";
+import { isDemoMode } from "@/lib/qbo/demo-mode";
+
+export async function GET() {
+  try {
+    const session = await getSessionOrDemo();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (isDemoMode()) {
+      return NextResponse.json({
+        enabled: false,
+        enabledAt: null,
+        recoveryCodesRemaining: 0,
+        requiredBy: [],
+      });
+    }
+
+    const [status, requiredBy] = await Promise.all([
+      getTwoFactorStatus(session.userId),
+      practicesRequiringTwoFactor(session.userId),
+    ]);
+    return NextResponse.json({ ...status, requiredBy });
+  } catch (error) {
+    console.error("Two-factor status error:", error);
+    return NextResponse.json(
+      { error: "Failed to load two-factor status" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Start setup: a new secret for the authenticator app, confirmed via /enable. */
+export async function POST() {
+  try {
+    const session = await getSessionOrDemo();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (isDemoMode()) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is unavailable in demo mode" },
+        { status: 400 }
+      );
+    }
+
+    const setup = await beginTwoFactorSetup(session.userId);
+    if (!setup) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(setup);
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    return NextResponse.json(
+      { error: "Failed to start two-factor setup" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,33 +1,104 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { categorizations } from "@/lib/db/schema";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import {
+  categorizations,
+  categorizationSplits,
+  transactions,
+} from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import {
+  resolveSplits,
+  dominantCategory,
+  describeSplits,
+  splitRowValues,
+  SplitValidationError,
+} from "@/lib/categorization/splits";
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+const categorySchema = z.enum(["business", "personal", "ambiguous"]);
 
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-      }
-      throw e;
-    }
+const splitsSchema = z.array(
+  z.object({
+    category: categorySchema,
+    amount: z.number().positive().optional(),
+    percentage: z.number().positive().max(100).optional(),
+    accountRef: z.string().nullish(),
+    qboAccountId: z.string().nullish(),
+    memo: z.string().nullish(),
+  })
+);
 
+export const PUT = withPermission<{ id: string }>("transactions:write", async (request, { session, params }) => {
+  try {
     const { id: transactionId } = await params;
     const body = await request.json();
     const { category, confidence = 100 } = body;
 
+    // Split categorization: one row in history plus its split lines
+    if (body.splits !== undefined) {
+      const parsed = splitsSchema.safeParse(body.splits);
+      if (!parsed.success) {
+        return NextResponse.json({ error: "Invalid splits" }, { status: 400 });
+      }
+
+      const [txn] = await db
+        .select({ amount: transactions.amount })
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.id, transactionId),
+            eq(transactions.practiceId, session.practiceId)
+          )
+        );
+      if (!txn) {
+        return NextResponse.json({ error: "Transaction not found" }, { status: 404 });
+      }
+
+      let splits;
+      try {
+        splits = resolveSplits(parseFloat(txn.amount), parsed.data);
+      } catch (e) {
+        if (e instanceof SplitValidationError) {
+          return NextResponse.json({ error: e.message }, { status: 400 });
+        }
+        throw e;
+      }
+
+      const headline = dominantCategory(splits);
+      const result = await db.transaction(async (tx) => {
+        const [cat] = await tx
+          .insert(categorizations)
+          .values({
+            transactionId,
+            category: headline,
+            confidence: 100,
+            source: "user",
+            reasoning: describeSplits(splits),
+          })
+          .returning();
+
+        const lines = await tx
+          .insert(categorizationSplits)
+          .values(splitRowValues(cat.id, splits))
+          .returning();
+
+        return { ...cat, splits: lines };
+      });
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "categorize_split",
+        entityType: "transaction",
+        entityId: transactionId,
+        newValue: { category: headline, source: "user", splits },
+      });
+
+      return NextResponse.json(result);
+    }
+
     if (!["business", "personal", "ambiguous"].includes(category)) {
       return NextResponse.json(
         { error: "Invalid category" },
@@ -64,4 +135,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
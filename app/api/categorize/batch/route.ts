@@ -1,32 +1,17 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/db";
 import { categorizations } from "@/lib/db/schema";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
 
 const batchSchema = z.object({
   transactionIds: z.array(z.string().uuid()).min(1).max(200),
   category: z.enum(["business", "personal", "ambiguous"]),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("transactions:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-      }
-      throw e;
-    }
-
     const body = await request.json();
     const parsed = batchSchema.safeParse(body);
 
@@ -70,4 +55,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
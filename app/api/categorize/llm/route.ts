@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { categorizeWithLlm, getLlmProvider } from "@/lib/categorization/llm";
+
+export const POST = withPermission("transactions:write", async (_request, { session }) => {
+  try {
+    const provider = getLlmProvider();
+    if (!provider) {
+      return NextResponse.json(
+        { error: "LLM categorization not configured" },
+        { status: 503 }
+      );
+    }
+
+    const result = await categorizeWithLlm(session.practiceId, provider);
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "categorize_llm",
+      entityType: "transaction",
+      newValue: result,
+    });
+
+    return NextResponse.json({
+      ...result,
+      message:
+        result.candidates === 0
+          ? "No ambiguous or low-confidence transactions to send"
+          : `AI suggested categories for ${result.categorized} of ${result.candidates} transactions` +
+            (result.failedBatches > 0 ? ` (${result.failedBatches} batches failed)` : ""),
+    });
+  } catch (error) {
+    console.error("LLM categorization error:", error);
+    return NextResponse.json(
+      { error: "LLM categorization failed" },
+      { status: 500 }
+    );
+  }
+});
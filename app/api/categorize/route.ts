@@ -1,29 +1,59 @@
 import { NextResponse } from "next/server";
-import { categorizeUncategorized } from "@/lib/categorization/engine";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { z } from "zod";
+import {
+  categorizeUncategorized,
+  recategorizeRuleSourced,
+} from "@/lib/categorization/engine";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
 
-export async function POST() {
+const categorizeSchema = z.object({
+  // "rerun" re-evaluates existing rule-sourced categorizations
+  mode: z.enum(["uncategorized", "rerun"]).default("uncategorized"),
+  dryRun: z.boolean().optional(),
+});
+
+export const POST = withPermission("transactions:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const body = await request.json().catch(() => ({}));
+    const parsed = categorizeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
     }
 
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    if (parsed.data.mode === "rerun") {
+      const rerun = await recategorizeRuleSourced(session.practiceId, {
+        dryRun: parsed.data.dryRun,
+      });
+
+      if (!rerun.dryRun && rerun.changed > 0) {
+        await logAuditEvent({
+          practiceId: session.practiceId,
+          userId: session.userId,
+          action: "recategorize_rules",
+          entityType: "transaction",
+          newValue: {
+            evaluated: rerun.evaluated,
+            changed: rerun.changed,
+            transitions: rerun.transitions,
+          },
+        });
       }
-      throw e;
+
+      return NextResponse.json({
+        ...rerun,
+        message: `${rerun.dryRun ? "Would update" : "Updated"} ${rerun.changed} of ${rerun.evaluated} rule-categorized transactions`,
+      });
     }
 
     const result = await categorizeUncategorized(session.practiceId);
 
     return NextResponse.json({
       ...result,
-      message: `Categorized ${result.categorized} transactions, ${result.uncategorized} remain uncategorized`,
+      message: `Categorized ${result.categorized} transactions (${result.mlCategorized} by ML model), ${result.uncategorized} remain uncategorized`,
     });
   } catch (error) {
     console.error("Categorization error:", error);
@@ -32,4 +62,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
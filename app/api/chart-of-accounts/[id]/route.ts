@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { accountRoleEnum } from "@/lib/db/schema";
+import { setAccountRole } from "@/lib/qbo/chart-of-accounts";
+
+const updateAccountSchema = z.object({
+  role: z.enum(accountRoleEnum.enumValues).nullable(),
+});
+
+/** Map an account to a role, overriding the inferred one. */
+export const PUT = withPermission<{ id: string }>("integrations:write", async (request, { session, params }) => {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = updateAccountSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await setAccountRole(id, session.practiceId, parsed.data.role);
+    if (!result) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "update_account_role",
+      entityType: "chart_account",
+      entityId: id,
+      oldValue: { role: result.before.role, roleSource: result.before.roleSource },
+      newValue: { role: result.after.role, roleSource: result.after.roleSource },
+    });
+
+    return NextResponse.json(result.after);
+  } catch (error) {
+    console.error("Account role update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update account role" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { importChartOfAccounts, listChartOfAccounts } from "@/lib/qbo/chart-of-accounts";
+import { ACCOUNT_ROLE_LABELS } from "@/lib/finance/account-roles";
+
+export const GET = withPermission("integrations:read", async (_request, { session }) => {
+  try {
+    const accounts = await listChartOfAccounts(session.practiceId);
+    return NextResponse.json({ accounts, roles: ACCOUNT_ROLE_LABELS });
+  } catch (error) {
+    console.error("Chart of accounts error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch chart of accounts" },
+      { status: 500 }
+    );
+  }
+});
+
+/** Import (or refresh) the chart of accounts from QuickBooks. */
+export const POST = withPermission("integrations:write", async (_request, { session }) => {
+  try {
+    const result = await importChartOfAccounts(session.practiceId);
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "import_chart_of_accounts",
+      entityType: "chart_of_accounts",
+      newValue: result,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Chart of accounts import error:", error);
+    return NextResponse.json(
+      { error: "Failed to import chart of accounts" },
+      { status: 500 }
+    );
+  }
+});
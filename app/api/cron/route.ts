@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { isAuthorizedCronRequest, isCronConfigured } from "@/lib/scheduler/cron-auth";
+import { runDueSchedules } from "@/lib/scheduler/scheduler";
+import { JOB_QUEUES } from "@/lib/jobs/handlers";
+import { drainQueue } from "@/lib/jobs/runner";
+
+/**
+ * Scheduler tick. Call every few minutes from an external cron with
+ * `Authorization: Bearer $CRON_SECRET`; starts every schedule that's due.
+ */
+async function tick(request: NextRequest) {
+  try {
+    if (!isCronConfigured()) {
+      return NextResponse.json({ error: "CRON_SECRET is not configured" }, { status: 503 });
+    }
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { created, started, skipped } = await runDueSchedules();
+
+    // Retries and anything else waiting get picked up here too, so a
+    // deployment without a dedicated worker still makes progress
+    after(async () => {
+      for (const queue of JOB_QUEUES) await drainQueue(queue);
+    });
+
+    return NextResponse.json({
+      schedulesCreated: created,
+      started: started.map((r) => ({ runId: r.id, task: r.task, practiceId: r.practiceId })),
+      skipped,
+    });
+  } catch (error) {
+    console.error("Cron tick error:", error);
+    return NextResponse.json({ error: "Cron tick failed" }, { status: 500 });
+  }
+}
+
+export const GET = tick;
+export const POST = tick;
@@ -1,14 +1,9 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { generateCFOBriefing } from "@/lib/finance/cfo-briefing";
 
-export async function GET() {
+export const GET = withPermission("reports:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const briefing = await generateCFOBriefing(session.practiceId);
     return NextResponse.json(briefing);
   } catch (error) {
@@ -18,4 +13,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,16 +1,12 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { transactions, categorizations, practices } from "@/lib/db/schema";
-import { eq, and, sql, gte } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { eq, and, sql, gte, or, isNull, notInArray } from "drizzle-orm";
+import { withPermission } from "@/lib/auth/guard";
+import { NON_CASH_QBO_TXN_TYPES } from "@/lib/qbo/transaction-types";
 
-export async function GET() {
+export const GET = withPermission("reports:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const practiceId = session.practiceId;
 
     // Latest categorization subquery
@@ -24,7 +20,9 @@ export async function GET() {
     const [{ total }] = await db
       .select({ total: sql<number>`count(*)::int` })
       .from(transactions)
-      .where(eq(transactions.practiceId, practiceId));
+      .where(
+        and(eq(transactions.practiceId, practiceId), isNull(transactions.duplicateOfId))
+      );
 
     // Categorized / needs review / uncategorized
     const stats = await db
@@ -41,7 +39,9 @@ export async function GET() {
           eq(categorizations.id, latestCatId)
         )
       )
-      .where(eq(transactions.practiceId, practiceId))
+      .where(
+        and(eq(transactions.practiceId, practiceId), isNull(transactions.duplicateOfId))
+      )
       .groupBy(categorizations.category, categorizations.confidence);
 
     let categorized = 0;
@@ -83,7 +83,12 @@ export async function GET() {
       .where(
         and(
           eq(transactions.practiceId, practiceId),
-          gte(transactions.date, twelveMonthsAgo)
+          isNull(transactions.duplicateOfId),
+          gte(transactions.date, twelveMonthsAgo),
+          or(
+            isNull(transactions.qboTxnType),
+            notInArray(transactions.qboTxnType, NON_CASH_QBO_TXN_TYPES)
+          )
         )
       )
       .groupBy(sql`to_char(date, 'YYYY-MM')`)
@@ -97,7 +102,9 @@ export async function GET() {
         count: sql<number>`count(*)::int`,
       })
       .from(transactions)
-      .where(eq(transactions.practiceId, practiceId))
+      .where(
+        and(eq(transactions.practiceId, practiceId), isNull(transactions.duplicateOfId))
+      )
       .groupBy(transactions.accountRef)
       .orderBy(sql`sum(abs(amount::numeric)) desc`)
       .limit(10);
@@ -118,4 +125,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,22 +1,29 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { calculateProfitability } from "@/lib/finance/profitability";
 import { calculateFreeCashFlow } from "@/lib/finance/cash-flow";
-import { calculateBudgetVsActual, getBudget } from "@/lib/finance/budget";
+import {
+  calculateBudgetVsActual,
+  getBudget,
+  getFiscalYearStart,
+} from "@/lib/finance/budget";
+import { fiscalPositionOf } from "@/lib/finance/budget-calendar";
 import { generateMonthlyReport } from "@/lib/export/pdf-report";
+import { isReportingBasis, type ReportingBasis } from "@/lib/finance/reporting-basis";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("reports:read", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const type = searchParams.get("type") || "profitability";
     const format = searchParams.get("format") || "csv";
     const startDateParam = searchParams.get("startDate");
     const endDateParam = searchParams.get("endDate");
+    const basisParam = searchParams.get("basis");
+    const basis = isReportingBasis(basisParam) ? basisParam : undefined;
+
+    if (basisParam && !basis) {
+      return NextResponse.json({ error: "basis must be cash or accrual" }, { status: 400 });
+    }
 
     const now = new Date();
     const startDate = startDateParam
@@ -31,7 +38,8 @@ export async function GET(request: NextRequest) {
         session.practiceId,
         type,
         startDate,
-        endDate
+        endDate,
+        basis
       );
       return new NextResponse(csv, {
         headers: {
@@ -63,22 +71,26 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 async function generateCSV(
   practiceId: string,
   type: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  basis?: ReportingBasis
 ): Promise<string> {
   switch (type) {
     case "profitability": {
       const report = await calculateProfitability(
         practiceId,
         startDate,
-        endDate
+        endDate,
+        { basis }
       );
       const rows: string[] = [
+        `Basis,${report.basis === "accrual" ? "Accrual" : "Cash"}`,
+        "",
         "Month,Revenue,Operating Expenses,Net Operating Income,Overhead Ratio",
       ];
       for (const m of report.monthlyBreakdown) {
@@ -101,6 +113,13 @@ async function generateCSV(
       rows.push(
         `Overhead Ratio,${(report.overheadRatio * 100).toFixed(1)}%`
       );
+      if (report.openItems) {
+        const { receivables, payables } = report.openItems;
+        rows.push(`Open Receivables,${receivables.total.toFixed(2)}`);
+        rows.push(`Overdue Receivables,${receivables.overdue.toFixed(2)}`);
+        rows.push(`Open Payables,${payables.total.toFixed(2)}`);
+        rows.push(`Overdue Payables,${payables.overdue.toFixed(2)}`);
+      }
 
       rows.push("");
       rows.push("Expense Category,Amount");
@@ -134,7 +153,7 @@ async function generateCSV(
     }
 
     case "budget": {
-      const year = new Date().getFullYear();
+      const { year } = fiscalPositionOf(new Date(), await getFiscalYearStart(practiceId));
       const budget = await getBudget(practiceId, year);
       if (!budget) return "No budget configured for this year.";
 
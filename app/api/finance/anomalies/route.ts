@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { detectAnomalies } from "@/lib/finance/anomalies";
+
+export const GET = withPermission("reports:read", async (_request, { session }) => {
+  try {
+    const anomalies = await detectAnomalies(session.practiceId);
+    return NextResponse.json({ anomalies });
+  } catch (error) {
+    console.error("Anomaly detection error:", error);
+    return NextResponse.json(
+      { error: "Failed to detect anomalies" },
+      { status: 500 }
+    );
+  }
+});
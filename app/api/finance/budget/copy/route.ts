@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { BUDGET_VERSIONS, BudgetExistsError, copyBudget } from "@/lib/finance/budget";
+
+const copySchema = z
+  .object({
+    fromYear: z.number().int().min(2000).max(2100),
+    fromVersion: z.enum(BUDGET_VERSIONS).default("original"),
+    // Omitted: roll forward to the next fiscal year
+    toYear: z.number().int().min(2000).max(2100).optional(),
+    toVersion: z.enum(BUDGET_VERSIONS).default("original"),
+    growthPercent: z.number().min(-100).max(1000).default(0),
+    overwrite: z.boolean().default(false),
+  })
+  .transform((data) => ({ ...data, toYear: data.toYear ?? data.fromYear + 1 }))
+  .refine((data) => data.fromYear !== data.toYear || data.fromVersion !== data.toVersion, {
+    message: "Choose a different year or version to copy to",
+  });
+
+/** Copy a budget to another version, or roll it forward a year with growth. */
+export const POST = withPermission("budgets:write", async (request, { session }) => {
+  try {
+    const body = await request.json();
+    const parsed = copySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    let budget;
+    try {
+      budget = await copyBudget(session.practiceId, parsed.data);
+    } catch (error) {
+      if (error instanceof BudgetExistsError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
+    if (!budget) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    const { fromYear, fromVersion, toYear, toVersion, growthPercent, overwrite } = parsed.data;
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "budget_copied",
+      entityType: "budget",
+      entityId: `${toYear}:${toVersion}`,
+      newValue: { fromYear, fromVersion, toYear, toVersion, growthPercent, overwrite },
+    });
+
+    return NextResponse.json({ budget }, { status: 201 });
+  } catch (error) {
+    console.error("Budget copy error:", error);
+    return NextResponse.json(
+      { error: "Failed to copy budget" },
+      { status: 500 }
+    );
+  }
+});
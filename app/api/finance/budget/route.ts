@@ -1,44 +1,94 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
 import {
+  BUDGET_VERSIONS,
   getBudget,
   saveBudget,
+  deleteBudget,
+  listBudgetVersions,
+  getBudgetCalendar,
   calculateBudgetVsActual,
+  calculateBudgetPeriods,
   getSuggestedBudget,
 } from "@/lib/finance/budget";
+import { BUDGET_GRANULARITIES, fiscalPositionOf } from "@/lib/finance/budget-calendar";
 
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+const querySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+  month: z.coerce.number().int().min(1).max(12).optional(),
+  version: z.enum(BUDGET_VERSIONS).optional(),
+  granularity: z.enum(BUDGET_GRANULARITIES).optional(),
+});
+
+const budgetKeySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  version: z.enum(BUDGET_VERSIONS),
+});
+
+const saveSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+  version: z.enum(BUDGET_VERSIONS).default("original"),
+  shape: z.enum(["flat", "seasonal"]).default("flat"),
+  categories: z
+    .array(
+      z.object({
+        accountRef: z.string().min(1),
+        monthlyTarget: z.number().min(0).optional(),
+        annualTarget: z.number().min(0).optional(),
+        monthlyTargets: z.array(z.number().min(0)).length(12).optional(),
+      })
+    )
+    .min(1, "categories[] required"),
+});
 
+/**
+ * A fiscal year's budget with budget vs actual for one month, plus a
+ * month, quarter or full-year breakdown when `granularity` is given.
+ * Without a version, the active one (revised if it exists, else original).
+ */
+export const GET = withPermission("budgets:read", async (request, { session }) => {
+  try {
     const { searchParams } = new URL(request.url);
-    const year = parseInt(
-      searchParams.get("year") || String(new Date().getFullYear()),
-      10
+    const parsed = querySchema.safeParse(
+      Object.fromEntries(
+        ["year", "month", "version", "granularity"]
+          .map((key) => [key, searchParams.get(key) || undefined])
+          .filter(([, value]) => value !== undefined)
+      )
     );
-    const month = searchParams.get("month")
-      ? parseInt(searchParams.get("month")!, 10)
-      : undefined;
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { month, version, granularity } = parsed.data;
+    const calendar = await getBudgetCalendar(session.practiceId);
+    const year =
+      parsed.data.year ?? fiscalPositionOf(new Date(), calendar.fiscalYearStart).year;
 
-    const budget = await getBudget(session.practiceId, year);
+    const [budget, versions] = await Promise.all([
+      getBudget(session.practiceId, year, version),
+      listBudgetVersions(session.practiceId, year),
+    ]);
 
     if (!budget) {
       // Return suggested budget for first-time setup
       const suggested = await getSuggestedBudget(session.practiceId);
-      return NextResponse.json({ budget: null, suggested, year });
+      return NextResponse.json({ budget: null, suggested, versions, ...calendar, year });
     }
 
-    const vsActual = await calculateBudgetVsActual(
-      session.practiceId,
-      year,
-      month
-    );
+    const [vsActual, periods] = await Promise.all([
+      calculateBudgetVsActual(session.practiceId, year, month, budget.version),
+      granularity
+        ? calculateBudgetPeriods(session.practiceId, year, granularity, budget.version)
+        : null,
+    ]);
 
-    return NextResponse.json({ budget, vsActual, year });
+    return NextResponse.json({ budget, vsActual, periods, versions, ...calendar, year });
   } catch (error) {
     console.error("Budget error:", error);
     return NextResponse.json(
@@ -46,42 +96,76 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withPermission("budgets:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const body = await request.json();
+    const parsed = saveSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
     }
 
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-      }
-      throw e;
-    }
+    const { year, version, shape, categories } = parsed.data;
+    await saveBudget(session.practiceId, year, categories, { version, shape });
 
-    const body = await request.json();
-    const { year, categories } = body;
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "budget_saved",
+      entityType: "budget",
+      entityId: `${year}:${version}`,
+      newValue: { year, version, shape, categories: categories.length },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Budget save error:", error);
+    return NextResponse.json(
+      { error: "Failed to save budget" },
+      { status: 500 }
+    );
+  }
+});
 
-    if (!year || !categories || !Array.isArray(categories)) {
+export const DELETE = withPermission("budgets:write", async (request, { session }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = budgetKeySchema.safeParse({
+      year: searchParams.get("year") || undefined,
+      version: searchParams.get("version") || undefined,
+    });
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "year and categories[] required" },
+        { error: parsed.error.issues[0].message },
         { status: 400 }
       );
     }
 
-    await saveBudget(session.practiceId, year, categories);
+    const { year, version } = parsed.data;
+    const deleted = await deleteBudget(session.practiceId, year, version);
+    if (deleted === 0) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "budget_deleted",
+      entityType: "budget",
+      entityId: `${year}:${version}`,
+      oldValue: { year, version, categories: deleted },
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
-    console.error("Budget save error:", error);
+    console.error("Budget delete error:", error);
     return NextResponse.json(
-      { error: "Failed to save budget" },
+      { error: "Failed to delete budget" },
       { status: 500 }
     );
   }
-}
+});
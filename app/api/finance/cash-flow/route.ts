@@ -1,14 +1,9 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { calculateFreeCashFlow } from "@/lib/finance/cash-flow";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("reports:read", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const months = parseInt(searchParams.get("months") || "12", 10);
 
@@ -25,4 +20,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
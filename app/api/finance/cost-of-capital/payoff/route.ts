@@ -1,5 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { calculateCostOfCapital } from "@/lib/finance/cost-of-capital";
 
 /**
@@ -7,13 +7,8 @@ import { calculateCostOfCapital } from "@/lib/finance/cost-of-capital";
  * Accept custom payoff parameters (extra monthly payment amount).
  * Returns the full cost-of-capital report recalculated with the custom extra.
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("loans:read", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const body = await request.json();
     const { extraMonthlyPayment } = body;
 
@@ -41,4 +36,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,9 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { calculateCostOfCapital } from "@/lib/finance/cost-of-capital";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("loans:read", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const extraMonthlyPayment = searchParams.get("extraMonthlyPayment")
       ? parseFloat(searchParams.get("extraMonthlyPayment")!)
@@ -27,4 +22,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,9 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { calculateDebtCapacity } from "@/lib/finance/debt-capacity";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("loans:read", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const targetDSCR = searchParams.get("targetDSCR")
       ? parseFloat(searchParams.get("targetDSCR")!)
@@ -30,4 +25,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,31 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { getLoanById, updateLoan, deleteLoan } from "@/lib/finance/loans";
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withPermission<{ id: string }>("loans:write", async (request, { session, params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json(
-          { error: "Insufficient permissions" },
-          { status: 403 }
-        );
-      }
-      throw e;
-    }
-
     const { id } = await params;
     const existing = await getLoanById(id, session.practiceId);
     if (!existing) {
@@ -77,30 +56,10 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission<{ id: string }>("loans:write", async (_request, { session, params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json(
-          { error: "Insufficient permissions" },
-          { status: 403 }
-        );
-      }
-      throw e;
-    }
-
     const { id } = await params;
     const existing = await getLoanById(id, session.practiceId);
     if (!existing) {
@@ -132,4 +91,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,9 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { detectLoans } from "@/lib/finance/loans";
 
-export async function POST() {
+export const POST = withPermission("loans:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const detected = await detectLoans(session.practiceId);
 
     return NextResponse.json({ detected });
@@ -19,4 +14,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
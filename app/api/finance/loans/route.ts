@@ -1,16 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { getLoans, createLoan, detectLoans } from "@/lib/finance/loans";
 
-export async function GET() {
+export const GET = withPermission("loans:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const allLoans = await getLoans(session.practiceId);
     const detected = await detectLoans(session.practiceId);
 
@@ -22,27 +16,10 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("loans:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json(
-          { error: "Insufficient permissions" },
-          { status: 403 }
-        );
-      }
-      throw e;
-    }
-
     const body = await request.json();
     const {
       name,
@@ -99,4 +76,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,5 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { db } from "@/lib/db";
 import { practices } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
@@ -13,13 +13,8 @@ const manualSchema = z.object({
   otherLiabilities: z.number().optional(),
 });
 
-export async function PUT(request: NextRequest) {
+export const PUT = withPermission("net_worth:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const body = await request.json();
     const parsed = manualSchema.safeParse(body);
     if (!parsed.success) {
@@ -66,4 +61,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,17 +1,12 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { calculateNetWorth } from "@/lib/finance/net-worth";
 import { db } from "@/lib/db";
 import { netWorthSnapshots } from "@/lib/db/schema";
 import { logAuditEvent } from "@/lib/audit/logger";
 
-export async function POST() {
+export const POST = withPermission("net_worth:write", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const report = await calculateNetWorth(session.practiceId);
 
     const today = new Date().toISOString().slice(0, 10);
@@ -44,4 +39,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
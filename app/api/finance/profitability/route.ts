@@ -1,17 +1,22 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { calculateProfitability } from "@/lib/finance/profitability";
+import { isReportingBasis } from "@/lib/finance/reporting-basis";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("reports:read", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const startDateParam = searchParams.get("startDate");
     const endDateParam = searchParams.get("endDate");
+    const basisParam = searchParams.get("basis");
+    const basis = isReportingBasis(basisParam) ? basisParam : undefined;
+
+    if (basisParam && !basis) {
+      return NextResponse.json(
+        { error: "basis must be cash or accrual" },
+        { status: 400 }
+      );
+    }
 
     // Default to current month
     const now = new Date();
@@ -25,7 +30,8 @@ export async function GET(request: NextRequest) {
     const report = await calculateProfitability(
       session.practiceId,
       startDate,
-      endDate
+      endDate,
+      { basis }
     );
 
     return NextResponse.json(report);
@@ -36,4 +42,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { detectRecurringCharges } from "@/lib/finance/recurring";
+
+export const GET = withPermission("reports:read", async (_request, { session }) => {
+  try {
+    const summary = await detectRecurringCharges(session.practiceId);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Recurring charges error:", error);
+    return NextResponse.json(
+      { error: "Failed to detect recurring charges" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,75 @@
+import { NextResponse, after } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { drainQueue } from "@/lib/jobs/runner";
+import {
+  REPORTING_BASES,
+  getReportingBasis,
+  setReportingBasis,
+} from "@/lib/finance/reporting-basis";
+
+const updateBasisSchema = z.object({
+  basis: z.enum(REPORTING_BASES),
+});
+
+export const GET = withPermission("settings:read", async (_request, { session }) => {
+  try {
+    const basis = await getReportingBasis(session.practiceId);
+    return NextResponse.json({ basis });
+  } catch (error) {
+    console.error("Reporting basis error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reporting basis" },
+      { status: 500 }
+    );
+  }
+});
+
+/** Change the practice's default reporting basis (admin only). */
+export const PUT = withPermission("settings:write", async (request, { session }) => {
+  try {
+    const body = await request.json();
+    const parsed = updateBasisSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const previous = await getReportingBasis(session.practiceId);
+    const basis = await setReportingBasis(session.practiceId, parsed.data.basis);
+    if (!basis) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "update_reporting_basis",
+      entityType: "practice",
+      entityId: session.practiceId,
+      oldValue: { basis: previous },
+      newValue: { basis },
+    });
+
+    // The cached snapshot was computed on the old basis
+    if (basis !== previous) {
+      await enqueueJob("snapshots", "snapshot.refresh", {}, {
+        practiceId: session.practiceId,
+        idempotencyKey: `snapshot:${session.practiceId}`,
+      });
+      after(() => drainQueue("snapshots"));
+    }
+
+    return NextResponse.json({ basis });
+  } catch (error) {
+    console.error("Reporting basis update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update reporting basis" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,23 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { db } from "@/lib/db";
 import { retirementMilestones } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withPermission<{ id: string }>("retirement:write", async (request, { session, params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    requireRole(session, "write");
-
     const { id } = await params;
     const body = await request.json();
     const {
@@ -100,29 +89,16 @@ export async function PUT(
       },
     });
   } catch (error: unknown) {
-    if (error instanceof Error && error.name === "PermissionError") {
-      return NextResponse.json({ error: error.message }, { status: 403 });
-    }
     console.error("Update milestone error:", error);
     return NextResponse.json(
       { error: "Failed to update milestone" },
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission<{ id: string }>("retirement:write", async (_request, { session, params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    requireRole(session, "write");
-
     const { id } = await params;
 
     // Verify ownership
@@ -158,13 +134,10 @@ export async function DELETE(
 
     return NextResponse.json({ success: true });
   } catch (error: unknown) {
-    if (error instanceof Error && error.name === "PermissionError") {
-      return NextResponse.json({ error: error.message }, { status: 403 });
-    }
     console.error("Delete milestone error:", error);
     return NextResponse.json(
       { error: "Failed to delete milestone" },
       { status: 500 }
     );
   }
-}
+});
@@ -1,18 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { db } from "@/lib/db";
 import { retirementMilestones } from "@/lib/db/schema";
 import { eq, asc } from "drizzle-orm";
 
-export async function GET() {
+export const GET = withPermission("retirement:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const milestones = await db
       .select()
       .from(retirementMilestones)
@@ -41,17 +35,10 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("retirement:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    requireRole(session, "write");
-
     const body = await request.json();
     const {
       title,
@@ -111,13 +98,10 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error: unknown) {
-    if (error instanceof Error && error.name === "PermissionError") {
-      return NextResponse.json({ error: error.message }, { status: 403 });
-    }
     console.error("Create milestone error:", error);
     return NextResponse.json(
       { error: "Failed to create milestone" },
       { status: 500 }
     );
   }
-}
+});
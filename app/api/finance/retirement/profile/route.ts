@@ -1,18 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { db } from "@/lib/db";
 import { retirementProfiles } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 
-export async function GET() {
+export const GET = withPermission("retirement:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const [profile] = await db
       .select()
       .from(retirementProfiles)
@@ -45,17 +39,10 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withPermission("retirement:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    requireRole(session, "write");
-
     const body = await request.json();
     const {
       currentAge,
@@ -141,13 +128,10 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json({ success: true, id: profileId });
   } catch (error: unknown) {
-    if (error instanceof Error && error.name === "PermissionError") {
-      return NextResponse.json({ error: error.message }, { status: 403 });
-    }
     console.error("Upsert retirement profile error:", error);
     return NextResponse.json(
       { error: "Failed to save retirement profile" },
       { status: 500 }
     );
   }
-}
+});
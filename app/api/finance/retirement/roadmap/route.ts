@@ -1,14 +1,9 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { generateRoadmapSuggestions } from "@/lib/finance/retirement-roadmap";
 
-export async function GET() {
+export const GET = withPermission("retirement:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const roadmap = await generateRoadmapSuggestions(session.practiceId);
     if (!roadmap) {
       return NextResponse.json(
@@ -25,4 +20,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,9 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { calculateRetirementProjection } from "@/lib/finance/retirement";
 
-export async function GET() {
+export const GET = withPermission("retirement:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const projection = await calculateRetirementProjection(session.practiceId);
     if (!projection) {
       return NextResponse.json({ hasProfile: false, projection: null });
@@ -22,4 +17,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,33 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { db } from "@/lib/db";
 import { roiAnalyses } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission<{ id: string }>("reports:write", async (_request, { session, params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json(
-          { error: "Insufficient permissions" },
-          { status: 403 }
-        );
-      }
-      throw e;
-    }
-
     const { id } = await params;
 
     // Verify the analysis belongs to this practice
@@ -74,4 +53,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
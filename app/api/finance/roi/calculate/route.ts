@@ -1,18 +1,13 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import {
   calculateRealEstateROI,
   calculatePracticeAcquisitionROI,
   calculateEquipmentROI,
 } from "@/lib/finance/roi-calculator";
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("reports:read", async (request) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const body = await request.json();
     const { dealType, inputs } = body;
 
@@ -50,4 +45,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
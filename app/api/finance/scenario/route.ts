@@ -1,17 +1,9 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { runScenario } from "@/lib/finance/scenario";
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("reports:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    requireRole(session, "write");
-
     const body = await request.json();
     const { adjustments } = body;
 
@@ -25,13 +17,10 @@ export async function POST(request: NextRequest) {
     const result = await runScenario(session.practiceId, adjustments);
     return NextResponse.json(result);
   } catch (error) {
-    if (error instanceof PermissionError) {
-      return NextResponse.json({ error: error.message }, { status: 403 });
-    }
     console.error("Scenario error:", error);
     return NextResponse.json(
       { error: "Failed to run scenario" },
       { status: 500 }
     );
   }
-}
+});
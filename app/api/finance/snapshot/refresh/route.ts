@@ -1,26 +1,17 @@
-import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
-import { refreshSnapshot } from "@/lib/finance/snapshot";
+import { NextResponse, after } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { drainQueue } from "@/lib/jobs/runner";
 
-export async function POST() {
+export const POST = withPermission("reports:write", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const job = await enqueueJob("snapshots", "snapshot.refresh", {}, {
+      practiceId: session.practiceId,
+      idempotencyKey: `snapshot:${session.practiceId}`,
+    });
+    after(() => drainQueue("snapshots"));
 
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-      }
-      throw e;
-    }
-
-    const snapshot = await refreshSnapshot(session.practiceId);
-    return NextResponse.json(snapshot);
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
   } catch (error) {
     console.error("Snapshot refresh error:", error);
     return NextResponse.json(
@@ -28,4 +19,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
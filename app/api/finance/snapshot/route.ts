@@ -1,14 +1,9 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { getOrRefreshSnapshot } from "@/lib/finance/snapshot";
 
-export async function GET() {
+export const GET = withPermission("reports:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const snapshot = await getOrRefreshSnapshot(session.practiceId);
     return NextResponse.json(snapshot);
   } catch (error) {
@@ -18,4 +13,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,17 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { taxAlerts } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { generateTaxAlerts } from "@/lib/finance/tax-strategy";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("reports:read", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const taxYear = parseInt(
       searchParams.get("taxYear") || String(new Date().getFullYear()),
@@ -77,4 +72,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
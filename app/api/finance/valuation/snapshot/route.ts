@@ -1,28 +1,10 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { withPermission } from "@/lib/auth/guard";
 import { saveValuationSnapshot } from "@/lib/finance/valuation";
 import { logAuditEvent } from "@/lib/audit/logger";
 
-export async function POST() {
+export const POST = withPermission("reports:write", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json(
-          { error: "Insufficient permissions" },
-          { status: 403 }
-        );
-      }
-      throw e;
-    }
-
     await saveValuationSnapshot(session.practiceId);
 
     await logAuditEvent({
@@ -40,4 +22,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
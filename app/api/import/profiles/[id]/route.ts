@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import {
+  updateImportProfile,
+  deleteImportProfile,
+  importProfileSchema,
+  ImportProfileNameTakenError,
+} from "@/lib/import/profiles";
+
+const updateProfileSchema = importProfileSchema.partial();
+
+export const PUT = withPermission<{ id: string }>("integrations:write", async (request, { session, params }) => {
+  try {
+    const body = await request.json();
+    const parsed = updateProfileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    let result;
+    try {
+      result = await updateImportProfile(id, session.practiceId, parsed.data);
+    } catch (e) {
+      if (e instanceof ImportProfileNameTakenError) {
+        return NextResponse.json({ error: e.message }, { status: 409 });
+      }
+      throw e;
+    }
+    if (!result) {
+      return NextResponse.json({ error: "Import profile not found" }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "update_import_profile",
+      entityType: "import_profile",
+      entityId: id,
+      oldValue: result.before,
+      newValue: result.after,
+    });
+
+    return NextResponse.json(result.after);
+  } catch (error) {
+    console.error("Import profile update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update import profile" },
+      { status: 500 }
+    );
+  }
+});
+
+/** Previously imported transactions stay; only the mapping is removed. */
+export const DELETE = withPermission<{ id: string }>("integrations:write", async (_request, { session, params }) => {
+  try {
+    const { id } = await params;
+    const profile = await deleteImportProfile(id, session.practiceId);
+    if (!profile) {
+      return NextResponse.json({ error: "Import profile not found" }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "delete_import_profile",
+      entityType: "import_profile",
+      entityId: id,
+      oldValue: profile,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Import profile delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete import profile" },
+      { status: 500 }
+    );
+  }
+});
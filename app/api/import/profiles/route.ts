@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import {
+  listImportProfiles,
+  createImportProfile,
+  importProfileSchema,
+  ImportProfileNameTakenError,
+} from "@/lib/import/profiles";
+import { DATE_FORMATS } from "@/lib/import/csv";
+
+export const GET = withPermission("integrations:read", async (_request, { session }) => {
+  try {
+    const profiles = await listImportProfiles(session.practiceId);
+    return NextResponse.json({ profiles, dateFormats: DATE_FORMATS });
+  } catch (error) {
+    console.error("Import profiles fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch import profiles" },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withPermission("integrations:write", async (request, { session }) => {
+  try {
+    const body = await request.json();
+    const parsed = importProfileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    let profile;
+    try {
+      profile = await createImportProfile(session.practiceId, parsed.data);
+    } catch (e) {
+      if (e instanceof ImportProfileNameTakenError) {
+        return NextResponse.json({ error: e.message }, { status: 409 });
+      }
+      throw e;
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "create_import_profile",
+      entityType: "import_profile",
+      entityId: profile.id,
+      newValue: parsed.data,
+    });
+
+    return NextResponse.json(profile, { status: 201 });
+  } catch (error) {
+    console.error("Import profile create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create import profile" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,89 @@
+import { NextResponse, after } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { drainQueue } from "@/lib/jobs/runner";
+import { enqueuePairDetection } from "@/lib/jobs/handlers";
+import { importStatement } from "@/lib/import/statement";
+import { getImportProfile } from "@/lib/import/profiles";
+import { StatementImportError } from "@/lib/import/types";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Import a bank statement file (multipart form: `file`, plus `profileId`
+ * for CSV and an optional `accountName`). New rows are categorized and
+ * checked for duplicates and transfers in the background.
+ */
+export const POST = withPermission("integrations:write", async (request, { session }) => {
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "File is larger than 5 MB" }, { status: 400 });
+    }
+
+    const profileId = form.get("profileId");
+    const accountName = form.get("accountName");
+    let profile = null;
+    if (typeof profileId === "string" && profileId) {
+      profile = await getImportProfile(profileId, session.practiceId);
+      if (!profile) {
+        return NextResponse.json({ error: "Import profile not found" }, { status: 404 });
+      }
+    }
+
+    let result;
+    try {
+      result = await importStatement(session.practiceId, {
+        fileName: file.name,
+        content: await file.text(),
+        profile,
+        accountName: typeof accountName === "string" ? accountName.trim() : null,
+      });
+    } catch (e) {
+      if (e instanceof StatementImportError) {
+        return NextResponse.json({ error: e.message }, { status: 400 });
+      }
+      throw e;
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "import_statement",
+      entityType: "transaction",
+      newValue: {
+        fileName: file.name,
+        format: result.format,
+        accountName: result.accountName,
+        profileId: profile?.id ?? null,
+        imported: result.imported,
+        skipped: result.skipped,
+        unreadable: result.errors.length,
+      },
+    });
+
+    let jobId: string | null = null;
+    if (result.imported > 0) {
+      const job = await enqueueJob("categorization", "categorize.uncategorized", {}, {
+        practiceId: session.practiceId,
+        idempotencyKey: `categorize:${session.practiceId}`,
+      });
+      await enqueuePairDetection(session.practiceId);
+      after(() => drainQueue("categorization"));
+      jobId = job.id;
+    }
+
+    return NextResponse.json({ ...result, jobId });
+  } catch (error) {
+    console.error("Statement import error:", error);
+    return NextResponse.json(
+      { error: "Failed to import statement" },
+      { status: 500 }
+    );
+  }
+});
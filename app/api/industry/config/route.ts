@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { getConfigForPractice } from "@/lib/industries";
 import { db } from "@/lib/db";
@@ -34,22 +34,12 @@ const industryConfigSchema = z.object({
   ownerDrawPatterns: z.array(z.string()),
 });
 
-export async function GET() {
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const GET = withPermission("industry_config:read", async (_request, { session }) => {
   const config = await getConfigForPractice(session.practiceId);
   return NextResponse.json(config);
-}
-
-export async function PUT(request: NextRequest) {
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+});
 
+export const PUT = withPermission("industry_config:write", async (request, { session }) => {
   const body = await request.json();
   const parsed = industryConfigSchema.safeParse(body);
   if (!parsed.success) {
@@ -97,4 +87,4 @@ export async function PUT(request: NextRequest) {
   });
 
   return NextResponse.json(config);
-}
+});
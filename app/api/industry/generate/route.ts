@@ -1,7 +1,7 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
 import Anthropic from "@anthropic-ai/sdk";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { db } from "@/lib/db";
 import { industryConfigs } from "@/lib/db/schema";
@@ -60,12 +60,7 @@ The config must include:
 Return ONLY the JSON object, no markdown fences.`;
 }
 
-export async function POST(request: NextRequest) {
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const POST = withPermission("industry_config:write", async (request, { session }) => {
   const body = await request.json();
   const parsed = requestSchema.safeParse(body);
   if (!parsed.success) {
@@ -155,4 +150,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { acceptInvitation, InvitationEmailTakenError } from "@/lib/auth/invitations";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+const acceptSchema = z.object({
+  name: z.string().min(1).max(100),
+  password: z.string().min(8),
+});
+
+/** Create the invited person's account and membership, then they sign in. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const body = await request.json();
+    const parsed = acceptSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    let accepted;
+    try {
+      accepted = await acceptInvitation(token, parsed.data);
+    } catch (error) {
+      if (error instanceof InvitationEmailTakenError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
+
+    if (!accepted) {
+      return NextResponse.json(
+        { error: "This invitation is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+
+    await logAuditEvent({
+      practiceId: accepted.practiceId,
+      userId: accepted.userId,
+      action: "accept_invitation",
+      entityType: "user_practice",
+      newValue: { email: accepted.email },
+    });
+
+    return NextResponse.json(
+      { userId: accepted.userId, email: accepted.email },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+    return NextResponse.json(
+      { error: "Failed to accept invitation" },
+      { status: 500 }
+    );
+  }
+}
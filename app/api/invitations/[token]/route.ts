@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInvitationByToken } from "@/lib/auth/invitations";
+
+// Public: the token in the emailed link is the credential
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const invitation = await getInvitationByToken(token);
+    if (!invitation) {
+      return NextResponse.json(
+        { error: "This invitation is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      email: invitation.email,
+      role: invitation.customRoleName ?? invitation.role,
+      practiceName: invitation.practiceName,
+      invitedByName: invitation.invitedByName,
+      expiresAt: invitation.expiresAt,
+    });
+  } catch (error) {
+    console.error("Get invitation error:", error);
+    return NextResponse.json(
+      { error: "Failed to load invitation" },
+      { status: 500 }
+    );
+  }
+}
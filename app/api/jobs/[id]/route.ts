@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { getJob, toJobStatus } from "@/lib/jobs/queue";
+
+/** Status of a single job; the UI polls this after enqueueing work. */
+export const GET = withPermission<{ id: string }>(null, async (_request, { session, params }) => {
+  try {
+    const { id } = await params;
+    // Job IDs are UUIDs; anything else can't exist and would fail the cast
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    const job = await getJob(id);
+    if (!job || job.practiceId !== session.practiceId) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toJobStatus(job));
+  } catch (error) {
+    console.error("Job fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch job" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { listJobs, toJobStatus } from "@/lib/jobs/queue";
+
+const listJobsSchema = z.object({
+  queue: z.string().optional(),
+  status: z.enum(["queued", "running", "completed", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+/** Recent background jobs for the practice, newest first. */
+export const GET = withPermission(null, async (request, { session }) => {
+  try {
+    const params = Object.fromEntries(request.nextUrl.searchParams);
+    const parsed = listJobsSchema.safeParse(params);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await listJobs({ practiceId: session.practiceId, ...parsed.data });
+    return NextResponse.json({ jobs: jobs.map(toJobStatus) });
+  } catch (error) {
+    console.error("Jobs fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch jobs" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,9 +1,9 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/db";
 import { notificationPreferences } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 
 const updateSchema = z.object({
   emailInvites: z.boolean().optional(),
@@ -13,13 +13,8 @@ const updateSchema = z.object({
   emailWeeklyInsights: z.boolean().optional(),
 });
 
-export async function GET() {
+export const GET = withPermission(null, async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     // Find or create default preferences
     let [prefs] = await db
       .select()
@@ -43,15 +38,10 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withPermission(null, async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const body = await request.json();
     const parsed = updateSchema.safeParse(body);
     if (!parsed.success) {
@@ -88,4 +78,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
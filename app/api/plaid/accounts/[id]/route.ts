@@ -1,5 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { db } from "@/lib/db";
 import { plaidAccounts } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
@@ -9,16 +9,8 @@ const updateSchema = z.object({
   isIncludedInNetWorth: z.boolean(),
 });
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withPermission<{ id: string }>("connections:write", async (request, { session, params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { id } = await params;
     const body = await request.json();
     const parsed = updateSchema.safeParse(body);
@@ -55,4 +47,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
@@ -1,16 +1,11 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { db } from "@/lib/db";
 import { plaidConnections, plaidAccounts } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 
-export async function GET() {
+export const GET = withPermission("connections:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     // Get all connections with their accounts
     const connections = await db
       .select()
@@ -55,4 +50,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,20 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { db } from "@/lib/db";
 import { plaidConnections, plaidAccounts } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 import { logAuditEvent } from "@/lib/audit/logger";
 
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission<{ id: string }>("connections:write", async (_request, { session, params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { id } = await params;
 
     // Verify practice ownership
@@ -63,4 +55,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -1,5 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { exchangePublicToken, getAccounts } from "@/lib/plaid/client";
 import { db } from "@/lib/db";
 import { plaidConnections, plaidAccounts } from "@/lib/db/schema";
@@ -12,13 +12,8 @@ const exchangeSchema = z.object({
   institutionId: z.string(),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("connections:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const body = await request.json();
     const parsed = exchangeSchema.safeParse(body);
     if (!parsed.success) {
@@ -86,4 +81,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
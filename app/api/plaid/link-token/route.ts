@@ -1,14 +1,9 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { createLinkToken } from "@/lib/plaid/client";
 
-export async function POST() {
+export const POST = withPermission("connections:write", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const linkToken = await createLinkToken(session.userId, session.practiceId);
     return NextResponse.json({ linkToken });
   } catch (error) {
@@ -18,4 +13,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
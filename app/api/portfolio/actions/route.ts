@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { z } from "zod";
+import { getSessionOrDemo } from "@/lib/auth/session";
+import { runPortfolioAction } from "@/lib/portfolio/portfolio";
+import { drainQueue } from "@/lib/jobs/runner";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+const actionSchema = z.object({
+  action: z.enum(["categorize", "reports"]),
+  // Omitted: every practice the user holds the action's permission in
+  practiceIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
+/** Queue a bulk action across client practices. */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSessionOrDemo();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = actionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { action, practiceIds } = parsed.data;
+    const result = await runPortfolioAction(session.userId, action, practiceIds);
+
+    for (const queue of result.queues) {
+      after(() => drainQueue(queue));
+    }
+
+    for (const { practiceId, jobIds } of result.queued) {
+      await logAuditEvent({
+        practiceId,
+        userId: session.userId,
+        action: "portfolio_bulk_action",
+        entityType: "practice",
+        entityId: practiceId,
+        newValue: { action, jobIds },
+      });
+    }
+
+    return NextResponse.json(
+      { queued: result.queued, skipped: result.skipped },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Portfolio action error:", error);
+    return NextResponse.json(
+      { error: "Failed to queue portfolio action" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getSessionOrDemo } from "@/lib/auth/session";
+import { getPortfolio } from "@/lib/portfolio/portfolio";
+
+/** Every client practice the signed-in user advises, across memberships. */
+export async function GET() {
+  try {
+    const session = await getSessionOrDemo();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { practices, locked } = await getPortfolio(session.userId);
+    return NextResponse.json({ practices, locked });
+  } catch (error) {
+    console.error("Portfolio error:", error);
+    return NextResponse.json(
+      { error: "Failed to load portfolio" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { resendInvitation, sendInvitationEmail } from "@/lib/auth/invitations";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+/** Email a fresh link with a new expiry; the old link stops working. */
+export const POST = withPermission<{ id: string; invitationId: string }>(
+  "members:write",
+  async (_request, { session, params }) => {
+    try {
+      const { invitationId } = await params;
+
+      const resent = await resendInvitation(invitationId, session.practiceId);
+      if (!resent) {
+        return NextResponse.json(
+          { error: "Invitation not found" },
+          { status: 404 }
+        );
+      }
+
+      await sendInvitationEmail(resent.invitation, resent.token, session.name);
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "resend_invitation",
+        entityType: "practice_invitation",
+        entityId: resent.invitation.id,
+        newValue: { email: resent.invitation.email, expiresAt: resent.invitation.expiresAt },
+      });
+
+      return NextResponse.json({
+        message: "Invitation resent",
+        expiresAt: resent.invitation.expiresAt,
+      });
+    } catch (error) {
+      console.error("Resend invitation error:", error);
+      return NextResponse.json(
+        { error: "Failed to resend invitation" },
+        { status: 500 }
+      );
+    }
+  },
+  { practiceParam: "id" }
+);
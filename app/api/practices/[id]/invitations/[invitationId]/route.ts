@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { revokeInvitation } from "@/lib/auth/invitations";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+export const DELETE = withPermission<{ id: string; invitationId: string }>(
+  "members:write",
+  async (_request, { session, params }) => {
+    try {
+      const { invitationId } = await params;
+
+      const invitation = await revokeInvitation(invitationId, session.practiceId);
+      if (!invitation) {
+        return NextResponse.json(
+          { error: "Invitation not found" },
+          { status: 404 }
+        );
+      }
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "revoke_invitation",
+        entityType: "practice_invitation",
+        entityId: invitation.id,
+        oldValue: { email: invitation.email, role: invitation.role },
+      });
+
+      return NextResponse.json({ message: "Invitation revoked" });
+    } catch (error) {
+      console.error("Revoke invitation error:", error);
+      return NextResponse.json(
+        { error: "Failed to revoke invitation" },
+        { status: 500 }
+      );
+    }
+  },
+  { practiceParam: "id" }
+);
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { listPendingInvitations } from "@/lib/auth/invitations";
+
+export const GET = withPermission<{ id: string }>(
+  "members:read",
+  async (_request, { session }) => {
+    try {
+      const invitations = await listPendingInvitations(session.practiceId);
+      return NextResponse.json(invitations);
+    } catch (error) {
+      console.error("Get invitations error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch invitations" },
+        { status: 500 }
+      );
+    }
+  },
+  { practiceParam: "id" }
+);
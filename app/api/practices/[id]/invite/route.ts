@@ -1,145 +1,185 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/db";
 import { users, userPractices, practices } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { eq, and, sql } from "drizzle-orm";
+import { withPermission } from "@/lib/auth/guard";
+import { permissionsForAssignment } from "@/lib/auth/roles";
+import { missingPermissions } from "@/lib/auth/permissions";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { sendEmail } from "@/lib/email/client";
 import { inviteEmail } from "@/lib/email/templates";
 import { APP_URL } from "@/lib/config/branding";
+import {
+  createInvitation,
+  discardInvitation,
+  sendInvitationEmail,
+  InvitationPendingError,
+} from "@/lib/auth/invitations";
 
 const inviteSchema = z.object({
-  email: z.string().email(),
+  email: z.string().trim().toLowerCase().email(),
   role: z.enum(["manager", "accountant"]),
+  customRoleId: z.string().uuid().optional(),
 });
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { id: practiceId } = await params;
-
-    // Verify the current user is an owner of this practice
-    const [membership] = await db
-      .select({ role: userPractices.role })
-      .from(userPractices)
-      .where(
-        and(
-          eq(userPractices.userId, session.userId),
-          eq(userPractices.practiceId, practiceId)
+export const POST = withPermission<{ id: string }>(
+  "members:write",
+  async (request, { session }) => {
+    try {
+      const practiceId = session.practiceId;
+
+      const body = await request.json();
+      const parsed = inviteSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const { email, role, customRoleId } = parsed.data;
+
+      const granted = await permissionsForAssignment(practiceId, role, customRoleId);
+      if (!granted) {
+        return NextResponse.json({ error: "Role not found" }, { status: 404 });
+      }
+      const missing = missingPermissions(session.permissions, granted);
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `You can't grant permissions you don't hold: ${missing.join(", ")}` },
+          { status: 403 }
+        );
+      }
+
+      // Look up the user by email; older accounts may be stored mixed-case
+      const [targetUser] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(sql`lower(${users.email})`, email))
+        .limit(1);
+
+      // No account yet: send a tokenized invitation that creates one
+      if (!targetUser) {
+        let created;
+        try {
+          created = await createInvitation({
+            practiceId,
+            email,
+            role,
+            customRoleId,
+            invitedBy: session.userId,
+          });
+        } catch (error) {
+          if (error instanceof InvitationPendingError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+          }
+          throw error;
+        }
+
+        try {
+          await sendInvitationEmail(created.invitation, created.token, session.name);
+        } catch (error) {
+          // Nobody received a link, so don't leave a pending invite behind
+          await discardInvitation(created.invitation.id);
+          throw error;
+        }
+
+        await logAuditEvent({
+          practiceId,
+          userId: session.userId,
+          action: "invite_user",
+          entityType: "practice_invitation",
+          entityId: created.invitation.id,
+          newValue: { email, role, customRoleId, expiresAt: created.invitation.expiresAt },
+        });
+
+        return NextResponse.json(
+          { message: "Invitation sent", email, role, pending: true },
+          { status: 201 }
+        );
+      }
+
+      // Check if already a member
+      const [existing] = await db
+        .select({ id: userPractices.id })
+        .from(userPractices)
+        .where(
+          and(
+            eq(userPractices.userId, targetUser.id),
+            eq(userPractices.practiceId, practiceId)
+          )
         )
-      )
-      .limit(1);
-
-    if (!membership || membership.role !== "owner") {
-      return NextResponse.json(
-        { error: "Only practice owners can invite users" },
-        { status: 403 }
-      );
-    }
-
-    const body = await request.json();
-    const parsed = inviteSchema.safeParse(body);
-    if (!parsed.success) {
-      return NextResponse.json(
-        { error: parsed.error.issues[0].message },
-        { status: 400 }
-      );
-    }
-
-    const { email, role } = parsed.data;
+        .limit(1);
+
+      if (existing) {
+        return NextResponse.json(
+          { error: "User is already a member of this practice" },
+          { status: 409 }
+        );
+      }
+
+      // Build the invite email first, so a failed lookup leaves nothing behind
+      const [practice] = await db
+        .select({ name: practices.name })
+        .from(practices)
+        .where(eq(practices.id, practiceId))
+        .limit(1);
+
+      const emailContent = inviteEmail({
+        inviterName: session.name,
+        practiceName: practice?.name ?? "a practice",
+        role,
+        acceptUrl: `${APP_URL}/login`,
+      });
+
+      // Create the membership (pending acceptance)
+      const [membership] = await db
+        .insert(userPractices)
+        .values({
+          userId: targetUser.id,
+          practiceId,
+          role,
+          customRoleId,
+          isDefault: false,
+          invitedBy: session.userId,
+          invitedAt: new Date(),
+          acceptedAt: null,
+        })
+        .returning({ id: userPractices.id });
+
+      // Send invite email
+      try {
+        await sendEmail({
+          to: email,
+          subject: emailContent.subject,
+          html: emailContent.html,
+        });
+      } catch (error) {
+        // A membership nobody was told about shouldn't block a re-invite
+        await db.delete(userPractices).where(eq(userPractices.id, membership.id));
+        throw error;
+      }
+
+      await logAuditEvent({
+        practiceId,
+        userId: session.userId,
+        action: "invite_user",
+        entityType: "user_practice",
+        newValue: { email, role, customRoleId },
+      });
 
-    // Look up the user by email
-    const [targetUser] = await db
-      .select({ id: users.id })
-      .from(users)
-      .where(eq(users.email, email))
-      .limit(1);
-
-    if (!targetUser) {
       return NextResponse.json(
-        {
-          error:
-            "User not found. They must sign up first before being invited.",
-        },
-        { status: 404 }
+        { message: "Invitation sent", email, role },
+        { status: 201 }
       );
-    }
-
-    // Check if already a member
-    const [existing] = await db
-      .select({ id: userPractices.id })
-      .from(userPractices)
-      .where(
-        and(
-          eq(userPractices.userId, targetUser.id),
-          eq(userPractices.practiceId, practiceId)
-        )
-      )
-      .limit(1);
-
-    if (existing) {
+    } catch (error) {
+      console.error("Invite error:", error);
       return NextResponse.json(
-        { error: "User is already a member of this practice" },
-        { status: 409 }
+        { error: "Failed to invite user" },
+        { status: 500 }
       );
     }
-
-    // Create the membership (pending acceptance)
-    await db.insert(userPractices).values({
-      userId: targetUser.id,
-      practiceId,
-      role,
-      isDefault: false,
-      invitedBy: session.userId,
-      invitedAt: new Date(),
-      acceptedAt: null,
-    });
-
-    // Send invite email
-    const [practice] = await db
-      .select({ name: practices.name })
-      .from(practices)
-      .where(eq(practices.id, practiceId))
-      .limit(1);
-
-    const emailContent = inviteEmail({
-      inviterName: session.name,
-      practiceName: practice?.name ?? "a practice",
-      role,
-      acceptUrl: `${APP_URL}/login`,
-    });
-
-    await sendEmail({
-      to: email,
-      subject: emailContent.subject,
-      html: emailContent.html,
-    });
-
-    await logAuditEvent({
-      practiceId,
-      userId: session.userId,
-      action: "invite_user",
-      entityType: "user_practice",
-      newValue: { email, role },
-    });
-
-    return NextResponse.json(
-      { message: "Invitation sent", email, role },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error("Invite error:", error);
-    return NextResponse.json(
-      { error: "Failed to invite user" },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { practiceParam: "id" }
+);
@@ -1,149 +1,235 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
 import { db } from "@/lib/db";
-import { users, userPractices } from "@/lib/db/schema";
+import { users, userPractices, practiceRoles } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
+import { permissionsForAssignment } from "@/lib/auth/roles";
+import { missingPermissions } from "@/lib/auth/permissions";
 import { logAuditEvent } from "@/lib/audit/logger";
 
-export async function GET(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { id: practiceId } = await params;
-
-    // Verify the current user has access (owner or manager)
-    const [membership] = await db
-      .select({ role: userPractices.role })
-      .from(userPractices)
-      .where(
-        and(
-          eq(userPractices.userId, session.userId),
-          eq(userPractices.practiceId, practiceId)
-        )
-      )
-      .limit(1);
-
-    if (!membership || membership.role === "accountant") {
+const updateMemberSchema = z.object({
+  membershipId: z.string().uuid(),
+  role: z.enum(["manager", "accountant"]).optional(),
+  // null clears the custom role, leaving the built-in one
+  customRoleId: z.string().uuid().nullable().optional(),
+});
+
+export const GET = withPermission<{ id: string }>(
+  "members:read",
+  async (_request, { session }) => {
+    try {
+      const members = await db
+        .select({
+          id: userPractices.id,
+          userId: users.id,
+          email: users.email,
+          name: users.name,
+          role: userPractices.role,
+          customRoleId: userPractices.customRoleId,
+          customRoleName: practiceRoles.name,
+          invitedAt: userPractices.invitedAt,
+          acceptedAt: userPractices.acceptedAt,
+          createdAt: userPractices.createdAt,
+        })
+        .from(userPractices)
+        .innerJoin(users, eq(userPractices.userId, users.id))
+        .leftJoin(practiceRoles, eq(userPractices.customRoleId, practiceRoles.id))
+        .where(eq(userPractices.practiceId, session.practiceId));
+
+      return NextResponse.json(members);
+    } catch (error) {
+      console.error("Get members error:", error);
       return NextResponse.json(
-        { error: "Access denied" },
-        { status: 403 }
+        { error: "Failed to fetch members" },
+        { status: 500 }
       );
     }
-
-    const members = await db
-      .select({
-        id: userPractices.id,
-        userId: users.id,
-        email: users.email,
-        name: users.name,
-        role: userPractices.role,
-        invitedAt: userPractices.invitedAt,
-        acceptedAt: userPractices.acceptedAt,
-        createdAt: userPractices.createdAt,
-      })
-      .from(userPractices)
-      .innerJoin(users, eq(userPractices.userId, users.id))
-      .where(eq(userPractices.practiceId, practiceId));
-
-    return NextResponse.json(members);
-  } catch (error) {
-    console.error("Get members error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch members" },
-      { status: 500 }
-    );
-  }
-}
-
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { id: practiceId } = await params;
-
-    // Verify the current user is an owner
-    const [membership] = await db
-      .select({ role: userPractices.role })
-      .from(userPractices)
-      .where(
-        and(
-          eq(userPractices.userId, session.userId),
-          eq(userPractices.practiceId, practiceId)
+  },
+  { practiceParam: "id" }
+);
+
+export const PUT = withPermission<{ id: string }>(
+  "members:write",
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const parsed = updateMemberSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const { membershipId, role, customRoleId } = parsed.data;
+
+      const [target] = await db
+        .select({
+          userId: userPractices.userId,
+          role: userPractices.role,
+          customRoleId: userPractices.customRoleId,
+        })
+        .from(userPractices)
+        .where(
+          and(
+            eq(userPractices.id, membershipId),
+            eq(userPractices.practiceId, session.practiceId)
+          )
         )
-      )
-      .limit(1);
-
-    if (!membership || membership.role !== "owner") {
-      return NextResponse.json(
-        { error: "Only practice owners can remove members" },
-        { status: 403 }
-      );
-    }
-
-    const { searchParams } = new URL(request.url);
-    const membershipId = searchParams.get("membershipId");
-    if (!membershipId) {
-      return NextResponse.json(
-        { error: "membershipId is required" },
-        { status: 400 }
+        .limit(1);
+
+      if (!target) {
+        return NextResponse.json(
+          { error: "Member not found" },
+          { status: 404 }
+        );
+      }
+
+      // Nobody changes their own access, or members:write could raise itself
+      if (target.userId === session.userId) {
+        return NextResponse.json(
+          { error: "You can't change your own role" },
+          { status: 403 }
+        );
+      }
+
+      // Owners always hold every permission, so there is nothing to change
+      if (target.role === "owner") {
+        return NextResponse.json(
+          { error: "An owner's role cannot be changed" },
+          { status: 400 }
+        );
+      }
+
+      const granted = await permissionsForAssignment(
+        session.practiceId,
+        role ?? target.role,
+        customRoleId !== undefined ? customRoleId : target.customRoleId
       );
-    }
-
-    // Prevent removing yourself
-    const [target] = await db
-      .select({
-        userId: userPractices.userId,
-        role: userPractices.role,
-      })
-      .from(userPractices)
-      .where(eq(userPractices.id, membershipId))
-      .limit(1);
-
-    if (!target) {
+      if (!granted) {
+        return NextResponse.json(
+          { error: "Role not found" },
+          { status: 404 }
+        );
+      }
+      const missing = missingPermissions(session.permissions, granted);
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `You can't grant permissions you don't hold: ${missing.join(", ")}` },
+          { status: 403 }
+        );
+      }
+
+      const changes = {
+        ...(role && { role }),
+        ...(customRoleId !== undefined && { customRoleId }),
+      };
+      if (Object.keys(changes).length === 0) {
+        return NextResponse.json(
+          { error: "Nothing to update" },
+          { status: 400 }
+        );
+      }
+
+      await db
+        .update(userPractices)
+        .set(changes)
+        .where(eq(userPractices.id, membershipId));
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "update_member_role",
+        entityType: "user_practice",
+        entityId: membershipId,
+        oldValue: { role: target.role, customRoleId: target.customRoleId },
+        newValue: changes,
+      });
+
+      return NextResponse.json({ message: "Member updated" });
+    } catch (error) {
+      console.error("Update member error:", error);
       return NextResponse.json(
-        { error: "Member not found" },
-        { status: 404 }
+        { error: "Failed to update member" },
+        { status: 500 }
       );
     }
-
-    if (target.userId === session.userId) {
+  },
+  { practiceParam: "id" }
+);
+
+export const DELETE = withPermission<{ id: string }>(
+  "members:write",
+  async (request, { session }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const membershipId = searchParams.get("membershipId");
+      if (!membershipId) {
+        return NextResponse.json(
+          { error: "membershipId is required" },
+          { status: 400 }
+        );
+      }
+
+      // Prevent removing yourself
+      const [target] = await db
+        .select({
+          userId: userPractices.userId,
+          role: userPractices.role,
+        })
+        .from(userPractices)
+        .where(
+          and(
+            eq(userPractices.id, membershipId),
+            eq(userPractices.practiceId, session.practiceId)
+          )
+        )
+        .limit(1);
+
+      if (!target) {
+        return NextResponse.json(
+          { error: "Member not found" },
+          { status: 404 }
+        );
+      }
+
+      if (target.userId === session.userId) {
+        return NextResponse.json(
+          { error: "Cannot remove yourself from the practice" },
+          { status: 400 }
+        );
+      }
+
+      // A custom role with members:write can manage staff, not owners
+      if (target.role === "owner" && session.role !== "owner") {
+        return NextResponse.json(
+          { error: "Only practice owners can remove an owner" },
+          { status: 403 }
+        );
+      }
+
+      await db
+        .delete(userPractices)
+        .where(eq(userPractices.id, membershipId));
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "remove_member",
+        entityType: "user_practice",
+        entityId: membershipId,
+        oldValue: { userId: target.userId, role: target.role },
+      });
+
+      return NextResponse.json({ message: "Member removed" });
+    } catch (error) {
+      console.error("Remove member error:", error);
       return NextResponse.json(
-        { error: "Cannot remove yourself from the practice" },
-        { status: 400 }
+        { error: "Failed to remove member" },
+        { status: 500 }
       );
     }
-
-    await db
-      .delete(userPractices)
-      .where(eq(userPractices.id, membershipId));
-
-    await logAuditEvent({
-      practiceId,
-      userId: session.userId,
-      action: "remove_member",
-      entityType: "user_practice",
-      entityId: membershipId,
-      oldValue: { userId: target.userId, role: target.role },
-    });
-
-    return NextResponse.json({ message: "Member removed" });
-  } catch (error) {
-    console.error("Remove member error:", error);
-    return NextResponse.json(
-      { error: "Failed to remove member" },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { practiceParam: "id" }
+);
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { missingPermissions } from "@/lib/auth/permissions";
+import {
+  updatePracticeRole,
+  deletePracticeRole,
+  practiceRoleSchema,
+  PracticeRoleNameTakenError,
+} from "@/lib/auth/roles";
+
+const updateRoleSchema = practiceRoleSchema.partial();
+
+export const PUT = withPermission<{ id: string; roleId: string }>(
+  "members:write",
+  async (request, { session, params }) => {
+    try {
+      const body = await request.json();
+      const parsed = updateRoleSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const missing = missingPermissions(session.permissions, parsed.data.permissions ?? []);
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `You can't grant permissions you don't hold: ${missing.join(", ")}` },
+          { status: 403 }
+        );
+      }
+
+      const { roleId } = await params;
+      let result;
+      try {
+        result = await updatePracticeRole(roleId, session.practiceId, parsed.data);
+      } catch (e) {
+        if (e instanceof PracticeRoleNameTakenError) {
+          return NextResponse.json({ error: e.message }, { status: 409 });
+        }
+        throw e;
+      }
+      if (!result) {
+        return NextResponse.json({ error: "Role not found" }, { status: 404 });
+      }
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "update_practice_role",
+        entityType: "practice_role",
+        entityId: roleId,
+        oldValue: result.before,
+        newValue: result.after,
+      });
+
+      return NextResponse.json(result.after);
+    } catch (error) {
+      console.error("Practice role update error:", error);
+      return NextResponse.json(
+        { error: "Failed to update role" },
+        { status: 500 }
+      );
+    }
+  },
+  { practiceParam: "id" }
+);
+
+export const DELETE = withPermission<{ id: string; roleId: string }>(
+  "members:write",
+  async (_request, { session, params }) => {
+    try {
+      const { roleId } = await params;
+      const role = await deletePracticeRole(roleId, session.practiceId);
+      if (!role) {
+        return NextResponse.json({ error: "Role not found" }, { status: 404 });
+      }
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "delete_practice_role",
+        entityType: "practice_role",
+        entityId: roleId,
+        oldValue: role,
+      });
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error("Practice role delete error:", error);
+      return NextResponse.json(
+        { error: "Failed to delete role" },
+        { status: 500 }
+      );
+    }
+  },
+  { practiceParam: "id" }
+);
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import {
+  BUILT_IN_ROLES,
+  permissionsForRole,
+  missingPermissions,
+} from "@/lib/auth/permissions";
+import { logAuditEvent } from "@/lib/audit/logger";
+import {
+  listPracticeRoles,
+  createPracticeRole,
+  practiceRoleSchema,
+  PracticeRoleNameTakenError,
+} from "@/lib/auth/roles";
+
+/** Built-in roles with their fixed permissions, then the practice's custom roles. */
+export const GET = withPermission<{ id: string }>(
+  "members:read",
+  async (_request, { session }) => {
+    try {
+      const custom = await listPracticeRoles(session.practiceId);
+      return NextResponse.json({
+        builtIn: BUILT_IN_ROLES.map((name) => ({ name, permissions: permissionsForRole(name) })),
+        custom,
+      });
+    } catch (error) {
+      console.error("Practice roles fetch error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch roles" },
+        { status: 500 }
+      );
+    }
+  },
+  { practiceParam: "id" }
+);
+
+export const POST = withPermission<{ id: string }>(
+  "members:write",
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const parsed = practiceRoleSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const missing = missingPermissions(session.permissions, parsed.data.permissions);
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `You can't grant permissions you don't hold: ${missing.join(", ")}` },
+          { status: 403 }
+        );
+      }
+
+      let role;
+      try {
+        role = await createPracticeRole(session.practiceId, parsed.data);
+      } catch (e) {
+        if (e instanceof PracticeRoleNameTakenError) {
+          return NextResponse.json({ error: e.message }, { status: 409 });
+        }
+        throw e;
+      }
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "create_practice_role",
+        entityType: "practice_role",
+        entityId: role.id,
+        newValue: role,
+      });
+
+      return NextResponse.json(role, { status: 201 });
+    } catch (error) {
+      console.error("Practice role create error:", error);
+      return NextResponse.json(
+        { error: "Failed to create role" },
+        { status: 500 }
+      );
+    }
+  },
+  { practiceParam: "id" }
+);
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { practices } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { withPermission } from "@/lib/auth/guard";
+import { getTwoFactorStatus } from "@/lib/auth/two-factor";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+const securitySchema = z.object({
+  requireTwoFactor: z.boolean(),
+});
+
+export const GET = withPermission<{ id: string }>(
+  "members:read",
+  async (_request, { session }) => {
+    try {
+      const [practice] = await db
+        .select({ requireTwoFactor: practices.requireTwoFactor })
+        .from(practices)
+        .where(eq(practices.id, session.practiceId))
+        .limit(1);
+
+      return NextResponse.json({ requireTwoFactor: practice?.requireTwoFactor ?? false });
+    } catch (error) {
+      console.error("Get practice security error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch security settings" },
+        { status: 500 }
+      );
+    }
+  },
+  { practiceParam: "id" }
+);
+
+/** Owners only: require every member to use two-factor authentication. */
+export const PUT = withPermission<{ id: string }>(
+  "members:write",
+  async (request, { session }) => {
+    try {
+      if (session.role !== "owner") {
+        return NextResponse.json(
+          { error: "Only practice owners can change 2FA enforcement" },
+          { status: 403 }
+        );
+      }
+
+      const body = await request.json();
+      const parsed = securitySchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const { requireTwoFactor } = parsed.data;
+
+      // Otherwise the owner would lock themselves out of the practice
+      if (requireTwoFactor && !(await getTwoFactorStatus(session.userId)).enabled) {
+        return NextResponse.json(
+          { error: "Turn on two-factor authentication for your own account first" },
+          { status: 400 }
+        );
+      }
+
+      await db
+        .update(practices)
+        .set({ requireTwoFactor, updatedAt: new Date() })
+        .where(eq(practices.id, session.practiceId));
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: requireTwoFactor ? "two_factor_enforced" : "two_factor_enforcement_removed",
+        entityType: "practice",
+        entityId: session.practiceId,
+        newValue: { requireTwoFactor },
+      });
+
+      return NextResponse.json({ requireTwoFactor });
+    } catch (error) {
+      console.error("Update practice security error:", error);
+      return NextResponse.json(
+        { error: "Failed to update security settings" },
+        { status: 500 }
+      );
+    }
+  },
+  { practiceParam: "id" }
+);
@@ -1,16 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { getMappings, saveMappings } from "@/lib/qbo/account-mapping-config";
 import { logAuditEvent } from "@/lib/audit/logger";
 
-export async function GET() {
+export const GET = withPermission("integrations:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const mappings = await getMappings(session.practiceId);
     return NextResponse.json({ mappings });
   } catch (error) {
@@ -20,27 +14,10 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withPermission("integrations:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json(
-          { error: "Insufficient permissions" },
-          { status: 403 }
-        );
-      }
-      throw e;
-    }
-
     const body = await request.json();
     const { mappings } = body;
 
@@ -82,4 +59,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,27 +1,9 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { withPermission } from "@/lib/auth/guard";
 import { getQBOAccounts } from "@/lib/qbo/account-mapping-config";
 
-export async function GET() {
+export const GET = withPermission("integrations:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json(
-          { error: "Insufficient permissions" },
-          { status: 403 }
-        );
-      }
-      throw e;
-    }
-
     const accounts = await getQBOAccounts(session.practiceId);
     return NextResponse.json({ accounts });
   } catch (error) {
@@ -31,4 +13,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -6,6 +6,9 @@ import { db } from "@/lib/db";
 import { practices } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { getSessionOrDemo } from "@/lib/auth/session";
+import { resolveAccess } from "@/lib/auth/roles";
+import { hasPermission } from "@/lib/auth/permissions";
+import { isMissingRequiredTwoFactor } from "@/lib/auth/two-factor";
 
 export async function GET(request: NextRequest) {
   if (isDemoMode()) {
@@ -18,6 +21,15 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    // A browser redirect, so no withPermission: bounce back rather than 403
+    const access = await resolveAccess(session.userId, session.practiceId);
+    if (!access || !hasPermission(access.permissions, "connections:write")) {
+      return NextResponse.redirect(new URL("/?error=qbo_permission", request.url));
+    }
+    if (await isMissingRequiredTwoFactor(session.userId, session.practiceId)) {
+      return NextResponse.redirect(new URL("/settings/security", request.url));
+    }
+
     const { accessToken, refreshToken, realmId } = await exchangeCode(
       request.url
     );
@@ -1,9 +1,9 @@
 import { NextResponse } from "next/server";
 import { isDemoMode } from "@/lib/qbo/demo-mode";
 import { generateAuthUrl } from "@/lib/qbo/client";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 
-export async function GET() {
+export const GET = withPermission("connections:write", async () => {
   if (isDemoMode()) {
     return NextResponse.json(
       { error: "QBO not configured — running in demo mode" },
@@ -11,11 +11,6 @@ export async function GET() {
     );
   }
 
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
   const authUrl = generateAuthUrl();
   return NextResponse.redirect(authUrl);
-}
+});
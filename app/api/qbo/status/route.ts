@@ -3,18 +3,13 @@ import { isDemoMode, getDemoStatus } from "@/lib/qbo/demo-mode";
 import { db } from "@/lib/db";
 import { practices } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 
-export async function GET() {
+export const GET = withPermission("connections:read", async (_request, { session }) => {
   if (isDemoMode()) {
     return NextResponse.json(getDemoStatus());
   }
 
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
   const [practice] = await db
     .select({ id: practices.id, name: practices.name, qboTokens: practices.qboTokens })
     .from(practices)
@@ -35,4 +30,4 @@ export async function GET() {
     mode: "live",
     message: "Not connected to QuickBooks",
   });
-}
+});
@@ -1,28 +1,15 @@
-import { NextResponse } from "next/server";
+import { NextResponse, after } from "next/server";
 import { isDemoMode } from "@/lib/qbo/demo-mode";
-import { syncTransactions } from "@/lib/qbo/sync";
+import { getLatestSyncRun } from "@/lib/qbo/sync";
 import { db } from "@/lib/db";
 import { transactions } from "@/lib/db/schema";
 import { eq, count } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { withPermission } from "@/lib/auth/guard";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { drainQueue } from "@/lib/jobs/runner";
 
-export async function POST() {
+export const POST = withPermission("integrations:write", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-      }
-      throw e;
-    }
-
     if (isDemoMode()) {
       const [result] = await db
         .select({ count: count() })
@@ -37,8 +24,19 @@ export async function POST() {
       });
     }
 
-    const result = await syncTransactions(session.practiceId);
-    return NextResponse.json(result);
+    // Runs in the background; the client polls /api/jobs/[id] for the result
+    const job = await enqueueJob(
+      "sync",
+      "qbo.sync",
+      { userId: session.userId },
+      { practiceId: session.practiceId, idempotencyKey: `qbo-sync:${session.practiceId}` }
+    );
+    after(() => drainQueue("sync"));
+
+    return NextResponse.json(
+      { jobId: job.id, status: job.status, message: "Sync started" },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("Sync error:", error);
     return NextResponse.json(
@@ -46,4 +44,21 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
+
+export const GET = withPermission("integrations:read", async (_request, { session }) => {
+  try {
+    if (isDemoMode()) {
+      return NextResponse.json({ mode: "demo", run: null });
+    }
+
+    const run = await getLatestSyncRun(session.practiceId);
+    return NextResponse.json({ mode: "live", run });
+  } catch (error) {
+    console.error("Sync status error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sync status" },
+      { status: 500 }
+    );
+  }
+});
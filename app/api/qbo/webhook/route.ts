@@ -1,31 +1,42 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  verifyWebhookSignature,
+  parseWebhookPayload,
+  enqueueRealmChange,
+} from "@/lib/qbo/webhook";
+import { drainQueue } from "@/lib/jobs/runner";
 
 /**
- * Intuit webhook receiver. Per Intuit requirements, always returns 200 quickly.
- * In a production setup, the actual processing would be queued via BullMQ/Redis.
+ * Intuit webhook receiver. Verifies the intuit-signature HMAC, queues a
+ * durable per-realm CDC sync job and returns 200 quickly per Intuit
+ * requirements; the job runs after the response has been sent.
  */
 export async function POST(request: NextRequest) {
-  try {
-    const payload = await request.json();
-
-    // Verify webhook signature (Intuit sends in header)
-    const signature = request.headers.get("intuit-signature");
-    if (!signature) {
-      // Still return 200 per Intuit requirements
-      console.warn("Webhook received without signature");
-      return NextResponse.json({ status: "ok" });
-    }
+  const rawBody = await request.text();
+  const signature = request.headers.get("intuit-signature");
 
-    // Log the webhook event for processing
-    // In production: queue via BullMQ for async processing
-    console.log("QBO webhook received:", {
-      eventNotifications: payload.eventNotifications?.length || 0,
-    });
+  if (!verifyWebhookSignature(rawBody, signature)) {
+    console.warn("QBO webhook rejected: invalid or missing signature");
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
 
-    // Return 200 immediately as Intuit requires
-    return NextResponse.json({ status: "ok" });
-  } catch {
-    // Always return 200 to Intuit
+  let changes;
+  try {
+    changes = parseWebhookPayload(JSON.parse(rawBody));
+  } catch (error) {
+    // Malformed payloads are acknowledged so Intuit doesn't retry them
+    console.error("QBO webhook parse error:", error);
     return NextResponse.json({ status: "ok" });
   }
+
+  try {
+    await Promise.all(changes.map((change) => enqueueRealmChange(change)));
+  } catch (error) {
+    // Not acknowledged, so Intuit redelivers the notification
+    console.error("QBO webhook enqueue error:", error);
+    return NextResponse.json({ error: "Failed to queue sync" }, { status: 500 });
+  }
+
+  if (changes.length > 0) after(() => drainQueue("sync"));
+  return NextResponse.json({ status: "ok", realms: changes.length });
 }
@@ -1,28 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { executeWriteBack } from "@/lib/qbo/write-back";
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("qbo_write_back:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     // Owner-only for write-back execution
-    try {
-      requireRole(session, "admin");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json(
-          { error: "Only practice owners can execute QBO write-backs" },
-          { status: 403 }
-        );
-      }
-      throw e;
-    }
-
     const body = await request.json();
     const { transactionIds } = body;
 
@@ -55,4 +37,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
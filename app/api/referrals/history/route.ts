@@ -1,15 +1,10 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { db } from "@/lib/db";
 import { referralOpportunities, referralPartners } from "@/lib/db/schema";
 import { eq, and, inArray, desc } from "drizzle-orm";
 
-export async function GET() {
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const GET = withPermission("referrals:read", async (_request, { session }) => {
   // Get referred and completed opportunities with partner info
   const opportunities = await db
     .select({
@@ -44,4 +39,4 @@ export async function GET() {
     .orderBy(desc(referralOpportunities.referredAt));
 
   return NextResponse.json({ history: opportunities });
-}
+});
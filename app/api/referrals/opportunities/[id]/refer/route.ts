@@ -1,26 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { db } from "@/lib/db";
 import { referralOpportunities, referralPartners } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 import { trackReferral, matchPartner } from "@/lib/referrals/partners";
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  try {
-    requireRole(session, "write");
-  } catch {
-    return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-  }
-
+export const POST = withPermission<{ id: string }>("referrals:write", async (request, { session, params }) => {
   const { id } = await params;
 
   try {
@@ -119,4 +104,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
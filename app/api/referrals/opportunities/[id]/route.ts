@@ -1,6 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole } from "@/lib/auth/permissions";
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { db } from "@/lib/db";
 import { referralOpportunities } from "@/lib/db/schema";
@@ -8,21 +7,7 @@ import { eq, and } from "drizzle-orm";
 
 const VALID_STATUSES = ["detected", "viewed", "referred", "completed", "dismissed"];
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  try {
-    requireRole(session, "write");
-  } catch {
-    return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-  }
-
+export const PUT = withPermission<{ id: string }>("referrals:write", async (request, { session, params }) => {
   const { id } = await params;
 
   try {
@@ -76,4 +61,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,5 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole } from "@/lib/auth/permissions";
+import { withPermission } from "@/lib/auth/guard";
 import { logAuditEvent } from "@/lib/audit/logger";
 import { db } from "@/lib/db";
 import { referralOpportunities } from "@/lib/db/schema";
@@ -8,18 +7,7 @@ import { eq, and, notInArray } from "drizzle-orm";
 import { detectOpportunities } from "@/lib/referrals/opportunity-detector";
 import { matchPartner, ensureDefaultPartners } from "@/lib/referrals/partners";
 
-export async function POST() {
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  try {
-    requireRole(session, "write");
-  } catch {
-    return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-  }
-
+export const POST = withPermission("referrals:write", async (_request, { session }) => {
   try {
     // Ensure default partners exist
     await ensureDefaultPartners();
@@ -115,4 +103,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,15 +1,10 @@
 import { NextResponse } from "next/server";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
 import { db } from "@/lib/db";
 import { referralOpportunities } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
 
-export async function GET() {
-  const session = await getSessionOrDemo();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const GET = withPermission("referrals:read", async (_request, { session }) => {
   const opportunities = await db
     .select()
     .from(referralOpportunities)
@@ -17,4 +12,4 @@ export async function GET() {
     .orderBy(desc(referralOpportunities.createdAt));
 
   return NextResponse.json({ opportunities });
-}
+});
@@ -1,37 +1,26 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/db";
 import { userRules } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { withPermission } from "@/lib/auth/guard";
+import {
+  ruleConditionGroupSchema,
+  ruleActionsSchema,
+  describeConditions,
+} from "@/lib/categorization/rule-conditions";
 
 const updateRuleSchema = z.object({
   matchType: z.enum(["vendor", "description", "amount_range"]).optional(),
   matchValue: z.string().min(1).optional(),
+  conditions: ruleConditionGroupSchema.optional(),
+  actions: ruleActionsSchema.nullable().optional(),
   category: z.enum(["business", "personal", "ambiguous"]).optional(),
   priority: z.number().int().optional(),
 });
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withPermission<{ id: string }>("rules:write", async (request, { session, params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-      }
-      throw e;
-    }
-
     const { id } = await params;
     const body = await request.json();
     const parsed = updateRuleSchema.safeParse(body);
@@ -43,9 +32,22 @@ export async function PUT(
       );
     }
 
+    // Supplying conditions turns the rule into a compound rule
+    const { conditions, ...fields } = parsed.data;
+    const changes = conditions
+      ? {
+          ...fields,
+          matchType: "compound" as const,
+          matchValue: describeConditions(conditions),
+          conditions,
+        }
+      : fields.matchType
+        ? { ...fields, conditions: null }
+        : fields;
+
     const [updated] = await db
       .update(userRules)
-      .set(parsed.data)
+      .set(changes)
       .where(
         and(
           eq(userRules.id, id),
@@ -66,27 +68,10 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission<{ id: string }>("rules:write", async (_request, { session, params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-      }
-      throw e;
-    }
-
     const { id } = await params;
 
     const [deleted] = await db
@@ -111,4 +96,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -1,25 +1,31 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/db";
 import { userRules } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
-import { requireRole, PermissionError } from "@/lib/auth/permissions";
+import { withPermission } from "@/lib/auth/guard";
+import {
+  ruleConditionGroupSchema,
+  ruleActionsSchema,
+  describeConditions,
+} from "@/lib/categorization/rule-conditions";
 
-const createRuleSchema = z.object({
-  matchType: z.enum(["vendor", "description", "amount_range"]),
-  matchValue: z.string().min(1),
-  category: z.enum(["business", "personal", "ambiguous"]),
-  priority: z.number().int().optional(),
-});
+const createRuleSchema = z
+  .object({
+    matchType: z.enum(["vendor", "description", "amount_range", "compound"]),
+    matchValue: z.string().min(1).optional(),
+    conditions: ruleConditionGroupSchema.optional(),
+    actions: ruleActionsSchema.optional(),
+    category: z.enum(["business", "personal", "ambiguous"]),
+    priority: z.number().int().optional(),
+  })
+  .refine(
+    (r) => (r.matchType === "compound" ? !!r.conditions : !!r.matchValue),
+    { message: "Compound rules need conditions; simple rules need a matchValue" }
+  );
 
-export async function GET() {
+export const GET = withPermission("rules:read", async (_request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const rules = await db
       .select()
       .from(userRules)
@@ -34,24 +40,10 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("rules:write", async (request, { session }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    try {
-      requireRole(session, "write");
-    } catch (e) {
-      if (e instanceof PermissionError) {
-        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
-      }
-      throw e;
-    }
-
     const body = await request.json();
     const parsed = createRuleSchema.safeParse(body);
 
@@ -62,12 +54,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { matchType, conditions } = parsed.data;
+
     const [rule] = await db
       .insert(userRules)
       .values({
         practiceId: session.practiceId,
-        matchType: parsed.data.matchType,
-        matchValue: parsed.data.matchValue,
+        matchType,
+        matchValue:
+          matchType === "compound" && conditions
+            ? describeConditions(conditions)
+            : parsed.data.matchValue!,
+        conditions: matchType === "compound" ? conditions : null,
+        actions: parsed.data.actions ?? null,
         category: parsed.data.category,
         priority: parsed.data.priority ?? 0,
       })
@@ -81,4 +80,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
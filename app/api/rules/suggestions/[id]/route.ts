@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { ruleSuggestions, userRules } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+
+const updateSuggestionSchema = z.object({
+  status: z.enum(["accepted", "dismissed"]),
+});
+
+/** Accept (creating the rule) or dismiss a pending suggestion. */
+export const PUT = withPermission<{ id: string }>("rules:write", async (request, { session, params }) => {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = updateSuggestionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const [suggestion] = await db
+      .select()
+      .from(ruleSuggestions)
+      .where(
+        and(
+          eq(ruleSuggestions.id, id),
+          eq(ruleSuggestions.practiceId, session.practiceId)
+        )
+      );
+
+    if (!suggestion) {
+      return NextResponse.json({ error: "Suggestion not found" }, { status: 404 });
+    }
+    if (suggestion.status !== "pending") {
+      return NextResponse.json(
+        { error: `Suggestion already ${suggestion.status}` },
+        { status: 409 }
+      );
+    }
+
+    const { status } = parsed.data;
+
+    const result = await db.transaction(async (tx) => {
+      let ruleId: string | null = null;
+      if (status === "accepted") {
+        const [rule] = await tx
+          .insert(userRules)
+          .values({
+            practiceId: session.practiceId,
+            matchType: suggestion.matchType,
+            matchValue: suggestion.matchValue,
+            category: suggestion.category,
+          })
+          .returning();
+        ruleId = rule.id;
+      }
+
+      const [updated] = await tx
+        .update(ruleSuggestions)
+        .set({ status, ruleId, updatedAt: new Date() })
+        .where(eq(ruleSuggestions.id, id))
+        .returning();
+      return updated;
+    });
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: status === "accepted" ? "accept_rule_suggestion" : "dismiss_rule_suggestion",
+      entityType: "rule_suggestion",
+      entityId: id,
+      newValue: {
+        matchType: suggestion.matchType,
+        matchValue: suggestion.matchValue,
+        category: suggestion.category,
+        ruleId: result.ruleId,
+      },
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Rule suggestion update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update rule suggestion" },
+      { status: 500 }
+    );
+  }
+});
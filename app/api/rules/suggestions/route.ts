@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import {
+  mineRuleSuggestions,
+  getPendingSuggestions,
+} from "@/lib/categorization/rule-mining";
+
+export const GET = withPermission("rules:read", async (_request, { session }) => {
+  try {
+    const suggestions = await getPendingSuggestions(session.practiceId);
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error("Rule suggestions fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rule suggestions" },
+      { status: 500 }
+    );
+  }
+});
+
+/** Re-mine review history and refresh pending suggestions. */
+export const POST = withPermission("rules:write", async (_request, { session }) => {
+  try {
+    const result = await mineRuleSuggestions(session.practiceId);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Rule mining error:", error);
+    return NextResponse.json(
+      { error: "Failed to mine rule suggestions" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { transactions, categorizations } from "@/lib/db/schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+import { withPermission } from "@/lib/auth/guard";
+import {
+  ruleConditionGroupSchema,
+  evaluateConditions,
+  describeConditions,
+} from "@/lib/categorization/rule-conditions";
+
+const testRuleSchema = z.object({
+  conditions: ruleConditionGroupSchema,
+  category: z.enum(["business", "personal", "ambiguous"]),
+});
+
+/** Most recent transactions scanned by the tester */
+const SCAN_LIMIT = 10000;
+
+/** Matches returned for display */
+const SAMPLE_LIMIT = 100;
+
+/**
+ * Dry-run a draft rule against the practice's historical transactions.
+ * Nothing is written; the response shows what the rule would match and
+ * how many current categorizations it would change.
+ */
+export const POST = withPermission("rules:read", async (request, { session }) => {
+  try {
+    const body = await request.json();
+    const parsed = testRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { conditions, category } = parsed.data;
+
+    const latestCatId = sql`(
+      SELECT c.id FROM categorizations c
+      WHERE c.transaction_id = transactions.id
+      ORDER BY c.created_at DESC LIMIT 1
+    )`;
+
+    const rows = await db
+      .select({
+        id: transactions.id,
+        date: transactions.date,
+        amount: transactions.amount,
+        vendorName: transactions.vendorName,
+        description: transactions.description,
+        accountRef: transactions.accountRef,
+        currentCategory: categorizations.category,
+        currentSource: categorizations.source,
+      })
+      .from(transactions)
+      .leftJoin(
+        categorizations,
+        and(
+          eq(transactions.id, categorizations.transactionId),
+          eq(categorizations.id, latestCatId)
+        )
+      )
+      .where(eq(transactions.practiceId, session.practiceId))
+      .orderBy(desc(transactions.date))
+      .limit(SCAN_LIMIT);
+
+    const matches = rows.filter((row) => evaluateConditions(conditions, row));
+
+    // Rules never override a user's own decision
+    const conflictsWithUser = matches.filter(
+      (m) => m.currentSource === "user" && m.currentCategory !== category
+    ).length;
+    const wouldChange = matches.filter(
+      (m) => m.currentSource !== "user" && m.currentCategory !== category
+    ).length;
+
+    return NextResponse.json({
+      summary: describeConditions(conditions),
+      scanned: rows.length,
+      matched: matches.length,
+      wouldChange,
+      conflictsWithUser,
+      matches: matches.slice(0, SAMPLE_LIMIT),
+    });
+  } catch (error) {
+    console.error("Rule test error:", error);
+    return NextResponse.json(
+      { error: "Failed to test rule" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { updateSchedule } from "@/lib/scheduler/scheduler";
+
+const updateScheduleSchema = z
+  .object({
+    isPaused: z.boolean().optional(),
+    cadence: z.enum(["daily", "weekly", "monthly", "quarterly"]).optional(),
+    hour: z.number().int().min(0).max(23).optional(),
+    dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+    // Capped at 28 so every month has the day
+    dayOfMonth: z.number().int().min(1).max(28).nullable().optional(),
+  })
+  .refine((s) => Object.keys(s).length > 0, "No changes provided");
+
+/** Pause, resume or retime a schedule (admin only). */
+export const PUT = withPermission<{ id: string }>("settings:write", async (request, { session, params }) => {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = updateScheduleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await updateSchedule(id, session.practiceId, parsed.data);
+    if (!schedule) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action:
+        parsed.data.isPaused === true
+          ? "pause_schedule"
+          : parsed.data.isPaused === false
+            ? "resume_schedule"
+            : "update_schedule",
+      entityType: "scheduled_task",
+      entityId: id,
+      newValue: parsed.data,
+    });
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error("Schedule update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update schedule" },
+      { status: 500 }
+    );
+  }
+});
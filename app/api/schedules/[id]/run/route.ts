@@ -0,0 +1,48 @@
+import { NextResponse, after } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { triggerSchedule, ScheduleBusyError } from "@/lib/scheduler/scheduler";
+import { getTaskDefinition } from "@/lib/scheduler/tasks";
+import { drainQueue } from "@/lib/jobs/runner";
+
+/** Run a scheduled task now (admin only). */
+export const POST = withPermission<{ id: string }>("settings:write", async (_request, { session, params }) => {
+  try {
+    const { id } = await params;
+    let run;
+    try {
+      run = await triggerSchedule(id, session.practiceId, session.userId);
+    } catch (e) {
+      if (e instanceof ScheduleBusyError) {
+        return NextResponse.json(
+          { error: "This task is already running", runId: e.runId },
+          { status: 409 }
+        );
+      }
+      throw e;
+    }
+    if (!run) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    const definition = getTaskDefinition(run.task);
+    if (definition) after(() => drainQueue(definition.queue));
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "trigger_schedule",
+      entityType: "scheduled_task",
+      entityId: id,
+      newValue: { task: run.task, runId: run.id },
+    });
+
+    return NextResponse.json({ runId: run.id, jobId: run.jobId }, { status: 202 });
+  } catch (error) {
+    console.error("Schedule trigger error:", error);
+    return NextResponse.json(
+      { error: "Failed to start task" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { getSchedules, getRunHistory, updatePracticeCalendar } from "@/lib/scheduler/scheduler";
+import { getTaskDefinition } from "@/lib/scheduler/tasks";
+import { isValidTimeZone } from "@/lib/scheduler/timing";
+import { db } from "@/lib/db";
+import { practices } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+
+/** The practice's schedules with their most recent run. */
+export const GET = withPermission("settings:read", async (_request, { session }) => {
+  try {
+    const [practice] = await db
+      .select({ timeZone: practices.timeZone, fiscalYearStart: practices.fiscalYearStart })
+      .from(practices)
+      .where(eq(practices.id, session.practiceId));
+
+    const [schedules, runs] = await Promise.all([
+      getSchedules(session.practiceId),
+      getRunHistory(session.practiceId, { limit: 200 }),
+    ]);
+
+    return NextResponse.json({
+      timeZone: practice?.timeZone,
+      fiscalYearStart: practice?.fiscalYearStart ?? 1,
+      schedules: schedules.map((s) => {
+        const definition = getTaskDefinition(s.task);
+        return {
+          ...s,
+          label: definition?.label ?? s.task,
+          description: definition?.description ?? "",
+          lastRun: runs.find((r) => r.scheduleId === s.id) ?? null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Schedules fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch schedules" },
+      { status: 500 }
+    );
+  }
+});
+
+const calendarSchema = z.object({
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, "Unknown time zone")
+    .optional(),
+  fiscalYearStart: z.number().int().min(1).max(12).optional(),
+});
+
+/** Update the time zone and fiscal year start that schedules run against. */
+export const PUT = withPermission("settings:write", async (request, { session }) => {
+  try {
+    const body = await request.json();
+    const parsed = calendarSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await updatePracticeCalendar(session.practiceId, parsed.data);
+    if (!calendar) {
+      return NextResponse.json({ error: "Practice not found" }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "update_schedule_calendar",
+      entityType: "practice",
+      entityId: session.practiceId,
+      newValue: parsed.data,
+    });
+
+    return NextResponse.json(calendar);
+  } catch (error) {
+    console.error("Schedule calendar update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update schedule settings" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { getRunHistory } from "@/lib/scheduler/scheduler";
+
+const runHistorySchema = z.object({
+  scheduleId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+/** Recent scheduled and manual runs, newest first. */
+export const GET = withPermission("settings:read", async (request, { session }) => {
+  try {
+    const parsed = runHistorySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const runs = await getRunHistory(session.practiceId, parsed.data);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("Schedule runs fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch run history" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,19 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { categorizations } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { withPermission } from "@/lib/auth/guard";
+import { loadSplits } from "@/lib/categorization/splits";
 
-export async function GET(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withPermission<{ id: string }>("transactions:read", async (_request, { params }) => {
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { id: transactionId } = await params;
 
     const history = await db
@@ -22,7 +15,11 @@ export async function GET(
       .where(eq(categorizations.transactionId, transactionId))
       .orderBy(desc(categorizations.createdAt));
 
-    return NextResponse.json(history);
+    const splits = await loadSplits(history.map((h) => h.id));
+
+    return NextResponse.json(
+      history.map((h) => ({ ...h, splits: splits.get(h.id) || [] }))
+    );
   } catch (error) {
     console.error("History fetch error:", error);
     return NextResponse.json(
@@ -30,4 +27,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
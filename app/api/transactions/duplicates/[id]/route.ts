@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import {
+  mergeDuplicate,
+  keepBothTransactions,
+  DuplicateResolutionError,
+} from "@/lib/finance/duplicates";
+
+const resolveSchema = z.object({
+  action: z.enum(["merge", "keep"]),
+  keepId: z.string().uuid().optional(),
+});
+
+/**
+ * Resolve a suspected duplicate: merge it so reports count one copy, or
+ * keep both as separate transactions.
+ */
+export const POST = withPermission<{ id: string }>("transactions:write", async (request, { session, params }) => {
+  try {
+    const body = await request.json();
+    const parsed = resolveSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const { action, keepId } = parsed.data;
+
+    try {
+      if (action === "keep") {
+        const candidate = await keepBothTransactions(id, session.practiceId, session.userId);
+        if (!candidate) {
+          return NextResponse.json({ error: "Suspected duplicate not found" }, { status: 404 });
+        }
+
+        await logAuditEvent({
+          practiceId: session.practiceId,
+          userId: session.userId,
+          action: "keep_duplicate_transactions",
+          entityType: "duplicate_candidate",
+          entityId: id,
+          newValue: {
+            transactionId: candidate.transactionId,
+            duplicateTransactionId: candidate.duplicateTransactionId,
+          },
+        });
+        return NextResponse.json({ candidate });
+      }
+
+      const merged = await mergeDuplicate(id, session.practiceId, session.userId, keepId);
+      if (!merged) {
+        return NextResponse.json({ error: "Suspected duplicate not found" }, { status: 404 });
+      }
+
+      await logAuditEvent({
+        practiceId: session.practiceId,
+        userId: session.userId,
+        action: "merge_duplicate_transactions",
+        entityType: "transaction",
+        entityId: merged.removedId,
+        oldValue: { duplicateOfId: null },
+        newValue: {
+          duplicateOfId: merged.keptId,
+          candidateId: id,
+          score: merged.candidate.score,
+          reasons: merged.candidate.reasons,
+        },
+      });
+      return NextResponse.json({ candidate: merged.candidate });
+    } catch (e) {
+      if (e instanceof DuplicateResolutionError) {
+        return NextResponse.json({ error: e.message }, { status: 409 });
+      }
+      throw e;
+    }
+  } catch (error) {
+    console.error("Resolve duplicate error:", error);
+    return NextResponse.json(
+      { error: "Failed to resolve suspected duplicate" },
+      { status: 500 }
+    );
+  }
+});
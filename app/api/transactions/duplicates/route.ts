@@ -0,0 +1,44 @@
+import { NextResponse, after } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { drainQueue } from "@/lib/jobs/runner";
+import { listDuplicateCandidates } from "@/lib/finance/duplicates";
+
+const STATUSES = ["pending", "merged", "kept"];
+
+export const GET = withPermission("transactions:read", async (request, { session }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get("status") || "pending";
+    const status = STATUSES.includes(statusParam) ? statusParam : "pending";
+    const limit = Math.min(parseInt(searchParams.get("limit") || "100", 10) || 100, 500);
+
+    const candidates = await listDuplicateCandidates(session.practiceId, { status, limit });
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    console.error("Duplicate candidates error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch suspected duplicates" },
+      { status: 500 }
+    );
+  }
+});
+
+/** Scan for suspected duplicates in the background. */
+export const POST = withPermission("transactions:write", async (_request, { session }) => {
+  try {
+    const job = await enqueueJob("categorization", "duplicates.detect", {}, {
+      practiceId: session.practiceId,
+      idempotencyKey: `duplicates:${session.practiceId}`,
+    });
+    after(() => drainQueue("categorization"));
+
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+  } catch (error) {
+    console.error("Duplicate detection error:", error);
+    return NextResponse.json(
+      { error: "Failed to start duplicate detection" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { dismissTransactionMatch } from "@/lib/finance/transaction-matches";
+
+/** Unmatch a pair so both transactions count normally again. */
+export const DELETE = withPermission<{ id: string }>("transactions:write", async (_request, { session, params }) => {
+  try {
+    const { id } = await params;
+    const match = await dismissTransactionMatch(id, session.practiceId, session.userId);
+    if (!match) {
+      return NextResponse.json({ error: "Match not found" }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      practiceId: session.practiceId,
+      userId: session.userId,
+      action: "dismiss_transaction_match",
+      entityType: "transaction_match",
+      entityId: id,
+      oldValue: {
+        kind: match.kind,
+        outflowTransactionId: match.outflowTransactionId,
+        inflowTransactionId: match.inflowTransactionId,
+        amount: match.amount,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Dismiss transaction match error:", error);
+    return NextResponse.json(
+      { error: "Failed to dismiss match" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,45 @@
+import { NextResponse, after } from "next/server";
+import { withPermission } from "@/lib/auth/guard";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { drainQueue } from "@/lib/jobs/runner";
+import { listTransactionMatches, type MatchKind } from "@/lib/finance/transaction-matches";
+
+const MATCH_KINDS: MatchKind[] = ["transfer", "refund"];
+
+export const GET = withPermission("transactions:read", async (request, { session }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") === "dismissed" ? "dismissed" : "active";
+    const kindParam = searchParams.get("kind");
+    const kind = MATCH_KINDS.find((k) => k === kindParam);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "100", 10) || 100, 500);
+
+    const matches = await listTransactionMatches(session.practiceId, { status, kind, limit });
+    return NextResponse.json({ matches });
+  } catch (error) {
+    console.error("Transaction matches error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch transaction matches" },
+      { status: 500 }
+    );
+  }
+});
+
+/** Scan for new transfer and refund pairs in the background. */
+export const POST = withPermission("transactions:write", async (_request, { session }) => {
+  try {
+    const job = await enqueueJob("categorization", "matches.detect", {}, {
+      practiceId: session.practiceId,
+      idempotencyKey: `matches:${session.practiceId}`,
+    });
+    after(() => drainQueue("categorization"));
+
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+  } catch (error) {
+    console.error("Transaction match detection error:", error);
+    return NextResponse.json(
+      { error: "Failed to start match detection" },
+      { status: 500 }
+    );
+  }
+});
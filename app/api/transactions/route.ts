@@ -1,10 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { transactions, categorizations } from "@/lib/db/schema";
-import { eq, desc, asc, and, ilike, gte, lte, sql } from "drizzle-orm";
-import { getSessionOrDemo } from "@/lib/auth/session";
+import { eq, desc, asc, and, ilike, gte, lte, sql, isNull } from "drizzle-orm";
+import { withPermission } from "@/lib/auth/guard";
+import { getMatchKinds } from "@/lib/finance/transaction-matches";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("transactions:read", async (request, { session }) => {
   const { searchParams } = new URL(request.url);
 
   const page = parseInt(searchParams.get("page") || "1");
@@ -19,10 +20,6 @@ export async function GET(request: NextRequest) {
   const maxConfidence = searchParams.get("maxConfidence");
 
   try {
-    const session = await getSessionOrDemo();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
     const resolvedPracticeId = session.practiceId;
 
     // Correlated subquery: get latest categorization per transaction
@@ -33,7 +30,11 @@ export async function GET(request: NextRequest) {
     )`;
 
     // Build WHERE conditions
-    const conditions = [eq(transactions.practiceId, resolvedPracticeId)];
+    // Merged duplicates are hidden; the copy they point at stands for both
+    const conditions = [
+      eq(transactions.practiceId, resolvedPracticeId),
+      isNull(transactions.duplicateOfId),
+    ];
 
     if (vendor) {
       conditions.push(ilike(transactions.vendorName, `%${vendor}%`));
@@ -62,6 +63,7 @@ export async function GET(request: NextRequest) {
       .select({
         id: transactions.id,
         practiceId: transactions.practiceId,
+        source: transactions.source,
         qboTxnId: transactions.qboTxnId,
         date: transactions.date,
         amount: transactions.amount,
@@ -115,8 +117,11 @@ export async function GET(request: NextRequest) {
       .limit(limit)
       .offset(offset);
 
+    // Flag transfers and refunds, which finance reports skip or net
+    const matchKinds = await getMatchKinds(txns.map((t) => t.id));
+
     return NextResponse.json({
-      transactions: txns,
+      transactions: txns.map((t) => ({ ...t, matchKind: matchKinds.get(t.id) ?? null })),
       total,
       page,
       limit,
@@ -129,4 +134,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
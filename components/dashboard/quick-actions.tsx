@@ -4,6 +4,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
+import { runJob } from "@/lib/jobs/client";
 import { ClipboardCheck, RefreshCw, Zap } from "lucide-react";
 
 export function QuickActions() {
@@ -24,11 +25,8 @@ export function QuickActions() {
   });
 
   const syncMutation = useMutation({
-    mutationFn: async () => {
-      const res = await fetch("/api/qbo/sync", { method: "POST" });
-      if (!res.ok) throw new Error("Failed");
-      return res.json();
-    },
+    mutationFn: () =>
+      runJob<{ message?: string; transactionCount?: number }>("/api/qbo/sync"),
     onSuccess: (data) => {
       toast.success(data.message || `Synced ${data.transactionCount} transactions`);
       queryClient.invalidateQueries({ queryKey: ["dashboard"] });
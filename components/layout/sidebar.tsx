@@ -4,6 +4,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { usePermissions } from "@/lib/hooks/use-permissions";
+import type { Permission } from "@/lib/auth/permissions";
 import { useQuery } from "@tanstack/react-query";
 import {
   LayoutDashboard,
@@ -30,6 +31,15 @@ import {
   Map,
   Sparkles,
   Bell,
+  CalendarClock,
+  ListTree,
+  Copy,
+  FileUp,
+  Repeat,
+  Activity,
+  Briefcase,
+  ShieldCheck,
+  ScrollText,
 } from "lucide-react";
 import { useState } from "react";
 import { PracticeSwitcher } from "./practice-switcher";
@@ -38,7 +48,8 @@ interface NavItem {
   href: string;
   label: string;
   icon: React.ComponentType<{ size?: number }>;
-  requireWrite: boolean;
+  // Hidden unless the member holds it
+  permission?: Permission;
   badge?: number;
 }
 
@@ -51,48 +62,57 @@ const navSections: NavSection[] = [
   {
     label: "Overview",
     items: [
-      { href: "/", label: "Dashboard", icon: LayoutDashboard, requireWrite: false },
-      { href: "/transactions", label: "Transactions", icon: Receipt, requireWrite: false },
-      { href: "/review", label: "Review", icon: ClipboardCheck, requireWrite: false },
+      { href: "/", label: "Dashboard", icon: LayoutDashboard },
+      { href: "/portfolio", label: "Portfolio", icon: Briefcase },
+      { href: "/transactions", label: "Transactions", icon: Receipt, permission: "transactions:read" },
+      { href: "/review", label: "Review", icon: ClipboardCheck, permission: "transactions:read" },
+      { href: "/review/duplicates", label: "Duplicates", icon: Copy, permission: "transactions:read" },
     ],
   },
   {
     label: "Reports",
     items: [
-      { href: "/finance", label: "Financials", icon: DollarSign, requireWrite: false },
-      { href: "/finance/net-worth", label: "Net Worth", icon: Wallet, requireWrite: false },
-      { href: "/forecast", label: "Forecast", icon: TrendingUp, requireWrite: false },
+      { href: "/finance", label: "Financials", icon: DollarSign, permission: "reports:read" },
+      { href: "/finance/net-worth", label: "Net Worth", icon: Wallet, permission: "net_worth:read" },
+      { href: "/finance/recurring", label: "Subscriptions", icon: Repeat, permission: "reports:read" },
+      { href: "/finance/anomalies", label: "Anomalies", icon: Activity, permission: "reports:read" },
+      { href: "/forecast", label: "Forecast", icon: TrendingUp, permission: "reports:read" },
     ],
   },
   {
     label: "Advisory",
     items: [
-      { href: "/finance/debt-capacity", label: "Debt Capacity", icon: Scale, requireWrite: false },
-      { href: "/finance/loans", label: "Loans", icon: Landmark, requireWrite: false },
-      { href: "/finance/cost-of-capital", label: "Cost of Capital", icon: Percent, requireWrite: false },
-      { href: "/finance/valuation", label: "Valuation", icon: BadgeDollarSign, requireWrite: false },
-      { href: "/finance/tax-strategy", label: "Tax Strategy", icon: FileText, requireWrite: false },
-      { href: "/finance/roi", label: "ROI Calculator", icon: Calculator, requireWrite: false },
-      { href: "/finance/retirement", label: "Retirement", icon: Sunset, requireWrite: false },
-      { href: "/finance/retirement/roadmap", label: "Roadmap", icon: Map, requireWrite: false },
+      { href: "/finance/debt-capacity", label: "Debt Capacity", icon: Scale, permission: "loans:read" },
+      { href: "/finance/loans", label: "Loans", icon: Landmark, permission: "loans:read" },
+      { href: "/finance/cost-of-capital", label: "Cost of Capital", icon: Percent, permission: "loans:read" },
+      { href: "/finance/valuation", label: "Valuation", icon: BadgeDollarSign, permission: "reports:read" },
+      { href: "/finance/tax-strategy", label: "Tax Strategy", icon: FileText, permission: "reports:read" },
+      { href: "/finance/roi", label: "ROI Calculator", icon: Calculator, permission: "reports:read" },
+      { href: "/finance/retirement", label: "Retirement", icon: Sunset, permission: "retirement:read" },
+      { href: "/finance/retirement/roadmap", label: "Roadmap", icon: Map, permission: "retirement:read" },
     ],
   },
   {
     label: "Marketplace",
     items: [
-      { href: "/referrals", label: "Opportunities", icon: Sparkles, requireWrite: false },
+      { href: "/referrals", label: "Opportunities", icon: Sparkles, permission: "referrals:read" },
     ],
   },
   {
     label: "Settings",
     items: [
-      { href: "/settings/rules", label: "Rules", icon: Settings, requireWrite: true },
-      { href: "/settings/industry", label: "Industry", icon: Factory, requireWrite: true },
-      { href: "/settings/accounts", label: "Accounts", icon: Link2, requireWrite: true },
-      { href: "/settings/qbo-sync", label: "QBO Sync", icon: RefreshCw, requireWrite: true },
-      { href: "/settings/notifications", label: "Notifications", icon: Bell, requireWrite: false },
-      { href: "/settings/practices/members", label: "Members", icon: Users, requireWrite: false },
-      { href: "/architecture", label: "Architecture", icon: Network, requireWrite: false },
+      { href: "/settings/rules", label: "Rules", icon: Settings, permission: "rules:write" },
+      { href: "/settings/industry", label: "Industry", icon: Factory, permission: "industry_config:write" },
+      { href: "/settings/accounts", label: "Accounts", icon: Link2, permission: "connections:write" },
+      { href: "/settings/import", label: "Statement Import", icon: FileUp, permission: "integrations:write" },
+      { href: "/settings/qbo-sync", label: "QBO Sync", icon: RefreshCw, permission: "integrations:write" },
+      { href: "/settings/chart-of-accounts", label: "Chart of Accounts", icon: ListTree, permission: "integrations:write" },
+      { href: "/settings/automation", label: "Automation", icon: CalendarClock, permission: "settings:read" },
+      { href: "/settings/notifications", label: "Notifications", icon: Bell },
+      { href: "/settings/security", label: "Security", icon: ShieldCheck },
+      { href: "/settings/practices/members", label: "Members", icon: Users, permission: "members:read" },
+      { href: "/settings/audit", label: "Audit Log", icon: ScrollText, permission: "audit:read" },
+      { href: "/architecture", label: "Architecture", icon: Network },
     ],
   },
 ];
@@ -101,19 +121,20 @@ interface BriefingAlerts {
   activeAlerts: {
     taxAlerts: number;
     referralOpportunities: number;
+    anomalies: number;
   };
 }
 
 export function AppSidebar() {
   const pathname = usePathname();
   const [collapsed, setCollapsed] = useState(false);
-  const { canWrite } = usePermissions();
+  const { can } = usePermissions();
 
   const { data: briefing } = useQuery<BriefingAlerts>({
     queryKey: ["cfo-briefing"],
     queryFn: async () => {
       const res = await fetch("/api/dashboard/briefing");
-      if (!res.ok) return { activeAlerts: { taxAlerts: 0, referralOpportunities: 0 } };
+      if (!res.ok) return { activeAlerts: { taxAlerts: 0, referralOpportunities: 0, anomalies: 0 } };
       return res.json();
     },
     staleTime: 5 * 60 * 1000,
@@ -127,6 +148,9 @@ export function AppSidebar() {
     if (briefing.activeAlerts.referralOpportunities > 0) {
       badgeMap["/referrals"] = briefing.activeAlerts.referralOpportunities;
     }
+    if (briefing.activeAlerts.anomalies > 0) {
+      badgeMap["/finance/anomalies"] = briefing.activeAlerts.anomalies;
+    }
   }
 
   return (
@@ -169,7 +193,7 @@ export function AppSidebar() {
       <nav className="flex-1 overflow-y-auto p-2">
         {navSections.map((section) => {
           const visibleItems = section.items.filter(
-            (item) => !item.requireWrite || canWrite
+            (item) => !item.permission || can(item.permission)
           );
           if (visibleItems.length === 0) return null;
           return (
@@ -0,0 +1,44 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { ShieldAlert } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  requiredBy: string[];
+}
+
+/**
+ * Shown while a practice the user belongs to requires 2FA they haven't set
+ * up; until then its API routes answer 403.
+ */
+export function TwoFactorBanner() {
+  const pathname = usePathname();
+  const { data } = useQuery<TwoFactorStatus>({
+    queryKey: ["two-factor"],
+    queryFn: async () => {
+      const res = await fetch("/api/auth/two-factor");
+      if (!res.ok) throw new Error("Failed to load two-factor status");
+      return res.json();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (!data || data.enabled || data.requiredBy.length === 0) return null;
+  if (pathname === "/settings/security") return null;
+
+  return (
+    <div className="flex items-center gap-3 border-b border-yellow-700/50 bg-yellow-500/10 px-6 py-3 text-sm">
+      <ShieldAlert size={16} className="shrink-0 text-yellow-400" />
+      <span className="flex-1">
+        {data.requiredBy.join(", ")} require{data.requiredBy.length === 1 ? "s" : ""} two-factor
+        authentication. Set it up to keep access to practice data.
+      </span>
+      <Link href="/settings/security" className="font-medium text-primary underline">
+        Set up now
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Pencil, Plus, Shield, Trash2 } from "lucide-react";
+import {
+  RESOURCES,
+  RESOURCE_LABELS,
+  type AccessLevel,
+  type Permission,
+  type Resource,
+} from "@/lib/auth/permissions";
+
+export interface CustomRole {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+}
+
+interface CustomRolesProps {
+  practiceId: string;
+  roles: CustomRole[];
+  canManage: boolean;
+}
+
+type Access = AccessLevel | "none";
+
+function accessFor(permissions: Permission[], resource: Resource): Access {
+  if (permissions.includes(`${resource}:write`)) return "write";
+  if (permissions.includes(`${resource}:read`)) return "read";
+  return "none";
+}
+
+function withAccess(permissions: Permission[], resource: Resource, access: Access): Permission[] {
+  const rest = permissions.filter((p) => !p.startsWith(`${resource}:`));
+  return access === "none" ? rest : [...rest, `${resource}:${access}`];
+}
+
+const EMPTY_FORM = { name: "", description: "", permissions: [] as Permission[] };
+
+export function CustomRoles({ practiceId, roles, canManage }: CustomRolesProps) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<CustomRole | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["practice-roles", practiceId] });
+    queryClient.invalidateQueries({ queryKey: ["members", practiceId] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const url = editing
+        ? `/api/practices/${practiceId}/roles/${editing.id}`
+        : `/api/practices/${practiceId}/roles`;
+      const res = await fetch(url, {
+        method: editing ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          description: form.description.trim() || null,
+          permissions: form.permissions,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to save role");
+      }
+    },
+    onSuccess: () => {
+      toast.success(editing ? "Role updated" : "Role created");
+      setDialogOpen(false);
+      invalidate();
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (roleId: string) => {
+      const res = await fetch(`/api/practices/${practiceId}/roles/${roleId}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to delete role");
+      }
+    },
+    onSuccess: () => {
+      toast.success("Role deleted");
+      invalidate();
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  function openEditor(role: CustomRole | null) {
+    setEditing(role);
+    setForm(
+      role
+        ? { name: role.name, description: role.description ?? "", permissions: role.permissions }
+        : EMPTY_FORM
+    );
+    setDialogOpen(true);
+  }
+
+  function handleDelete(role: CustomRole) {
+    if (!confirm(`Delete the ${role.name} role? Members holding it go back to their built-in role.`)) {
+      return;
+    }
+    deleteMutation.mutate(role.id);
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium flex items-center gap-2">
+          <Shield size={16} />
+          Custom Roles
+        </h2>
+        {canManage && (
+          <Button size="sm" variant="outline" onClick={() => openEditor(null)}>
+            <Plus size={14} className="mr-1" />
+            New Role
+          </Button>
+        )}
+      </div>
+
+      {roles.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No custom roles. Members use the built-in owner, manager and accountant roles.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {roles.map((role) => (
+            <div key={role.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{role.name}</p>
+                {role.description && (
+                  <p className="text-xs text-muted-foreground">{role.description}</p>
+                )}
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {RESOURCES.filter((r) => accessFor(role.permissions, r) !== "none").map((r) => (
+                    <Badge key={r} variant="outline" className="text-[10px]">
+                      {RESOURCE_LABELS[r]}: {accessFor(role.permissions, r)}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              {canManage && (
+                <div className="flex shrink-0 gap-1">
+                  <Button size="sm" variant="ghost" onClick={() => openEditor(role)}>
+                    <Pencil size={14} />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(role)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 size={14} className="text-red-400" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent onClose={() => setDialogOpen(false)}>
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : "New Role"}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+            className="space-y-4 mt-4"
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">Name</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Office Manager"
+                  required
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Description</label>
+                <Input
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-muted-foreground">
+                  <th className="py-2 font-medium">Area</th>
+                  <th className="py-2 font-medium text-center">None</th>
+                  <th className="py-2 font-medium text-center">View</th>
+                  <th className="py-2 font-medium text-center">Edit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {RESOURCES.map((resource) => (
+                  <tr key={resource} className="border-b border-border/50">
+                    <td className="py-1.5">{RESOURCE_LABELS[resource]}</td>
+                    {(["none", "read", "write"] as Access[]).map((access) => (
+                      <td key={access} className="py-1.5 text-center">
+                        <input
+                          type="radio"
+                          name={`access-${resource}`}
+                          checked={accessFor(form.permissions, resource) === access}
+                          onChange={() =>
+                            setForm({
+                              ...form,
+                              permissions: withAccess(form.permissions, resource, access),
+                            })
+                          }
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Role"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
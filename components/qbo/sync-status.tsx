@@ -3,7 +3,39 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { RefreshCw } from "lucide-react";
+import { RefreshCw, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { runJob } from "@/lib/jobs/client";
+
+interface EndpointCounts {
+  total: number | null;
+  fetched: number;
+  inserted: number;
+  updated: number;
+  errors: number;
+}
+
+interface SyncRun {
+  id: string;
+  status: "running" | "completed" | "failed";
+  cursor: { endpoint: string; startPosition: number } | null;
+  endpointCounts: Record<string, EndpointCounts>;
+  errorMessages: string[];
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+function statusVariant(status: SyncRun["status"]) {
+  switch (status) {
+    case "completed":
+      return "border-green-700 text-green-400";
+    case "failed":
+      return "border-red-700 text-red-400";
+    default:
+      return "border-blue-700 text-blue-400";
+  }
+}
 
 export function SyncStatus() {
   const queryClient = useQueryClient();
@@ -16,34 +48,125 @@ export function SyncStatus() {
     },
   });
 
-  const syncMutation = useMutation({
-    mutationFn: async () => {
-      const res = await fetch("/api/qbo/sync", { method: "POST" });
+  const { data: runData } = useQuery<{ mode: string; run: SyncRun | null }>({
+    queryKey: ["qbo-sync-run"],
+    queryFn: async () => {
+      const res = await fetch("/api/qbo/sync");
+      if (!res.ok) return { mode: "live", run: null };
       return res.json();
     },
-    onSuccess: () => {
+    // Poll while a run is in flight so the progress view stays current
+    refetchInterval: (query) =>
+      query.state.data?.run?.status === "running" ? 2000 : false,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () =>
+      runJob<{ status?: string; message?: string }>("/api/qbo/sync"),
+    onMutate: () => {
+      // Start polling immediately; the run row appears once the sync begins
+      setTimeout(
+        () => queryClient.invalidateQueries({ queryKey: ["qbo-sync-run"] }),
+        500
+      );
+    },
+    onSuccess: (data) => {
+      if (data.message) {
+        if (data.status === "failed") toast.warning(data.message);
+        else toast.success(data.message);
+      }
       queryClient.invalidateQueries({ queryKey: ["sync-status"] });
+      queryClient.invalidateQueries({ queryKey: ["qbo-sync-run"] });
       queryClient.invalidateQueries({ queryKey: ["transactions"] });
     },
+    onError: (err) => {
+      toast.error(err.message);
+      queryClient.invalidateQueries({ queryKey: ["qbo-sync-run"] });
+    },
   });
 
+  const run = runData?.run ?? null;
+  const isRunning = syncMutation.isPending || run?.status === "running";
+  const canResume = run?.status === "failed";
+
   return (
-    <div className="flex items-center gap-3">
-      <Badge variant="outline">
-        {status?.total ?? 0} transactions
-      </Badge>
-      <Button
-        variant="outline"
-        size="sm"
-        onClick={() => syncMutation.mutate()}
-        disabled={syncMutation.isPending}
-      >
-        <RefreshCw
-          size={14}
-          className={syncMutation.isPending ? "animate-spin mr-1" : "mr-1"}
-        />
-        {syncMutation.isPending ? "Syncing..." : "Sync Now"}
-      </Button>
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <Badge variant="outline">
+          {status?.total ?? 0} transactions
+        </Badge>
+        {run && (
+          <Badge variant="outline" className={`capitalize ${statusVariant(run.status)}`}>
+            Last sync: {run.status}
+          </Badge>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => syncMutation.mutate()}
+          disabled={isRunning}
+        >
+          <RefreshCw
+            size={14}
+            className={isRunning ? "animate-spin mr-1" : "mr-1"}
+          />
+          {isRunning ? "Syncing..." : canResume ? "Resume Sync" : "Sync Now"}
+        </Button>
+      </div>
+
+      {run && Object.keys(run.endpointCounts).length > 0 && (
+        <div className="space-y-2 rounded-md border border-border/50 p-3 text-xs">
+          {Object.entries(run.endpointCounts).map(([endpoint, counts]) => {
+            const pct =
+              counts.total && counts.total > 0
+                ? Math.min(100, Math.round((counts.fetched / counts.total) * 100))
+                : null;
+            const isCurrent =
+              run.status === "running" && run.cursor?.endpoint === endpoint;
+            return (
+              <div key={endpoint} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className={isCurrent ? "font-medium" : "text-muted-foreground"}>
+                    {endpoint}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {counts.fetched}
+                    {counts.total !== null && ` / ${counts.total}`} fetched ·{" "}
+                    {counts.inserted} new · {counts.updated} updated
+                    {counts.errors > 0 && (
+                      <span className="text-red-400"> · {counts.errors} errors</span>
+                    )}
+                  </span>
+                </div>
+                {pct !== null && (
+                  <div className="h-1.5 rounded-full bg-muted">
+                    <div
+                      className="h-1.5 rounded-full bg-primary transition-all"
+                      style={{ width: `${pct}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {run.errorMessages.length > 0 && (
+            <div className="space-y-1 pt-1">
+              <div className="flex items-center gap-1 text-red-400">
+                <AlertTriangle size={12} />
+                <span>{run.errorMessages.length} error(s)</span>
+              </div>
+              <ul className="max-h-24 overflow-y-auto font-mono text-muted-foreground">
+                {run.errorMessages.slice(-5).map((msg, i) => (
+                  <li key={i} className="truncate">
+                    {msg}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
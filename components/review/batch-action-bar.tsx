@@ -10,7 +10,8 @@ import { X } from "lucide-react";
 export function BatchActionBar() {
   const queryClient = useQueryClient();
   const { selectedTransactionIds, clearBatchSelection } = useReviewStore();
-  const { canWrite } = usePermissions();
+  const { can } = usePermissions();
+  const canWrite = can("transactions:write");
 
   const mutation = useMutation({
     mutationFn: async (category: string) => {
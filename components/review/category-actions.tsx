@@ -20,7 +20,8 @@ export function CategoryActions({
 }: CategoryActionsProps) {
   const queryClient = useQueryClient();
   const recordCorrection = useFeedbackStore((s) => s.recordCorrection);
-  const { canWrite } = usePermissions();
+  const { can } = usePermissions();
+  const canWrite = can("transactions:write");
 
   const mutation = useMutation({
     mutationFn: async (category: string) => {
@@ -10,6 +10,9 @@ import { ReviewFilters } from "./filters";
 import { ShortcutBar } from "./shortcut-bar";
 import { BatchActionBar } from "./batch-action-bar";
 import { useKeyboardShortcuts } from "@/lib/hooks/use-keyboard-shortcuts";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+import { Button } from "@/components/ui/button";
+import { Sparkles } from "lucide-react";
 import { toast } from "sonner";
 
 interface TransactionsResponse {
@@ -22,6 +25,8 @@ interface TransactionsResponse {
 
 export function ReviewPanel() {
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canWrite = can("transactions:write");
   const {
     selectedTransactionId,
     selectTransaction,
@@ -90,6 +95,20 @@ export function ReviewPanel() {
     },
   });
 
+  const llmMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/categorize/llm", { method: "POST" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "AI categorization failed");
+      return body;
+    },
+    onSuccess: (data) => {
+      toast.success(data.message);
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
   const categorizeSelected = useCallback(
     (category: string) => {
       if (!selectedTransactionId) {
@@ -135,11 +154,26 @@ export function ReviewPanel() {
 
   return (
     <div className="flex flex-col h-[calc(100vh-8rem)] gap-4">
-      <ReviewProgress
-        total={total}
-        categorized={categorized}
-        flagged={flagged}
-      />
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <ReviewProgress
+            total={total}
+            categorized={categorized}
+            flagged={flagged}
+          />
+        </div>
+        {canWrite && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => llmMutation.mutate()}
+            disabled={llmMutation.isPending}
+          >
+            <Sparkles size={16} className="mr-1.5" />
+            {llmMutation.isPending ? "Asking AI..." : "Ask AI"}
+          </Button>
+        )}
+      </div>
 
       <ReviewFilters />
 
@@ -3,7 +3,8 @@
 import { usePermissions } from "@/lib/hooks/use-permissions";
 
 export function ShortcutBar() {
-  const { canWrite } = usePermissions();
+  const { can } = usePermissions();
+  const canWrite = can("transactions:write");
 
   return (
     <div className="fixed bottom-0 left-0 right-0 z-50 border-t bg-background/95 backdrop-blur px-4 py-2">
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+
+export interface SplitLine {
+  category: string;
+  amount: string;
+  percentage: string | null;
+  accountRef: string | null;
+  memo: string | null;
+}
+
+interface DraftLine {
+  category: string;
+  value: string;
+  accountRef: string;
+}
+
+interface SplitEditorProps {
+  transactionId: string;
+  amount: number;
+  accountRef: string | null;
+  existing?: SplitLine[];
+  onDone: () => void;
+}
+
+function initialLines(
+  accountRef: string | null,
+  existing?: SplitLine[]
+): DraftLine[] {
+  if (existing && existing.length > 0) {
+    return existing.map((s) => ({
+      category: s.category,
+      value: s.percentage ?? String(Math.abs(parseFloat(s.amount))),
+      accountRef: s.accountRef ?? "",
+    }));
+  }
+  return [
+    { category: "business", value: "50", accountRef: accountRef ?? "" },
+    { category: "personal", value: "50", accountRef: "" },
+  ];
+}
+
+export function SplitEditor({
+  transactionId,
+  amount,
+  accountRef,
+  existing,
+  onDone,
+}: SplitEditorProps) {
+  const queryClient = useQueryClient();
+  const total = Math.abs(amount);
+  const [mode, setMode] = useState<"percentage" | "amount">(
+    existing?.length && existing.every((s) => s.percentage === null)
+      ? "amount"
+      : "percentage"
+  );
+  const [lines, setLines] = useState<DraftLine[]>(() =>
+    initialLines(accountRef, existing)
+  );
+
+  const allocated = lines.reduce((sum, l) => sum + (parseFloat(l.value) || 0), 0);
+  const target = mode === "percentage" ? 100 : total;
+  const remaining = Math.round((target - allocated) * 100) / 100;
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const splits = lines.map((l) => ({
+        category: l.category,
+        ...(mode === "percentage"
+          ? { percentage: parseFloat(l.value) }
+          : { amount: parseFloat(l.value) }),
+        accountRef: l.accountRef || null,
+      }));
+      const res = await fetch(`/api/categorize/${transactionId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ splits }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to save split");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success("Split saved");
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["transaction-history"] });
+      onDone();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  function updateLine(index: number, patch: Partial<DraftLine>) {
+    setLines((prev) => prev.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground">Split by</span>
+        <Select
+          className="h-8 w-32 text-xs"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as "percentage" | "amount")}
+        >
+          <option value="percentage">Percentage</option>
+          <option value="amount">Amount</option>
+        </Select>
+      </div>
+
+      {lines.map((line, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <Select
+            className="h-8 w-28 text-xs"
+            value={line.category}
+            onChange={(e) => updateLine(i, { category: e.target.value })}
+          >
+            <option value="business">Business</option>
+            <option value="personal">Personal</option>
+            <option value="ambiguous">Ambiguous</option>
+          </Select>
+          <Input
+            className="h-8 w-20 text-xs"
+            type="number"
+            min="0"
+            step={mode === "percentage" ? "1" : "0.01"}
+            value={line.value}
+            onChange={(e) => updateLine(i, { value: e.target.value })}
+          />
+          <Input
+            className="h-8 flex-1 text-xs"
+            placeholder="Account (optional)"
+            value={line.accountRef}
+            onChange={(e) => updateLine(i, { accountRef: e.target.value })}
+          />
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            onClick={() => setLines((prev) => prev.filter((_, j) => j !== i))}
+            disabled={lines.length <= 2}
+          >
+            <Trash2 size={14} />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() =>
+            setLines((prev) => [
+              ...prev,
+              { category: "business", value: "0", accountRef: "" },
+            ])
+          }
+        >
+          <Plus size={12} className="mr-1" />
+          Add line
+        </Button>
+        <span
+          className={`text-xs ${remaining === 0 ? "text-muted-foreground" : "text-yellow-400"}`}
+        >
+          {remaining === 0
+            ? "Fully allocated"
+            : `${mode === "percentage" ? `${remaining}%` : `$${remaining.toFixed(2)}`} unallocated`}
+        </span>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => mutation.mutate()}
+          disabled={mutation.isPending || remaining !== 0}
+        >
+          {mutation.isPending ? "Saving..." : "Save Split"}
+        </Button>
+      </div>
+    </div>
+  );
+}
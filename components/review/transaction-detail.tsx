@@ -1,9 +1,14 @@
 "use client";
 
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+import { Split } from "lucide-react";
 import { CategoryBadge } from "./category-badge";
 import { CategoryActions } from "./category-actions";
+import { SplitEditor, type SplitLine } from "./split-editor";
 
 interface TransactionData {
   id: string;
@@ -25,6 +30,7 @@ interface HistoryEntry {
   source: string;
   reasoning: string | null;
   createdAt: string;
+  splits: SplitLine[];
 }
 
 interface TransactionDetailProps {
@@ -32,6 +38,16 @@ interface TransactionDetailProps {
 }
 
 export function TransactionDetail({ transaction }: TransactionDetailProps) {
+  const { can } = usePermissions();
+  const canWrite = can("transactions:write");
+  const [splitting, setSplitting] = useState(false);
+  const [prevId, setPrevId] = useState(transaction?.id);
+  if (transaction?.id !== prevId) {
+    // Close the split editor when moving to another transaction
+    setPrevId(transaction?.id);
+    setSplitting(false);
+  }
+
   const { data: history } = useQuery<HistoryEntry[]>({
     queryKey: ["transaction-history", transaction?.id],
     queryFn: async () => {
@@ -52,6 +68,7 @@ export function TransactionDetail({ transaction }: TransactionDetailProps) {
 
   const amount = parseFloat(transaction.amount);
   const isNegative = amount < 0;
+  const currentSplits = history?.[0]?.splits ?? [];
 
   return (
     <div className="space-y-4 p-4">
@@ -116,18 +133,76 @@ export function TransactionDetail({ transaction }: TransactionDetailProps) {
         </>
       )}
 
+      {currentSplits.length > 0 && !splitting && (
+        <>
+          <Separator />
+          <div className="text-sm">
+            <span className="text-muted-foreground">Split Lines</span>
+            <div className="mt-2 space-y-1">
+              {currentSplits.map((split, i) => (
+                <div
+                  key={i}
+                  className="flex items-center justify-between rounded bg-muted/30 px-2 py-1 text-xs"
+                >
+                  <div className="flex items-center gap-2">
+                    <CategoryBadge category={split.category} confidence={null} />
+                    <span className="text-muted-foreground">
+                      {split.accountRef || transaction.accountRef || "—"}
+                    </span>
+                  </div>
+                  <span className="font-medium">
+                    ${Math.abs(parseFloat(split.amount)).toLocaleString("en-US", {
+                      minimumFractionDigits: 2,
+                    })}
+                    {split.percentage !== null && (
+                      <span className="text-muted-foreground"> ({split.percentage}%)</span>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
       <Separator />
 
-      <div>
-        <p className="text-sm text-muted-foreground mb-2">
-          Categorize as:
-        </p>
-        <CategoryActions
-          transactionId={transaction.id}
-          currentCategory={transaction.category}
-          vendorName={transaction.vendorName}
-        />
-      </div>
+      {splitting ? (
+        <div>
+          <p className="text-sm text-muted-foreground mb-2">
+            Split transaction:
+          </p>
+          <SplitEditor
+            transactionId={transaction.id}
+            amount={amount}
+            accountRef={transaction.accountRef}
+            existing={currentSplits}
+            onDone={() => setSplitting(false)}
+          />
+        </div>
+      ) : (
+        <div>
+          <p className="text-sm text-muted-foreground mb-2">
+            Categorize as:
+          </p>
+          <CategoryActions
+            transactionId={transaction.id}
+            currentCategory={transaction.category}
+            vendorName={transaction.vendorName}
+          />
+          {canWrite && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="mt-2 text-xs text-muted-foreground"
+              onClick={() => setSplitting(true)}
+            >
+              <Split size={12} className="mr-1" />
+              {currentSplits.length > 0 ? "Edit split" : "Split transaction"}
+            </Button>
+          )}
+        </div>
+      )}
 
       {/* Categorization History */}
       {history && history.length > 1 && (
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { RotateCcw } from "lucide-react";
+
+interface RecategorizationSummary {
+  evaluated: number;
+  changed: number;
+  unchanged: number;
+  unmatched: number;
+  transitions: Record<string, number>;
+  changes: Array<{
+    transactionId: string;
+    vendorName: string | null;
+    amount: string;
+    from: string;
+    to: string;
+    reasoning: string;
+  }>;
+  message: string;
+}
+
+async function rerun(dryRun: boolean): Promise<RecategorizationSummary> {
+  const res = await fetch("/api/categorize", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ mode: "rerun", dryRun }),
+  });
+  if (!res.ok) throw new Error("Failed");
+  return res.json();
+}
+
+/**
+ * Re-evaluates rule-sourced categorizations after rules or the industry
+ * config change. Shows a dry-run diff first; nothing is written until the
+ * user applies it.
+ */
+export function RecategorizeButton() {
+  const queryClient = useQueryClient();
+  const [preview, setPreview] = useState<RecategorizationSummary | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: () => rerun(true),
+    onSuccess: (data) => {
+      if (data.changed === 0) {
+        toast.info(`All ${data.evaluated} rule-categorized transactions are up to date`);
+        return;
+      }
+      setPreview(data);
+    },
+    onError: () => toast.error("Failed to preview re-categorization"),
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: () => rerun(false),
+    onSuccess: (data) => {
+      toast.success(data.message);
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard"] });
+    },
+    onError: () => toast.error("Re-categorization failed"),
+  });
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => previewMutation.mutate()}
+        disabled={previewMutation.isPending}
+      >
+        <RotateCcw size={14} className="mr-1.5" />
+        {previewMutation.isPending ? "Checking..." : "Re-run Rules"}
+      </Button>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent onClose={() => setPreview(null)}>
+          <DialogHeader>
+            <DialogTitle>Re-run Rules</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <div className="mt-4 space-y-4 text-sm">
+              <p className="text-muted-foreground">
+                {preview.changed} of {preview.evaluated} rule-categorized
+                transactions would change. Your own categorizations are never
+                changed.
+                {preview.unmatched > 0 &&
+                  ` ${preview.unmatched} no longer match any rule and will be left as they are.`}
+              </p>
+
+              {Object.keys(preview.transitions).length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(preview.transitions).map(([move, count]) => (
+                    <span key={move} className="rounded bg-muted px-2 py-1 text-xs capitalize">
+                      {move}: <strong>{count}</strong>
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="max-h-64 overflow-auto rounded border">
+                <table className="w-full text-xs">
+                  <tbody>
+                    {preview.changes.map((c) => (
+                      <tr key={c.transactionId} className="border-b border-border/50">
+                        <td className="px-2 py-1">{c.vendorName || "—"}</td>
+                        <td className="px-2 py-1 text-right">
+                          ${Math.abs(parseFloat(c.amount)).toFixed(2)}
+                        </td>
+                        <td className="px-2 py-1 capitalize text-muted-foreground">
+                          {c.from === c.to ? c.to : `${c.from} → ${c.to}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="ghost" onClick={() => setPreview(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => applyMutation.mutate()}
+                  disabled={applyMutation.isPending}
+                >
+                  {applyMutation.isPending ? "Applying..." : `Apply ${preview.changed} Changes`}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
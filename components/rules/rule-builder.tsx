@@ -0,0 +1,363 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { FlaskConical, Plus, Trash2 } from "lucide-react";
+
+type ConditionType =
+  | "vendor_contains"
+  | "description_regex"
+  | "amount_between"
+  | "account_equals"
+  | "day_of_month"
+  | "weekday";
+
+interface DraftCondition {
+  type: ConditionType;
+  value: string; // text value, regex pattern, or comma-separated weekdays
+  min: string;
+  max: string;
+}
+
+interface QBOAccount {
+  id: string;
+  name: string;
+}
+
+interface TestMatch {
+  id: string;
+  date: string;
+  amount: string;
+  vendorName: string | null;
+  description: string | null;
+  currentCategory: string | null;
+  currentSource: string | null;
+}
+
+interface TestResult {
+  summary: string;
+  scanned: number;
+  matched: number;
+  wouldChange: number;
+  conflictsWithUser: number;
+  matches: TestMatch[];
+}
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  vendor_contains: "Vendor contains",
+  description_regex: "Description matches regex",
+  amount_between: "Amount between",
+  account_equals: "Account equals",
+  day_of_month: "Day of month between",
+  weekday: "Weekday is",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function emptyCondition(): DraftCondition {
+  return { type: "vendor_contains", value: "", min: "", max: "" };
+}
+
+function toCondition(c: DraftCondition) {
+  switch (c.type) {
+    case "vendor_contains":
+    case "account_equals":
+      return { type: c.type, value: c.value.trim() };
+    case "description_regex":
+      return { type: c.type, pattern: c.value };
+    case "amount_between":
+    case "day_of_month":
+      return { type: c.type, min: parseFloat(c.min), max: parseFloat(c.max) };
+    case "weekday":
+      return {
+        type: c.type,
+        days: c.value
+          .split(",")
+          .map((d) => WEEKDAYS.findIndex((w) => w.toLowerCase() === d.trim().toLowerCase().slice(0, 3)))
+          .filter((d) => d >= 0),
+      };
+  }
+}
+
+export function RuleBuilder() {
+  const queryClient = useQueryClient();
+  const [combinator, setCombinator] = useState<"and" | "or">("and");
+  const [conditions, setConditions] = useState<DraftCondition[]>([emptyCondition()]);
+  const [category, setCategory] = useState("business");
+  const [tags, setTags] = useState("");
+  const [splitPct, setSplitPct] = useState("");
+  const [remainderCategory, setRemainderCategory] = useState("personal");
+  const [accountId, setAccountId] = useState("");
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  const { data: accountsData } = useQuery({
+    queryKey: ["qbo-accounts"],
+    queryFn: async () => {
+      const res = await fetch("/api/qbo/accounts");
+      if (!res.ok) return { accounts: [] };
+      return res.json() as Promise<{ accounts: QBOAccount[] }>;
+    },
+  });
+  const accounts = accountsData?.accounts ?? [];
+
+  function buildPayload() {
+    const account = accounts.find((a) => a.id === accountId);
+    const tagList = tags.split(",").map((t) => t.trim()).filter(Boolean);
+    const pct = parseFloat(splitPct);
+    return {
+      matchType: "compound",
+      conditions: { combinator, conditions: conditions.map(toCondition) },
+      category,
+      actions: {
+        ...(account
+          ? { accountMapping: { qboAccountId: account.id, qboAccountName: account.name } }
+          : {}),
+        ...(tagList.length > 0 ? { tags: tagList } : {}),
+        ...(pct > 0 && pct < 100 ? { split: { percentage: pct, remainderCategory } } : {}),
+      },
+    };
+  }
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const payload = buildPayload();
+      const res = await fetch("/api/rules/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conditions: payload.conditions, category }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to test rule");
+      return body as TestResult;
+    },
+    onSuccess: setTestResult,
+    onError: (err) => toast.error(err.message),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildPayload()),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to create rule");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Rule created");
+      queryClient.invalidateQueries({ queryKey: ["rules"] });
+      setConditions([emptyCondition()]);
+      setTags("");
+      setSplitPct("");
+      setAccountId("");
+      setTestResult(null);
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  function updateCondition(index: number, patch: Partial<DraftCondition>) {
+    setConditions((prev) => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+    setTestResult(null);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">New Rule</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Match</span>
+          <Select
+            className="h-8 w-24 text-xs"
+            value={combinator}
+            onChange={(e) => setCombinator(e.target.value as "and" | "or")}
+          >
+            <option value="and">all</option>
+            <option value="or">any</option>
+          </Select>
+          <span className="text-muted-foreground">of these conditions:</span>
+        </div>
+
+        {conditions.map((c, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <Select
+              className="h-8 w-56 text-xs"
+              value={c.type}
+              onChange={(e) =>
+                updateCondition(i, { type: e.target.value as ConditionType, value: "", min: "", max: "" })
+              }
+            >
+              {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+            {c.type === "amount_between" || c.type === "day_of_month" ? (
+              <>
+                <Input
+                  className="h-8 w-24 text-xs"
+                  type="number"
+                  placeholder="min"
+                  value={c.min}
+                  onChange={(e) => updateCondition(i, { min: e.target.value })}
+                />
+                <span className="text-muted-foreground">and</span>
+                <Input
+                  className="h-8 w-24 text-xs"
+                  type="number"
+                  placeholder="max"
+                  value={c.max}
+                  onChange={(e) => updateCondition(i, { max: e.target.value })}
+                />
+              </>
+            ) : (
+              <Input
+                className="h-8 flex-1 text-xs font-mono"
+                placeholder={
+                  c.type === "weekday"
+                    ? "e.g. Sat, Sun"
+                    : c.type === "description_regex"
+                      ? "e.g. ^ACH.*LOAN"
+                      : "value"
+                }
+                value={c.value}
+                onChange={(e) => updateCondition(i, { value: e.target.value })}
+              />
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0"
+              onClick={() => setConditions((prev) => prev.filter((_, j) => j !== i))}
+              disabled={conditions.length <= 1}
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        ))}
+
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => setConditions((prev) => [...prev, emptyCondition()])}
+        >
+          <Plus size={12} className="mr-1" />
+          Add condition
+        </Button>
+
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Category</span>
+            <Select className="h-8 text-xs" value={category} onChange={(e) => setCategory(e.target.value)}>
+              <option value="business">Business</option>
+              <option value="personal">Personal</option>
+              <option value="ambiguous">Ambiguous</option>
+            </Select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">QBO account (optional)</span>
+            <Select className="h-8 text-xs" value={accountId} onChange={(e) => setAccountId(e.target.value)}>
+              <option value="">Category default</option>
+              {accounts.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name}
+                </option>
+              ))}
+            </Select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Tags (comma-separated)</span>
+            <Input className="h-8 text-xs" value={tags} onChange={(e) => setTags(e.target.value)} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Split % (rest goes to)</span>
+            <div className="flex gap-1">
+              <Input
+                className="h-8 w-16 text-xs"
+                type="number"
+                min="1"
+                max="99"
+                value={splitPct}
+                onChange={(e) => setSplitPct(e.target.value)}
+              />
+              <Select
+                className="h-8 text-xs"
+                value={remainderCategory}
+                onChange={(e) => setRemainderCategory(e.target.value)}
+                disabled={!splitPct}
+              >
+                <option value="business">Business</option>
+                <option value="personal">Personal</option>
+                <option value="ambiguous">Ambiguous</option>
+              </Select>
+            </div>
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending}
+          >
+            <FlaskConical size={14} className="mr-1.5" />
+            {testMutation.isPending ? "Testing..." : "Test Rule"}
+          </Button>
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Rule"}
+          </Button>
+        </div>
+
+        {testResult && (
+          <div className="space-y-2 rounded-md border p-3">
+            <p className="text-xs text-muted-foreground font-mono">{testResult.summary}</p>
+            <p>
+              Matches <strong>{testResult.matched}</strong> of {testResult.scanned} transactions
+              {testResult.wouldChange > 0 && <> · {testResult.wouldChange} would change category</>}
+              {testResult.conflictsWithUser > 0 && (
+                <span className="text-yellow-400">
+                  {" "}· {testResult.conflictsWithUser} disagree with your own decisions
+                </span>
+              )}
+            </p>
+            {testResult.matches.length > 0 && (
+              <div className="max-h-64 overflow-auto">
+                <table className="w-full text-xs">
+                  <tbody>
+                    {testResult.matches.map((m) => (
+                      <tr key={m.id} className="border-b border-border/50">
+                        <td className="py-1 pr-2 text-muted-foreground">
+                          {new Date(m.date).toLocaleDateString()}
+                        </td>
+                        <td className="py-1 pr-2">{m.vendorName || "—"}</td>
+                        <td className="py-1 pr-2 text-muted-foreground truncate max-w-[16rem]">
+                          {m.description || ""}
+                        </td>
+                        <td className="py-1 pr-2 text-right">${parseFloat(m.amount).toFixed(2)}</td>
+                        <td className="py-1 capitalize text-muted-foreground">
+                          {m.currentCategory || "uncategorized"}
+                          {m.currentSource ? ` (${m.currentSource})` : ""}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
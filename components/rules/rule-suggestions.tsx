@@ -0,0 +1,139 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { Check, Lightbulb, RefreshCw, X } from "lucide-react";
+
+interface Suggestion {
+  id: string;
+  matchType: string;
+  matchValue: string;
+  category: string;
+  matchCount: number;
+  conflictCount: number;
+}
+
+export function RuleSuggestions() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ suggestions: Suggestion[] }>({
+    queryKey: ["rule-suggestions"],
+    queryFn: async () => {
+      const res = await fetch("/api/rules/suggestions");
+      if (!res.ok) return { suggestions: [] };
+      return res.json();
+    },
+  });
+  const suggestions = data?.suggestions ?? [];
+
+  const mineMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/rules/suggestions", { method: "POST" });
+      if (!res.ok) throw new Error("Failed");
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast.success(
+        result.created > 0
+          ? `Found ${result.created} new rule suggestions`
+          : "No new suggestions found"
+      );
+      queryClient.invalidateQueries({ queryKey: ["rule-suggestions"] });
+    },
+    onError: () => toast.error("Failed to scan review history"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "accepted" | "dismissed" }) => {
+      const res = await fetch(`/api/rules/suggestions/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      if (!res.ok) throw new Error("Failed");
+      return res.json();
+    },
+    onSuccess: (_data, { status }) => {
+      toast.success(status === "accepted" ? "Rule created" : "Suggestion dismissed");
+      queryClient.invalidateQueries({ queryKey: ["rule-suggestions"] });
+      queryClient.invalidateQueries({ queryKey: ["rules"] });
+    },
+    onError: () => toast.error("Failed to update suggestion"),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Lightbulb size={18} className="text-yellow-400" />
+          Suggested Rules
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => mineMutation.mutate()}
+          disabled={mineMutation.isPending}
+        >
+          <RefreshCw size={14} className={`mr-1.5 ${mineMutation.isPending ? "animate-spin" : ""}`} />
+          Scan Review History
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading suggestions...</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No suggestions yet. Suggestions appear when you categorize the same
+            vendor or description the same way several times.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {suggestions.map((s) => (
+              <div
+                key={s.id}
+                className="flex items-center justify-between rounded-md border px-3 py-2 text-sm"
+              >
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="capitalize">
+                    {s.matchType}
+                  </Badge>
+                  <span>contains</span>
+                  <span className="font-mono">&quot;{s.matchValue}&quot;</span>
+                  <span className="text-muted-foreground">→</span>
+                  <span className="capitalize font-medium">{s.category}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-muted-foreground">
+                    {s.matchCount} matches
+                    {s.conflictCount > 0 && (
+                      <span className="text-yellow-400"> · {s.conflictCount} conflicts</span>
+                    )}
+                  </span>
+                  <Button
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ id: s.id, status: "accepted" })}
+                    disabled={updateMutation.isPending}
+                  >
+                    <Check size={14} className="mr-1" />
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateMutation.mutate({ id: s.id, status: "dismissed" })}
+                    disabled={updateMutation.isPending}
+                  >
+                    <X size={14} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
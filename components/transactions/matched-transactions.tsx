@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { usePermissions } from "@/lib/hooks/use-permissions";
+import { runJob } from "@/lib/jobs/client";
+import { toast } from "sonner";
+import { ArrowLeftRight, ChevronDown, ChevronRight, ScanSearch, Unlink } from "lucide-react";
+
+interface MatchSide {
+  id: string;
+  date: string;
+  amount: string;
+  vendorName: string | null;
+  accountRef: string | null;
+}
+
+interface TransactionMatch {
+  id: string;
+  kind: "transfer" | "refund";
+  amount: string;
+  outflow: MatchSide;
+  inflow: MatchSide;
+}
+
+function formatAmount(amount: string) {
+  return `$${Math.abs(parseFloat(amount)).toLocaleString("en-US", { minimumFractionDigits: 2 })}`;
+}
+
+function describe(side: MatchSide) {
+  return `${new Date(side.date).toLocaleDateString()} · ${side.vendorName || side.accountRef || "Unknown"}`;
+}
+
+/**
+ * Transfer and refund pairs the finance reports skip or net. Unmatching a
+ * pair makes both transactions count normally again.
+ */
+export function MatchedTransactions() {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canWrite = can("transactions:write");
+  const [open, setOpen] = useState(false);
+
+  const { data } = useQuery<{ matches: TransactionMatch[] }>({
+    queryKey: ["transaction-matches"],
+    queryFn: async () => {
+      const res = await fetch("/api/transactions/matches");
+      if (!res.ok) return { matches: [] };
+      return res.json();
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["transaction-matches"] });
+    queryClient.invalidateQueries({ queryKey: ["all-transactions"] });
+  };
+
+  const detectMutation = useMutation({
+    mutationFn: () =>
+      runJob<{ transfers: number; refunds: number }>("/api/transactions/matches"),
+    onSuccess: (result) => {
+      toast.success(`Found ${result.transfers} transfers and ${result.refunds} refunds`);
+      refresh();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/transactions/matches/${id}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to unmatch");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Unmatched — both transactions count normally again");
+      refresh();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const matches = data?.matches ?? [];
+  const transfers = matches.filter((m) => m.kind === "transfer").length;
+  const refunds = matches.length - transfers;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between py-3">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 text-left"
+        >
+          {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <CardTitle className="text-sm flex items-center gap-2">
+            <ArrowLeftRight size={16} />
+            Transfers & Refunds
+          </CardTitle>
+          <span className="text-xs text-muted-foreground">
+            {transfers} transfers · {refunds} refunds excluded or netted in reports
+          </span>
+        </button>
+        {canWrite && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => detectMutation.mutate()}
+            disabled={detectMutation.isPending}
+          >
+            <ScanSearch size={14} className="mr-1" />
+            {detectMutation.isPending ? "Scanning..." : "Scan"}
+          </Button>
+        )}
+      </CardHeader>
+      {open && (
+        <CardContent className="pt-0">
+          {matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No transfers or refunds matched yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium">Amount</th>
+                  <th className="py-2 pr-4 font-medium">Money out</th>
+                  <th className="py-2 pr-4 font-medium">Money in</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {matches.map((m) => (
+                  <tr key={m.id} className="border-b border-border/50">
+                    <td className="py-2 pr-4">
+                      <Badge variant="outline" className="capitalize text-xs">
+                        {m.kind}
+                      </Badge>
+                    </td>
+                    <td className="py-2 pr-4 font-mono">{formatAmount(m.amount)}</td>
+                    <td className="py-2 pr-4 text-xs text-muted-foreground">{describe(m.outflow)}</td>
+                    <td className="py-2 pr-4 text-xs text-muted-foreground">{describe(m.inflow)}</td>
+                    <td className="py-2 text-right">
+                      {canWrite && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => dismissMutation.mutate(m.id)}
+                          disabled={dismissMutation.isPending}
+                          title="Not a match"
+                        >
+                          <Unlink size={14} />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
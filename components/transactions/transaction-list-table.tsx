@@ -21,12 +21,20 @@ export interface TransactionListRow {
   vendorName: string | null;
   description: string | null;
   accountRef: string | null;
+  source: string;
   category: string | null;
   confidence: number | null;
   catSource: string | null;
   reasoning: string | null;
+  matchKind?: "transfer" | "refund" | null;
 }
 
+const SOURCE_LABELS: Record<string, string> = {
+  qbo: "QuickBooks",
+  plaid: "Bank feed (Plaid)",
+  file: "Statement import",
+};
+
 interface TransactionListTableProps {
   data: TransactionListRow[];
 }
@@ -86,9 +94,16 @@ export function TransactionListTable({ data }: TransactionListTableProps) {
       accessorKey: "vendorName",
       header: "Vendor",
       cell: ({ row }) => (
-        <span className="font-medium text-sm truncate max-w-[180px] block">
-          {row.getValue("vendorName") || "Unknown"}
-        </span>
+        <div className="flex items-center gap-1.5">
+          <span className="font-medium text-sm truncate max-w-[180px] block">
+            {row.getValue("vendorName") || "Unknown"}
+          </span>
+          {row.original.matchKind && (
+            <Badge variant="outline" className="capitalize text-[10px] border-blue-700 text-blue-400">
+              {row.original.matchKind}
+            </Badge>
+          )}
+        </div>
       ),
     },
     {
@@ -228,6 +243,12 @@ export function TransactionListTable({ data }: TransactionListTableProps) {
                           {row.original.accountRef || "—"}
                         </p>
                       </div>
+                      <div>
+                        <span className="text-muted-foreground">Source</span>
+                        <p className="font-medium">
+                          {SOURCE_LABELS[row.original.source] || row.original.source}
+                        </p>
+                      </div>
                       {row.original.reasoning && (
                         <div className="col-span-2">
                           <span className="text-muted-foreground">Reasoning</span>
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Row = Record<string, unknown> & { sequence: number | null };
+
+// An in-memory audit_log for one practice, behind just enough of the query
+// builder for logAuditEvent (append) and verifyAuditChain (read in order)
+const table = vi.hoisted(() => ({ rows: [] as Row[] }));
+
+vi.mock("@/lib/db", () => {
+  const bySequence = () =>
+    table.rows.filter((r) => r.sequence !== null).sort((a, b) => a.sequence! - b.sequence!);
+
+  const select = (fields?: Record<string, unknown>) => ({
+    from: () => ({
+      where: () => {
+        // verifyAuditChain's count of entries from before chaining
+        const unchained = [{ unchained: table.rows.filter((r) => r.sequence === null).length }];
+        return {
+          then: (resolve: (v: unknown) => void) => resolve(unchained),
+          orderBy: () => ({
+            limit: async () => {
+              const chained = bySequence();
+              // logAuditEvent asks for the newest entry; verification reads them all
+              return fields ? chained.slice(-1) : chained;
+            },
+          }),
+        };
+      },
+    }),
+  });
+
+  const tx = {
+    execute: async () => undefined,
+    select,
+    insert: () => ({
+      values: async (values: Row) => {
+        // jsonb round trip: dates become strings and undefined drops out
+        table.rows.push({ id: `entry-${table.rows.length + 1}`, ...JSON.parse(JSON.stringify(values)), createdAt: values.createdAt });
+      },
+    }),
+  };
+
+  return {
+    db: {
+      select,
+      transaction: async (fn: (t: typeof tx) => Promise<void>) => fn(tx),
+    },
+  };
+});
+
+import { computeEntryHash, GENESIS_HASH, verifyAuditChain } from "./chain";
+import { logAuditEvent } from "./logger";
+
+const PRACTICE = "11111111-1111-1111-1111-111111111111";
+
+async function appendEntries(count: number) {
+  for (let i = 1; i <= count; i++) {
+    await logAuditEvent({
+      practiceId: PRACTICE,
+      userId: "22222222-2222-2222-2222-222222222222",
+      action: "transaction_categorized",
+      entityType: "transaction",
+      entityId: `txn-${i}`,
+      oldValue: { category: "ambiguous" },
+      newValue: { category: "business", confidence: 90 + i, at: new Date(Date.UTC(2026, 0, i)) },
+    });
+  }
+}
+
+const entry = (sequence: number) => table.rows.find((r) => r.sequence === sequence)!;
+
+beforeEach(() => {
+  table.rows = [];
+});
+
+describe("audit hash chain", () => {
+  it("links each appended entry to the one before", async () => {
+    await appendEntries(3);
+
+    expect(entry(1).prevHash).toBe(GENESIS_HASH);
+    expect(entry(2).prevHash).toBe(entry(1).hash);
+    expect(entry(3).prevHash).toBe(entry(2).hash);
+
+    const result = await verifyAuditChain(PRACTICE);
+    expect(result).toMatchObject({ valid: true, checked: 3, brokenAt: null });
+    expect(result.head).toEqual({ sequence: 3, hash: entry(3).hash });
+  });
+
+  it("verifies values however jsonb orders their keys", async () => {
+    await appendEntries(2);
+    const { confidence, category, at } = entry(2).newValue as Record<string, unknown>;
+    entry(2).newValue = { at, confidence, category };
+
+    expect((await verifyAuditChain(PRACTICE)).valid).toBe(true);
+  });
+
+  it("reports an edited entry at that entry", async () => {
+    await appendEntries(4);
+    entry(3).newValue = { category: "personal" };
+
+    const result = await verifyAuditChain(PRACTICE);
+    expect(result.valid).toBe(false);
+    expect(result.checked).toBe(2);
+    expect(result.brokenAt).toMatchObject({ id: entry(3).id, sequence: 3 });
+    expect(result.brokenAt?.reason).toMatch(/modified/);
+  });
+
+  it("reports an edit that recomputed the hash at the next entry", async () => {
+    await appendEntries(4);
+    const edited = entry(2);
+    edited.action = "transaction_deleted";
+    edited.hash = computeEntryHash(edited as Parameters<typeof computeEntryHash>[0]);
+
+    const result = await verifyAuditChain(PRACTICE);
+    expect(result.brokenAt).toMatchObject({ sequence: 3 });
+    expect(result.brokenAt?.reason).toMatch(/previous entry/);
+  });
+
+  it("reports a deleted entry where the sequence skips", async () => {
+    await appendEntries(4);
+    table.rows = table.rows.filter((r) => r.sequence !== 2);
+
+    const result = await verifyAuditChain(PRACTICE);
+    expect(result.brokenAt).toMatchObject({ sequence: 3 });
+    expect(result.brokenAt?.reason).toMatch(/Expected entry #2/);
+  });
+
+  it("counts entries from before chaining without failing", async () => {
+    table.rows.push({ id: "legacy", sequence: null, hash: null, prevHash: null });
+    await appendEntries(1);
+
+    expect(await verifyAuditChain(PRACTICE)).toMatchObject({
+      valid: true,
+      checked: 1,
+      unchained: 1,
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { createHash } from "crypto";
+import { db } from "@/lib/db";
+import { auditLog, type AuditLogEntry } from "@/lib/db/schema";
+import { eq, and, gt, isNull, isNotNull, asc, desc, count } from "drizzle-orm";
+
+// prevHash of the first chained entry in a practice
+export const GENESIS_HASH = "0".repeat(64);
+
+const VERIFY_BATCH_SIZE = 1000;
+
+type ChainedFields = Pick<
+  AuditLogEntry,
+  | "practiceId"
+  | "sequence"
+  | "userId"
+  | "action"
+  | "entityType"
+  | "entityId"
+  | "oldValue"
+  | "newValue"
+  | "createdAt"
+  | "prevHash"
+>;
+
+// jsonb drops undefined, turns dates into strings and reorders keys, so
+// normalize the same way and sort keys to hash what the row will read back as
+export function canonicalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  const plain = JSON.parse(JSON.stringify(value ?? null));
+  const sortKeys = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(sortKeys);
+    if (v && typeof v === "object") {
+      return Object.fromEntries(
+        Object.keys(v)
+          .sort()
+          .map((k) => [k, sortKeys((v as Record<string, unknown>)[k])])
+      );
+    }
+    return v;
+  };
+  return sortKeys(plain);
+}
+
+export function computeEntryHash(entry: ChainedFields): string {
+  const payload = JSON.stringify([
+    entry.practiceId,
+    entry.sequence,
+    entry.userId,
+    entry.action,
+    entry.entityType,
+    entry.entityId,
+    canonicalize(entry.oldValue),
+    canonicalize(entry.newValue),
+    entry.createdAt.toISOString(),
+    entry.prevHash,
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+/** The newest chained entry, whose hash vouches for everything before it. */
+export async function getChainHead(
+  practiceId: string
+): Promise<{ sequence: number; hash: string; createdAt: Date } | null> {
+  const [head] = await db
+    .select({ sequence: auditLog.sequence, hash: auditLog.hash, createdAt: auditLog.createdAt })
+    .from(auditLog)
+    .where(and(eq(auditLog.practiceId, practiceId), isNotNull(auditLog.sequence)))
+    .orderBy(desc(auditLog.sequence))
+    .limit(1);
+  if (!head?.sequence || !head.hash) return null;
+  return { sequence: head.sequence, hash: head.hash, createdAt: head.createdAt };
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  // Entries from before hash chaining, which can't be verified
+  unchained: number;
+  head: { sequence: number; hash: string } | null;
+  brokenAt: { id: string; sequence: number; reason: string } | null;
+}
+
+/**
+ * Recompute every chained entry's hash in sequence order. An edited entry
+ * no longer matches its hash; a deleted or reordered one breaks the
+ * sequence or the link to the previous hash.
+ */
+export async function verifyAuditChain(practiceId: string): Promise<ChainVerification> {
+  const [{ unchained }] = await db
+    .select({ unchained: count() })
+    .from(auditLog)
+    .where(and(eq(auditLog.practiceId, practiceId), isNull(auditLog.sequence)));
+
+  let checked = 0;
+  let prevHash = GENESIS_HASH;
+  let expectedSequence = 1;
+  let lastSequence = 0;
+
+  for (;;) {
+    const batch = await db
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.practiceId, practiceId), gt(auditLog.sequence, lastSequence)))
+      .orderBy(asc(auditLog.sequence))
+      .limit(VERIFY_BATCH_SIZE);
+
+    for (const entry of batch) {
+      const sequence = entry.sequence!;
+      const fail = (reason: string): ChainVerification => ({
+        valid: false,
+        checked,
+        unchained,
+        head: null,
+        brokenAt: { id: entry.id, sequence, reason },
+      });
+
+      if (sequence !== expectedSequence) {
+        return fail(`Expected entry #${expectedSequence}; entries may have been deleted`);
+      }
+      if (entry.prevHash !== prevHash) {
+        return fail("Link to the previous entry doesn't match");
+      }
+      if (computeEntryHash(entry) !== entry.hash) {
+        return fail("Entry content doesn't match its hash; it was modified");
+      }
+
+      checked++;
+      prevHash = entry.hash;
+      expectedSequence++;
+      lastSequence = sequence;
+    }
+
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  return {
+    valid: true,
+    checked,
+    unchained,
+    head: checked > 0 ? { sequence: lastSequence, hash: prevHash } : null,
+    brokenAt: null,
+  };
+}
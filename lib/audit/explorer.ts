@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { auditLog, users } from "@/lib/db/schema";
+import { eq, and, gte, lte, desc, asc, count, type SQL } from "drizzle-orm";
+import { canonicalize } from "@/lib/audit/chain";
+
+export const auditFilterSchema = z.object({
+  userId: z.string().uuid().optional(),
+  action: z.string().min(1).optional(),
+  entityType: z.string().min(1).optional(),
+  entityId: z.string().min(1).optional(),
+  from: z.iso.date().optional(), // YYYY-MM-DD, inclusive
+  to: z.iso.date().optional(),
+});
+
+export type AuditFilter = z.infer<typeof auditFilterSchema>;
+
+export interface AuditEntryRow {
+  id: string;
+  sequence: number | null;
+  createdAt: Date;
+  userId: string | null;
+  userName: string | null;
+  userEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  oldValue: unknown;
+  newValue: unknown;
+  hash: string | null;
+  prevHash: string | null;
+}
+
+/** Read filters from the query string; empty values are ignored. */
+export function parseAuditFilter(searchParams: URLSearchParams) {
+  const raw = Object.fromEntries(
+    ["userId", "action", "entityType", "entityId", "from", "to"]
+      .map((key) => [key, searchParams.get(key) || undefined])
+      .filter(([, value]) => value !== undefined)
+  );
+  return auditFilterSchema.safeParse(raw);
+}
+
+function filterConditions(practiceId: string, filter: AuditFilter): SQL | undefined {
+  const conditions: SQL[] = [eq(auditLog.practiceId, practiceId)];
+  if (filter.userId) conditions.push(eq(auditLog.userId, filter.userId));
+  if (filter.action) conditions.push(eq(auditLog.action, filter.action));
+  if (filter.entityType) conditions.push(eq(auditLog.entityType, filter.entityType));
+  if (filter.entityId) conditions.push(eq(auditLog.entityId, filter.entityId));
+  if (filter.from) conditions.push(gte(auditLog.createdAt, new Date(`${filter.from}T00:00:00Z`)));
+  if (filter.to) conditions.push(lte(auditLog.createdAt, new Date(`${filter.to}T23:59:59.999Z`)));
+  return and(...conditions);
+}
+
+const entryColumns = {
+  id: auditLog.id,
+  sequence: auditLog.sequence,
+  createdAt: auditLog.createdAt,
+  userId: auditLog.userId,
+  userName: users.name,
+  userEmail: users.email,
+  action: auditLog.action,
+  entityType: auditLog.entityType,
+  entityId: auditLog.entityId,
+  oldValue: auditLog.oldValue,
+  newValue: auditLog.newValue,
+  hash: auditLog.hash,
+  prevHash: auditLog.prevHash,
+};
+
+export async function queryAuditLog(
+  practiceId: string,
+  filter: AuditFilter,
+  page: { limit: number; offset: number }
+): Promise<{ entries: AuditEntryRow[]; total: number }> {
+  const where = filterConditions(practiceId, filter);
+
+  const [entries, [{ total }]] = await Promise.all([
+    db
+      .select(entryColumns)
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.userId, users.id))
+      .where(where)
+      .orderBy(desc(auditLog.createdAt))
+      .limit(page.limit)
+      .offset(page.offset),
+    db.select({ total: count() }).from(auditLog).where(where),
+  ]);
+
+  return { entries, total };
+}
+
+/** Distinct values for the filter dropdowns. */
+export async function getAuditFacets(practiceId: string) {
+  const inPractice = eq(auditLog.practiceId, practiceId);
+  const [actions, entityTypes, people] = await Promise.all([
+    db
+      .selectDistinct({ action: auditLog.action })
+      .from(auditLog)
+      .where(inPractice)
+      .orderBy(asc(auditLog.action)),
+    db
+      .selectDistinct({ entityType: auditLog.entityType })
+      .from(auditLog)
+      .where(inPractice)
+      .orderBy(asc(auditLog.entityType)),
+    db
+      .selectDistinct({ id: users.id, name: users.name, email: users.email })
+      .from(auditLog)
+      .innerJoin(users, eq(auditLog.userId, users.id))
+      .where(inPractice)
+      .orderBy(asc(users.name)),
+  ]);
+
+  return {
+    actions: actions.map((a) => a.action),
+    entityTypes: entityTypes.map((e) => e.entityType),
+    users: people,
+  };
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Oldest first with every field computeEntryHash covers, values written as
+ * the canonical JSON it hashes, so each row's hash can be recomputed
+ * independently of the app. Each row carries its own Previous Hash, so rows
+ * verify one by one in any export, but only an unfiltered export links
+ * every row to the one before it back to the first entry; a filtered
+ * export skips entries and leaves gaps in the chain.
+ */
+export async function exportAuditLogCsv(practiceId: string, filter: AuditFilter): Promise<string> {
+  const entries = await db
+    .select(entryColumns)
+    .from(auditLog)
+    .leftJoin(users, eq(auditLog.userId, users.id))
+    .where(filterConditions(practiceId, filter))
+    .orderBy(asc(auditLog.createdAt), asc(auditLog.sequence));
+
+  const rows = [
+    "Practice ID,Sequence,Timestamp (UTC),User ID,User,Email,Action,Entity Type,Entity ID,Old Value,New Value,Previous Hash,Hash",
+  ];
+  for (const e of entries) {
+    rows.push(
+      [
+        practiceId,
+        e.sequence,
+        e.createdAt.toISOString(),
+        e.userId,
+        e.userName,
+        e.userEmail,
+        e.action,
+        e.entityType,
+        e.entityId,
+        JSON.stringify(canonicalize(e.oldValue)),
+        JSON.stringify(canonicalize(e.newValue)),
+        e.prevHash,
+        e.hash,
+      ]
+        .map(csvField)
+        .join(",")
+    );
+  }
+  return rows.join("\n");
+}
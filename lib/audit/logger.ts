@@ -1,5 +1,7 @@
 import { db } from "@/lib/db";
 import { auditLog } from "@/lib/db/schema";
+import { eq, desc, sql } from "drizzle-orm";
+import { computeEntryHash, GENESIS_HASH } from "./chain";
 
 interface AuditEvent {
   practiceId: string;
@@ -13,14 +15,31 @@ interface AuditEvent {
 
 export async function logAuditEvent(event: AuditEvent) {
   try {
-    await db.insert(auditLog).values({
-      practiceId: event.practiceId,
-      userId: event.userId,
-      action: event.action,
-      entityType: event.entityType,
-      entityId: event.entityId ?? null,
-      oldValue: event.oldValue ?? null,
-      newValue: event.newValue ?? null,
+    await db.transaction(async (tx) => {
+      // Serialize writers per practice so each entry links to the one before
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${event.practiceId}))`);
+
+      const [previous] = await tx
+        .select({ sequence: auditLog.sequence, hash: auditLog.hash })
+        .from(auditLog)
+        .where(eq(auditLog.practiceId, event.practiceId))
+        .orderBy(sql`${auditLog.sequence} desc nulls last`, desc(auditLog.createdAt))
+        .limit(1);
+
+      const entry = {
+        practiceId: event.practiceId,
+        userId: event.userId,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId ?? null,
+        oldValue: event.oldValue ?? null,
+        newValue: event.newValue ?? null,
+        sequence: (previous?.sequence ?? 0) + 1,
+        prevHash: previous?.hash ?? GENESIS_HASH,
+        createdAt: new Date(),
+      };
+
+      await tx.insert(auditLog).values({ ...entry, hash: computeEntryHash(entry) });
     });
   } catch (error) {
     // Audit logging should never break the main flow
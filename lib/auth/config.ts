@@ -1,26 +1,58 @@
-import NextAuth from "next-auth";
+import NextAuth, { CredentialsSignin } from "next-auth";
 import Credentials from "next-auth/providers/credentials";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
 import { db } from "@/lib/db";
 import { users, userPractices } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { TwoFactorLockedError, verifySecondFactor } from "./two-factor";
+import {
+  SESSION_MAX_AGE_SECONDS,
+  createUserSession,
+  touchUserSession,
+} from "./sessions";
 
 const credentialsSchema = z.object({
   email: z.string().email(),
   password: z.string().min(1),
+  // Authenticator or recovery code, sent on the second step for 2FA users
+  code: z.string().optional(),
 });
 
+// The login page reads these codes to show the 2FA step or its error
+class TwoFactorRequired extends CredentialsSignin {
+  code = "two_factor_required";
+}
+
+class InvalidTwoFactorCode extends CredentialsSignin {
+  code = "invalid_two_factor_code";
+}
+
+class TwoFactorLocked extends CredentialsSignin {
+  code = "two_factor_locked";
+}
+
+function clientDetails(request: Request) {
+  return {
+    userAgent: request.headers.get("user-agent"),
+    ipAddress:
+      request.headers.get("x-forwarded-for")?.split(",")[0].trim() ??
+      request.headers.get("x-real-ip"),
+  };
+}
+
 export const { handlers, auth, signIn, signOut } = NextAuth({
-  session: { strategy: "jwt", maxAge: 15 * 60 },
+  session: { strategy: "jwt", maxAge: SESSION_MAX_AGE_SECONDS },
   pages: { signIn: "/login" },
   providers: [
     Credentials({
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        code: { label: "Authentication code", type: "text" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, request) {
         const parsed = credentialsSchema.safeParse(credentials);
         if (!parsed.success) return null;
 
@@ -32,11 +64,55 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
 
         if (!user) return null;
 
+        const client = clientDetails(request);
         const valid = await bcrypt.compare(
           parsed.data.password,
           user.passwordHash
         );
-        if (!valid) return null;
+        if (!valid) {
+          await logAuditEvent({
+            practiceId: user.practiceId,
+            userId: user.id,
+            action: "login_failed",
+            entityType: "user",
+            entityId: user.id,
+            newValue: { reason: "password", ...client },
+          });
+          return null;
+        }
+
+        let twoFactorMethod: string | null = null;
+        if (user.totpEnabledAt) {
+          if (!parsed.data.code) throw new TwoFactorRequired();
+
+          try {
+            twoFactorMethod = await verifySecondFactor(user.id, parsed.data.code);
+          } catch (e) {
+            if (e instanceof TwoFactorLockedError) throw new TwoFactorLocked();
+            throw e;
+          }
+          if (!twoFactorMethod) {
+            await logAuditEvent({
+              practiceId: user.practiceId,
+              userId: user.id,
+              action: "two_factor_failed",
+              entityType: "user",
+              entityId: user.id,
+              newValue: client,
+            });
+            throw new InvalidTwoFactorCode();
+          }
+        }
+
+        const session = await createUserSession(user.id, { ...client, twoFactorMethod });
+        await logAuditEvent({
+          practiceId: user.practiceId,
+          userId: user.id,
+          action: "login",
+          entityType: "user_session",
+          entityId: session.id,
+          newValue: { twoFactorMethod, ...client },
+        });
 
         return {
           id: user.id,
@@ -44,6 +120,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
           name: user.name,
           practiceId: user.practiceId,
           role: user.role,
+          sessionId: session.id,
         };
       },
     }),
@@ -51,6 +128,8 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
   callbacks: {
     async jwt({ token, user }) {
       if (user) {
+        token.sessionId = user.sessionId;
+
         // Resolve default practice from userPractices join table
         const [defaultPractice] = await db
           .select({
@@ -85,6 +164,12 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
             token.role = anyPractice.role;
           }
         }
+      } else if (
+        token.sessionId &&
+        !(await touchUserSession(token.sessionId as string))
+      ) {
+        // Revoked from another device: returning null clears the cookie
+        return null;
       }
       return token;
     },
@@ -93,6 +178,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         session.user.id = token.sub!;
         session.user.practiceId = token.practiceId as string;
         session.user.role = token.role as string;
+        session.user.sessionId = token.sessionId as string | undefined;
       }
       return session;
     },
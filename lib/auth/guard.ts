@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionOrDemo, type AppSession } from "./session";
+import { resolveAccess } from "./roles";
+import { hasPermission, type Permission } from "./permissions";
+import { isMissingRequiredTwoFactor } from "./two-factor";
+
+export interface AuthorizedSession extends AppSession {
+  customRole: { id: string; name: string } | null;
+  permissions: Permission[];
+}
+
+interface RouteContext<P> {
+  params: Promise<P>;
+}
+
+type GuardedHandler<P> = (
+  request: NextRequest,
+  context: { session: AuthorizedSession; params: Promise<P> }
+) => Promise<Response>;
+
+interface GuardOptions {
+  // Route param holding the practice being acted on, for /api/practices/[id]
+  // routes; by default the session's current practice
+  practiceParam?: string;
+}
+
+/**
+ * Wrap an API route handler so it only runs for a signed-in member holding
+ * `permission` in the practice (null: any member). Responds 401 without a
+ * session and 403 without the permission, or when the practice requires 2FA
+ * the user hasn't set up; the handler gets the session with the role and
+ * permissions resolved from the membership.
+ */
+export function withPermission<P = Record<string, string>>(
+  permission: Permission | null,
+  handler: GuardedHandler<P>,
+  options: GuardOptions = {}
+): (request: NextRequest, context: RouteContext<P>) => Promise<Response> {
+  return async (request, context) => {
+    let session: AuthorizedSession;
+    try {
+      const base = await getSessionOrDemo();
+      if (!base) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      let practiceId = base.practiceId;
+      if (options.practiceParam) {
+        const params = (await context.params) as Record<string, string>;
+        practiceId = params[options.practiceParam];
+      }
+
+      const access = await resolveAccess(base.userId, practiceId);
+      if (!access || (permission && !hasPermission(access.permissions, permission))) {
+        return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+      }
+
+      if (await isMissingRequiredTwoFactor(base.userId, practiceId)) {
+        return NextResponse.json(
+          {
+            error: "This practice requires two-factor authentication",
+            code: "two_factor_required",
+          },
+          { status: 403 }
+        );
+      }
+
+      session = { ...base, practiceId, ...access };
+    } catch (error) {
+      console.error("Authorization error:", error);
+      return NextResponse.json({ error: "Failed to authorize request" }, { status: 500 });
+    }
+
+    return handler(request, { session, params: context.params });
+  };
+}
@@ -0,0 +1,288 @@
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcryptjs";
+import { db } from "@/lib/db";
+import {
+  practiceInvitations,
+  practices,
+  users,
+  userPractices,
+  practiceRoles,
+  type PracticeInvitation,
+} from "@/lib/db/schema";
+import { eq, and, isNull, gt, desc, sql } from "drizzle-orm";
+import { sendEmail } from "@/lib/email/client";
+import { inviteEmail } from "@/lib/email/templates";
+import { APP_URL } from "@/lib/config/branding";
+
+export const INVITATION_TTL_DAYS = 7;
+
+type InvitableRole = "manager" | "accountant";
+
+export class InvitationPendingError extends Error {
+  constructor(email: string) {
+    super(`An invitation is already pending for ${email}`);
+    this.name = "InvitationPendingError";
+  }
+}
+
+export class InvitationEmailTakenError extends Error {
+  constructor() {
+    super("An account with this email already exists. Sign in and ask to be invited again.");
+    this.name = "InvitationEmailTakenError";
+  }
+}
+
+// Only the hash is stored, so a leaked table can't be used to accept invites
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function issueToken(): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 86_400_000);
+  return { token, tokenHash: hashToken(token), expiresAt };
+}
+
+function pendingFilter() {
+  return and(isNull(practiceInvitations.acceptedAt), isNull(practiceInvitations.revokedAt));
+}
+
+export interface PendingInvitation {
+  id: string;
+  email: string;
+  role: string;
+  customRoleId: string | null;
+  customRoleName: string | null;
+  invitedByName: string | null;
+  expiresAt: Date;
+  lastSentAt: Date;
+  createdAt: Date;
+}
+
+/** Invitations not yet accepted or revoked, expired ones included. */
+export async function listPendingInvitations(practiceId: string): Promise<PendingInvitation[]> {
+  return db
+    .select({
+      id: practiceInvitations.id,
+      email: practiceInvitations.email,
+      role: practiceInvitations.role,
+      customRoleId: practiceInvitations.customRoleId,
+      customRoleName: practiceRoles.name,
+      invitedByName: users.name,
+      expiresAt: practiceInvitations.expiresAt,
+      lastSentAt: practiceInvitations.lastSentAt,
+      createdAt: practiceInvitations.createdAt,
+    })
+    .from(practiceInvitations)
+    .leftJoin(practiceRoles, eq(practiceInvitations.customRoleId, practiceRoles.id))
+    .leftJoin(users, eq(practiceInvitations.invitedBy, users.id))
+    .where(and(eq(practiceInvitations.practiceId, practiceId), pendingFilter()))
+    .orderBy(desc(practiceInvitations.createdAt));
+}
+
+export async function createInvitation(input: {
+  practiceId: string;
+  email: string;
+  role: InvitableRole;
+  customRoleId?: string;
+  invitedBy: string;
+}): Promise<{ invitation: PracticeInvitation; token: string }> {
+  const [pending] = await db
+    .select({ id: practiceInvitations.id })
+    .from(practiceInvitations)
+    .where(
+      and(
+        eq(practiceInvitations.practiceId, input.practiceId),
+        eq(sql`lower(${practiceInvitations.email})`, input.email.toLowerCase()),
+        pendingFilter()
+      )
+    )
+    .limit(1);
+  if (pending) throw new InvitationPendingError(input.email);
+
+  const { token, tokenHash, expiresAt } = issueToken();
+  const [invitation] = await db
+    .insert(practiceInvitations)
+    .values({
+      practiceId: input.practiceId,
+      email: input.email,
+      role: input.role,
+      customRoleId: input.customRoleId,
+      invitedBy: input.invitedBy,
+      tokenHash,
+      expiresAt,
+    })
+    .returning();
+  return { invitation, token };
+}
+
+/**
+ * Remove an invitation whose email never went out, so inviting the same
+ * address again isn't blocked by it.
+ */
+export async function discardInvitation(invitationId: string): Promise<void> {
+  await db.delete(practiceInvitations).where(eq(practiceInvitations.id, invitationId));
+}
+
+/**
+ * Issue a fresh token and expiry for a pending invitation. The previous
+ * link stops working.
+ */
+export async function resendInvitation(
+  invitationId: string,
+  practiceId: string
+): Promise<{ invitation: PracticeInvitation; token: string } | null> {
+  const { token, tokenHash, expiresAt } = issueToken();
+  const [invitation] = await db
+    .update(practiceInvitations)
+    .set({ tokenHash, expiresAt, lastSentAt: new Date() })
+    .where(
+      and(
+        eq(practiceInvitations.id, invitationId),
+        eq(practiceInvitations.practiceId, practiceId),
+        pendingFilter()
+      )
+    )
+    .returning();
+  return invitation ? { invitation, token } : null;
+}
+
+export async function revokeInvitation(
+  invitationId: string,
+  practiceId: string
+): Promise<PracticeInvitation | null> {
+  const [invitation] = await db
+    .update(practiceInvitations)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(practiceInvitations.id, invitationId),
+        eq(practiceInvitations.practiceId, practiceId),
+        pendingFilter()
+      )
+    )
+    .returning();
+  return invitation ?? null;
+}
+
+export async function sendInvitationEmail(
+  invitation: PracticeInvitation,
+  token: string,
+  inviterName: string
+): Promise<void> {
+  const [practice] = await db
+    .select({ name: practices.name })
+    .from(practices)
+    .where(eq(practices.id, invitation.practiceId))
+    .limit(1);
+
+  let role: string = invitation.role;
+  if (invitation.customRoleId) {
+    const [customRole] = await db
+      .select({ name: practiceRoles.name })
+      .from(practiceRoles)
+      .where(eq(practiceRoles.id, invitation.customRoleId))
+      .limit(1);
+    role = customRole?.name ?? role;
+  }
+
+  const emailContent = inviteEmail({
+    inviterName,
+    practiceName: practice?.name ?? "a practice",
+    role,
+    acceptUrl: `${APP_URL}/invite/${token}`,
+    expiresAt: invitation.expiresAt,
+  });
+
+  await sendEmail({
+    to: invitation.email,
+    subject: emailContent.subject,
+    html: emailContent.html,
+  });
+}
+
+/** What the accept page shows; null when the link is unknown or no longer usable. */
+export async function getInvitationByToken(token: string) {
+  const [invitation] = await db
+    .select({
+      id: practiceInvitations.id,
+      email: practiceInvitations.email,
+      role: practiceInvitations.role,
+      customRoleName: practiceRoles.name,
+      practiceName: practices.name,
+      invitedByName: users.name,
+      expiresAt: practiceInvitations.expiresAt,
+    })
+    .from(practiceInvitations)
+    .innerJoin(practices, eq(practiceInvitations.practiceId, practices.id))
+    .leftJoin(practiceRoles, eq(practiceInvitations.customRoleId, practiceRoles.id))
+    .leftJoin(users, eq(practiceInvitations.invitedBy, users.id))
+    .where(
+      and(
+        eq(practiceInvitations.tokenHash, hashToken(token)),
+        pendingFilter(),
+        gt(practiceInvitations.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+  return invitation ?? null;
+}
+
+/**
+ * Create the invited person's account and practice membership in one
+ * transaction. Returns null when the token is unknown, expired, revoked or
+ * already used.
+ */
+export async function acceptInvitation(
+  token: string,
+  account: { name: string; password: string }
+): Promise<{ userId: string; practiceId: string; email: string } | null> {
+  const passwordHash = await bcrypt.hash(account.password, 12);
+
+  return db.transaction(async (tx) => {
+    // Claiming the invitation first means two concurrent accepts can't both win
+    const [invitation] = await tx
+      .update(practiceInvitations)
+      .set({ acceptedAt: new Date() })
+      .where(
+        and(
+          eq(practiceInvitations.tokenHash, hashToken(token)),
+          pendingFilter(),
+          gt(practiceInvitations.expiresAt, new Date())
+        )
+      )
+      .returning();
+    if (!invitation) return null;
+
+    const [user] = await tx
+      .insert(users)
+      .values({
+        practiceId: invitation.practiceId,
+        email: invitation.email,
+        name: account.name,
+        passwordHash,
+        role: invitation.role,
+      })
+      .onConflictDoNothing()
+      .returning({ id: users.id });
+    if (!user) throw new InvitationEmailTakenError();
+
+    await tx.insert(userPractices).values({
+      userId: user.id,
+      practiceId: invitation.practiceId,
+      role: invitation.role,
+      customRoleId: invitation.customRoleId,
+      isDefault: true,
+      invitedBy: invitation.invitedBy,
+      invitedAt: invitation.createdAt,
+      acceptedAt: new Date(),
+    });
+
+    await tx
+      .update(practiceInvitations)
+      .set({ acceptedUserId: user.id })
+      .where(eq(practiceInvitations.id, invitation.id));
+
+    return { userId: user.id, practiceId: invitation.practiceId, email: invitation.email };
+  });
+}
@@ -1,27 +1,126 @@
-type Action = "read" | "write" | "admin";
+export const RESOURCES = [
+  "transactions",
+  "rules",
+  "budgets",
+  "loans",
+  "retirement",
+  "referrals",
+  "reports",
+  "integrations",
+  "connections",
+  "net_worth",
+  "industry_config",
+  "qbo_write_back",
+  "settings",
+  "members",
+  "audit",
+] as const;
 
-const ROLE_PERMISSIONS: Record<string, Action[]> = {
-  owner: ["read", "write", "admin"],
-  manager: ["read", "write"],
-  accountant: ["read"],
+export type Resource = (typeof RESOURCES)[number];
+export type AccessLevel = "read" | "write";
+export type Permission = `${Resource}:${AccessLevel}`;
+
+export const RESOURCE_LABELS: Record<Resource, string> = {
+  transactions: "Transactions & categorization",
+  rules: "Categorization rules",
+  budgets: "Budgets",
+  loans: "Loans & debt",
+  retirement: "Retirement planning",
+  referrals: "Referral marketplace",
+  reports: "Financial reports",
+  integrations: "QBO sync, chart of accounts & statement imports",
+  connections: "Bank & QBO connections",
+  net_worth: "Net worth",
+  industry_config: "Industry configuration",
+  qbo_write_back: "QBO write-back",
+  settings: "Practice settings & automation",
+  members: "Members & roles",
+  audit: "Audit log",
+};
+
+export const BUILT_IN_ROLES = ["owner", "manager", "accountant"] as const;
+export type BuiltInRole = (typeof BUILT_IN_ROLES)[number];
+
+export const ALL_PERMISSIONS: Permission[] = RESOURCES.flatMap((r) => [
+  `${r}:read` as const,
+  `${r}:write` as const,
+]);
+
+// Every member could change these before resource permissions existed, so
+// every built-in role keeps that access
+const MEMBER_WRITES: Resource[] = ["connections", "net_worth", "industry_config"];
+
+function access(level: AccessLevel, resources: readonly Resource[]): Permission[] {
+  return resources.map((r) => `${r}:${level}` as const);
+}
+
+const ROLE_PERMISSIONS: Record<BuiltInRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  manager: [
+    ...access("read", RESOURCES),
+    ...access("write", [
+      "transactions",
+      "rules",
+      "budgets",
+      "loans",
+      "retirement",
+      "referrals",
+      "reports",
+      "integrations",
+      ...MEMBER_WRITES,
+    ]),
+  ],
+  accountant: [
+    ...access(
+      "read",
+      RESOURCES.filter((r) => r !== "members")
+    ),
+    ...access("write", MEMBER_WRITES),
+  ],
 };
 
-export function canPerform(role: string, action: Action): boolean {
-  return (ROLE_PERMISSIONS[role] || []).includes(action);
+export function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+export function permissionsForRole(role: string): Permission[] {
+  return ROLE_PERMISSIONS[role as BuiltInRole] ?? [];
+}
+
+/** Write access implies read access to the same resource. */
+export function hasPermission(granted: readonly Permission[], permission: Permission): boolean {
+  if (granted.includes(permission)) return true;
+  const [resource, level] = permission.split(":");
+  return level === "read" && granted.includes(`${resource as Resource}:write`);
+}
+
+/**
+ * Permissions in `requested` that `granted` doesn't cover. Members can only
+ * hand out access they hold themselves, so a custom role with members:write
+ * can't mint or assign a more powerful one.
+ */
+export function missingPermissions(
+  granted: readonly Permission[],
+  requested: readonly Permission[]
+): Permission[] {
+  return requested.filter((p) => !hasPermission(granted, p));
 }
 
-export function requireRole(session: { role: string }, action: Action): void {
-  if (!canPerform(session.role, action)) {
-    throw new PermissionError(session.role, action);
+export function requirePermission(
+  session: { role: string; permissions: readonly Permission[] },
+  permission: Permission
+): void {
+  if (!hasPermission(session.permissions, permission)) {
+    throw new PermissionError(session.role, permission);
   }
 }
 
 export class PermissionError extends Error {
   constructor(
     public role: string,
-    public action: string,
+    public permission: string,
   ) {
-    super(`Insufficient permissions: ${role} cannot ${action}`);
+    super(`Insufficient permissions: ${role} lacks ${permission}`);
     this.name = "PermissionError";
   }
 }
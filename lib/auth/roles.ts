@@ -0,0 +1,168 @@
+import { db } from "@/lib/db";
+import { practiceRoles, userPractices, type PracticeRole } from "@/lib/db/schema";
+import { eq, and, asc } from "drizzle-orm";
+import { z } from "zod";
+import { isDemoMode } from "@/lib/qbo/demo-mode";
+import {
+  ALL_PERMISSIONS,
+  BUILT_IN_ROLES,
+  isPermission,
+  permissionsForRole,
+  type Permission,
+} from "./permissions";
+
+export const practiceRoleSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(60)
+    .refine((n) => !(BUILT_IN_ROLES as readonly string[]).includes(n.toLowerCase()), {
+      message: "That name is reserved for a built-in role",
+    }),
+  description: z.string().trim().max(300).nullable().optional(),
+  permissions: z.array(z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]])),
+});
+
+export type PracticeRoleInput = z.infer<typeof practiceRoleSchema>;
+
+export class PracticeRoleNameTakenError extends Error {
+  constructor(name: string) {
+    super(`A role named "${name}" already exists`);
+    this.name = "PracticeRoleNameTakenError";
+  }
+}
+
+export interface EffectiveAccess {
+  role: string;
+  customRole: { id: string; name: string } | null;
+  permissions: Permission[];
+}
+
+/**
+ * What a user may do in a practice, read from their membership rather than
+ * the session token so a removed member or changed role takes effect on the
+ * next request. Owners always hold every permission; anyone else assigned a
+ * custom role gets exactly that role's permissions. Null when the user is
+ * not a member.
+ */
+export async function resolveAccess(
+  userId: string,
+  practiceId: string
+): Promise<EffectiveAccess | null> {
+  if (isDemoMode()) {
+    return { role: "owner", customRole: null, permissions: ALL_PERMISSIONS };
+  }
+
+  const [membership] = await db
+    .select({
+      role: userPractices.role,
+      customRoleId: practiceRoles.id,
+      customRoleName: practiceRoles.name,
+      customPermissions: practiceRoles.permissions,
+    })
+    .from(userPractices)
+    .leftJoin(practiceRoles, eq(userPractices.customRoleId, practiceRoles.id))
+    .where(and(eq(userPractices.userId, userId), eq(userPractices.practiceId, practiceId)))
+    .limit(1);
+
+  if (!membership) return null;
+
+  if (membership.role !== "owner" && membership.customRoleId) {
+    return {
+      role: membership.role,
+      customRole: { id: membership.customRoleId, name: membership.customRoleName! },
+      // Stored as plain strings; drop any that no longer exist
+      permissions: (membership.customPermissions ?? []).filter(isPermission),
+    };
+  }
+
+  return {
+    role: membership.role,
+    customRole: null,
+    permissions: permissionsForRole(membership.role),
+  };
+}
+
+export async function listPracticeRoles(practiceId: string): Promise<PracticeRole[]> {
+  return db
+    .select()
+    .from(practiceRoles)
+    .where(eq(practiceRoles.practiceId, practiceId))
+    .orderBy(asc(practiceRoles.name));
+}
+
+export async function getPracticeRole(
+  roleId: string,
+  practiceId: string
+): Promise<PracticeRole | null> {
+  const [role] = await db
+    .select()
+    .from(practiceRoles)
+    .where(and(eq(practiceRoles.id, roleId), eq(practiceRoles.practiceId, practiceId)));
+  return role ?? null;
+}
+
+/**
+ * The permissions a membership would carry with this built-in role and
+ * optional custom role. Null when the custom role isn't in the practice.
+ */
+export async function permissionsForAssignment(
+  practiceId: string,
+  role: string,
+  customRoleId: string | null | undefined
+): Promise<Permission[] | null> {
+  if (role === "owner") return ALL_PERMISSIONS;
+  if (!customRoleId) return permissionsForRole(role);
+  const customRole = await getPracticeRole(customRoleId, practiceId);
+  return customRole ? customRole.permissions.filter(isPermission) : null;
+}
+
+export async function createPracticeRole(
+  practiceId: string,
+  input: PracticeRoleInput
+): Promise<PracticeRole> {
+  const [role] = await db
+    .insert(practiceRoles)
+    .values({ practiceId, ...input })
+    .onConflictDoNothing()
+    .returning();
+  if (!role) throw new PracticeRoleNameTakenError(input.name);
+  return role;
+}
+
+export async function updatePracticeRole(
+  roleId: string,
+  practiceId: string,
+  input: Partial<PracticeRoleInput>
+): Promise<{ before: PracticeRole; after: PracticeRole } | null> {
+  const before = await getPracticeRole(roleId, practiceId);
+  if (!before) return null;
+
+  if (input.name && input.name !== before.name) {
+    const [taken] = await db
+      .select({ id: practiceRoles.id })
+      .from(practiceRoles)
+      .where(and(eq(practiceRoles.practiceId, practiceId), eq(practiceRoles.name, input.name)));
+    if (taken) throw new PracticeRoleNameTakenError(input.name);
+  }
+
+  const [after] = await db
+    .update(practiceRoles)
+    .set({ ...input, updatedAt: new Date() })
+    .where(eq(practiceRoles.id, roleId))
+    .returning();
+  return { before, after };
+}
+
+/** Members holding the role fall back to their built-in role. */
+export async function deletePracticeRole(
+  roleId: string,
+  practiceId: string
+): Promise<PracticeRole | null> {
+  const [role] = await db
+    .delete(practiceRoles)
+    .where(and(eq(practiceRoles.id, roleId), eq(practiceRoles.practiceId, practiceId)))
+    .returning();
+  return role ?? null;
+}
@@ -0,0 +1,340 @@
+import { readFileSync, readdirSync } from "fs";
+import { join, relative, sep } from "path";
+import { describe, expect, it } from "vitest";
+import {
+  BUILT_IN_ROLES,
+  hasPermission,
+  isPermission,
+  missingPermissions,
+  permissionsForRole,
+  type Permission,
+} from "./permissions";
+
+// How each API handler is authorized:
+// - a permission: withPermission(permission)
+// - MEMBER: withPermission(null), any member of the practice
+// - USER: the signed-in user's own data, or practices checked per request
+// - PUBLIC: no session; the route authenticates the caller itself (token,
+//   cron secret, webhook signature)
+// - { checks }: a browser redirect that checks the permission inline
+const MEMBER = "member";
+const USER = "user";
+const PUBLIC = "public";
+
+type Expected = Permission | typeof MEMBER | typeof USER | typeof PUBLIC | { checks: Permission };
+
+const ROUTE_PERMISSIONS: Record<string, Expected> = {
+  "GET /api/audit/export": "audit:read",
+  "GET /api/audit": "audit:read",
+  "GET /api/audit/verify": "audit:read",
+  "GET /api/auth/[...nextauth]": PUBLIC,
+  "POST /api/auth/[...nextauth]": PUBLIC,
+  "GET /api/auth/permissions": MEMBER,
+  "GET /api/auth/sessions": USER,
+  "DELETE /api/auth/sessions": USER,
+  "POST /api/auth/signup": PUBLIC,
+  "POST /api/auth/switch-practice": USER,
+  "POST /api/auth/two-factor/disable": USER,
+  "POST /api/auth/two-factor/enable": USER,
+  "POST /api/auth/two-factor/recovery-codes": USER,
+  "GET /api/auth/two-factor": USER,
+  "POST /api/auth/two-factor": USER,
+  "PUT /api/categorize/[id]": "transactions:write",
+  "POST /api/categorize/batch": "transactions:write",
+  "POST /api/categorize/llm": "transactions:write",
+  "POST /api/categorize": "transactions:write",
+  "PUT /api/chart-of-accounts/[id]": "integrations:write",
+  "GET /api/chart-of-accounts": "integrations:read",
+  "POST /api/chart-of-accounts": "integrations:write",
+  "GET /api/cron": PUBLIC,
+  "POST /api/cron": PUBLIC,
+  "GET /api/dashboard/briefing": "reports:read",
+  "GET /api/dashboard": "reports:read",
+  "GET /api/export/report": "reports:read",
+  "GET /api/finance/anomalies": "reports:read",
+  "POST /api/finance/budget/copy": "budgets:write",
+  "GET /api/finance/budget": "budgets:read",
+  "PUT /api/finance/budget": "budgets:write",
+  "DELETE /api/finance/budget": "budgets:write",
+  "GET /api/finance/cash-flow": "reports:read",
+  "POST /api/finance/cost-of-capital/payoff": "loans:read",
+  "GET /api/finance/cost-of-capital": "loans:read",
+  "GET /api/finance/debt-capacity": "loans:read",
+  "GET /api/finance/forecast": "reports:read",
+  "PUT /api/finance/loans/[id]": "loans:write",
+  "DELETE /api/finance/loans/[id]": "loans:write",
+  "POST /api/finance/loans/detect": "loans:read",
+  "GET /api/finance/loans": "loans:read",
+  "POST /api/finance/loans": "loans:write",
+  "PUT /api/finance/net-worth/manual": "net_worth:write",
+  "GET /api/finance/net-worth": "net_worth:read",
+  "POST /api/finance/net-worth/snapshot": "net_worth:write",
+  "GET /api/finance/profitability": "reports:read",
+  "GET /api/finance/recurring": "reports:read",
+  "GET /api/finance/reporting-basis": "settings:read",
+  "PUT /api/finance/reporting-basis": "settings:write",
+  "PUT /api/finance/retirement/milestones/[id]": "retirement:write",
+  "DELETE /api/finance/retirement/milestones/[id]": "retirement:write",
+  "GET /api/finance/retirement/milestones": "retirement:read",
+  "POST /api/finance/retirement/milestones": "retirement:write",
+  "GET /api/finance/retirement/profile": "retirement:read",
+  "PUT /api/finance/retirement/profile": "retirement:write",
+  "GET /api/finance/retirement/roadmap": "retirement:read",
+  "GET /api/finance/retirement": "retirement:read",
+  "DELETE /api/finance/roi/analyses/[id]": "reports:write",
+  "GET /api/finance/roi/analyses": "reports:read",
+  "POST /api/finance/roi/analyses": "reports:write",
+  "POST /api/finance/roi/calculate": "reports:read",
+  "POST /api/finance/scenario": "reports:write",
+  "POST /api/finance/snapshot/refresh": "reports:write",
+  "GET /api/finance/snapshot": "reports:read",
+  "PUT /api/finance/tax-alerts/[id]/dismiss": "reports:write",
+  "POST /api/finance/tax-alerts/generate": "reports:write",
+  "GET /api/finance/tax-alerts": "reports:read",
+  "GET /api/finance/valuation/history": "reports:read",
+  "GET /api/finance/valuation": "reports:read",
+  "POST /api/finance/valuation/snapshot": "reports:write",
+  "PUT /api/import/profiles/[id]": "integrations:write",
+  "DELETE /api/import/profiles/[id]": "integrations:write",
+  "GET /api/import/profiles": "integrations:read",
+  "POST /api/import/profiles": "integrations:write",
+  "POST /api/import": "integrations:write",
+  "GET /api/industry/config": "industry_config:read",
+  "PUT /api/industry/config": "industry_config:write",
+  "POST /api/industry/generate": "industry_config:write",
+  "POST /api/invitations/[token]/accept": PUBLIC,
+  "GET /api/invitations/[token]": PUBLIC,
+  "GET /api/jobs/[id]": MEMBER,
+  "GET /api/jobs": MEMBER,
+  "GET /api/notifications/preferences": MEMBER,
+  "PUT /api/notifications/preferences": MEMBER,
+  "GET /api/onboarding/checklist": MEMBER,
+  "PUT /api/plaid/accounts/[id]": "connections:write",
+  "GET /api/plaid/accounts": "connections:read",
+  "DELETE /api/plaid/connections/[id]": "connections:write",
+  "POST /api/plaid/exchange": "connections:write",
+  "POST /api/plaid/link-token": "connections:write",
+  "POST /api/plaid/sync": "connections:write",
+  "POST /api/portfolio/actions": USER,
+  "GET /api/portfolio": USER,
+  "POST /api/practices/[id]/invitations/[invitationId]/resend": "members:write",
+  "DELETE /api/practices/[id]/invitations/[invitationId]": "members:write",
+  "GET /api/practices/[id]/invitations": "members:read",
+  "POST /api/practices/[id]/invite": "members:write",
+  "GET /api/practices/[id]/members": "members:read",
+  "PUT /api/practices/[id]/members": "members:write",
+  "DELETE /api/practices/[id]/members": "members:write",
+  "PUT /api/practices/[id]/roles/[roleId]": "members:write",
+  "DELETE /api/practices/[id]/roles/[roleId]": "members:write",
+  "GET /api/practices/[id]/roles": "members:read",
+  "POST /api/practices/[id]/roles": "members:write",
+  "GET /api/practices/[id]/security": "members:read",
+  "PUT /api/practices/[id]/security": "members:write",
+  "GET /api/practices": USER,
+  "POST /api/practices": USER,
+  "GET /api/qbo/account-mappings": "integrations:read",
+  "PUT /api/qbo/account-mappings": "integrations:write",
+  "GET /api/qbo/accounts": "integrations:read",
+  "GET /api/qbo/callback": { checks: "connections:write" },
+  "GET /api/qbo/connect": "connections:write",
+  "GET /api/qbo/status": "connections:read",
+  "POST /api/qbo/sync": "integrations:write",
+  "GET /api/qbo/sync": "integrations:read",
+  "POST /api/qbo/webhook": PUBLIC,
+  "POST /api/qbo/write-back/execute": "qbo_write_back:write",
+  "GET /api/qbo/write-back/history": "qbo_write_back:read",
+  "GET /api/qbo/write-back/preview": "qbo_write_back:read",
+  "GET /api/referrals/history": "referrals:read",
+  "POST /api/referrals/opportunities/[id]/refer": "referrals:write",
+  "PUT /api/referrals/opportunities/[id]": "referrals:write",
+  "POST /api/referrals/opportunities/detect": "referrals:write",
+  "GET /api/referrals/opportunities": "referrals:read",
+  "GET /api/referrals/partners": "referrals:read",
+  "PUT /api/rules/[id]": "rules:write",
+  "DELETE /api/rules/[id]": "rules:write",
+  "GET /api/rules": "rules:read",
+  "POST /api/rules": "rules:write",
+  "PUT /api/rules/suggestions/[id]": "rules:write",
+  "GET /api/rules/suggestions": "rules:read",
+  "POST /api/rules/suggestions": "rules:write",
+  "POST /api/rules/test": "rules:read",
+  "PUT /api/schedules/[id]": "settings:write",
+  "POST /api/schedules/[id]/run": "settings:write",
+  "GET /api/schedules": "settings:read",
+  "PUT /api/schedules": "settings:write",
+  "GET /api/schedules/runs": "settings:read",
+  "GET /api/transactions/[id]/history": "transactions:read",
+  "POST /api/transactions/duplicates/[id]": "transactions:write",
+  "GET /api/transactions/duplicates": "transactions:read",
+  "POST /api/transactions/duplicates": "transactions:write",
+  "DELETE /api/transactions/matches/[id]": "transactions:write",
+  "GET /api/transactions/matches": "transactions:read",
+  "POST /api/transactions/matches": "transactions:write",
+  "GET /api/transactions": "transactions:read",
+};
+
+// Mutating handlers that only compute and save nothing, so read access is enough
+const READ_ONLY_MUTATIONS = new Set([
+  "POST /api/finance/cost-of-capital/payoff",
+  "POST /api/finance/loans/detect",
+  "POST /api/finance/roi/calculate",
+  "POST /api/rules/test",
+]);
+
+// Writes every built-in role holds; see MEMBER_WRITES in permissions.ts
+const MEMBER_WRITE_RESOURCES = ["connections", "net_worth", "industry_config"];
+
+const API_DIR = join(__dirname, "..", "..", "app", "api");
+const METHODS = "GET|POST|PUT|PATCH|DELETE";
+
+function routeFiles(): string[] {
+  return readdirSync(API_DIR, { recursive: true, encoding: "utf8" })
+    .filter((file) => file.endsWith(`${sep}route.ts`) || file === "route.ts")
+    .map((file) => join(API_DIR, file));
+}
+
+function routePath(file: string): string {
+  const dir = relative(join(API_DIR, ".."), file).split(sep).slice(0, -1).join("/");
+  return `/${dir}`;
+}
+
+/** Every exported handler with the guard it declares: a permission, null, or "unguarded". */
+function declaredHandlers(): Map<string, string | null> {
+  const handlers = new Map<string, string | null>();
+  for (const file of routeFiles()) {
+    const source = readFileSync(file, "utf8");
+    const path = routePath(file);
+
+    const guarded = new RegExp(
+      `export const (${METHODS}) = withPermission(?:<[^(]*?>)?\\(\\s*(?:"([^"]+)"|null)`,
+      "g"
+    );
+    for (const [, method, permission] of source.matchAll(guarded)) {
+      handlers.set(`${method} ${path}`, permission ?? null);
+    }
+
+    const unguarded = [
+      ...source.matchAll(new RegExp(`export async function (${METHODS})\\b`, "g")),
+      ...source.matchAll(new RegExp(`export const (${METHODS}) = (?!withPermission)`, "g")),
+    ];
+    for (const [, method] of unguarded) handlers.set(`${method} ${path}`, "unguarded");
+
+    for (const [, names] of source.matchAll(/export const \{([^}]*)\}/g)) {
+      for (const method of names.split(",").map((n) => n.trim())) {
+        if (new RegExp(`^(${METHODS})$`).test(method)) {
+          handlers.set(`${method} ${path}`, "unguarded");
+        }
+      }
+    }
+  }
+  return handlers;
+}
+
+function isMutation(key: string): boolean {
+  return !key.startsWith("GET ");
+}
+
+describe("API route permissions", () => {
+  const declared = declaredHandlers();
+
+  it("finds the route handlers", () => {
+    expect(declared.size).toBeGreaterThan(100);
+  });
+
+  it("lists every handler in the matrix", () => {
+    const unlisted = [...declared.keys()].filter((key) => !(key in ROUTE_PERMISSIONS));
+    expect(unlisted).toEqual([]);
+  });
+
+  it("has no matrix entries for handlers that no longer exist", () => {
+    const stale = Object.keys(ROUTE_PERMISSIONS).filter((key) => !declared.has(key));
+    expect(stale).toEqual([]);
+  });
+
+  it.each(Object.entries(ROUTE_PERMISSIONS))("%s is guarded as expected", (key, expected) => {
+    const guard = declared.get(key);
+    if (expected === MEMBER) {
+      expect(guard).toBeNull();
+    } else if (expected === USER || expected === PUBLIC) {
+      expect(guard).toBe("unguarded");
+    } else if (typeof expected === "object") {
+      expect(guard).toBe("unguarded");
+      const [method, path] = key.split(" ");
+      const source = readFileSync(join(API_DIR, "..", path, "route.ts"), "utf8");
+      expect(method).toBe("GET");
+      expect(source).toContain(`hasPermission(access.permissions, "${expected.checks}")`);
+    } else {
+      expect(guard).toBe(expected);
+    }
+  });
+
+  it("only declares permissions that exist", () => {
+    const unknown = [...declared.values()].filter(
+      (guard) => guard !== null && guard !== "unguarded" && !isPermission(guard)
+    );
+    expect(unknown).toEqual([]);
+  });
+
+  it("requires write access for handlers that change data", () => {
+    const readOnly = Object.entries(ROUTE_PERMISSIONS).filter(
+      ([key, expected]) =>
+        isMutation(key) &&
+        typeof expected === "string" &&
+        expected.endsWith(":read") &&
+        !READ_ONLY_MUTATIONS.has(key)
+    );
+    expect(readOnly).toEqual([]);
+  });
+});
+
+describe("built-in roles against the matrix", () => {
+  const guardedRoutes = Object.entries(ROUTE_PERMISSIONS).filter(
+    (entry): entry is [string, Permission] => isPermission(String(entry[1]))
+  );
+
+  function callable(role: string): string[] {
+    const granted = permissionsForRole(role);
+    return guardedRoutes.filter(([, p]) => hasPermission(granted, p)).map(([key]) => key);
+  }
+
+  it("lets owners call every route", () => {
+    expect(callable("owner")).toHaveLength(guardedRoutes.length);
+  });
+
+  it("keeps members, settings and QBO write-back changes away from managers", () => {
+    const allowed = callable("manager");
+    const denied = new Set(
+      guardedRoutes.filter(([key]) => !allowed.includes(key)).map(([, p]) => p)
+    );
+    expect(denied).toEqual(new Set(["members:write", "settings:write", "qbo_write_back:write"]));
+  });
+
+  it("limits accountants to reads plus the member-wide writes", () => {
+    const writes = callable("accountant")
+      .filter((key) => isMutation(key) && !READ_ONLY_MUTATIONS.has(key))
+      .map((key) => (ROUTE_PERMISSIONS[key] as Permission).split(":")[0]);
+    expect(writes.filter((r) => !MEMBER_WRITE_RESOURCES.includes(r))).toEqual([]);
+  });
+
+  it("keeps the member list away from accountants", () => {
+    expect(hasPermission(permissionsForRole("accountant"), "members:read")).toBe(false);
+  });
+
+  it("defines every built-in role", () => {
+    for (const role of BUILT_IN_ROLES) {
+      expect(permissionsForRole(role).length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("missingPermissions", () => {
+  it("treats write as covering read", () => {
+    expect(missingPermissions(["budgets:write"], ["budgets:read", "budgets:write"])).toEqual([]);
+  });
+
+  it("reports what the granter doesn't hold", () => {
+    expect(
+      missingPermissions(permissionsForRole("manager"), ["settings:write", "budgets:write"])
+    ).toEqual(["settings:write"]);
+  });
+});
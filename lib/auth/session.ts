@@ -10,6 +10,8 @@ export interface AppSession {
   role: string;
   email: string;
   name: string;
+  // The signed-in device's user_sessions row; null in demo mode
+  sessionId: string | null;
 }
 
 /**
@@ -31,6 +33,7 @@ export async function getSessionOrDemo(): Promise<AppSession | null> {
       role: "owner",
       email: "demo@practicepulse.dev",
       name: "Demo User",
+      sessionId: null,
     };
   }
 
@@ -43,6 +46,7 @@ export async function getSessionOrDemo(): Promise<AppSession | null> {
     role: session.user.role,
     email: session.user.email!,
     name: session.user.name!,
+    sessionId: session.user.sessionId ?? null,
   };
 }
 
@@ -0,0 +1,100 @@
+import { db } from "@/lib/db";
+import { userSessions, type UserSession } from "@/lib/db/schema";
+import { eq, and, isNull, gt, ne, desc } from "drizzle-orm";
+
+// JWT lifetime; each request inside it rolls the expiry forward
+export const SESSION_MAX_AGE_SECONDS = 15 * 60;
+
+// Only write lastSeenAt this often, not on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export async function createUserSession(
+  userId: string,
+  details: {
+    userAgent: string | null;
+    ipAddress: string | null;
+    twoFactorMethod: string | null;
+  }
+): Promise<UserSession> {
+  const [session] = await db
+    .insert(userSessions)
+    .values({ userId, ...details })
+    .returning();
+  return session;
+}
+
+/**
+ * Whether the session is still valid, updating when it was last seen.
+ * Revoked sessions and ones idle past the JWT lifetime are not.
+ */
+export async function touchUserSession(sessionId: string): Promise<boolean> {
+  const [session] = await db
+    .select({ lastSeenAt: userSessions.lastSeenAt, revokedAt: userSessions.revokedAt })
+    .from(userSessions)
+    .where(eq(userSessions.id, sessionId))
+    .limit(1);
+  if (!session || session.revokedAt) return false;
+
+  const idleMs = Date.now() - session.lastSeenAt.getTime();
+  if (idleMs > SESSION_MAX_AGE_SECONDS * 1000) return false;
+  if (idleMs > TOUCH_INTERVAL_MS) {
+    await db
+      .update(userSessions)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(userSessions.id, sessionId));
+  }
+  return true;
+}
+
+/** Sessions that are neither revoked nor idle past the JWT lifetime. */
+export async function listActiveSessions(userId: string): Promise<UserSession[]> {
+  const cutoff = new Date(Date.now() - SESSION_MAX_AGE_SECONDS * 1000);
+  return db
+    .select()
+    .from(userSessions)
+    .where(
+      and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.lastSeenAt, cutoff)
+      )
+    )
+    .orderBy(desc(userSessions.lastSeenAt));
+}
+
+export async function revokeUserSession(
+  userId: string,
+  sessionId: string
+): Promise<UserSession | null> {
+  const [session] = await db
+    .update(userSessions)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(userSessions.id, sessionId),
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt)
+      )
+    )
+    .returning();
+  return session ?? null;
+}
+
+/** Sign the user out everywhere except `keepSessionId`; returns how many ended. */
+export async function revokeOtherSessions(
+  userId: string,
+  keepSessionId: string | null
+): Promise<number> {
+  const revoked = await db
+    .update(userSessions)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        keepSessionId ? ne(userSessions.id, keepSessionId) : undefined
+      )
+    )
+    .returning({ id: userSessions.id });
+  return revoked.length;
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { currentStep, generateTotpSecret, totpUri, verifyTotp } from "./totp";
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890" (base32
+// below) with SHA-1. The RFC lists 8-digit codes; 6-digit codes are their
+// last six digits.
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+const at = (seconds: number) => vi.setSystemTime(new Date(seconds * 1000));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("verifyTotp", () => {
+  it.each(RFC_VECTORS)("matches the RFC 6238 code at T=%i", (seconds, code) => {
+    vi.useFakeTimers();
+    at(seconds);
+    expect(verifyTotp(RFC_SECRET, code)).toBe(currentStep());
+  });
+
+  it("allows one step of clock drift either way, and no more", () => {
+    vi.useFakeTimers();
+    at(1111111111);
+    const step = currentStep();
+
+    at(1111111111 + 30);
+    expect(verifyTotp(RFC_SECRET, "050471")).toBe(step);
+    at(1111111111 - 30);
+    expect(verifyTotp(RFC_SECRET, "050471")).toBe(step);
+    at(1111111111 + 60);
+    expect(verifyTotp(RFC_SECRET, "050471")).toBeNull();
+  });
+
+  it("rejects a code from a step already used", () => {
+    vi.useFakeTimers();
+    at(1234567890);
+    const step = verifyTotp(RFC_SECRET, "005924");
+    expect(step).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, "005924", step)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "005924", step! - 1)).toBe(step);
+  });
+
+  it("rejects malformed and wrong codes", () => {
+    vi.useFakeTimers();
+    at(59);
+    expect(verifyTotp(RFC_SECRET, "287 082")).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, "28708")).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "28708a")).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "287083")).toBeNull();
+  });
+});
+
+describe("generateTotpSecret", () => {
+  it("makes distinct 160-bit base32 secrets", () => {
+    const a = generateTotpSecret();
+    expect(a).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(a);
+  });
+});
+
+describe("totpUri", () => {
+  it("labels the account with the issuer", () => {
+    const uri = totpUri(RFC_SECRET, "dr@example.com", "PracticePulse");
+    expect(uri).toMatch(/^otpauth:\/\/totp\/PracticePulse%3Adr%40example\.com\?/);
+    expect(new URL(uri).searchParams.get("secret")).toBe(RFC_SECRET);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The user row loadUser reads, and what each conditional UPDATE ... RETURNING
+// gives back in order: a row when its WHERE still held, nothing when another
+// request got there first
+const state = vi.hoisted(() => ({
+  user: null as Record<string, unknown> | null,
+  updates: [] as Array<Array<Record<string, unknown>>>,
+  sets: [] as Array<Record<string, unknown>>,
+}));
+
+vi.mock("@/lib/db", () => {
+  const update = () => {
+    const chain = {
+      set(values: Record<string, unknown>) {
+        state.sets.push(values);
+        return chain;
+      },
+      where: () => chain,
+      returning: async () => state.updates.shift() ?? [],
+      then: (resolve: (v: unknown) => void) => resolve(undefined),
+    };
+    return chain;
+  };
+  const select = () => {
+    const chain = {
+      from: () => chain,
+      where: () => chain,
+      limit: async () => (state.user ? [state.user] : []),
+    };
+    return chain;
+  };
+  return { db: { select, update } };
+});
+
+vi.mock("@/lib/encryption", () => ({
+  encrypt: (v: string) => v,
+  decrypt: (v: string) => v,
+}));
+
+import { TwoFactorLockedError, verifySecondFactor } from "./two-factor";
+
+// RFC 6238 test secret; 287082 is its code at T=59s
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(59 * 1000));
+  state.user = {
+    email: "dr@example.com",
+    totpSecret: SECRET,
+    totpEnabledAt: new Date(0),
+    totpLastStep: null,
+    recoveryCodes: [],
+    twoFactorLockedUntil: null,
+  };
+  state.updates = [];
+  state.sets = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("verifySecondFactor", () => {
+  it("accepts a TOTP code when it claims the step", async () => {
+    state.updates = [[{ id: "u1" }]];
+    expect(await verifySecondFactor("u1", "287082")).toBe("totp");
+    expect(state.sets[0]).toMatchObject({ totpLastStep: 1, twoFactorFailures: 0 });
+  });
+
+  it("rejects a TOTP code whose step a concurrent sign-in already claimed", async () => {
+    // Step claim, recovery-code redeem and failure count all find nothing
+    state.updates = [[], [], [{ failures: 1 }]];
+    expect(await verifySecondFactor("u1", "287082")).toBeNull();
+  });
+
+  it("rejects a recovery code another request already redeemed", async () => {
+    state.updates = [[], [{ failures: 1 }]];
+    expect(await verifySecondFactor("u1", "abcde-12345")).toBeNull();
+  });
+
+  it("locks after too many wrong codes", async () => {
+    state.updates = [[], [{ failures: 5 }]];
+    expect(await verifySecondFactor("u1", "000000")).toBeNull();
+    const lock = state.sets.find((s) => "twoFactorLockedUntil" in s);
+    expect(lock?.twoFactorLockedUntil).toBeInstanceOf(Date);
+  });
+
+  it("refuses to check codes while locked", async () => {
+    state.user!.twoFactorLockedUntil = new Date(Date.now() + 60_000);
+    await expect(verifySecondFactor("u1", "287082")).rejects.toBeInstanceOf(TwoFactorLockedError);
+    expect(state.sets).toEqual([]);
+  });
+});
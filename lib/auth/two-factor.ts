@@ -0,0 +1,233 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "@/lib/db";
+import { users, practices, userPractices } from "@/lib/db/schema";
+import { eq, and, or, isNull, lt, sql } from "drizzle-orm";
+import { encrypt, decrypt } from "@/lib/encryption";
+import { isDemoMode } from "@/lib/qbo/demo-mode";
+import { APP_NAME } from "@/lib/config/branding";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp";
+
+const RECOVERY_CODE_COUNT = 10;
+// Wrong codes in a row before second-factor checks are locked, and for how long
+const MAX_SECOND_FACTOR_FAILURES = 5;
+const SECOND_FACTOR_LOCKOUT_MS = 15 * 60 * 1000;
+
+export type SecondFactorMethod = "totp" | "recovery";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export class TwoFactorLockedError extends Error {
+  constructor(public lockedUntil: Date) {
+    super("Too many invalid codes. Try again in a few minutes.");
+    this.name = "TwoFactorLockedError";
+  }
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+}
+
+// xxxxx-xxxxx in lowercase hex, easy to read back from paper
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+async function loadUser(userId: string) {
+  const [user] = await db
+    .select({
+      email: users.email,
+      totpSecret: users.totpSecret,
+      totpEnabledAt: users.totpEnabledAt,
+      totpLastStep: users.totpLastStep,
+      recoveryCodes: users.recoveryCodes,
+      twoFactorLockedUntil: users.twoFactorLockedUntil,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return user ?? null;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const user = await loadUser(userId);
+  return {
+    enabled: !!user?.totpEnabledAt,
+    enabledAt: user?.totpEnabledAt ?? null,
+    recoveryCodesRemaining: user?.recoveryCodes?.length ?? 0,
+  };
+}
+
+/**
+ * Store a new secret for the user to add to their authenticator app. 2FA
+ * isn't on until `enableTwoFactor` confirms a code from it. Returns null if
+ * 2FA is already enabled.
+ */
+export async function beginTwoFactorSetup(
+  userId: string
+): Promise<{ secret: string; uri: string } | null> {
+  const user = await loadUser(userId);
+  if (!user || user.totpEnabledAt) return null;
+
+  const secret = generateTotpSecret();
+  await db
+    .update(users)
+    .set({ totpSecret: encrypt(secret), updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  return { secret, uri: totpUri(secret, user.email, APP_NAME) };
+}
+
+/**
+ * Turn on 2FA once the user proves their app produces codes for the
+ * pending secret. Returns the recovery codes, shown to the user once.
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[] | null> {
+  const user = await loadUser(userId);
+  if (!user?.totpSecret || user.totpEnabledAt) return null;
+
+  const step = verifyTotp(decrypt(user.totpSecret), code);
+  if (step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await db
+    .update(users)
+    .set({
+      totpEnabledAt: new Date(),
+      totpLastStep: step,
+      recoveryCodes: hashes,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+  return codes;
+}
+
+/** Count a wrong code, locking second-factor checks once there are too many. */
+async function recordSecondFactorFailure(userId: string): Promise<void> {
+  const [row] = await db
+    .update(users)
+    .set({ twoFactorFailures: sql`${users.twoFactorFailures} + 1` })
+    .where(eq(users.id, userId))
+    .returning({ failures: users.twoFactorFailures });
+  if (row && row.failures >= MAX_SECOND_FACTOR_FAILURES) {
+    await db
+      .update(users)
+      .set({
+        twoFactorFailures: 0,
+        twoFactorLockedUntil: new Date(Date.now() + SECOND_FACTOR_LOCKOUT_MS),
+      })
+      .where(eq(users.id, userId));
+  }
+}
+
+/**
+ * Check an authenticator or recovery code at sign-in or before a sensitive
+ * change. A used TOTP step is recorded and a used recovery code removed in
+ * the same conditional update that accepts it, so concurrent requests can't
+ * both use one. After MAX_SECOND_FACTOR_FAILURES wrong codes in a row, checks
+ * throw TwoFactorLockedError until the lockout passes.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string
+): Promise<SecondFactorMethod | null> {
+  const user = await loadUser(userId);
+  if (!user?.totpSecret || !user.totpEnabledAt) return null;
+  if (user.twoFactorLockedUntil && user.twoFactorLockedUntil > new Date()) {
+    throw new TwoFactorLockedError(user.twoFactorLockedUntil);
+  }
+
+  const step = verifyTotp(decrypt(user.totpSecret), code, user.totpLastStep);
+  if (step !== null) {
+    const [claimed] = await db
+      .update(users)
+      .set({ totpLastStep: step, twoFactorFailures: 0 })
+      .where(
+        and(
+          eq(users.id, userId),
+          or(isNull(users.totpLastStep), lt(users.totpLastStep, step))
+        )
+      )
+      .returning({ id: users.id });
+    if (claimed) return "totp";
+  }
+
+  const hash = hashRecoveryCode(code);
+  const [redeemed] = await db
+    .update(users)
+    .set({ recoveryCodes: sql`${users.recoveryCodes} - ${hash}::text`, twoFactorFailures: 0 })
+    .where(
+      and(
+        eq(users.id, userId),
+        sql`${users.recoveryCodes} @> ${JSON.stringify([hash])}::jsonb`
+      )
+    )
+    .returning({ id: users.id });
+  if (redeemed) return "recovery";
+
+  await recordSecondFactorFailure(userId);
+  return null;
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await db
+    .update(users)
+    .set({ recoveryCodes: hashes, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+  return codes;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await db
+    .update(users)
+    .set({
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null,
+      recoveryCodes: null,
+      twoFactorFailures: 0,
+      twoFactorLockedUntil: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+}
+
+/** Names of the user's practices that require 2FA; they can't turn it off while any do. */
+export async function practicesRequiringTwoFactor(userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ name: practices.name })
+    .from(userPractices)
+    .innerJoin(practices, eq(userPractices.practiceId, practices.id))
+    .where(and(eq(userPractices.userId, userId), eq(practices.requireTwoFactor, true)));
+  return rows.map((r) => r.name);
+}
+
+/**
+ * True when the practice requires 2FA and the user hasn't set it up. The
+ * route guard blocks practice data until they do.
+ */
+export async function isMissingRequiredTwoFactor(
+  userId: string,
+  practiceId: string
+): Promise<boolean> {
+  if (isDemoMode()) return false;
+
+  const [row] = await db
+    .select({
+      required: practices.requireTwoFactor,
+      enabledAt: users.totpEnabledAt,
+    })
+    .from(practices)
+    .innerJoin(users, eq(users.id, userId))
+    .where(eq(practices.id, practiceId))
+    .limit(1);
+  return !!row?.required && !row.enabledAt;
+}
@@ -2,15 +2,96 @@ import { db } from "@/lib/db";
 import {
   transactions,
   categorizations,
+  categorizationSplits,
   userRules,
   type UserRule,
 } from "@/lib/db/schema";
-import { eq, isNull, and } from "drizzle-orm";
-import { categorizeTransaction } from "./rules";
+import { eq, isNull, and, sql } from "drizzle-orm";
+import { categorizeTransaction, type RuleResult } from "./rules";
+import {
+  resolveSplits,
+  SplitValidationError,
+  dominantCategory,
+  describeSplits,
+  splitRowValues,
+} from "./splits";
+import {
+  trainPracticeModel,
+  predictCategory,
+  LOW_CONFIDENCE_THRESHOLD,
+  MIN_ML_CONFIDENCE,
+} from "./ml";
 import { getConfigForPractice } from "@/lib/industries";
 
+/**
+ * Split lines a rule's split action produces for a transaction, if any. An
+ * amount too small to split into whole cents isn't split.
+ */
+function ruleSplits(amount: string, result: RuleResult) {
+  const split = result.actions?.split;
+  if (!split) return null;
+  const account = result.actions?.accountMapping;
+  try {
+    return resolveSplits(parseFloat(amount), [
+      {
+        category: result.category,
+        percentage: split.percentage,
+        accountRef: account?.qboAccountName,
+        qboAccountId: account?.qboAccountId,
+      },
+      {
+        category: split.remainderCategory,
+        percentage: 100 - split.percentage,
+      },
+    ]);
+  } catch (e) {
+    if (e instanceof SplitValidationError) return null;
+    throw e;
+  }
+}
+
+/**
+ * Store a Tier 1 result, applying any rule actions: an account mapping
+ * override and tags go on the categorization row, a split action writes
+ * split lines for the rule's category and the remainder.
+ */
+export async function insertRuleCategorization(
+  transactionId: string,
+  amount: string,
+  result: RuleResult
+): Promise<void> {
+  const actions = result.actions;
+  const account = actions?.accountMapping;
+
+  await db.transaction(async (tx) => {
+    const splits = ruleSplits(amount, result);
+
+    const [cat] = await tx
+      .insert(categorizations)
+      .values({
+        transactionId,
+        category: splits ? dominantCategory(splits) : result.category,
+        confidence: result.confidence,
+        source: "rule",
+        ruleId: result.ruleId,
+        reasoning: splits
+          ? `${result.reasoning}; ${describeSplits(splits)}`
+          : result.reasoning,
+        qboAccountId: account?.qboAccountId ?? null,
+        qboAccountName: account?.qboAccountName ?? null,
+        tags: actions?.tags ?? [],
+      })
+      .returning({ id: categorizations.id });
+
+    if (splits) {
+      await tx.insert(categorizationSplits).values(splitRowValues(cat.id, splits));
+    }
+  });
+}
+
 interface CategorizationResult {
   categorized: number;
+  mlCategorized: number;
   skipped: number;
   uncategorized: number;
 }
@@ -18,6 +99,8 @@ interface CategorizationResult {
 /**
  * Run Tier 1 rule engine on all uncategorized transactions for a practice.
  * Loads the practice's industry config and passes it to the categorization rules.
+ * Anything Tier 1 leaves unmatched or low-confidence goes to the Tier 2 model
+ * trained on the practice's own user decisions, when there are enough of them.
  */
 export async function categorizeUncategorized(
   practiceId: string
@@ -32,6 +115,8 @@ export async function categorizeUncategorized(
     .where(eq(userRules.practiceId, practiceId))
     .orderBy(userRules.priority);
 
+  const model = await trainPracticeModel(practiceId);
+
   // Get transactions that don't have a categorization yet
   const uncategorizedTxns = await db
     .select({
@@ -40,6 +125,7 @@ export async function categorizeUncategorized(
       description: transactions.description,
       amount: transactions.amount,
       accountRef: transactions.accountRef,
+      date: transactions.date,
     })
     .from(transactions)
     .leftJoin(
@@ -54,30 +140,43 @@ export async function categorizeUncategorized(
     );
 
   let categorized = 0;
+  let mlCategorized = 0;
   const skipped = 0;
   let uncategorizedCount = 0;
 
   for (const txn of uncategorizedTxns) {
-    const result = categorizeTransaction(
-      {
-        vendorName: txn.vendorName,
-        description: txn.description,
-        amount: txn.amount,
-        accountRef: txn.accountRef,
-      },
-      rules as UserRule[],
-      config
-    );
+    const input = {
+      vendorName: txn.vendorName,
+      description: txn.description,
+      amount: txn.amount,
+      accountRef: txn.accountRef,
+      date: txn.date,
+    };
+    const result = categorizeTransaction(input, rules as UserRule[], config);
+
+    // Tier 2: let the model overrule a weak or missing Tier 1 answer
+    if (model && (!result || result.confidence < LOW_CONFIDENCE_THRESHOLD)) {
+      const prediction = predictCategory(model, input);
+      if (
+        prediction &&
+        prediction.confidence >= MIN_ML_CONFIDENCE &&
+        prediction.confidence > (result?.confidence ?? 0)
+      ) {
+        await db.insert(categorizations).values({
+          transactionId: txn.id,
+          category: prediction.category,
+          confidence: prediction.confidence,
+          source: "ml",
+          reasoning: prediction.reasoning,
+        });
+        categorized++;
+        mlCategorized++;
+        continue;
+      }
+    }
 
     if (result) {
-      await db.insert(categorizations).values({
-        transactionId: txn.id,
-        category: result.category,
-        confidence: result.confidence,
-        source: "rule",
-        ruleId: result.ruleId,
-        reasoning: result.reasoning,
-      });
+      await insertRuleCategorization(txn.id, txn.amount, result);
       categorized++;
     } else {
       uncategorizedCount++;
@@ -86,7 +185,140 @@ export async function categorizeUncategorized(
 
   return {
     categorized,
+    mlCategorized,
     skipped,
     uncategorized: uncategorizedCount,
   };
 }
+
+type Category = "business" | "personal" | "ambiguous";
+
+interface RecategorizationChange {
+  transactionId: string;
+  vendorName: string | null;
+  amount: string;
+  from: Category;
+  to: Category;
+  reasoning: string;
+}
+
+export interface RecategorizationResult {
+  evaluated: number;
+  changed: number;
+  unchanged: number;
+  // Previously matched by a rule, now matched by none — left as is
+  unmatched: number;
+  // e.g. { "business→personal": 4 }
+  transitions: Record<string, number>;
+  changes: RecategorizationChange[];
+  dryRun: boolean;
+}
+
+/** Changes listed individually in the summary; the rest only count */
+const MAX_LISTED_CHANGES = 200;
+
+/**
+ * Re-run Tier 1 over every transaction whose latest categorization came from
+ * a rule, e.g. after rules or the industry config changed. User, ML and LLM
+ * decisions are never touched. A new row is appended only where the category,
+ * confidence or matching rule changed; with dryRun nothing is written.
+ */
+export async function recategorizeRuleSourced(
+  practiceId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<RecategorizationResult> {
+  const config = await getConfigForPractice(practiceId);
+
+  const rules = await db
+    .select()
+    .from(userRules)
+    .where(eq(userRules.practiceId, practiceId))
+    .orderBy(userRules.priority);
+
+  const latestCatId = sql`(
+    SELECT c.id FROM categorizations c
+    WHERE c.transaction_id = transactions.id
+    ORDER BY c.created_at DESC LIMIT 1
+  )`;
+
+  const ruleSourced = await db
+    .select({
+      id: transactions.id,
+      vendorName: transactions.vendorName,
+      description: transactions.description,
+      amount: transactions.amount,
+      accountRef: transactions.accountRef,
+      date: transactions.date,
+      category: categorizations.category,
+      confidence: categorizations.confidence,
+      ruleId: categorizations.ruleId,
+    })
+    .from(transactions)
+    .innerJoin(
+      categorizations,
+      and(
+        eq(transactions.id, categorizations.transactionId),
+        eq(categorizations.id, latestCatId)
+      )
+    )
+    .where(
+      and(
+        eq(transactions.practiceId, practiceId),
+        eq(categorizations.source, "rule")
+      )
+    );
+
+  const result: RecategorizationResult = {
+    evaluated: ruleSourced.length,
+    changed: 0,
+    unchanged: 0,
+    unmatched: 0,
+    transitions: {},
+    changes: [],
+    dryRun: !!options.dryRun,
+  };
+
+  for (const txn of ruleSourced) {
+    const outcome = categorizeTransaction(txn, rules as UserRule[], config);
+
+    if (!outcome) {
+      result.unmatched++;
+      continue;
+    }
+
+    // Split rules store the dominant line's category as the headline
+    const splits = ruleSplits(txn.amount, outcome);
+    const category = splits ? dominantCategory(splits) : outcome.category;
+
+    if (
+      category === txn.category &&
+      outcome.confidence === txn.confidence &&
+      outcome.ruleId === txn.ruleId
+    ) {
+      result.unchanged++;
+      continue;
+    }
+
+    if (!options.dryRun) {
+      await insertRuleCategorization(txn.id, txn.amount, outcome);
+    }
+
+    result.changed++;
+    if (category !== txn.category) {
+      const key = `${txn.category}→${category}`;
+      result.transitions[key] = (result.transitions[key] || 0) + 1;
+    }
+    if (result.changes.length < MAX_LISTED_CHANGES) {
+      result.changes.push({
+        transactionId: txn.id,
+        vendorName: txn.vendorName,
+        amount: txn.amount,
+        from: txn.category,
+        to: category,
+        reasoning: outcome.reasoning,
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { dentalConfig } from "@/lib/industries/dental";
+import { createStubProvider, type LlmCandidate, type LlmExample } from "./llm";
+
+function candidate(id: string, vendorName: string | null): LlmCandidate {
+  return {
+    id,
+    date: new Date("2026-03-10"),
+    amount: "-45.00",
+    vendorName,
+    description: null,
+    accountRef: null,
+  };
+}
+
+function example(vendorName: string, category: LlmExample["category"]): LlmExample {
+  return { vendorName, description: null, amount: "-20.00", accountRef: null, category };
+}
+
+const categorize = (batch: LlmCandidate[], examples: LlmExample[] = []) =>
+  createStubProvider().categorize(batch, { config: dentalConfig, examples });
+
+describe("createStubProvider", () => {
+  it("answers once per transaction, in order", async () => {
+    const decisions = await categorize([candidate("a", "Netflix"), candidate("b", null)]);
+    expect(decisions.map((d) => d.transactionId)).toEqual(["a", "b"]);
+  });
+
+  it("follows the owner's earlier decision for the same vendor first", async () => {
+    const [decision] = await categorize(
+      [candidate("a", " henry schein ")],
+      [example("Henry Schein", "personal"), example("Henry Schein", "business")]
+    );
+    // The most recent example wins, and it outranks the industry vendor list
+    expect(decision).toMatchObject({ category: "personal", confidence: 80 });
+  });
+
+  it("falls back to the industry vendor lists", async () => {
+    const decisions = await categorize([
+      candidate("a", "HENRY SCHEIN INC"),
+      candidate("b", "Netflix.com"),
+    ]);
+    expect(decisions.map((d) => [d.category, d.confidence])).toEqual([
+      ["business", 75],
+      ["personal", 75],
+    ]);
+  });
+
+  it("answers ambiguous without a signal", async () => {
+    const decisions = await categorize([candidate("a", "Corner Store"), candidate("b", null)]);
+    expect(decisions.map((d) => [d.category, d.confidence])).toEqual([
+      ["ambiguous", 50],
+      ["ambiguous", 50],
+    ]);
+  });
+});
@@ -0,0 +1,357 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { transactions, categorizations } from "@/lib/db/schema";
+import { eq, and, or, isNull, lt, ne, desc, sql } from "drizzle-orm";
+import { getConfigForPractice } from "@/lib/industries";
+import type { IndustryConfig } from "@/lib/industries/types";
+
+type Category = "business" | "personal" | "ambiguous";
+
+const DEFAULT_MODEL = "claude-sonnet-4-20250514";
+
+/** Transactions per provider call */
+const BATCH_SIZE = 25;
+
+/** Recent user decisions sent along as few-shot context */
+const CONTEXT_EXAMPLES = 40;
+
+/** Latest categorizations below this confidence are sent to the LLM */
+const LOW_CONFIDENCE_THRESHOLD = 70;
+
+/** LLM answers are suggestions — never as certain as a rule or a user */
+const MAX_LLM_CONFIDENCE = 90;
+
+export interface LlmCandidate {
+  id: string;
+  date: Date;
+  amount: string;
+  vendorName: string | null;
+  description: string | null;
+  accountRef: string | null;
+}
+
+export interface LlmExample {
+  vendorName: string | null;
+  description: string | null;
+  amount: string;
+  accountRef: string | null;
+  category: Category;
+}
+
+export interface LlmContext {
+  config: IndustryConfig;
+  examples: LlmExample[];
+}
+
+export interface LlmDecision {
+  transactionId: string;
+  category: Category;
+  confidence: number;
+  reasoning: string;
+}
+
+/**
+ * A Tier 3 backend. Providers receive a batch of transactions plus practice
+ * context and return one decision per transaction they could classify.
+ */
+export interface LlmProvider {
+  name: string;
+  categorize(batch: LlmCandidate[], context: LlmContext): Promise<LlmDecision[]>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmProviderError";
+  }
+}
+
+const decisionsSchema = z.object({
+  decisions: z.array(
+    z.object({
+      transactionId: z.string(),
+      category: z.enum(["business", "personal", "ambiguous"]),
+      confidence: z.number().min(0).max(100),
+      reasoning: z.string().min(1),
+    })
+  ),
+});
+
+const RECORD_TOOL: Anthropic.Tool = {
+  name: "record_categorizations",
+  description: "Record a business/personal/ambiguous decision for each transaction.",
+  input_schema: {
+    type: "object",
+    properties: {
+      decisions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            transactionId: { type: "string" },
+            category: { type: "string", enum: ["business", "personal", "ambiguous"] },
+            confidence: { type: "number", description: "0-100" },
+            reasoning: { type: "string", description: "One sentence explaining the decision" },
+          },
+          required: ["transactionId", "category", "confidence", "reasoning"],
+        },
+      },
+    },
+    required: ["decisions"],
+  },
+};
+
+const SYSTEM_PROMPT = `You are a bookkeeper for a small professional practice. Classify each bank or accounting transaction as "business" (a deductible practice expense or practice income), "personal" (the owner's personal spending), or "ambiguous" (cannot tell without asking the owner). Prefer "ambiguous" over guessing. Follow the practice's own past decisions when a transaction resembles them. Always answer by calling the record_categorizations tool.`;
+
+function formatTxn(t: { vendorName: string | null; description: string | null; amount: string; accountRef: string | null }) {
+  return `vendor=${JSON.stringify(t.vendorName ?? "")} description=${JSON.stringify(t.description ?? "")} amount=${t.amount} account=${JSON.stringify(t.accountRef ?? "")}`;
+}
+
+function buildUserPrompt(batch: LlmCandidate[], context: LlmContext): string {
+  const { config, examples } = context;
+  const lines = [
+    `Industry: ${config.name}`,
+    `Known business vendors: ${config.vendors.business.join(", ")}`,
+    `Known personal vendors: ${config.vendors.personal.join(", ")}`,
+    `Vendors that can go either way: ${config.vendors.ambiguous.join(", ")}`,
+    `Business accounts: ${config.accountMappings.business.join(", ")}`,
+    `Personal accounts: ${config.accountMappings.personal.join(", ")}`,
+    "",
+    "Amounts are signed: negative = money out, positive = money in.",
+  ];
+
+  if (examples.length > 0) {
+    lines.push("", "Recent decisions made by the practice owner:");
+    for (const ex of examples) {
+      lines.push(`- ${formatTxn(ex)} => ${ex.category}`);
+    }
+  }
+
+  lines.push("", "Classify these transactions:");
+  for (const t of batch) {
+    lines.push(`- id=${t.id} date=${t.date.toISOString().slice(0, 10)} ${formatTxn(t)}`);
+  }
+
+  return lines.join("\n");
+}
+
+export function createAnthropicProvider(
+  apiKey: string,
+  model: string = DEFAULT_MODEL
+): LlmProvider {
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: "anthropic",
+    async categorize(batch, context) {
+      const message = await client.messages.create({
+        model,
+        max_tokens: 4096,
+        system: SYSTEM_PROMPT,
+        tools: [RECORD_TOOL],
+        tool_choice: { type: "tool", name: RECORD_TOOL.name },
+        messages: [{ role: "user", content: buildUserPrompt(batch, context) }],
+      });
+
+      const toolUse = message.content.find((b) => b.type === "tool_use");
+      if (!toolUse || toolUse.type !== "tool_use") {
+        throw new LlmProviderError("Model did not return categorizations");
+      }
+
+      const parsed = decisionsSchema.safeParse(toolUse.input);
+      if (!parsed.success) {
+        throw new LlmProviderError("Model returned malformed categorizations");
+      }
+      return parsed.data.decisions;
+    },
+  };
+}
+
+/**
+ * Deterministic offline provider for tests and local development. Reuses
+ * the practice's own past decisions by exact vendor, then the industry
+ * vendor lists, and otherwise answers "ambiguous".
+ */
+export function createStubProvider(): LlmProvider {
+  return {
+    name: "stub",
+    async categorize(batch, { config, examples }) {
+      const byVendor = new Map<string, Category>();
+      for (const ex of examples) {
+        const key = ex.vendorName?.trim().toLowerCase();
+        if (key && !byVendor.has(key)) byVendor.set(key, ex.category);
+      }
+
+      const listMatch = (vendor: string, list: string[]) =>
+        list.some((v) => vendor.includes(v.toLowerCase()));
+
+      return batch.map((t) => {
+        const vendor = t.vendorName?.trim().toLowerCase() ?? "";
+        const previous = byVendor.get(vendor);
+        if (previous) {
+          return {
+            transactionId: t.id,
+            category: previous,
+            confidence: 80,
+            reasoning: `Stub: owner previously marked "${t.vendorName}" as ${previous}`,
+          };
+        }
+        if (vendor && listMatch(vendor, config.vendors.business)) {
+          return { transactionId: t.id, category: "business" as const, confidence: 75, reasoning: "Stub: listed business vendor" };
+        }
+        if (vendor && listMatch(vendor, config.vendors.personal)) {
+          return { transactionId: t.id, category: "personal" as const, confidence: 75, reasoning: "Stub: listed personal vendor" };
+        }
+        return { transactionId: t.id, category: "ambiguous" as const, confidence: 50, reasoning: "Stub: no signal" };
+      });
+    },
+  };
+}
+
+/**
+ * Resolve the configured provider from CATEGORIZATION_LLM_PROVIDER.
+ * Returns null when Tier 3 is disabled or not fully configured.
+ */
+export function getLlmProvider(): LlmProvider | null {
+  const kind = process.env.CATEGORIZATION_LLM_PROVIDER;
+  if (kind === "stub") return createStubProvider();
+  if (kind === "anthropic" && process.env.ANTHROPIC_API_KEY) {
+    return createAnthropicProvider(
+      process.env.ANTHROPIC_API_KEY,
+      process.env.CATEGORIZATION_LLM_MODEL || DEFAULT_MODEL
+    );
+  }
+  return null;
+}
+
+interface LlmCategorizationResult {
+  provider: string;
+  candidates: number;
+  categorized: number;
+  failedBatches: number;
+}
+
+/**
+ * Tier 3: send uncategorized, ambiguous and low-confidence transactions to
+ * the LLM provider in batches. User decisions are never overridden, and a
+ * transaction already answered by the LLM is not sent again.
+ */
+export async function categorizeWithLlm(
+  practiceId: string,
+  provider: LlmProvider,
+  limit = 200
+): Promise<LlmCategorizationResult> {
+  const config = await getConfigForPractice(practiceId);
+
+  const latestCatId = sql`(
+    SELECT c.id FROM categorizations c
+    WHERE c.transaction_id = transactions.id
+    ORDER BY c.created_at DESC LIMIT 1
+  )`;
+
+  const candidates = await db
+    .select({
+      id: transactions.id,
+      date: transactions.date,
+      amount: transactions.amount,
+      vendorName: transactions.vendorName,
+      description: transactions.description,
+      accountRef: transactions.accountRef,
+      currentConfidence: categorizations.confidence,
+    })
+    .from(transactions)
+    .leftJoin(
+      categorizations,
+      and(
+        eq(transactions.id, categorizations.transactionId),
+        eq(categorizations.id, latestCatId)
+      )
+    )
+    .where(
+      and(
+        eq(transactions.practiceId, practiceId),
+        or(
+          isNull(categorizations.id),
+          and(
+            ne(categorizations.source, "user"),
+            ne(categorizations.source, "llm"),
+            or(
+              eq(categorizations.category, "ambiguous"),
+              lt(categorizations.confidence, LOW_CONFIDENCE_THRESHOLD)
+            )
+          )
+        )
+      )
+    )
+    .orderBy(desc(transactions.date))
+    .limit(limit);
+
+  const exampleRows = await db
+    .select({
+      vendorName: transactions.vendorName,
+      description: transactions.description,
+      amount: transactions.amount,
+      accountRef: transactions.accountRef,
+      category: categorizations.category,
+    })
+    .from(categorizations)
+    .innerJoin(transactions, eq(categorizations.transactionId, transactions.id))
+    .where(
+      and(
+        eq(transactions.practiceId, practiceId),
+        eq(categorizations.source, "user")
+      )
+    )
+    .orderBy(desc(categorizations.createdAt))
+    .limit(CONTEXT_EXAMPLES);
+
+  const context: LlmContext = { config, examples: exampleRows };
+
+  let categorized = 0;
+  let failedBatches = 0;
+
+  for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+    const batch = candidates.slice(i, i + BATCH_SIZE);
+    const current = new Map(batch.map((t) => [t.id, t.currentConfidence]));
+
+    let decisions: LlmDecision[];
+    try {
+      decisions = await provider.categorize(batch, context);
+    } catch (error) {
+      console.error(`LLM categorization batch failed (${provider.name}):`, error);
+      failedBatches++;
+      continue;
+    }
+
+    // Keep one answer per transaction in this batch, and only where it is
+    // more confident than whatever Tier 1/2 already said
+    const seen = new Set<string>();
+    const rows = decisions
+      .filter((d) => {
+        if (!current.has(d.transactionId) || seen.has(d.transactionId)) return false;
+        seen.add(d.transactionId);
+        const existing = current.get(d.transactionId);
+        return existing === null || existing === undefined || d.confidence > existing;
+      })
+      .map((d) => ({
+        transactionId: d.transactionId,
+        category: d.category,
+        confidence: Math.min(Math.round(d.confidence), MAX_LLM_CONFIDENCE),
+        source: "llm" as const,
+        reasoning: `LLM (${provider.name}): ${d.reasoning}`,
+      }));
+
+    if (rows.length > 0) {
+      await db.insert(categorizations).values(rows);
+      categorized += rows.length;
+    }
+  }
+
+  return {
+    provider: provider.name,
+    candidates: candidates.length,
+    categorized,
+    failedBatches,
+  };
+}
@@ -0,0 +1,343 @@
+import { db } from "@/lib/db";
+import { transactions, categorizations } from "@/lib/db/schema";
+import { eq, and, desc } from "drizzle-orm";
+
+type Category = "business" | "personal" | "ambiguous";
+
+const CATEGORIES: Category[] = ["business", "personal", "ambiguous"];
+
+/** Below this many user decisions the model is too noisy to trust */
+export const MIN_TRAINING_EXAMPLES = 20;
+
+/** Tier 1 results under this confidence are re-checked by the model */
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+/** Model predictions under this confidence are discarded */
+export const MIN_ML_CONFIDENCE = 60;
+
+/** The model never claims the certainty of an explicit rule or user decision */
+const MAX_ML_CONFIDENCE = 95;
+
+const CALIBRATION_FOLDS = 5;
+const TEMPERATURES = [1, 1.5, 2, 3, 4, 6, 8];
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "inc", "llc", "co", "corp", "ltd", "of", "to",
+  "pos", "debit", "purchase", "payment", "card", "ach", "www", "com",
+]);
+
+interface TransactionInput {
+  vendorName: string | null;
+  description: string | null;
+  amount: string;
+  accountRef: string | null;
+}
+
+export interface TrainingExample extends TransactionInput {
+  category: Category;
+}
+
+export interface MlResult {
+  category: Category;
+  confidence: number;
+  reasoning: string;
+}
+
+interface ClassStats {
+  docs: number;
+  tokens: number;
+  counts: Map<string, number>;
+}
+
+export interface CategoryModel {
+  classes: Map<Category, ClassStats>;
+  vocabulary: Set<string>;
+  totalDocs: number;
+  temperature: number;
+}
+
+function tokenize(text: string | null): string[] {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t) && !/^\d+$/.test(t));
+}
+
+/** Log-scale buckets so $48 and $52 land together but $50 and $5,000 don't */
+function amountBucket(amount: string): string {
+  const value = parseFloat(amount);
+  const abs = Math.abs(value);
+  const direction = value < 0 ? "out" : "in";
+  const band =
+    abs < 50 ? "<$50"
+    : abs < 200 ? "$50–$200"
+    : abs < 1000 ? "$200–$1k"
+    : abs < 5000 ? "$1k–$5k"
+    : "$5k+";
+  return `amt:${direction}:${band}`;
+}
+
+/**
+ * Extract sparse features: vendor tokens, description unigrams and bigrams,
+ * an amount bucket and the account ref. Each feature is prefixed by its
+ * kind so "supplies" in a vendor name and in a description stay distinct.
+ */
+export function extractFeatures(txn: TransactionInput): string[] {
+  const features = new Set<string>();
+
+  for (const token of tokenize(txn.vendorName)) {
+    features.add(`v:${token}`);
+  }
+
+  const descTokens = tokenize(txn.description);
+  for (let i = 0; i < descTokens.length; i++) {
+    features.add(`d:${descTokens[i]}`);
+    if (i > 0) features.add(`d:${descTokens[i - 1]} ${descTokens[i]}`);
+  }
+
+  features.add(amountBucket(txn.amount));
+
+  if (txn.accountRef) {
+    features.add(`a:${txn.accountRef.trim().toLowerCase()}`);
+  }
+
+  return Array.from(features);
+}
+
+function describeFeature(feature: string): string {
+  const [kind, ...rest] = feature.split(":");
+  const value = rest.join(":");
+  switch (kind) {
+    case "v":
+      return `vendor "${value}"`;
+    case "d":
+      return `description "${value}"`;
+    case "a":
+      return `account "${value}"`;
+    case "amt": {
+      const [direction, band] = value.split(":");
+      return `amount ${band} ${direction === "out" ? "outflow" : "inflow"}`;
+    }
+    default:
+      return feature;
+  }
+}
+
+function fitCounts(examples: { features: string[]; category: Category }[]) {
+  const classes = new Map<Category, ClassStats>();
+  const vocabulary = new Set<string>();
+
+  for (const ex of examples) {
+    let stats = classes.get(ex.category);
+    if (!stats) {
+      stats = { docs: 0, tokens: 0, counts: new Map() };
+      classes.set(ex.category, stats);
+    }
+    stats.docs++;
+    for (const f of ex.features) {
+      stats.counts.set(f, (stats.counts.get(f) || 0) + 1);
+      stats.tokens++;
+      vocabulary.add(f);
+    }
+  }
+
+  return { classes, vocabulary, totalDocs: examples.length };
+}
+
+/** Laplace-smoothed log P(feature | class) */
+function featureLogLikelihood(
+  stats: ClassStats,
+  vocabSize: number,
+  feature: string
+): number {
+  return Math.log(
+    ((stats.counts.get(feature) || 0) + 1) / (stats.tokens + vocabSize)
+  );
+}
+
+function logScores(
+  model: Omit<CategoryModel, "temperature">,
+  features: string[]
+): Map<Category, number> {
+  const scores = new Map<Category, number>();
+  const vocabSize = model.vocabulary.size;
+
+  for (const [category, stats] of Array.from(model.classes.entries())) {
+    let score = Math.log(stats.docs / model.totalDocs);
+    for (const f of features) {
+      // Unseen features carry no signal and only add noise
+      if (!model.vocabulary.has(f)) continue;
+      score += featureLogLikelihood(stats, vocabSize, f);
+    }
+    scores.set(category, score);
+  }
+
+  return scores;
+}
+
+function softmax(
+  scores: Map<Category, number>,
+  temperature: number
+): Map<Category, number> {
+  const values = Array.from(scores.values());
+  const max = Math.max(...values);
+  let total = 0;
+  const exp = new Map<Category, number>();
+  for (const [category, score] of Array.from(scores.entries())) {
+    const e = Math.exp((score - max) / temperature);
+    exp.set(category, e);
+    total += e;
+  }
+  for (const [category, e] of Array.from(exp.entries())) {
+    exp.set(category, e / total);
+  }
+  return exp;
+}
+
+/**
+ * Naive Bayes is notoriously overconfident because it treats correlated
+ * features as independent. Pick a softmax temperature by k-fold
+ * cross-validation so that predicted probabilities match observed accuracy.
+ */
+function calibrateTemperature(
+  examples: { features: string[]; category: Category }[]
+): number {
+  if (examples.length < CALIBRATION_FOLDS * 2) return TEMPERATURES[0];
+
+  const heldOut: { scores: Map<Category, number>; category: Category }[] = [];
+  for (let fold = 0; fold < CALIBRATION_FOLDS; fold++) {
+    const train = examples.filter((_, i) => i % CALIBRATION_FOLDS !== fold);
+    const test = examples.filter((_, i) => i % CALIBRATION_FOLDS === fold);
+    const foldModel = fitCounts(train);
+    for (const ex of test) {
+      if (!foldModel.classes.has(ex.category)) continue;
+      heldOut.push({
+        scores: logScores(foldModel, ex.features),
+        category: ex.category,
+      });
+    }
+  }
+  if (heldOut.length === 0) return TEMPERATURES[0];
+
+  let best = TEMPERATURES[0];
+  let bestLoss = Infinity;
+  for (const t of TEMPERATURES) {
+    let loss = 0;
+    for (const { scores, category } of heldOut) {
+      const p = softmax(scores, t).get(category) || 0;
+      loss -= Math.log(Math.max(p, 1e-9));
+    }
+    if (loss < bestLoss) {
+      bestLoss = loss;
+      best = t;
+    }
+  }
+  return best;
+}
+
+/**
+ * Fit a multinomial naive Bayes model on labelled examples.
+ * Returns null when there isn't enough data or only one class is present.
+ */
+export function trainModel(examples: TrainingExample[]): CategoryModel | null {
+  if (examples.length < MIN_TRAINING_EXAMPLES) return null;
+
+  const featurized = examples.map((ex) => ({
+    features: extractFeatures(ex),
+    category: ex.category,
+  }));
+
+  const fitted = fitCounts(featurized);
+  if (fitted.classes.size < 2) return null;
+
+  return { ...fitted, temperature: calibrateTemperature(featurized) };
+}
+
+/**
+ * Predict a category with a calibrated confidence (0-100) and a reasoning
+ * string naming the features that most favoured the winning class.
+ */
+export function predictCategory(
+  model: CategoryModel,
+  txn: TransactionInput
+): MlResult | null {
+  const features = extractFeatures(txn).filter((f) => model.vocabulary.has(f));
+  // An amount bucket alone is too generic to categorize on
+  if (!features.some((f) => !f.startsWith("amt:"))) return null;
+
+  const probs = softmax(logScores(model, features), model.temperature);
+  const ranked = Array.from(probs.entries()).sort((a, b) => b[1] - a[1]);
+  const [category, probability] = ranked[0];
+
+  const winner = model.classes.get(category)!;
+  const vocabSize = model.vocabulary.size;
+  const others = CATEGORIES.filter(
+    (c) => c !== category && model.classes.has(c)
+  ).map((c) => model.classes.get(c)!);
+
+  // Contribution = how much more likely the feature is under the winner
+  // than under the average competing class
+  const contributions = features
+    .map((f) => {
+      const own = featureLogLikelihood(winner, vocabSize, f);
+      const rest =
+        others.reduce((sum, s) => sum + featureLogLikelihood(s, vocabSize, f), 0) /
+        Math.max(others.length, 1);
+      return { feature: f, weight: own - rest };
+    })
+    .filter((c) => c.weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 3);
+
+  const confidence = Math.min(Math.round(probability * 100), MAX_ML_CONFIDENCE);
+  const evidence =
+    contributions.length > 0
+      ? contributions.map((c) => describeFeature(c.feature)).join(", ")
+      : "class prior";
+
+  return {
+    category,
+    confidence,
+    reasoning: `ML model (${model.totalDocs} user decisions): ${category} ${confidence}% — top features: ${evidence}`,
+  };
+}
+
+/**
+ * Train a model for a practice from its user categorizations. Only the
+ * latest user decision per transaction is used so corrected mistakes
+ * don't keep teaching the model.
+ */
+export async function trainPracticeModel(
+  practiceId: string
+): Promise<CategoryModel | null> {
+  const rows = await db
+    .select({
+      transactionId: categorizations.transactionId,
+      category: categorizations.category,
+      vendorName: transactions.vendorName,
+      description: transactions.description,
+      amount: transactions.amount,
+      accountRef: transactions.accountRef,
+    })
+    .from(categorizations)
+    .innerJoin(transactions, eq(categorizations.transactionId, transactions.id))
+    .where(
+      and(
+        eq(transactions.practiceId, practiceId),
+        eq(categorizations.source, "user")
+      )
+    )
+    .orderBy(desc(categorizations.createdAt));
+
+  const seen = new Set<string>();
+  const examples: TrainingExample[] = [];
+  for (const row of rows) {
+    if (seen.has(row.transactionId)) continue;
+    seen.add(row.transactionId);
+    examples.push(row);
+  }
+
+  return trainModel(examples);
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateConditions,
+  ruleConditionGroupSchema,
+  unsafePatternReason,
+} from "./rule-conditions";
+
+const regexRule = (pattern: string) => ({
+  combinator: "and" as const,
+  conditions: [{ type: "description_regex" as const, pattern }],
+});
+
+describe("unsafePatternReason", () => {
+  it.each([
+    "amazon|amzn",
+    "^amzn.*mktp",
+    "zelle.*(rent|lease)",
+    "check\\s+#?\\d+",
+    "^dr\\.? smith",
+    "(amazon\\.com)?",
+    "^(?:costco)+",
+    "(ab){2}",
+    "(a+)?",
+    "[(+)]+",
+    "\\(a+\\)+",
+    "a.*b.*c",
+    "\\bpayroll\\b",
+  ])("accepts %s", (pattern) => {
+    expect(unsafePatternReason(pattern)).toBeNull();
+  });
+
+  it.each([
+    // Exponential: repetition inside a repeated group
+    "(a+)+",
+    "(a|ab)*",
+    "(\\w+\\s?)*",
+    "((ab)*c)+",
+    "(?:x+)+$",
+    "(a*){2,}",
+    // Polynomial: back-to-back repeats over the same text
+    ".*.*.*.*.*.*x",
+    "\\d+\\d+\\d+\\d+$",
+    ".*.*",
+    "\\d+\\d*",
+    "[^x]+a*.*",
+    ".+\\b.+",
+    // Polynomial: too many repeats separated by common text
+    "a.*a.*a.*x",
+    "\\w+a\\w+a\\w+x",
+  ])("rejects %s", (pattern) => {
+    expect(unsafePatternReason(pattern)).not.toBeNull();
+  });
+});
+
+describe("description_regex", () => {
+  it("rejects unsafe patterns with the reason", () => {
+    const parsed = ruleConditionGroupSchema.safeParse(regexRule(".*.*.*.*.*.*x"));
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].message).toMatch(/Back-to-back repeats/);
+  });
+
+  it("rejects invalid patterns", () => {
+    const parsed = ruleConditionGroupSchema.safeParse(regexRule("(unclosed"));
+    expect(parsed.error?.issues[0].message).toBe("Invalid regular expression");
+  });
+
+  it("never matches an unsafe pattern saved before validation", () => {
+    const started = Date.now();
+    const matched = evaluateConditions(regexRule(".*.*.*.*.*.*x"), {
+      vendorName: null,
+      description: "a".repeat(60),
+      amount: "-10.00",
+      accountRef: null,
+    });
+    expect(matched).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it("matches case-insensitively", () => {
+    const txn = {
+      vendorName: null,
+      description: "AMZN Mktp US*2K4",
+      amount: "-10.00",
+      accountRef: null,
+    };
+    expect(evaluateConditions(regexRule("^amzn.*mktp"), txn)).toBe(true);
+  });
+});
+
+describe("amount_between", () => {
+  it("requires min <= max", () => {
+    const rule = (min: number, max: number) => ({
+      combinator: "and" as const,
+      conditions: [{ type: "amount_between" as const, min, max }],
+    });
+    expect(ruleConditionGroupSchema.safeParse(rule(5, 1)).success).toBe(false);
+    expect(ruleConditionGroupSchema.safeParse(rule(1, 5)).success).toBe(true);
+    expect(ruleConditionGroupSchema.safeParse(rule(5, 5)).success).toBe(true);
+  });
+});
@@ -0,0 +1,301 @@
+import { z } from "zod";
+import type {
+  RuleCondition,
+  RuleConditionGroup,
+  RuleActions,
+} from "@/lib/db/schema";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const MAX_PATTERN_LENGTH = 200;
+const MAX_CACHED_PATTERNS = 500;
+const MAX_UNBOUNDED_QUANTIFIERS = 2;
+// Only the start of a description is matched, which bounds how long even
+// an allowed pattern can backtrack
+const MAX_TESTED_LENGTH = 200;
+
+export interface ConditionInput {
+  vendorName: string | null;
+  description: string | null;
+  amount: string;
+  accountRef: string | null;
+  date?: Date | string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const conditionSchema: z.ZodType<RuleCondition> = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("vendor_contains"), value: z.string().min(1) }),
+  z.object({
+    type: z.literal("description_regex"),
+    pattern: z
+      .string()
+      .min(1)
+      .max(MAX_PATTERN_LENGTH)
+      .superRefine((p, ctx) => {
+        const reason = unsafePatternReason(p);
+        if (reason) ctx.addIssue({ code: "custom", message: reason });
+        else if (compilePattern(p) === null) {
+          ctx.addIssue({ code: "custom", message: "Invalid regular expression" });
+        }
+      }),
+  }),
+  z
+    .object({
+      type: z.literal("amount_between"),
+      min: z.number().min(0),
+      max: z.number().min(0),
+    })
+    .refine((c) => c.min <= c.max, {
+      message: "Minimum amount can't be more than the maximum",
+      path: ["max"],
+    }),
+  z.object({ type: z.literal("account_equals"), value: z.string().min(1) }),
+  z.object({
+    type: z.literal("day_of_month"),
+    min: z.number().int().min(1).max(31),
+    max: z.number().int().min(1).max(31),
+  }),
+  z.object({
+    type: z.literal("weekday"),
+    days: z.array(z.number().int().min(0).max(6)).min(1),
+  }),
+]);
+
+export const ruleConditionGroupSchema: z.ZodType<RuleConditionGroup> = z.lazy(() =>
+  z.object({
+    combinator: z.enum(["and", "or"]),
+    conditions: z
+      .array(z.union([conditionSchema, ruleConditionGroupSchema]))
+      .min(1, "A rule needs at least one condition"),
+  })
+);
+
+export const ruleActionsSchema: z.ZodType<RuleActions> = z.object({
+  accountMapping: z
+    .object({
+      qboAccountId: z.string().min(1),
+      qboAccountName: z.string().min(1),
+    })
+    .optional(),
+  tags: z.array(z.string().min(1).max(50)).max(10).optional(),
+  split: z
+    .object({
+      percentage: z.number().gt(0).lt(100),
+      remainderCategory: z.enum(["business", "personal", "ambiguous"]),
+    })
+    .optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+interface Atom {
+  text: string;
+  // Matches nearly any character: `.`, a negated class, \S \W \D or a group
+  wide: boolean;
+}
+
+const ZERO_WIDTH_ESCAPES = ["b", "B"];
+const WIDE_ESCAPES = ["S", "W", "D"];
+
+function atomsOverlap(a: Atom, b: Atom): boolean {
+  return a.wide || b.wide || a.text === b.text;
+}
+
+/**
+ * Why a description pattern could backtrack for too long, or null when it's
+ * safe to run. JavaScript regexes backtrack, so this rejects:
+ * - a group repeated without bound (`*`, `+`, `{n,}`) that contains its own
+ *   repetition or alternatives, like `(a+)+` or `(a|ab)*` (exponential)
+ * - two unbounded repeats in a row that can match the same text, like
+ *   `.*.*` or `\d+\d+` (polynomial)
+ * - more than MAX_UNBOUNDED_QUANTIFIERS unbounded repeats in all, which
+ *   together with MAX_TESTED_LENGTH keeps the polynomial cases small
+ */
+export function unsafePatternReason(pattern: string): string | null {
+  // Whether each open group so far contains a quantifier or `|`
+  const groups: boolean[] = [];
+  let ambiguous = false;
+  let unbounded = 0;
+  // The last unbounded repeat, while only optional atoms have followed it
+  let pending: Atom | null = null;
+
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    let atom: Atom | null = null;
+    let group = false;
+
+    if (ch === "\\") {
+      const escaped = pattern[i + 1] ?? "";
+      i += 2;
+      if (ZERO_WIDTH_ESCAPES.includes(escaped)) continue;
+      atom = { text: `\\${escaped}`, wide: WIDE_ESCAPES.includes(escaped) };
+    } else if (ch === "[") {
+      // Skip the character class; `]` first in it is a literal
+      const start = i;
+      const negated = pattern[i + 1] === "^";
+      i += negated ? 2 : 1;
+      if (pattern[i] === "]") i++;
+      while (i < pattern.length && pattern[i] !== "]") i += pattern[i] === "\\" ? 2 : 1;
+      i++;
+      atom = { text: pattern.slice(start, i), wide: negated };
+    } else if (ch === "(") {
+      groups.push(ambiguous);
+      ambiguous = false;
+      // The `?` of (?:, (?=, (?<name> and friends isn't a quantifier
+      const prefix = /^\(\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(pattern.slice(i));
+      i += prefix ? prefix[0].length : 1;
+      continue;
+    } else if (ch === ")") {
+      const inner: boolean = ambiguous;
+      ambiguous = (groups.pop() ?? false) || inner;
+      i++;
+      atom = { text: ")", wide: true };
+      group = inner;
+    } else if (ch === "|") {
+      ambiguous = true;
+      pending = null;
+      i++;
+      continue;
+    } else if (ch === "^" || ch === "$") {
+      i++;
+      continue;
+    } else {
+      i++;
+      atom = { text: ch, wide: ch === "." };
+    }
+
+    const quantifier = /^(?:[*+?]|\{(\d*)(,?)(\d*)\})\??/.exec(pattern.slice(i));
+    if (!quantifier) {
+      pending = null;
+      continue;
+    }
+    i += quantifier[0].length;
+    ambiguous = true;
+
+    const q = quantifier[0][0];
+    const isUnbounded = q === "*" || q === "+" || (quantifier[2] === "," && !quantifier[3]);
+    const isOptional = q === "*" || q === "?" || (q === "{" && Number(quantifier[1] || 0) === 0);
+    if (isUnbounded) {
+      if (group) return "Repeated groups can't contain repetition or alternatives, e.g. (a+)+";
+      if (pending && atomsOverlap(pending, atom)) {
+        return "Back-to-back repeats that match the same text, like .*.* or \\d+\\d+, aren't allowed";
+      }
+      if (++unbounded > MAX_UNBOUNDED_QUANTIFIERS) {
+        return `Use at most ${MAX_UNBOUNDED_QUANTIFIERS} of *, + or {n,} in a pattern`;
+      }
+      pending = atom;
+    } else if (!isOptional) {
+      pending = null;
+    }
+  }
+  return null;
+}
+
+// Compiled patterns by source, evicting the oldest once full
+const patternCache = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  if (!patternCache.has(pattern)) {
+    if (patternCache.size >= MAX_CACHED_PATTERNS) {
+      patternCache.delete(patternCache.keys().next().value!);
+    }
+    let compiled: RegExp | null = null;
+    // Rules saved before unsafe patterns were rejected never match
+    if (!unsafePatternReason(pattern)) {
+      try {
+        compiled = new RegExp(pattern, "i");
+      } catch {
+        compiled = null;
+      }
+    }
+    patternCache.set(pattern, compiled);
+  }
+  return patternCache.get(pattern)!;
+}
+
+function isGroup(c: RuleCondition | RuleConditionGroup): c is RuleConditionGroup {
+  return "combinator" in c;
+}
+
+function toDate(value: ConditionInput["date"]): Date | null {
+  if (!value) return null;
+  const d = value instanceof Date ? value : new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function evaluateCondition(c: RuleCondition, txn: ConditionInput): boolean {
+  switch (c.type) {
+    case "vendor_contains":
+      return (txn.vendorName || "").toLowerCase().includes(c.value.toLowerCase());
+    case "description_regex": {
+      const re = compilePattern(c.pattern);
+      return re !== null && re.test((txn.description || "").slice(0, MAX_TESTED_LENGTH));
+    }
+    case "amount_between": {
+      const amt = Math.abs(parseFloat(txn.amount));
+      return amt >= c.min && amt <= c.max;
+    }
+    case "account_equals":
+      return (txn.accountRef || "").trim().toLowerCase() === c.value.trim().toLowerCase();
+    case "day_of_month": {
+      const d = toDate(txn.date);
+      if (!d) return false;
+      const day = d.getUTCDate();
+      // min > max wraps around month end, e.g. 28-3
+      return c.min <= c.max
+        ? day >= c.min && day <= c.max
+        : day >= c.min || day <= c.max;
+    }
+    case "weekday": {
+      const d = toDate(txn.date);
+      return d !== null && c.days.includes(d.getUTCDay());
+    }
+  }
+}
+
+/** Evaluate a condition tree against a transaction. */
+export function evaluateConditions(
+  group: RuleConditionGroup,
+  txn: ConditionInput
+): boolean {
+  const test = (c: RuleCondition | RuleConditionGroup) =>
+    isGroup(c) ? evaluateConditions(c, txn) : evaluateCondition(c, txn);
+  return group.combinator === "and"
+    ? group.conditions.every(test)
+    : group.conditions.some(test);
+}
+
+// ---------------------------------------------------------------------------
+// Display
+// ---------------------------------------------------------------------------
+
+function describeCondition(c: RuleCondition): string {
+  switch (c.type) {
+    case "vendor_contains":
+      return `vendor contains "${c.value}"`;
+    case "description_regex":
+      return `description matches /${c.pattern}/`;
+    case "amount_between":
+      return `amount $${c.min}–$${c.max}`;
+    case "account_equals":
+      return `account = "${c.value}"`;
+    case "day_of_month":
+      return `day ${c.min}–${c.max} of month`;
+    case "weekday":
+      return `on ${c.days.map((d) => WEEKDAYS[d]).join("/")}`;
+  }
+}
+
+/** Human-readable summary, e.g. `vendor contains "amazon" AND amount $0–$50`. */
+export function describeConditions(group: RuleConditionGroup): string {
+  const joiner = group.combinator === "and" ? " AND " : " OR ";
+  return group.conditions
+    .map((c) => (isGroup(c) ? `(${describeConditions(c)})` : describeCondition(c)))
+    .join(joiner);
+}
@@ -0,0 +1,210 @@
+import { db } from "@/lib/db";
+import {
+  transactions,
+  categorizations,
+  userRules,
+  ruleSuggestions,
+  type RuleSuggestion,
+} from "@/lib/db/schema";
+import { eq, and, desc, inArray } from "drizzle-orm";
+import { normalizeVendor } from "./vendors";
+
+type Category = "business" | "personal" | "ambiguous";
+
+/** A pattern needs this many user decisions before we suggest a rule */
+const MIN_MATCHES = 3;
+
+/** Share of matching decisions that must agree on one category */
+const MIN_CONSISTENCY = 0.9;
+
+interface Decision {
+  vendorName: string | null;
+  description: string | null;
+  category: Category;
+}
+
+interface Candidate {
+  matchType: "vendor" | "description";
+  matchValue: string;
+  category: Category;
+  matchCount: number;
+  conflictCount: number;
+}
+
+interface MiningResult {
+  created: number;
+  updated: number;
+  removed: number;
+  suggestions: RuleSuggestion[];
+}
+
+function descriptionBigrams(description: string): string[] {
+  const words = description
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 2);
+  const grams = new Set<string>();
+  for (let i = 1; i < words.length; i++) {
+    grams.add(`${words[i - 1]} ${words[i]}`);
+  }
+  return Array.from(grams);
+}
+
+/**
+ * Score a candidate pattern the way the Tier 1 engine would apply it:
+ * every decision whose field contains the value counts as a match, and
+ * those that disagree with the winning category count as conflicts.
+ */
+function scoreCandidate(
+  matchType: "vendor" | "description",
+  matchValue: string,
+  decisions: Decision[]
+): Candidate | null {
+  const counts: Record<Category, number> = { business: 0, personal: 0, ambiguous: 0 };
+  let total = 0;
+
+  for (const d of decisions) {
+    const field = matchType === "vendor" ? d.vendorName : d.description;
+    if (!field || !field.toLowerCase().includes(matchValue)) continue;
+    counts[d.category]++;
+    total++;
+  }
+
+  const [category, agreeing] = (Object.entries(counts) as [Category, number][]).sort(
+    (a, b) => b[1] - a[1]
+  )[0];
+
+  // Rules that only ever say "ambiguous" don't save the reviewer any work
+  if (category === "ambiguous") return null;
+  if (agreeing < MIN_MATCHES || agreeing / total < MIN_CONSISTENCY) return null;
+
+  return {
+    matchType,
+    matchValue,
+    category,
+    matchCount: total,
+    conflictCount: total - agreeing,
+  };
+}
+
+/**
+ * Mine the practice's user categorizations for vendors and description
+ * phrases with consistent outcomes, and store them as pending rule
+ * suggestions. Accepted and dismissed suggestions are left alone; pending
+ * ones that no longer qualify are removed.
+ */
+export async function mineRuleSuggestions(practiceId: string): Promise<MiningResult> {
+  const rows = await db
+    .select({
+      transactionId: categorizations.transactionId,
+      vendorName: transactions.vendorName,
+      description: transactions.description,
+      category: categorizations.category,
+    })
+    .from(categorizations)
+    .innerJoin(transactions, eq(categorizations.transactionId, transactions.id))
+    .where(
+      and(
+        eq(transactions.practiceId, practiceId),
+        eq(categorizations.source, "user")
+      )
+    )
+    .orderBy(desc(categorizations.createdAt));
+
+  // Latest user decision per transaction
+  const seen = new Set<string>();
+  const decisions: Decision[] = [];
+  for (const row of rows) {
+    if (seen.has(row.transactionId)) continue;
+    seen.add(row.transactionId);
+    decisions.push(row);
+  }
+
+  const existingRules = await db
+    .select({ matchType: userRules.matchType, matchValue: userRules.matchValue })
+    .from(userRules)
+    .where(eq(userRules.practiceId, practiceId));
+
+  // A candidate is redundant if an existing rule of the same type already
+  // matches everything it would (its value is a substring of ours)
+  const covered = (matchType: string, value: string) =>
+    existingRules.some(
+      (r) => r.matchType === matchType && value.includes(r.matchValue.toLowerCase())
+    );
+
+  const candidates = new Map<string, Candidate>();
+  const consider = (matchType: "vendor" | "description", value: string) => {
+    const key = `${matchType}:${value}`;
+    if (!value || value.length < 3 || candidates.has(key) || covered(matchType, value)) return;
+    const scored = scoreCandidate(matchType, value, decisions);
+    if (scored) candidates.set(key, scored);
+  };
+
+  for (const d of decisions) {
+    if (d.vendorName) {
+      consider("vendor", normalizeVendor(d.vendorName));
+    } else if (d.description) {
+      // Without a vendor, fall back to recurring phrases in the description
+      for (const gram of descriptionBigrams(d.description)) {
+        consider("description", gram);
+      }
+    }
+  }
+
+  const existing = await db
+    .select()
+    .from(ruleSuggestions)
+    .where(eq(ruleSuggestions.practiceId, practiceId));
+  const existingByKey = new Map(existing.map((s) => [`${s.matchType}:${s.matchValue}`, s]));
+
+  let created = 0;
+  let updated = 0;
+  const now = new Date();
+
+  for (const [key, c] of Array.from(candidates.entries())) {
+    const prior = existingByKey.get(key);
+    if (!prior) {
+      await db.insert(ruleSuggestions).values({ practiceId, ...c });
+      created++;
+    } else if (prior.status === "pending") {
+      await db
+        .update(ruleSuggestions)
+        .set({
+          category: c.category,
+          matchCount: c.matchCount,
+          conflictCount: c.conflictCount,
+          updatedAt: now,
+        })
+        .where(eq(ruleSuggestions.id, prior.id));
+      updated++;
+    }
+  }
+
+  const stale = existing
+    .filter((s) => s.status === "pending" && !candidates.has(`${s.matchType}:${s.matchValue}`))
+    .map((s) => s.id);
+  if (stale.length > 0) {
+    await db.delete(ruleSuggestions).where(inArray(ruleSuggestions.id, stale));
+  }
+
+  return {
+    created,
+    updated,
+    removed: stale.length,
+    suggestions: await getPendingSuggestions(practiceId),
+  };
+}
+
+export async function getPendingSuggestions(practiceId: string): Promise<RuleSuggestion[]> {
+  return db
+    .select()
+    .from(ruleSuggestions)
+    .where(
+      and(
+        eq(ruleSuggestions.practiceId, practiceId),
+        eq(ruleSuggestions.status, "pending")
+      )
+    )
+    .orderBy(desc(ruleSuggestions.matchCount));
+}
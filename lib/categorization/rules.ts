@@ -1,4 +1,4 @@
-import type { UserRule } from "@/lib/db/schema";
+import type { UserRule, RuleActions } from "@/lib/db/schema";
 import type { IndustryConfig } from "@/lib/industries/types";
 import {
   DENTAL_SUPPLY_VENDORS,
@@ -11,12 +11,14 @@ import {
   AMBIGUOUS_RETAIL,
 } from "./vendors";
 import { categorizeByAccount, categorizeByAccountWithConfig } from "./account-mapping";
+import { evaluateConditions } from "./rule-conditions";
 
 export interface RuleResult {
   category: "business" | "personal" | "ambiguous";
   confidence: number;
   ruleId: string | null;
   reasoning: string;
+  actions?: RuleActions | null;
 }
 
 interface TransactionInput {
@@ -24,6 +26,7 @@ interface TransactionInput {
   description: string | null;
   amount: string;
   accountRef: string | null;
+  date?: Date | string | null;
 }
 
 /** Check if vendor name matches any entry in a list (case-insensitive partial match) */
@@ -71,6 +74,9 @@ export function categorizeTransaction(
         matched = amt >= min && amt <= max;
         break;
       }
+      case "compound":
+        matched = !!rule.conditions && evaluateConditions(rule.conditions, txn);
+        break;
     }
 
     if (matched) {
@@ -78,7 +84,11 @@ export function categorizeTransaction(
         category: rule.category,
         confidence: 100,
         ruleId: rule.id,
-        reasoning: `User rule: ${rule.matchType} matches "${rule.matchValue}"`,
+        reasoning:
+          rule.matchType === "compound"
+            ? `User rule: ${rule.matchValue}`
+            : `User rule: ${rule.matchType} matches "${rule.matchValue}"`,
+        actions: rule.actions,
       };
     }
   }
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { resolveSplits, SplitValidationError } from "./splits";
+
+const amounts = (splits: ReturnType<typeof resolveSplits>) => splits.map((s) => s.amount);
+const percentages = (splits: ReturnType<typeof resolveSplits>) => splits.map((s) => s.percentage);
+
+describe("resolveSplits", () => {
+  it("splits by percentage with the transaction's sign", () => {
+    const splits = resolveSplits(-200, [
+      { category: "business", percentage: 75 },
+      { category: "personal", percentage: 25 },
+    ]);
+    expect(amounts(splits)).toEqual([-150, -50]);
+    expect(percentages(splits)).toEqual([75, 25]);
+  });
+
+  it("puts rounding on the last percentage line and restates its percentage", () => {
+    const splits = resolveSplits(0.1, [
+      { category: "business", percentage: 33.33 },
+      { category: "personal", percentage: 33.33 },
+      { category: "ambiguous", percentage: 33.34 },
+    ]);
+    expect(amounts(splits)).toEqual([0.03, 0.03, 0.04]);
+    expect(percentages(splits)).toEqual([30, 30, 40]);
+  });
+
+  it("accepts amount lines that add up to the total", () => {
+    const splits = resolveSplits(-100, [
+      { category: "business", amount: 60.5 },
+      { category: "personal", amount: 39.5 },
+    ]);
+    expect(amounts(splits)).toEqual([-60.5, -39.5]);
+    expect(percentages(splits)).toEqual([60.5, 39.5]);
+  });
+
+  it("fills the rest of an amount split with percentages", () => {
+    const splits = resolveSplits(100, [
+      { category: "business", amount: 30 },
+      { category: "personal", percentage: 70 },
+    ]);
+    expect(amounts(splits)).toEqual([30, 70]);
+  });
+
+  it.each([
+    ["percentages over 100", 0.02, [50, 50, 50]],
+    ["percentages under 100", 100, [50, 49]],
+    ["percentages a cent of rounding off", 1, [50, 49.99]],
+  ])("rejects %s", (_label, total, pcts) => {
+    expect(() =>
+      resolveSplits(
+        total,
+        pcts.map((percentage) => ({ category: "business" as const, percentage }))
+      )
+    ).toThrow("Split percentages must add up to 100");
+  });
+
+  it("rejects amounts that don't add up, however small the gap", () => {
+    expect(() =>
+      resolveSplits(-100, [
+        { category: "business", amount: 60 },
+        { category: "personal", amount: 39.99 },
+      ])
+    ).toThrow("Split lines must add up to 100.00");
+  });
+
+  it("rejects percentages that don't cover what the amounts leave", () => {
+    expect(() =>
+      resolveSplits(100, [
+        { category: "business", amount: 30 },
+        { category: "personal", percentage: 100 },
+      ])
+    ).toThrow(SplitValidationError);
+  });
+
+  it("rejects lines that round to zero cents", () => {
+    expect(() =>
+      resolveSplits(0.01, [
+        { category: "business", percentage: 50 },
+        { category: "personal", percentage: 50 },
+      ])
+    ).toThrow("Each split line must come to at least 0.01");
+  });
+
+  it("rejects zero-amount transactions and single lines", () => {
+    expect(() =>
+      resolveSplits(0, [
+        { category: "business", percentage: 50 },
+        { category: "personal", percentage: 50 },
+      ])
+    ).toThrow(SplitValidationError);
+    expect(() => resolveSplits(10, [{ category: "business", percentage: 100 }])).toThrow(
+      "A split needs at least two lines"
+    );
+  });
+});
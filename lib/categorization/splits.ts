@@ -0,0 +1,198 @@
+import { db } from "@/lib/db";
+import {
+  categorizationSplits,
+  type CategorizationSplit,
+  type NewCategorizationSplit,
+} from "@/lib/db/schema";
+import { inArray } from "drizzle-orm";
+
+type Category = "business" | "personal" | "ambiguous";
+
+export interface SplitInput {
+  category: Category;
+  amount?: number; // absolute value of this line
+  percentage?: number; // 0-100, used when amount is omitted
+  accountRef?: string | null;
+  qboAccountId?: string | null;
+  memo?: string | null;
+}
+
+export interface ResolvedSplit {
+  category: Category;
+  amount: number; // signed like the transaction
+  percentage: number | null;
+  accountRef: string | null;
+  qboAccountId: string | null;
+  memo: string | null;
+}
+
+export class SplitValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SplitValidationError";
+  }
+}
+
+/**
+ * Turn user-entered split lines into signed amounts that sum exactly to the
+ * transaction total. Amount lines must add up to the total, or percentage
+ * lines must cover exactly what the amount lines leave. Percentage lines are
+ * rounded to cents, the last one absorbs the rounding, and every line's
+ * percentage is then restated from its final cents.
+ */
+export function resolveSplits(
+  transactionAmount: number,
+  inputs: SplitInput[]
+): ResolvedSplit[] {
+  if (inputs.length < 2) {
+    throw new SplitValidationError("A split needs at least two lines");
+  }
+
+  const sign = transactionAmount < 0 ? -1 : 1;
+  const totalCents = Math.round(Math.abs(transactionAmount) * 100);
+  if (totalCents === 0) {
+    throw new SplitValidationError("A zero-amount transaction can't be split");
+  }
+  const mustAddUp = () =>
+    new SplitValidationError(`Split lines must add up to ${(totalCents / 100).toFixed(2)}`);
+
+  let amountCents = 0;
+  let percentTotal = 0;
+  for (const line of inputs) {
+    if (line.amount !== undefined) {
+      if (line.amount <= 0) {
+        throw new SplitValidationError("Split amounts must be positive");
+      }
+      amountCents += Math.round(line.amount * 100);
+    } else if (line.percentage !== undefined) {
+      if (line.percentage <= 0 || line.percentage > 100) {
+        throw new SplitValidationError("Split percentages must be between 0 and 100");
+      }
+      percentTotal += line.percentage;
+    } else {
+      throw new SplitValidationError("Each split line needs an amount or a percentage");
+    }
+  }
+
+  // Check the totals as entered, before rounding can paper over them.
+  // Percentages carry two decimals, so compare at that precision.
+  const lastPct = inputs.map((l) => l.amount === undefined).lastIndexOf(true);
+  if (lastPct === -1) {
+    if (amountCents !== totalCents) throw mustAddUp();
+  } else {
+    const leftPercent = ((totalCents - amountCents) / totalCents) * 100;
+    if (amountCents >= totalCents || Math.abs(percentTotal - leftPercent) >= 0.005) {
+      throw new SplitValidationError(
+        amountCents === 0
+          ? "Split percentages must add up to 100"
+          : `Split percentages must cover the ${leftPercent.toFixed(2)}% the amounts leave`
+      );
+    }
+  }
+
+  const cents = inputs.map((line) =>
+    line.amount !== undefined
+      ? Math.round(line.amount * 100)
+      : Math.round((totalCents * line.percentage!) / 100)
+  );
+  if (lastPct !== -1) {
+    cents[lastPct] += totalCents - cents.reduce((sum, c) => sum + c, 0);
+  }
+  if (cents.some((c) => c <= 0)) {
+    throw new SplitValidationError("Each split line must come to at least 0.01");
+  }
+
+  return inputs.map((line, i) => ({
+    category: line.category,
+    amount: (sign * cents[i]) / 100,
+    percentage: Math.round((cents[i] / totalCents) * 10000) / 100,
+    accountRef: line.accountRef || null,
+    qboAccountId: line.qboAccountId || null,
+    memo: line.memo || null,
+  }));
+}
+
+/** The category covering the largest share of a split, used as the headline. */
+export function dominantCategory(splits: ResolvedSplit[]): Category {
+  const totals = new Map<Category, number>();
+  for (const s of splits) {
+    totals.set(s.category, (totals.get(s.category) || 0) + Math.abs(s.amount));
+  }
+  return Array.from(totals.entries()).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+export function describeSplits(splits: ResolvedSplit[]): string {
+  return `Split across ${splits.length} lines: ${splits
+    .map((s) => `${s.percentage ?? "?"}% ${s.category}`)
+    .join(" / ")}`;
+}
+
+/** Rows to insert into categorization_splits for a resolved split. */
+export function splitRowValues(
+  categorizationId: string,
+  splits: ResolvedSplit[]
+): NewCategorizationSplit[] {
+  return splits.map((s) => ({
+    categorizationId,
+    category: s.category,
+    amount: s.amount.toFixed(2),
+    percentage: s.percentage !== null ? String(s.percentage) : null,
+    accountRef: s.accountRef,
+    qboAccountId: s.qboAccountId,
+    memo: s.memo,
+  }));
+}
+
+/** Load split lines for a set of categorizations, keyed by categorization ID. */
+export async function loadSplits(
+  categorizationIds: string[]
+): Promise<Map<string, CategorizationSplit[]>> {
+  const map = new Map<string, CategorizationSplit[]>();
+  if (categorizationIds.length === 0) return map;
+
+  const rows = await db
+    .select()
+    .from(categorizationSplits)
+    .where(inArray(categorizationSplits.categorizationId, categorizationIds));
+
+  for (const row of rows) {
+    const list = map.get(row.categorizationId) || [];
+    list.push(row);
+    map.set(row.categorizationId, list);
+  }
+  return map;
+}
+
+interface SplittableRow {
+  categorizationId: string | null;
+  amount: string;
+  accountRef: string | null;
+  category: Category | null;
+}
+
+/**
+ * Expand transaction rows into one row per split line, so finance engines
+ * can aggregate by line without knowing about splits. Each line inherits
+ * the parent row's fields and overrides amount, category and (when set)
+ * accountRef. Rows without splits pass through unchanged.
+ */
+export async function expandSplitRows<T extends SplittableRow>(
+  rows: T[]
+): Promise<T[]> {
+  const ids = Array.from(
+    new Set(rows.map((r) => r.categorizationId).filter((id): id is string => !!id))
+  );
+  const splits = await loadSplits(ids);
+  if (splits.size === 0) return rows;
+
+  return rows.flatMap((row) => {
+    const lines = row.categorizationId ? splits.get(row.categorizationId) : undefined;
+    if (!lines || lines.length === 0) return [row];
+    return lines.map((line) => ({
+      ...row,
+      amount: line.amount,
+      category: line.category,
+      accountRef: line.accountRef ?? row.accountRef,
+    }));
+  });
+}
@@ -130,3 +130,17 @@ export function getVendorLists(config?: IndustryConfig): VendorLists {
     patterns: c.vendors.patterns,
   };
 }
+
+/**
+ * Normalize a vendor name to the stable part a "vendor contains" rule can
+ * match on: "SQ *JOE'S COFFEE #1234" -> "joe's coffee".
+ */
+export function normalizeVendor(vendor: string): string {
+  return vendor
+    .toLowerCase()
+    .replace(/^(sq|tst|pp|paypal)\s*\*\s*/, "")
+    .replace(/#?\d{3,}/g, "")
+    .replace(/[*#]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -11,6 +11,7 @@ import {
   index,
   boolean,
   date,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 
 // Enums
@@ -23,6 +24,7 @@ export const categoryEnum = pgEnum("category", [
 export const categorizationSourceEnum = pgEnum("categorization_source", [
   "rule",
   "ml",
+  "llm",
   "user",
 ]);
 
@@ -30,6 +32,7 @@ export const matchTypeEnum = pgEnum("match_type", [
   "vendor",
   "description",
   "amount_range",
+  "compound",
 ]);
 
 export const reviewStatusEnum = pgEnum("review_status", [
@@ -51,6 +54,61 @@ export const plaidConnectionStatusEnum = pgEnum("plaid_connection_status", [
   "pending_reauth",
 ]);
 
+export const syncRunStatusEnum = pgEnum("sync_run_status", [
+  "running",
+  "completed",
+  "failed",
+]);
+
+export const jobStatusEnum = pgEnum("job_status", [
+  "queued",
+  "running",
+  "completed",
+  "failed",
+]);
+
+export const scheduleCadenceEnum = pgEnum("schedule_cadence", [
+  "daily",
+  "weekly",
+  "monthly",
+  "quarterly",
+]);
+
+// What an account means to the finance modules, independent of its name
+export const accountRoleEnum = pgEnum("account_role", [
+  "revenue",
+  "cogs",
+  "payroll",
+  "rent",
+  "operating_expense",
+  "debt_principal",
+  "interest",
+  "owner_draw",
+  "depreciation",
+  "fixed_asset",
+]);
+
+// Cash basis counts money when it moves; accrual counts invoices and bills
+// when they're issued
+export const reportingBasisEnum = pgEnum("reporting_basis", ["cash", "accrual"]);
+
+export const budgetVersionEnum = pgEnum("budget_version", [
+  "original",
+  "revised",
+  "stretch",
+]);
+
+export const transactionMatchKindEnum = pgEnum("transaction_match_kind", [
+  "transfer",
+  "refund",
+]);
+
+export const transactionSourceEnum = pgEnum("transaction_source", [
+  "qbo",
+  "plaid",
+  "file",
+]);
+
 // Tables
 
 export const practices = pgTable("practices", {
@@ -59,13 +117,17 @@ export const practices = pgTable("practices", {
   industry: text("industry").default("dental").notNull(),
   qboRealmId: text("qbo_realm_id"),
   qboTokens: text("qbo_tokens"), // AES-256-GCM encrypted JSON
+  qboLastSyncedAt: timestamp("qbo_last_synced_at"), // high-water mark for CDC
   fiscalYearStart: integer("fiscal_year_start").default(1), // month 1-12
+  timeZone: text("time_zone").default("America/New_York").notNull(), // IANA zone for schedules
+  reportingBasis: reportingBasisEnum("reporting_basis").default("cash").notNull(),
   practiceAddresses: jsonb("practice_addresses").$type<string[]>().default([]),
   reserveThreshold: numeric("reserve_threshold", { precision: 12, scale: 2 }).default("10000.00"),
   estimatedValue: numeric("estimated_value", { precision: 14, scale: 2 }),
   realEstateValue: numeric("real_estate_value", { precision: 14, scale: 2 }),
   otherAssets: numeric("other_assets", { precision: 14, scale: 2 }),
   otherLiabilities: numeric("other_liabilities", { precision: 14, scale: 2 }),
+  requireTwoFactor: boolean("require_two_factor").default(false).notNull(), // set by owners
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -82,6 +144,13 @@ export const users = pgTable(
     passwordHash: text("password_hash").notNull(),
     role: roleEnum("role").default("owner").notNull(),
     emailVerified: timestamp("email_verified"),
+    totpSecret: text("totp_secret"), // AES-256-GCM encrypted; set before 2FA is confirmed
+    totpEnabledAt: timestamp("totp_enabled_at"),
+    totpLastStep: integer("totp_last_step"), // last accepted time step, so a code can't be replayed
+    recoveryCodes: jsonb("recovery_codes").$type<string[]>(), // sha256 of unused codes
+    // Wrong second-factor codes in a row; reaching the limit locks 2FA for a while
+    twoFactorFailures: integer("two_factor_failures").default(0).notNull(),
+    twoFactorLockedUntil: timestamp("two_factor_locked_until"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -91,6 +160,24 @@ export const users = pgTable(
   ]
 );
 
+// One row per sign-in; the JWT carries the id so a revoked row ends the session
+export const userSessions = pgTable(
+  "user_sessions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    userAgent: text("user_agent"),
+    ipAddress: text("ip_address"),
+    twoFactorMethod: text("two_factor_method"), // "totp" | "recovery" | null
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+    revokedAt: timestamp("revoked_at"),
+  },
+  (table) => [index("user_sessions_user_idx").on(table.userId)]
+);
+
 // User-Practice join table (multi-practice support)
 export const userPractices = pgTable(
   "user_practices",
@@ -103,6 +190,10 @@ export const userPractices = pgTable(
       .references(() => practices.id, { onDelete: "cascade" })
       .notNull(),
     role: roleEnum("role").default("owner").notNull(),
+    // Replaces the built-in role's permissions; the role stays as the fallback
+    customRoleId: uuid("custom_role_id").references((): AnyPgColumn => practiceRoles.id, {
+      onDelete: "set null",
+    }),
     isDefault: boolean("is_default").default(false).notNull(),
     invitedBy: uuid("invited_by").references(() => users.id),
     invitedAt: timestamp("invited_at"),
@@ -119,6 +210,52 @@ export const userPractices = pgTable(
   ]
 );
 
+// Custom roles a practice defines on top of owner/manager/accountant
+export const practiceRoles = pgTable(
+  "practice_roles",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    name: text("name").notNull(),
+    description: text("description"),
+    permissions: jsonb("permissions").$type<string[]>().default([]).notNull(), // "resource:read" | "resource:write"
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("practice_roles_name_idx").on(table.practiceId, table.name)]
+);
+
+// Pending invitations for people without an account; accepting one creates
+// the user and their membership together
+export const practiceInvitations = pgTable(
+  "practice_invitations",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    email: text("email").notNull(),
+    role: roleEnum("role").default("accountant").notNull(),
+    customRoleId: uuid("custom_role_id").references(() => practiceRoles.id, {
+      onDelete: "set null",
+    }),
+    tokenHash: text("token_hash").notNull(), // sha256 of the emailed token
+    invitedBy: uuid("invited_by").references(() => users.id, { onDelete: "set null" }),
+    expiresAt: timestamp("expires_at").notNull(),
+    lastSentAt: timestamp("last_sent_at").defaultNow().notNull(),
+    acceptedAt: timestamp("accepted_at"),
+    acceptedUserId: uuid("accepted_user_id").references(() => users.id, { onDelete: "set null" }),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("practice_invitations_token_idx").on(table.tokenHash),
+    index("practice_invitations_practice_email_idx").on(table.practiceId, table.email),
+  ]
+);
+
 // Industry config table
 export const industryConfigs = pgTable(
   "industry_configs",
@@ -201,21 +338,270 @@ export const transactions = pgTable(
     practiceId: uuid("practice_id")
       .references(() => practices.id, { onDelete: "cascade" })
       .notNull(),
-    qboTxnId: text("qbo_txn_id").notNull(),
+    source: transactionSourceEnum("source").default("qbo").notNull(),
+    qboTxnId: text("qbo_txn_id"), // null for non-QBO sources
+    qboTxnType: text("qbo_txn_type"), // QBO entity: Purchase, Bill, JournalEntry...
+    plaidTransactionId: text("plaid_transaction_id"),
+    plaidAccountId: uuid("plaid_account_id").references(() => plaidAccounts.id, {
+      onDelete: "set null",
+    }),
+    // File imports: synthetic ID so re-importing a statement doesn't duplicate
+    importTransactionId: text("import_transaction_id"),
     date: timestamp("date").notNull(),
     amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
     vendorName: text("vendor_name"),
     description: text("description"),
     accountRef: text("account_ref"),
+    // Invoices and bills only: when payment is due and how much is still unpaid
+    dueDate: timestamp("due_date"),
+    openBalance: numeric("open_balance", { precision: 12, scale: 2 }),
+    // Set when merged into another copy of the same charge; finance engines
+    // only count the copy this points at
+    duplicateOfId: uuid("duplicate_of_id").references((): AnyPgColumn => transactions.id, {
+      onDelete: "set null",
+    }),
     rawJson: jsonb("raw_json"),
     syncedAt: timestamp("synced_at").defaultNow().notNull(),
   },
   (table) => [
-    uniqueIndex("txn_qbo_id_idx").on(table.practiceId, table.qboTxnId),
+    uniqueIndex("txn_qbo_id_idx").on(
+      table.practiceId,
+      table.qboTxnType,
+      table.qboTxnId
+    ),
+    uniqueIndex("txn_plaid_id_idx").on(
+      table.practiceId,
+      table.plaidTransactionId
+    ),
+    uniqueIndex("txn_import_id_idx").on(
+      table.practiceId,
+      table.importTransactionId
+    ),
     index("txn_practice_date_idx").on(table.practiceId, table.date),
   ]
 );
 
+// Offsetting pairs: a transfer between the practice's own accounts, or a
+// vendor refund of an earlier purchase. status: active | dismissed. Dismissed
+// pairs are kept so detection doesn't propose them again.
+export const transactionMatches = pgTable(
+  "transaction_matches",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    kind: transactionMatchKindEnum("kind").notNull(),
+    outflowTransactionId: uuid("outflow_transaction_id")
+      .references(() => transactions.id, { onDelete: "cascade" })
+      .notNull(),
+    inflowTransactionId: uuid("inflow_transaction_id")
+      .references(() => transactions.id, { onDelete: "cascade" })
+      .notNull(),
+    amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+    status: text("status").default("active").notNull(),
+    dismissedBy: uuid("dismissed_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("txn_matches_pair_idx").on(
+      table.outflowTransactionId,
+      table.inflowTransactionId
+    ),
+    index("txn_matches_practice_idx").on(table.practiceId, table.status),
+  ]
+);
+
+// Suspected duplicate pairs awaiting review. transactionId is the copy we'd
+// keep by default. status: pending | merged | kept (both are real)
+export const duplicateCandidates = pgTable(
+  "duplicate_candidates",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    transactionId: uuid("transaction_id")
+      .references(() => transactions.id, { onDelete: "cascade" })
+      .notNull(),
+    duplicateTransactionId: uuid("duplicate_transaction_id")
+      .references(() => transactions.id, { onDelete: "cascade" })
+      .notNull(),
+    score: integer("score").notNull(), // 0-100
+    reasons: jsonb("reasons").$type<string[]>().default([]).notNull(),
+    status: text("status").default("pending").notNull(),
+    resolvedBy: uuid("resolved_by").references(() => users.id, { onDelete: "set null" }),
+    resolvedAt: timestamp("resolved_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("duplicate_candidates_pair_idx").on(
+      table.transactionId,
+      table.duplicateTransactionId
+    ),
+    index("duplicate_candidates_practice_idx").on(table.practiceId, table.status),
+  ]
+);
+
+// How to read one bank's CSV export. Columns are header names, or 1-based
+// positions when the file has no header row. A file gives either a signed
+// amount column or separate debit and credit columns.
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  vendor?: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+}
+
+export const importProfiles = pgTable(
+  "import_profiles",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    name: text("name").notNull(), // e.g. "First Community Bank checking"
+    // Shown as the account on imported transactions, like a Plaid account name
+    accountName: text("account_name").notNull(),
+    columns: jsonb("columns").$type<CsvColumnMapping>().notNull(),
+    dateFormat: text("date_format").default("MM/DD/YYYY").notNull(),
+    delimiter: text("delimiter").default(",").notNull(),
+    hasHeader: boolean("has_header").default(true).notNull(),
+    // Card statements often list charges as positive amounts
+    invertAmounts: boolean("invert_amounts").default(false).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("import_profiles_name_idx").on(table.practiceId, table.name)]
+);
+
+// Background jobs (Postgres backend; the Redis backend keeps the same shape
+// in Redis instead). A queued job is picked up once runAt has passed.
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    queue: text("queue").notNull(),
+    name: text("name").notNull(),
+    practiceId: uuid("practice_id").references(() => practices.id, {
+      onDelete: "cascade",
+    }),
+    payload: jsonb("payload").$type<Record<string, unknown>>().default({}).notNull(),
+    status: jobStatusEnum("status").default("queued").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(3).notNull(),
+    backoffMs: integer("backoff_ms").default(5000).notNull(),
+    idempotencyKey: text("idempotency_key"),
+    runAt: timestamp("run_at").defaultNow().notNull(),
+    lockedAt: timestamp("locked_at"),
+    result: jsonb("result"),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    index("jobs_queue_status_run_idx").on(table.queue, table.status, table.runAt),
+    index("jobs_idempotency_idx").on(table.queue, table.idempotencyKey),
+    index("jobs_practice_created_idx").on(table.practiceId, table.createdAt),
+  ]
+);
+
+// Per-practice automation schedules. Hours and days are in the practice's
+// time zone; quarterly schedules follow the practice's fiscal quarters.
+export const scheduledTasks = pgTable(
+  "scheduled_tasks",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    task: text("task").notNull(),
+    cadence: scheduleCadenceEnum("cadence").notNull(),
+    hour: integer("hour").default(2).notNull(), // 0-23
+    dayOfWeek: integer("day_of_week"), // 0 = Sunday, weekly only
+    dayOfMonth: integer("day_of_month"), // 1-28, monthly and quarterly
+    isPaused: boolean("is_paused").default(false).notNull(),
+    lastRunAt: timestamp("last_run_at"),
+    nextRunAt: timestamp("next_run_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("scheduled_tasks_practice_task_idx").on(table.practiceId, table.task),
+    index("scheduled_tasks_next_run_idx").on(table.nextRunAt),
+  ]
+);
+
+// One row per scheduled or manually triggered run of a scheduled task
+export const scheduledTaskRuns = pgTable(
+  "scheduled_task_runs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    scheduleId: uuid("schedule_id")
+      .references(() => scheduledTasks.id, { onDelete: "cascade" })
+      .notNull(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    task: text("task").notNull(),
+    trigger: text("trigger").notNull(), // schedule | manual
+    triggeredBy: uuid("triggered_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    jobId: text("job_id"),
+    status: jobStatusEnum("status").default("queued").notNull(),
+    result: jsonb("result"),
+    error: text("error"),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("scheduled_task_runs_practice_idx").on(table.practiceId, table.createdAt),
+    index("scheduled_task_runs_schedule_idx").on(table.scheduleId, table.createdAt),
+  ]
+);
+
+// QBO sync runs — progress and resume point for paginated syncs
+export const syncRuns = pgTable(
+  "sync_runs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    status: syncRunStatusEnum("status").default("running").notNull(),
+    startDate: date("start_date").notNull(), // TxnDate lower bound
+    cursor: jsonb("cursor").$type<{ endpoint: string; startPosition: number } | null>(),
+    endpointCounts: jsonb("endpoint_counts")
+      .$type<
+        Record<
+          string,
+          {
+            total: number | null;
+            fetched: number;
+            inserted: number;
+            updated: number;
+            errors: number;
+          }
+        >
+      >()
+      .default({})
+      .notNull(),
+    errorMessages: jsonb("error_messages").$type<string[]>().default([]).notNull(),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    index("sync_runs_practice_idx").on(table.practiceId, table.startedAt),
+  ]
+);
+
 export const categorizations = pgTable(
   "categorizations",
   {
@@ -228,6 +614,10 @@ export const categorizations = pgTable(
     source: categorizationSourceEnum("source").notNull(),
     ruleId: uuid("rule_id").references(() => userRules.id),
     reasoning: text("reasoning"),
+    // Set by rule actions: overrides the category's QBO account mapping on write-back
+    qboAccountId: text("qbo_account_id"),
+    qboAccountName: text("qbo_account_name"),
+    tags: jsonb("tags").$type<string[]>().default([]).notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
@@ -236,6 +626,52 @@ export const categorizations = pgTable(
   ]
 );
 
+// Line-level splits of a categorization (e.g. one Costco charge that is part
+// business, part personal). Split amounts carry the transaction's sign and
+// sum to its total; a categorization without splits covers the whole amount.
+export const categorizationSplits = pgTable(
+  "categorization_splits",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    categorizationId: uuid("categorization_id")
+      .references(() => categorizations.id, { onDelete: "cascade" })
+      .notNull(),
+    category: categoryEnum("category").notNull(),
+    amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+    percentage: numeric("percentage", { precision: 5, scale: 2 }), // set when entered as %
+    accountRef: text("account_ref"), // overrides the transaction's accountRef
+    qboAccountId: text("qbo_account_id"), // write-back target for this line
+    memo: text("memo"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("cat_splits_categorization_idx").on(table.categorizationId)]
+);
+
+// Compound rule language. Conditions nest as AND/OR groups; dates are
+// evaluated in UTC (weekday 0 = Sunday).
+export type RuleCondition =
+  | { type: "vendor_contains"; value: string }
+  | { type: "description_regex"; pattern: string }
+  | { type: "amount_between"; min: number; max: number } // absolute amount
+  | { type: "account_equals"; value: string }
+  | { type: "day_of_month"; min: number; max: number }
+  | { type: "weekday"; days: number[] };
+
+export interface RuleConditionGroup {
+  combinator: "and" | "or";
+  conditions: Array<RuleCondition | RuleConditionGroup>;
+}
+
+export interface RuleActions {
+  accountMapping?: { qboAccountId: string; qboAccountName: string };
+  tags?: string[];
+  // percentage goes to the rule's category, the rest to remainderCategory
+  split?: {
+    percentage: number;
+    remainderCategory: "business" | "personal" | "ambiguous";
+  };
+}
+
 export const userRules = pgTable(
   "user_rules",
   {
@@ -244,7 +680,10 @@ export const userRules = pgTable(
       .references(() => practices.id, { onDelete: "cascade" })
       .notNull(),
     matchType: matchTypeEnum("match_type").notNull(),
+    // For compound rules this holds a readable summary of the conditions
     matchValue: text("match_value").notNull(),
+    conditions: jsonb("conditions").$type<RuleConditionGroup>(),
+    actions: jsonb("actions").$type<RuleActions>(),
     category: categoryEnum("category").notNull(),
     priority: integer("priority").default(0).notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -252,6 +691,33 @@ export const userRules = pgTable(
   (table) => [index("rules_practice_idx").on(table.practiceId)]
 );
 
+// Rules proposed by mining user categorizations. status: pending | accepted | dismissed
+export const ruleSuggestions = pgTable(
+  "rule_suggestions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    matchType: matchTypeEnum("match_type").notNull(),
+    matchValue: text("match_value").notNull(),
+    category: categoryEnum("category").notNull(),
+    matchCount: integer("match_count").notNull(),
+    conflictCount: integer("conflict_count").notNull(),
+    status: text("status").default("pending").notNull(),
+    ruleId: uuid("rule_id").references(() => userRules.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("rule_suggestions_practice_match_idx").on(
+      table.practiceId,
+      table.matchType,
+      table.matchValue
+    ),
+  ]
+);
+
 export const reviewSessions = pgTable(
   "review_sessions",
   {
@@ -293,11 +759,18 @@ export const auditLog = pgTable(
     entityId: text("entity_id"),
     oldValue: jsonb("old_value"),
     newValue: jsonb("new_value"),
+    // Per-practice hash chain: each entry's hash covers its content and the
+    // previous entry's hash. Null on entries written before chaining.
+    sequence: integer("sequence"),
+    prevHash: text("prev_hash"),
+    hash: text("hash"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
     index("audit_practice_idx").on(table.practiceId),
     index("audit_entity_idx").on(table.entityType, table.entityId),
+    uniqueIndex("audit_practice_sequence_idx").on(table.practiceId, table.sequence),
+    index("audit_practice_created_idx").on(table.practiceId, table.createdAt),
   ]
 );
 
@@ -308,16 +781,19 @@ export const budgets = pgTable(
     practiceId: uuid("practice_id")
       .references(() => practices.id, { onDelete: "cascade" })
       .notNull(),
-    year: integer("year").notNull(),
+    year: integer("year").notNull(), // fiscal year, named for the calendar year it starts in
+    version: budgetVersionEnum("version").default("original").notNull(),
     accountRef: text("account_ref").notNull(),
-    monthlyTarget: numeric("monthly_target", { precision: 12, scale: 2 }).notNull(),
+    monthlyTarget: numeric("monthly_target", { precision: 12, scale: 2 }).notNull(), // average of monthlyTargets
+    monthlyTargets: jsonb("monthly_targets").$type<number[]>(), // 12 amounts in fiscal month order; null = flat monthlyTarget
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
   (table) => [
-    uniqueIndex("budgets_practice_year_account_idx").on(
+    uniqueIndex("budgets_practice_year_version_account_idx").on(
       table.practiceId,
       table.year,
+      table.version,
       table.accountRef
     ),
   ]
@@ -367,6 +843,7 @@ export const plaidConnections = pgTable(
     institutionName: text("institution_name").notNull(),
     institutionId: text("institution_id").notNull(),
     status: plaidConnectionStatusEnum("status").default("active").notNull(),
+    transactionsCursor: text("transactions_cursor"), // /transactions/sync cursor
     lastSyncedAt: timestamp("last_synced_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
@@ -562,6 +1039,36 @@ export const qboAccountMappings = pgTable(
   ]
 );
 
+// Chart of accounts imported from QBO, each mapped to a semantic role.
+// Transactions reference accounts by name (accountRef), matched against
+// name or fully qualified name.
+export const chartOfAccounts = pgTable(
+  "chart_of_accounts",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    practiceId: uuid("practice_id")
+      .references(() => practices.id, { onDelete: "cascade" })
+      .notNull(),
+    qboAccountId: text("qbo_account_id").notNull(),
+    name: text("name").notNull(),
+    fullyQualifiedName: text("fully_qualified_name"),
+    accountType: text("account_type").notNull(), // QBO AccountType, e.g. "Expense"
+    accountSubType: text("account_sub_type"),
+    parentQboAccountId: text("parent_qbo_account_id"),
+    isActive: boolean("is_active").default(true).notNull(),
+    role: accountRoleEnum("role"), // null = no special treatment
+    roleSource: text("role_source").default("auto").notNull(), // auto | user
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("chart_of_accounts_practice_qbo_idx").on(
+      table.practiceId,
+      table.qboAccountId
+    ),
+  ]
+);
+
 // Phase 6: Retirement planning
 export const retirementProfiles = pgTable(
   "retirement_profiles",
@@ -715,14 +1222,22 @@ export type Practice = typeof practices.$inferSelect;
 export type NewPractice = typeof practices.$inferInsert;
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type ScheduledTask = typeof scheduledTasks.$inferSelect;
+export type ScheduledTaskRun = typeof scheduledTaskRuns.$inferSelect;
 export type Categorization = typeof categorizations.$inferSelect;
 export type NewCategorization = typeof categorizations.$inferInsert;
+export type CategorizationSplit = typeof categorizationSplits.$inferSelect;
+export type NewCategorizationSplit = typeof categorizationSplits.$inferInsert;
 export type UserRule = typeof userRules.$inferSelect;
 export type NewUserRule = typeof userRules.$inferInsert;
+export type RuleSuggestion = typeof ruleSuggestions.$inferSelect;
 export type ReviewSession = typeof reviewSessions.$inferSelect;
 export type Forecast = typeof forecasts.$inferSelect;
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
+export type UserSession = typeof userSessions.$inferSelect;
 export type AuditLogEntry = typeof auditLog.$inferSelect;
 export type NewAuditLogEntry = typeof auditLog.$inferInsert;
 export type Budget = typeof budgets.$inferSelect;
@@ -731,6 +1246,8 @@ export type FinancialSnapshot = typeof financialSnapshots.$inferSelect;
 export type NewFinancialSnapshot = typeof financialSnapshots.$inferInsert;
 export type UserPractice = typeof userPractices.$inferSelect;
 export type NewUserPractice = typeof userPractices.$inferInsert;
+export type PracticeRole = typeof practiceRoles.$inferSelect;
+export type PracticeInvitation = typeof practiceInvitations.$inferSelect;
 export type IndustryConfigRow = typeof industryConfigs.$inferSelect;
 export type PlaidConnection = typeof plaidConnections.$inferSelect;
 export type PlaidAccount = typeof plaidAccounts.$inferSelect;
@@ -743,6 +1260,13 @@ export type ValuationSnapshot = typeof valuationSnapshots.$inferSelect;
 export type RoiAnalysis = typeof roiAnalyses.$inferSelect;
 export type NewRoiAnalysis = typeof roiAnalyses.$inferInsert;
 export type QboAccountMapping = typeof qboAccountMappings.$inferSelect;
+export type ChartAccount = typeof chartOfAccounts.$inferSelect;
+export type AccountRole = (typeof accountRoleEnum.enumValues)[number];
+export type ReportingBasis = (typeof reportingBasisEnum.enumValues)[number];
+export type BudgetVersion = (typeof budgetVersionEnum.enumValues)[number];
+export type TransactionMatch = typeof transactionMatches.$inferSelect;
+export type DuplicateCandidate = typeof duplicateCandidates.$inferSelect;
+export type ImportProfile = typeof importProfiles.$inferSelect;
 export type RetirementProfile = typeof retirementProfiles.$inferSelect;
 export type NewRetirementProfile = typeof retirementProfiles.$inferInsert;
 export type RetirementMilestone = typeof retirementMilestones.$inferSelect;
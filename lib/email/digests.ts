@@ -0,0 +1,242 @@
+import { db } from "@/lib/db";
+import {
+  notificationPreferences,
+  users,
+  userPractices,
+  practices,
+  transactions,
+  categorizations,
+  taxAlerts,
+  referralOpportunities,
+} from "@/lib/db/schema";
+import { eq, and, gte, sql, isNull } from "drizzle-orm";
+import { calculateProfitability } from "@/lib/finance/profitability";
+import { calculateFreeCashFlow } from "@/lib/finance/cash-flow";
+import { detectAnomalies } from "@/lib/finance/anomalies";
+import { sendEmail } from "./client";
+import { monthlyDigestEmail, weeklyInsightsEmail } from "./templates";
+
+export interface EmailBatchResult {
+  sent: number;
+  failed: number;
+  total: number;
+}
+
+async function getDefaultPractice(userId: string) {
+  const [membership] = await db
+    .select({
+      practiceId: userPractices.practiceId,
+      practiceName: practices.name,
+    })
+    .from(userPractices)
+    .innerJoin(practices, eq(practices.id, userPractices.practiceId))
+    .where(
+      and(
+        eq(userPractices.userId, userId),
+        eq(userPractices.isDefault, true)
+      )
+    )
+    .limit(1);
+  return membership ?? null;
+}
+
+export interface EmailBatchOptions {
+  // Only email subscribers whose default practice is this one
+  practiceId?: string;
+}
+
+/** Send last month's digest to every user who opted in. */
+export async function sendMonthlyDigests(
+  options: EmailBatchOptions = {}
+): Promise<EmailBatchResult> {
+  const subscribers = await db
+    .select({
+      userId: notificationPreferences.userId,
+      email: users.email,
+    })
+    .from(notificationPreferences)
+    .innerJoin(users, eq(users.id, notificationPreferences.userId))
+    .where(eq(notificationPreferences.emailMonthlyDigest, true));
+
+  let sent = 0;
+  let failed = 0;
+  let total = 0;
+
+  for (const subscriber of subscribers) {
+    try {
+      const membership = await getDefaultPractice(subscriber.userId);
+      if (!membership) continue;
+      if (options.practiceId && membership.practiceId !== options.practiceId) continue;
+      total++;
+
+      // Calculate current month and prior month date ranges
+      const now = new Date();
+      const currentMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+      const currentMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
+      const priorMonthStart = new Date(now.getFullYear(), now.getMonth() - 2, 1);
+      const priorMonthEnd = new Date(now.getFullYear(), now.getMonth() - 1, 0);
+
+      const [profitability, priorProfitability, cashFlow] = await Promise.all([
+        calculateProfitability(membership.practiceId, currentMonthStart, currentMonthEnd),
+        calculateProfitability(membership.practiceId, priorMonthStart, priorMonthEnd),
+        calculateFreeCashFlow(membership.practiceId, 1),
+      ]);
+
+      // Count active tax alerts
+      const [alertCount] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(taxAlerts)
+        .where(
+          and(
+            eq(taxAlerts.practiceId, membership.practiceId),
+            eq(taxAlerts.isDismissed, false)
+          )
+        );
+
+      // Count active referral opportunities
+      const [oppCount] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(referralOpportunities)
+        .where(
+          and(
+            eq(referralOpportunities.practiceId, membership.practiceId),
+            eq(referralOpportunities.status, "detected")
+          )
+        );
+
+      const revenueChange =
+        priorProfitability.revenue.total > 0
+          ? ((profitability.revenue.total - priorProfitability.revenue.total) /
+              priorProfitability.revenue.total) *
+            100
+          : 0;
+
+      const monthName = currentMonthStart.toLocaleString("en-US", {
+        month: "long",
+        year: "numeric",
+      });
+
+      const emailContent = monthlyDigestEmail({
+        month: monthName,
+        revenue: profitability.revenue.total,
+        expenses: profitability.operatingExpenses.total,
+        netProfit: profitability.trueNetProfit,
+        overheadRatio: profitability.overheadRatio,
+        freeCashFlow: cashFlow.combined.freeCash,
+        revenueChange,
+        taxAlertCount: alertCount?.count ?? 0,
+        opportunityCount: oppCount?.count ?? 0,
+      });
+
+      const result = await sendEmail({
+        to: subscriber.email,
+        subject: emailContent.subject,
+        html: emailContent.html,
+      });
+
+      if (result.success) sent++;
+      else failed++;
+    } catch (err) {
+      console.error(`Digest email failed for user ${subscriber.userId}:`, err);
+      failed++;
+    }
+  }
+
+  return { sent, failed, total };
+}
+
+/** Send the past week's insights to every user who opted in. */
+export async function sendWeeklyInsights(
+  options: EmailBatchOptions = {}
+): Promise<EmailBatchResult> {
+  const subscribers = await db
+    .select({
+      userId: notificationPreferences.userId,
+      email: users.email,
+    })
+    .from(notificationPreferences)
+    .innerJoin(users, eq(users.id, notificationPreferences.userId))
+    .where(eq(notificationPreferences.emailWeeklyInsights, true));
+
+  let sent = 0;
+  let failed = 0;
+  let total = 0;
+
+  for (const subscriber of subscribers) {
+    try {
+      const membership = await getDefaultPractice(subscriber.userId);
+      if (!membership) continue;
+      if (options.practiceId && membership.practiceId !== options.practiceId) continue;
+      total++;
+
+      const weekAgo = new Date();
+      weekAgo.setDate(weekAgo.getDate() - 7);
+
+      // Count transactions categorized this week
+      const [catCount] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(categorizations)
+        .innerJoin(transactions, eq(transactions.id, categorizations.transactionId))
+        .where(
+          and(
+            eq(transactions.practiceId, membership.practiceId),
+            isNull(transactions.duplicateOfId),
+            gte(categorizations.createdAt, weekAgo)
+          )
+        );
+
+      // Get cash position from cash flow module
+      const cashFlow = await calculateFreeCashFlow(membership.practiceId, 1);
+
+      // Get upcoming tax deadlines (alerts expiring in next 30 days)
+      const thirtyDaysOut = new Date();
+      thirtyDaysOut.setDate(thirtyDaysOut.getDate() + 30);
+
+      const upcomingAlerts = await db
+        .select({ title: taxAlerts.title, expiresAt: taxAlerts.expiresAt })
+        .from(taxAlerts)
+        .where(
+          and(
+            eq(taxAlerts.practiceId, membership.practiceId),
+            eq(taxAlerts.isDismissed, false),
+            gte(taxAlerts.expiresAt, new Date()),
+            sql`${taxAlerts.expiresAt} <= ${thirtyDaysOut}`
+          )
+        )
+        .limit(5);
+
+      // Spending and revenue that broke pattern, most severe first
+      const anomalies = await detectAnomalies(membership.practiceId, { recentDays: 7 });
+
+      const weekOfDate = weekAgo.toLocaleDateString("en-US", {
+        month: "long",
+        day: "numeric",
+      });
+
+      const emailContent = weeklyInsightsEmail({
+        weekOf: weekOfDate,
+        transactionsCategorized: catCount?.count ?? 0,
+        cashPosition: cashFlow.combined.freeCash,
+        upcomingDeadlines: upcomingAlerts.map(
+          (a) =>
+            `${a.title}${a.expiresAt ? ` (due ${new Date(a.expiresAt).toLocaleDateString()})` : ""}`
+        ),
+        anomalies: anomalies.slice(0, 5).map((a) => `${a.title}: ${a.description}`),
+      });
+
+      const result = await sendEmail({
+        to: subscriber.email,
+        subject: emailContent.subject,
+        html: emailContent.html,
+      });
+
+      if (result.success) sent++;
+      else failed++;
+    } catch (err) {
+      console.error(`Weekly email failed for user ${subscriber.userId}:`, err);
+      failed++;
+    }
+  }
+
+  return { sent, failed, total };
+}
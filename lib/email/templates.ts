@@ -40,7 +40,11 @@ export function inviteEmail(opts: {
   practiceName: string;
   role: string;
   acceptUrl: string;
+  expiresAt?: Date;
 }): { subject: string; html: string } {
+  const expiry = opts.expiresAt
+    ? `<p style="margin:0 0 8px;font-size:13px;color:#94a3b8;">This invitation expires on ${opts.expiresAt.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}.</p>\n`
+    : "";
   return {
     subject: `You've been invited to ${opts.practiceName} on ${APP_NAME}`,
     html: baseLayout(`
@@ -52,7 +56,7 @@ export function inviteEmail(opts: {
 Your role: <strong>${opts.role.charAt(0).toUpperCase() + opts.role.slice(1)}</strong>
 </p>
 ${button("Accept Invitation", opts.acceptUrl)}
-<p style="margin:0;font-size:13px;color:#94a3b8;">If you didn't expect this invitation, you can safely ignore this email.</p>
+${expiry}<p style="margin:0;font-size:13px;color:#94a3b8;">If you didn't expect this invitation, you can safely ignore this email.</p>
 `),
   };
 }
@@ -191,7 +195,15 @@ export function weeklyInsightsEmail(opts: {
   transactionsCategorized: number;
   cashPosition: number;
   upcomingDeadlines: string[];
+  anomalies?: string[];
 }): { subject: string; html: string } {
+  const anomalies = opts.anomalies ?? [];
+  const anomaliesHtml =
+    anomalies.length > 0
+      ? `<h4 style="margin:0 0 8px;font-size:14px;color:#0f172a;">Worth a Look:</h4>
+<ul style="margin:0 0 24px;padding-left:20px;">${anomalies.map((a) => `<li style="margin:0 0 8px;font-size:14px;color:#334155;">${a}</li>`).join("")}</ul>`
+      : "";
+
   const deadlinesHtml =
     opts.upcomingDeadlines.length > 0
       ? `<h4 style="margin:0 0 8px;font-size:14px;color:#0f172a;">Upcoming Deadlines:</h4>
@@ -215,6 +227,7 @@ export function weeklyInsightsEmail(opts: {
 </td>
 </tr>
 </table>
+${anomaliesHtml}
 ${deadlinesHtml}
 ${button("View Dashboard", APP_URL)}
 `),
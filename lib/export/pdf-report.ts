@@ -5,7 +5,12 @@ import { practices } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { calculateProfitability } from "@/lib/finance/profitability";
 import { calculateFreeCashFlow } from "@/lib/finance/cash-flow";
-import { calculateBudgetVsActual, getBudget } from "@/lib/finance/budget";
+import {
+  calculateBudgetVsActual,
+  getBudget,
+  getFiscalYearStart,
+} from "@/lib/finance/budget";
+import { fiscalPositionOf } from "@/lib/finance/budget-calendar";
 
 export async function generateMonthlyReport(
   practiceId: string,
@@ -25,11 +30,11 @@ export async function generateMonthlyReport(
   const profitability = await calculateProfitability(practiceId, startDate, endDate);
   const cashFlow = await calculateFreeCashFlow(practiceId, 12);
 
-  const year = endDate.getFullYear();
+  const { year } = fiscalPositionOf(endDate, await getFiscalYearStart(practiceId));
   const budget = await getBudget(practiceId, year);
   let budgetVsActual = null;
   if (budget) {
-    budgetVsActual = await calculateBudgetVsActual(practiceId, year);
+    budgetVsActual = await calculateBudgetVsActual(practiceId, year, endDate.getMonth() + 1);
   }
 
   const doc = new jsPDF();
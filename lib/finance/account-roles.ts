@@ -0,0 +1,161 @@
+import { db } from "@/lib/db";
+import { chartOfAccounts, type AccountRole } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { getConfigForPractice } from "@/lib/industries";
+
+export type { AccountRole };
+
+export const ACCOUNT_ROLE_LABELS: Record<AccountRole, string> = {
+  revenue: "Revenue",
+  cogs: "Cost of goods sold",
+  payroll: "Payroll",
+  rent: "Rent & occupancy",
+  operating_expense: "Operating expense",
+  debt_principal: "Debt principal",
+  interest: "Interest",
+  owner_draw: "Owner draw",
+  depreciation: "Depreciation & amortization",
+  fixed_asset: "Fixed asset purchase",
+};
+
+/** Roles that make up debt service (principal and interest payments) */
+export const DEBT_SERVICE_ROLES: AccountRole[] = ["debt_principal", "interest"];
+
+/** Outflows that aren't operating expenses on a P&L */
+export const NON_OPERATING_ROLES: AccountRole[] = ["debt_principal", "owner_draw", "fixed_asset"];
+
+// Name keywords for accounts that aren't in the imported chart (no QBO
+// connection yet, or Plaid-only practices). Checked in order; debt service
+// and owner draw patterns come from the industry config.
+const INTEREST_PATTERNS = [
+  "interest expense",
+  "loan interest",
+  "mortgage interest",
+  "finance charge",
+  "interest",
+];
+const DEPRECIATION_PATTERNS = ["depreciation", "amortization"];
+const PAYROLL_PATTERNS = ["payroll", "wages", "salaries"];
+const RENT_PATTERNS = ["rent", "lease"];
+const COGS_PATTERNS = ["cost of goods", "cogs", "lab fees"];
+
+/** Keywords anchored at a word start, so "rent" doesn't hit "current" */
+function keywordPattern(patterns: string[]): RegExp {
+  if (patterns.length === 0) return /(?!)/;
+  const escaped = patterns.map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`(^|[^a-z])(${escaped.join("|")})`);
+}
+
+const INTEREST_RE = keywordPattern(INTEREST_PATTERNS);
+const DEPRECIATION_RE = keywordPattern(DEPRECIATION_PATTERNS);
+const PAYROLL_RE = keywordPattern(PAYROLL_PATTERNS);
+const RENT_RE = keywordPattern(RENT_PATTERNS);
+const COGS_RE = keywordPattern(COGS_PATTERNS);
+
+export interface AccountRoleMap {
+  /** Role for a transaction's accountRef, or null if it has none */
+  roleOf(accountRef: string | null): AccountRole | null;
+  /** Whether the accountRef is an account in the imported chart */
+  isMapped(accountRef: string | null): boolean;
+}
+
+/**
+ * Suggested role for a QBO account from its type, subtype and name.
+ * Balance-sheet accounts other than loans, equity draws and fixed assets
+ * get no role.
+ */
+export function inferAccountRole(account: {
+  name: string;
+  accountType: string;
+  accountSubType?: string | null;
+}): AccountRole | null {
+  const name = account.name.toLowerCase();
+  const subType = account.accountSubType ?? "";
+
+  switch (account.accountType) {
+    case "Income":
+    case "Other Income":
+      return "revenue";
+    case "Cost of Goods Sold":
+      return "cogs";
+    case "Expense":
+    case "Other Expense":
+      if (subType === "PayrollExpenses" || PAYROLL_RE.test(name)) return "payroll";
+      if (subType === "RentOrLeaseOfBuildings" || RENT_RE.test(name)) return "rent";
+      if (subType === "InterestPaid" || INTEREST_RE.test(name)) return "interest";
+      if (
+        subType === "Depreciation" ||
+        subType === "Amortization" ||
+        DEPRECIATION_RE.test(name)
+      ) {
+        return "depreciation";
+      }
+      return "operating_expense";
+    case "Long Term Liability":
+    case "Other Current Liability":
+      return subType === "NotesPayable" || /loan|note|mortgage|line of credit/.test(name)
+        ? "debt_principal"
+        : null;
+    case "Equity":
+      return subType === "PartnerDistributions" ||
+        subType === "OwnersEquity" ||
+        /draw|distribution|personal/.test(name)
+        ? "owner_draw"
+        : null;
+    case "Fixed Asset":
+      return /depreciation|amortization/.test(name) ? null : "fixed_asset";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Load the practice's account roles. Accounts in the imported chart use
+ * their mapped role; anything else falls back to name keywords.
+ */
+export async function loadAccountRoles(practiceId: string): Promise<AccountRoleMap> {
+  const [accounts, config] = await Promise.all([
+    db
+      .select({
+        name: chartOfAccounts.name,
+        fullyQualifiedName: chartOfAccounts.fullyQualifiedName,
+        role: chartOfAccounts.role,
+      })
+      .from(chartOfAccounts)
+      .where(eq(chartOfAccounts.practiceId, practiceId)),
+    getConfigForPractice(practiceId),
+  ]);
+
+  const byName = new Map<string, AccountRole | null>();
+  for (const account of accounts) {
+    byName.set(account.name.toLowerCase(), account.role);
+    if (account.fullyQualifiedName) {
+      byName.set(account.fullyQualifiedName.toLowerCase(), account.role);
+    }
+  }
+
+  const ownerDrawRe = keywordPattern(config.ownerDrawPatterns.map((p) => p.toLowerCase()));
+  const debtRe = keywordPattern(config.debtServicePatterns.map((p) => p.toLowerCase()));
+
+  function fallbackRole(ref: string): AccountRole | null {
+    if (ownerDrawRe.test(ref)) return "owner_draw";
+    if (INTEREST_RE.test(ref)) return "interest";
+    if (DEPRECIATION_RE.test(ref)) return "depreciation";
+    if (debtRe.test(ref)) return "debt_principal";
+    if (PAYROLL_RE.test(ref)) return "payroll";
+    if (RENT_RE.test(ref)) return "rent";
+    if (COGS_RE.test(ref)) return "cogs";
+    return null;
+  }
+
+  return {
+    roleOf(accountRef) {
+      if (!accountRef) return null;
+      const ref = accountRef.toLowerCase();
+      return byName.has(ref) ? byName.get(ref) ?? null : fallbackRole(ref);
+    },
+    isMapped(accountRef) {
+      return !!accountRef && byName.has(accountRef.toLowerCase());
+    },
+  };
+}
@@ -0,0 +1,336 @@
+import { db } from "@/lib/db";
+import { transactions, categorizations } from "@/lib/db/schema";
+import { eq, and, gte, sql, isNull } from "drizzle-orm";
+import { getConfigForPractice } from "@/lib/industries";
+import { countsTowardCashBasis } from "@/lib/qbo/transaction-types";
+import { normalizeVendor } from "@/lib/categorization/vendors";
+import { loadTransactionMatches } from "./transaction-matches";
+
+export type AnomalyKind = "large_charge" | "new_vendor" | "revenue_drop" | "category_spike";
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  severity: "high" | "medium" | "low";
+  title: string;
+  description: string;
+  amount: number;
+  // What the pattern said to expect (vendor median, seasonal revenue, trailing average)
+  expected: number | null;
+  date: Date;
+  transactionId?: string;
+  vendor?: string;
+  accountRef?: string | null;
+}
+
+export interface AnomalyOptions {
+  asOf?: Date;
+  // Charges this recent are checked against the vendor's earlier history
+  recentDays?: number;
+  // A first-time vendor is flagged once its charges reach this much
+  newVendorThreshold?: number;
+}
+
+const DEFAULT_RECENT_DAYS = 30;
+const DEFAULT_NEW_VENDOR_THRESHOLD = 1000;
+const LOOKBACK_MONTHS = 13;
+
+// Large charge: this many times the vendor's median, and at least this much over it
+const LARGE_CHARGE_MULTIPLE = 3;
+const LARGE_CHARGE_MIN_EXCESS = 250;
+const MIN_VENDOR_HISTORY = 4;
+
+// Revenue below the seasonal expectation by this share
+const REVENUE_DROP_THRESHOLD = 0.15;
+const MIN_REVENUE_BASELINE_MONTHS = 3;
+
+// Category spend this many times its trailing average, and at least this much over
+const CATEGORY_SPIKE_MULTIPLE = 1.5;
+const CATEGORY_SPIKE_MIN_EXCESS = 500;
+const CATEGORY_TRAILING_MONTHS = 6;
+const MIN_CATEGORY_ACTIVE_MONTHS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const latestCatId = sql`(
+  SELECT c.id FROM categorizations c
+  WHERE c.transaction_id = ${transactions.id}
+  ORDER BY c.created_at DESC LIMIT 1
+)`;
+
+interface Row {
+  id: string;
+  date: Date;
+  month: string;
+  amount: number;
+  vendorKey: string;
+  vendorName: string;
+  accountRef: string | null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function monthLabel(key: string): string {
+  const [year, month] = key.split("-").map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+  });
+}
+
+function formatUsd(n: number): string {
+  return `$${Math.round(n).toLocaleString("en-US")}`;
+}
+
+/** Recent charges far above what the vendor usually bills. */
+function findLargeCharges(outflows: Row[], recentStart: Date): Anomaly[] {
+  const history = new Map<string, number[]>();
+  for (const row of outflows) {
+    if (row.date >= recentStart) continue;
+    const list = history.get(row.vendorKey) || [];
+    list.push(row.amount);
+    history.set(row.vendorKey, list);
+  }
+
+  const anomalies: Anomaly[] = [];
+  for (const row of outflows) {
+    if (row.date < recentStart) continue;
+    const past = history.get(row.vendorKey);
+    if (!past || past.length < MIN_VENDOR_HISTORY) continue;
+
+    const typical = median(past);
+    if (row.amount < typical * LARGE_CHARGE_MULTIPLE) continue;
+    if (row.amount - typical < LARGE_CHARGE_MIN_EXCESS) continue;
+
+    const multiple = row.amount / typical;
+    anomalies.push({
+      kind: "large_charge",
+      severity: multiple >= 5 || row.amount >= 5000 ? "high" : "medium",
+      title: `Unusually large charge from ${row.vendorName}`,
+      description: `${formatUsd(row.amount)} on ${row.date.toLocaleDateString("en-US")} is ${multiple.toFixed(1)}x the usual ${formatUsd(typical)}.`,
+      amount: row.amount,
+      expected: Math.round(typical * 100) / 100,
+      date: row.date,
+      transactionId: row.id,
+      vendor: row.vendorName,
+      accountRef: row.accountRef,
+    });
+  }
+  return anomalies;
+}
+
+/** Vendors first paid recently whose charges add up past the threshold. */
+function findNewVendors(outflows: Row[], recentStart: Date, threshold: number): Anomaly[] {
+  const seenBefore = new Set<string>();
+  const recent = new Map<string, Row[]>();
+  for (const row of outflows) {
+    if (row.date < recentStart) {
+      seenBefore.add(row.vendorKey);
+    } else {
+      const list = recent.get(row.vendorKey) || [];
+      list.push(row);
+      recent.set(row.vendorKey, list);
+    }
+  }
+
+  const anomalies: Anomaly[] = [];
+  for (const [vendorKey, rows] of recent) {
+    if (seenBefore.has(vendorKey)) continue;
+    const total = rows.reduce((s, r) => s + r.amount, 0);
+    if (total < threshold) continue;
+
+    const first = rows.reduce((a, b) => (a.date <= b.date ? a : b));
+    anomalies.push({
+      kind: "new_vendor",
+      severity: total >= threshold * 5 ? "high" : "low",
+      title: `New vendor: ${first.vendorName}`,
+      description: `${formatUsd(total)} across ${rows.length} charge${rows.length === 1 ? "" : "s"} since ${first.date.toLocaleDateString("en-US")}, with no history in the past year.`,
+      amount: Math.round(total * 100) / 100,
+      expected: null,
+      date: first.date,
+      transactionId: rows.length === 1 ? first.id : undefined,
+      vendor: first.vendorName,
+      accountRef: first.accountRef,
+    });
+  }
+  return anomalies;
+}
+
+/**
+ * Last month's revenue against what the trailing months predict once the
+ * industry's seasonality is taken out: each month is deseasonalized by its
+ * index, averaged, then reseasonalized for the month being checked.
+ */
+function findRevenueDrop(
+  revenueByMonth: Map<string, number>,
+  checkMonth: string,
+  seasonality: number[]
+): Anomaly | null {
+  const index = (key: string) => seasonality[Number(key.split("-")[1]) - 1] || 1;
+
+  const baseline = [...revenueByMonth.entries()]
+    .filter(([key, revenue]) => key < checkMonth && revenue > 0)
+    .sort(([a], [b]) => b.localeCompare(a))
+    .slice(0, 12)
+    .map(([key, revenue]) => revenue / index(key));
+  if (baseline.length < MIN_REVENUE_BASELINE_MONTHS) return null;
+
+  const expected = (baseline.reduce((s, r) => s + r, 0) / baseline.length) * index(checkMonth);
+  const actual = revenueByMonth.get(checkMonth) ?? 0;
+  const drop = expected > 0 ? (expected - actual) / expected : 0;
+  if (drop < REVENUE_DROP_THRESHOLD) return null;
+
+  const [year, month] = checkMonth.split("-").map(Number);
+  return {
+    kind: "revenue_drop",
+    severity: drop >= 0.3 ? "high" : "medium",
+    title: `Revenue down ${Math.round(drop * 100)}% in ${monthLabel(checkMonth)}`,
+    description: `${formatUsd(actual)} collected against ${formatUsd(expected)} expected for the season.`,
+    amount: Math.round(actual * 100) / 100,
+    expected: Math.round(expected * 100) / 100,
+    date: new Date(year, month - 1, 1),
+  };
+}
+
+/** Expense accounts whose spend last month jumped over their trailing average. */
+function findCategorySpikes(outflows: Row[], checkMonth: string): Anomaly[] {
+  const byAccount = new Map<string, Map<string, number>>();
+  for (const row of outflows) {
+    if (!row.accountRef) continue;
+    const months = byAccount.get(row.accountRef) || new Map<string, number>();
+    months.set(row.month, (months.get(row.month) ?? 0) + row.amount);
+    byAccount.set(row.accountRef, months);
+  }
+
+  const [year, month] = checkMonth.split("-").map(Number);
+  const trailing: string[] = [];
+  for (let i = 1; i <= CATEGORY_TRAILING_MONTHS; i++) {
+    trailing.push(monthKey(new Date(year, month - 1 - i, 1)));
+  }
+
+  const anomalies: Anomaly[] = [];
+  for (const [accountRef, months] of byAccount) {
+    const actual = months.get(checkMonth) ?? 0;
+    const past = trailing.map((key) => months.get(key) ?? 0);
+    if (past.filter((v) => v > 0).length < MIN_CATEGORY_ACTIVE_MONTHS) continue;
+
+    const average = past.reduce((s, v) => s + v, 0) / past.length;
+    if (actual < average * CATEGORY_SPIKE_MULTIPLE) continue;
+    if (actual - average < CATEGORY_SPIKE_MIN_EXCESS) continue;
+
+    const multiple = actual / average;
+    anomalies.push({
+      kind: "category_spike",
+      severity: multiple >= 2 ? "high" : "medium",
+      title: `${accountRef} spending up ${Math.round((multiple - 1) * 100)}%`,
+      description: `${formatUsd(actual)} in ${monthLabel(checkMonth)} against a ${CATEGORY_TRAILING_MONTHS}-month average of ${formatUsd(average)}.`,
+      amount: Math.round(actual * 100) / 100,
+      expected: Math.round(average * 100) / 100,
+      date: new Date(year, month - 1, 1),
+      accountRef,
+    });
+  }
+  return anomalies;
+}
+
+/**
+ * Flag transactions and months that break the practice's own patterns:
+ * charges far above a vendor's usual amount, sizeable first-time vendors,
+ * revenue below its seasonal expectation and expense accounts spiking over
+ * their trailing average. Month-level checks look at the last complete
+ * month. Business cash activity only; transfers and merged duplicates are
+ * left out.
+ */
+export async function detectAnomalies(
+  practiceId: string,
+  options: AnomalyOptions = {}
+): Promise<Anomaly[]> {
+  const asOf = options.asOf ?? new Date();
+  const recentDays = options.recentDays ?? DEFAULT_RECENT_DAYS;
+  const recentStart = new Date(asOf.getTime() - recentDays * DAY_MS);
+  const newVendorThreshold = options.newVendorThreshold ?? DEFAULT_NEW_VENDOR_THRESHOLD;
+
+  const startDate = new Date(asOf.getFullYear(), asOf.getMonth() - LOOKBACK_MONTHS, 1);
+  const checkMonth = monthKey(new Date(asOf.getFullYear(), asOf.getMonth() - 1, 1));
+
+  const [rows, matches, config] = await Promise.all([
+    db
+      .select({
+        id: transactions.id,
+        date: transactions.date,
+        amount: transactions.amount,
+        vendorName: transactions.vendorName,
+        description: transactions.description,
+        accountRef: transactions.accountRef,
+        qboTxnType: transactions.qboTxnType,
+        category: categorizations.category,
+      })
+      .from(transactions)
+      .leftJoin(
+        categorizations,
+        and(
+          eq(transactions.id, categorizations.transactionId),
+          eq(categorizations.id, latestCatId)
+        )
+      )
+      .where(
+        and(
+          eq(transactions.practiceId, practiceId),
+          isNull(transactions.duplicateOfId),
+          gte(transactions.date, startDate)
+        )
+      ),
+    loadTransactionMatches(practiceId),
+    getConfigForPractice(practiceId),
+  ]);
+
+  const outflows: Row[] = [];
+  const revenueByMonth = new Map<string, number>();
+
+  for (const row of rows) {
+    if (!countsTowardCashBasis(row.qboTxnType)) continue;
+    if (row.category === "personal" || matches.has(row.id)) continue;
+    if (row.date > asOf) continue;
+
+    const amount = parseFloat(row.amount);
+    const date = new Date(row.date);
+    const month = monthKey(date);
+
+    if (amount > 0) {
+      revenueByMonth.set(month, (revenueByMonth.get(month) ?? 0) + amount);
+      continue;
+    }
+
+    const vendorName = row.vendorName || row.description;
+    if (!vendorName) continue;
+    outflows.push({
+      id: row.id,
+      date,
+      month,
+      amount: Math.abs(amount),
+      vendorKey: normalizeVendor(vendorName) || vendorName.toLowerCase(),
+      vendorName,
+      accountRef: row.accountRef,
+    });
+  }
+
+  const anomalies = [
+    ...findLargeCharges(outflows, recentStart),
+    ...findNewVendors(outflows, recentStart, newVendorThreshold),
+    ...findCategorySpikes(outflows, checkMonth),
+  ];
+  const revenueDrop = findRevenueDrop(revenueByMonth, checkMonth, config.seasonality);
+  if (revenueDrop) anomalies.push(revenueDrop);
+
+  const severityOrder = { high: 0, medium: 1, low: 2 };
+  return anomalies.sort(
+    (a, b) => severityOrder[a.severity] - severityOrder[b.severity] || b.amount - a.amount
+  );
+}
@@ -0,0 +1,112 @@
+// Pure fiscal-calendar helpers shared by the budget service and the budget page
+
+export type BudgetGranularity = "month" | "quarter" | "year";
+
+export const BUDGET_GRANULARITIES: BudgetGranularity[] = ["month", "quarter", "year"];
+
+const MONTH_LABELS = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+export interface FiscalMonth {
+  year: number; // calendar year
+  month: number; // 1-12
+  key: string; // YYYY-MM
+  label: string; // "Jul 2025"
+}
+
+export interface FiscalPeriod {
+  label: string;
+  months: number[]; // indexes 0-11 into the fiscal year
+  start: string; // YYYY-MM
+  end: string;
+}
+
+/**
+ * The calendar months of a fiscal year in order. A fiscal year is named for
+ * the calendar year it starts in, so FY2025 starting in July runs Jul 2025
+ * to Jun 2026.
+ */
+export function fiscalMonths(year: number, fiscalYearStart: number): FiscalMonth[] {
+  return Array.from({ length: 12 }, (_, i) => {
+    const offset = fiscalYearStart - 1 + i;
+    const calendarYear = year + Math.floor(offset / 12);
+    const month = (offset % 12) + 1;
+    return {
+      year: calendarYear,
+      month,
+      key: `${calendarYear}-${String(month).padStart(2, "0")}`,
+      label: `${MONTH_LABELS[month - 1]} ${calendarYear}`,
+    };
+  });
+}
+
+/** The fiscal year a date falls in and its month's position (0-11) within it. */
+export function fiscalPositionOf(
+  date: Date,
+  fiscalYearStart: number
+): { year: number; index: number } {
+  const offset = date.getMonth() + 1 - fiscalYearStart;
+  return offset >= 0
+    ? { year: date.getFullYear(), index: offset }
+    : { year: date.getFullYear() - 1, index: offset + 12 };
+}
+
+/** Position (0-11) of a calendar month within any fiscal year. */
+export function fiscalIndexOfMonth(month: number, fiscalYearStart: number): number {
+  return (month - fiscalYearStart + 12) % 12;
+}
+
+/**
+ * The industry's monthly seasonality in fiscal order, scaled to average 1
+ * so spreading an annual amount by it leaves the total unchanged.
+ */
+export function fiscalSeasonality(seasonality: number[], fiscalYearStart: number): number[] {
+  const ordered = Array.from(
+    { length: 12 },
+    (_, i) => seasonality[(fiscalYearStart - 1 + i) % 12] || 1
+  );
+  const mean = ordered.reduce((s, w) => s + w, 0) / 12;
+  return ordered.map((w) => w / mean);
+}
+
+/**
+ * Split an annual amount into 12 monthly amounts by weight. Months are
+ * rounded to cents and the remainder lands in the last month, so they
+ * always add back up to the annual amount.
+ */
+export function spreadAnnual(annual: number, weights: number[]): number[] {
+  const months = weights.map((w) => Math.round((annual / 12) * w * 100) / 100);
+  const allocated = months.slice(0, 11).reduce((s, v) => s + v, 0);
+  months[11] = Math.round((annual - allocated) * 100) / 100;
+  return months;
+}
+
+export function fiscalPeriods(
+  year: number,
+  fiscalYearStart: number,
+  granularity: BudgetGranularity
+): FiscalPeriod[] {
+  const months = fiscalMonths(year, fiscalYearStart);
+  const size = granularity === "month" ? 1 : granularity === "quarter" ? 3 : 12;
+
+  const periods: FiscalPeriod[] = [];
+  for (let i = 0; i < 12; i += size) {
+    const first = months[i];
+    const last = months[i + size - 1];
+    const label =
+      granularity === "month"
+        ? first.label
+        : granularity === "quarter"
+          ? `Q${i / 3 + 1} (${MONTH_LABELS[first.month - 1]}–${last.label})`
+          : `FY${year}`;
+    periods.push({
+      label,
+      months: Array.from({ length: size }, (_, j) => i + j),
+      start: first.key,
+      end: last.key,
+    });
+  }
+  return periods;
+}
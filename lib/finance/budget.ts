@@ -3,19 +3,61 @@ import {
   transactions,
   categorizations,
   budgets,
+  practices,
+  budgetVersionEnum,
+  type BudgetVersion,
 } from "@/lib/db/schema";
-import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { eq, and, gte, lte, sql, isNull } from "drizzle-orm";
+import { expandSplitRows } from "@/lib/categorization/splits";
+import { countsTowardBasis } from "@/lib/qbo/transaction-types";
+import { getConfigForPractice } from "@/lib/industries";
+import { getReportingBasis } from "./reporting-basis";
+import { loadTransactionMatches } from "./transaction-matches";
+import {
+  fiscalMonths,
+  fiscalIndexOfMonth,
+  fiscalPeriods,
+  fiscalSeasonality,
+  spreadAnnual,
+  type BudgetGranularity,
+} from "./budget-calendar";
+
+export type { BudgetVersion };
+
+export const BUDGET_VERSIONS = budgetVersionEnum.enumValues;
+
+// Without an explicit version, reports follow the revised budget once one exists
+const ACTIVE_VERSION_ORDER: BudgetVersion[] = ["revised", "original", "stretch"];
+
+export type BudgetShape = "flat" | "seasonal";
+
+export class BudgetExistsError extends Error {
+  constructor(year: number, version: BudgetVersion) {
+    super(`A ${version} budget for FY${year} already exists`);
+    this.name = "BudgetExistsError";
+  }
+}
 
 export interface BudgetConfig {
   practiceId: string;
   year: number;
+  version: BudgetVersion;
+  fiscalYearStart: number;
   categories: Array<{
     accountRef: string;
-    monthlyTarget: number;
+    monthlyTarget: number; // average month
     annualTarget: number;
+    monthlyTargets: number[]; // fiscal month order
   }>;
 }
 
+export interface BudgetTargetInput {
+  accountRef: string;
+  monthlyTarget?: number;
+  annualTarget?: number;
+  monthlyTargets?: number[];
+}
+
 export interface BudgetVsActual {
   categories: Array<{
     accountRef: string;
@@ -32,33 +74,96 @@ export interface BudgetVsActual {
   totalVariance: number;
 }
 
+export interface BudgetPeriodVsActual {
+  label: string;
+  start: string; // YYYY-MM
+  end: string;
+  started: boolean;
+  target: number;
+  actual: number;
+  variance: number;
+  variancePercent: number;
+  status: "under" | "on_track" | "over";
+  categories: Array<{
+    accountRef: string;
+    target: number;
+    actual: number;
+    variance: number;
+  }>;
+}
+
+export interface BudgetPeriods {
+  year: number;
+  version: BudgetVersion;
+  granularity: BudgetGranularity;
+  periods: BudgetPeriodVsActual[];
+  totalTarget: number;
+  totalActual: number;
+  totalVariance: number;
+}
+
 export interface SuggestedBudget {
   categories: Array<{
     accountRef: string;
     suggested: number;
     avgMonthly: number;
+    monthlyTargets: number[];
   }>;
 }
 
+interface ExpenseTotals {
+  total: number;
+  byMonth: Map<string, number>; // YYYY-MM
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((s, v) => s + v, 0);
+}
+
+function budgetStatus(target: number, actual: number): "under" | "on_track" | "over" {
+  if (actual < target * 0.9) return "under";
+  if (actual > target * 1.1) return "over";
+  return "on_track";
+}
+
 const latestCatId = sql`(
   SELECT c.id FROM categorizations c
   WHERE c.transaction_id = ${transactions.id}
   ORDER BY c.created_at DESC LIMIT 1
 )`;
 
-export async function getSuggestedBudget(
-  practiceId: string
-): Promise<SuggestedBudget> {
-  // Get trailing 3-month averages per accountRef
-  const threeMonthsAgo = new Date();
-  threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
-  threeMonthsAgo.setDate(1);
+/**
+ * Sum expense lines by accountRef over a date range, on the practice's
+ * reporting basis. Split categorizations are expanded so each line lands on
+ * its own account, and the personal lines of a split are left out of the
+ * practice budget. Internal transfers are skipped and refunds reduce the
+ * account of the purchase they reverse.
+ */
+async function sumExpensesByAccount(
+  practiceId: string,
+  start: Date,
+  end?: Date
+): Promise<Map<string, ExpenseTotals>> {
+  const conditions = [
+    eq(transactions.practiceId, practiceId),
+    isNull(transactions.duplicateOfId),
+    gte(transactions.date, start),
+  ];
+  if (end) conditions.push(lte(transactions.date, end));
 
-  const rows = await db
+  const txnRows = await db
     .select({
+      id: transactions.id,
+      categorizationId: categorizations.id,
+      amount: transactions.amount,
       accountRef: transactions.accountRef,
-      total: sql<string>`sum(abs(${transactions.amount}::numeric))`,
-      months: sql<number>`count(distinct to_char(${transactions.date}, 'YYYY-MM'))::int`,
+      qboTxnType: transactions.qboTxnType,
+      category: categorizations.category,
+      month: sql<string>`to_char(${transactions.date}, 'YYYY-MM')`,
     })
     .from(transactions)
     .leftJoin(
@@ -68,25 +173,102 @@ export async function getSuggestedBudget(
         eq(categorizations.id, latestCatId)
       )
     )
-    .where(
-      and(
-        eq(transactions.practiceId, practiceId),
-        gte(transactions.date, threeMonthsAgo),
-        sql`${transactions.amount}::numeric < 0` // expenses only
-      )
-    )
-    .groupBy(transactions.accountRef);
+    .where(and(...conditions));
+
+  const [lines, basis, matches] = await Promise.all([
+    expandSplitRows(txnRows),
+    getReportingBasis(practiceId),
+    loadTransactionMatches(practiceId),
+  ]);
+
+  // Each transaction appears once per line, so a repeated ID marks a split
+  const lineCounts = new Map<string, number>();
+  for (const line of lines) {
+    if (line.categorizationId) {
+      lineCounts.set(line.categorizationId, (lineCounts.get(line.categorizationId) || 0) + 1);
+    }
+  }
 
-  const categories = rows
-    .filter((r) => r.accountRef)
-    .map((r) => {
-      const total = parseFloat(r.total);
-      const monthCount = r.months || 1;
+  const totals = new Map<string, ExpenseTotals>();
+  for (const line of lines) {
+    if (!countsTowardBasis(line.qboTxnType, basis)) continue;
+    const match = matches.get(line.id);
+    if (match?.kind === "transfer") continue;
+
+    const amount = parseFloat(line.amount);
+    const isRefund = match?.kind === "refund" && match.side === "inflow";
+    const accountRef = isRefund ? match.counterpartAccountRef : line.accountRef;
+    if ((amount >= 0 && !isRefund) || !accountRef) continue; // expenses only
+    const isSplitLine =
+      !!line.categorizationId && (lineCounts.get(line.categorizationId) || 0) > 1;
+    if (isSplitLine && line.category === "personal") continue;
+
+    // Refunds are positive, so they come off the account's spend
+    const entry = totals.get(accountRef) || { total: 0, byMonth: new Map<string, number>() };
+    entry.total -= amount;
+    entry.byMonth.set(line.month, (entry.byMonth.get(line.month) || 0) - amount);
+    totals.set(accountRef, entry);
+  }
+  return totals;
+}
+
+export async function getFiscalYearStart(practiceId: string): Promise<number> {
+  const [practice] = await db
+    .select({ fiscalYearStart: practices.fiscalYearStart })
+    .from(practices)
+    .where(eq(practices.id, practiceId))
+    .limit(1);
+  return practice?.fiscalYearStart ?? 1;
+}
+
+/** Fiscal year start and the industry's seasonal weights in fiscal month order. */
+export async function getBudgetCalendar(
+  practiceId: string
+): Promise<{ fiscalYearStart: number; seasonality: number[] }> {
+  const [fiscalYearStart, config] = await Promise.all([
+    getFiscalYearStart(practiceId),
+    getConfigForPractice(practiceId),
+  ]);
+  return {
+    fiscalYearStart,
+    seasonality: fiscalSeasonality(config.seasonality, fiscalYearStart),
+  };
+}
+
+/**
+ * Suggested targets from the trailing 3 months. Those months are
+ * deseasonalized before averaging, so starting a budget after a busy
+ * quarter doesn't inflate the whole year, then the baseline is spread back
+ * over the fiscal year by the industry's seasonality.
+ */
+export async function getSuggestedBudget(
+  practiceId: string
+): Promise<SuggestedBudget> {
+  const threeMonthsAgo = new Date();
+  threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
+  threeMonthsAgo.setDate(1);
+
+  const [totals, config, fiscalYearStart] = await Promise.all([
+    sumExpensesByAccount(practiceId, threeMonthsAgo),
+    getConfigForPractice(practiceId),
+    getFiscalYearStart(practiceId),
+  ]);
+  const calendarWeights = fiscalSeasonality(config.seasonality, 1);
+  const fiscalWeights = fiscalSeasonality(config.seasonality, fiscalYearStart);
+
+  const categories = Array.from(totals.entries())
+    .map(([accountRef, { total, byMonth }]) => {
+      const monthCount = byMonth.size || 1;
       const avgMonthly = total / monthCount;
+      const seasonalMonths =
+        sum([...byMonth.keys()].map((key) => calendarWeights[Number(key.split("-")[1]) - 1])) ||
+        1;
+      const baseline = total / seasonalMonths;
       return {
-        accountRef: r.accountRef!,
-        suggested: Math.round(avgMonthly * 100) / 100,
-        avgMonthly: Math.round(avgMonthly * 100) / 100,
+        accountRef,
+        suggested: round2(baseline),
+        avgMonthly: round2(avgMonthly),
+        monthlyTargets: spreadAnnual(baseline * 12, fiscalWeights),
       };
     })
     .sort((a, b) => b.suggested - a.suggested);
@@ -94,35 +276,84 @@ export async function getSuggestedBudget(
   return { categories };
 }
 
-export async function getBudget(
+/** Versions saved for a fiscal year, in BUDGET_VERSIONS order. */
+export async function listBudgetVersions(
   practiceId: string,
   year: number
-): Promise<BudgetConfig | null> {
+): Promise<BudgetVersion[]> {
   const rows = await db
-    .select()
+    .selectDistinct({ version: budgets.version })
     .from(budgets)
     .where(and(eq(budgets.practiceId, practiceId), eq(budgets.year, year)));
+  return BUDGET_VERSIONS.filter((v) => rows.some((r) => r.version === v));
+}
 
-  if (rows.length === 0) return null;
+/**
+ * A fiscal year's budget. With no version, the active one: revised if it
+ * exists, otherwise original.
+ */
+export async function getBudget(
+  practiceId: string,
+  year: number,
+  version?: BudgetVersion
+): Promise<BudgetConfig | null> {
+  const [rows, fiscalYearStart] = await Promise.all([
+    db
+      .select()
+      .from(budgets)
+      .where(and(eq(budgets.practiceId, practiceId), eq(budgets.year, year))),
+    getFiscalYearStart(practiceId),
+  ]);
+
+  const chosen = version ?? ACTIVE_VERSION_ORDER.find((v) => rows.some((r) => r.version === v));
+  const versionRows = rows.filter((r) => r.version === chosen);
+  if (!chosen || versionRows.length === 0) return null;
 
   return {
     practiceId,
     year,
-    categories: rows.map((r) => ({
-      accountRef: r.accountRef,
-      monthlyTarget: parseFloat(r.monthlyTarget),
-      annualTarget: parseFloat(r.monthlyTarget) * 12,
-    })),
+    version: chosen,
+    fiscalYearStart,
+    categories: versionRows.map((r) => {
+      // Rows saved before monthly targets were stored are flat
+      const monthlyTargets =
+        r.monthlyTargets ?? Array<number>(12).fill(parseFloat(r.monthlyTarget));
+      const annualTarget = sum(monthlyTargets);
+      return {
+        accountRef: r.accountRef,
+        monthlyTarget: round2(annualTarget / 12),
+        annualTarget: round2(annualTarget),
+        monthlyTargets,
+      };
+    }),
   };
 }
 
+/**
+ * Upsert targets for one version of a fiscal year. Each category can give
+ * its 12 monthly targets directly; otherwise its annual target (or monthly
+ * target × 12) is spread evenly, or by seasonality when `shape` is
+ * "seasonal".
+ */
 export async function saveBudget(
   practiceId: string,
   year: number,
-  categories: Array<{ accountRef: string; monthlyTarget: number }>
+  categories: BudgetTargetInput[],
+  options: { version?: BudgetVersion; shape?: BudgetShape } = {}
 ): Promise<void> {
-  // Upsert budget entries
+  const version = options.version ?? "original";
+  const weights =
+    options.shape === "seasonal"
+      ? (await getBudgetCalendar(practiceId)).seasonality
+      : Array<number>(12).fill(1);
+
   for (const cat of categories) {
+    const monthlyTargets =
+      cat.monthlyTargets?.length === 12
+        ? cat.monthlyTargets.map(round2)
+        : spreadAnnual(cat.annualTarget ?? (cat.monthlyTarget ?? 0) * 12, weights);
+    const monthlyTarget = String(round2(sum(monthlyTargets) / 12));
+
     const existing = await db
       .select({ id: budgets.id })
       .from(budgets)
@@ -130,6 +361,7 @@ export async function saveBudget(
         and(
           eq(budgets.practiceId, practiceId),
           eq(budgets.year, year),
+          eq(budgets.version, version),
           eq(budgets.accountRef, cat.accountRef)
         )
       )
@@ -138,28 +370,122 @@ export async function saveBudget(
     if (existing.length > 0) {
       await db
         .update(budgets)
-        .set({
-          monthlyTarget: String(cat.monthlyTarget),
-          updatedAt: new Date(),
-        })
+        .set({ monthlyTarget, monthlyTargets, updatedAt: new Date() })
         .where(eq(budgets.id, existing[0].id));
     } else {
       await db.insert(budgets).values({
         practiceId,
         year,
+        version,
         accountRef: cat.accountRef,
-        monthlyTarget: String(cat.monthlyTarget),
+        monthlyTarget,
+        monthlyTargets,
       });
     }
   }
 }
 
+/** Delete one version of a fiscal year's budget; returns how many targets went. */
+export async function deleteBudget(
+  practiceId: string,
+  year: number,
+  version: BudgetVersion
+): Promise<number> {
+  const deleted = await db
+    .delete(budgets)
+    .where(
+      and(
+        eq(budgets.practiceId, practiceId),
+        eq(budgets.year, year),
+        eq(budgets.version, version)
+      )
+    )
+    .returning({ id: budgets.id });
+  return deleted.length;
+}
+
+/**
+ * Copy a budget into another year or version, scaling every month by
+ * `growthPercent`. Months are copied by fiscal position, so the source's
+ * seasonal shape carries over. Returns null when the source doesn't exist;
+ * throws BudgetExistsError if the target does and `overwrite` isn't set.
+ */
+export async function copyBudget(
+  practiceId: string,
+  options: {
+    fromYear: number;
+    fromVersion: BudgetVersion;
+    toYear: number;
+    toVersion: BudgetVersion;
+    growthPercent?: number;
+    overwrite?: boolean;
+  }
+): Promise<BudgetConfig | null> {
+  const source = await getBudget(practiceId, options.fromYear, options.fromVersion);
+  if (!source) return null;
+
+  const factor = 1 + (options.growthPercent ?? 0) / 100;
+  const target = and(
+    eq(budgets.practiceId, practiceId),
+    eq(budgets.year, options.toYear),
+    eq(budgets.version, options.toVersion)
+  );
+
+  await db.transaction(async (tx) => {
+    const [existing] = await tx.select({ id: budgets.id }).from(budgets).where(target).limit(1);
+    if (existing) {
+      if (!options.overwrite) throw new BudgetExistsError(options.toYear, options.toVersion);
+      await tx.delete(budgets).where(target);
+    }
+
+    await tx.insert(budgets).values(
+      source.categories.map((cat) => {
+        const monthlyTargets = cat.monthlyTargets.map((v) => round2(v * factor));
+        return {
+          practiceId,
+          year: options.toYear,
+          version: options.toVersion,
+          accountRef: cat.accountRef,
+          monthlyTarget: String(round2(sum(monthlyTargets) / 12)),
+          monthlyTargets,
+        };
+      })
+    );
+  });
+
+  return getBudget(practiceId, options.toYear, options.toVersion);
+}
+
+// Actuals from the start of a fiscal year through its month at `throughIndex`
+async function fiscalYearActuals(
+  practiceId: string,
+  year: number,
+  fiscalYearStart: number,
+  throughIndex = 11
+) {
+  const months = fiscalMonths(year, fiscalYearStart);
+  const first = months[0];
+  const last = months[throughIndex];
+  const totals = await sumExpensesByAccount(
+    practiceId,
+    new Date(first.year, first.month - 1, 1),
+    new Date(last.year, last.month, 0, 23, 59, 59)
+  );
+  return { months, totals };
+}
+
+/**
+ * One month's budget vs actual, with fiscal year-to-date. `month` is a
+ * calendar month (1-12) within the fiscal year, defaulting to the current
+ * one.
+ */
 export async function calculateBudgetVsActual(
   practiceId: string,
   year: number,
-  month?: number
+  month?: number,
+  version?: BudgetVersion
 ): Promise<BudgetVsActual> {
-  const budget = await getBudget(practiceId, year);
+  const budget = await getBudget(practiceId, year, version);
   if (!budget) {
     return {
       categories: [],
@@ -169,89 +495,108 @@ export async function calculateBudgetVsActual(
     };
   }
 
-  // Current month or specified month
+  // Current month or specified month, as a position in the fiscal year
   const targetMonth = month || new Date().getMonth() + 1;
-  const monthStart = new Date(year, targetMonth - 1, 1);
-  const monthEnd = new Date(year, targetMonth, 0, 23, 59, 59);
-  const yearStart = new Date(year, 0, 1);
-
-  // Get actuals grouped by accountRef for the month
-  const monthActuals = await db
-    .select({
-      accountRef: transactions.accountRef,
-      total: sql<string>`sum(abs(${transactions.amount}::numeric))`,
-    })
-    .from(transactions)
-    .where(
-      and(
-        eq(transactions.practiceId, practiceId),
-        gte(transactions.date, monthStart),
-        lte(transactions.date, monthEnd),
-        sql`${transactions.amount}::numeric < 0`
-      )
-    )
-    .groupBy(transactions.accountRef);
-
-  // YTD actuals
-  const ytdActuals = await db
-    .select({
-      accountRef: transactions.accountRef,
-      total: sql<string>`sum(abs(${transactions.amount}::numeric))`,
-    })
-    .from(transactions)
-    .where(
-      and(
-        eq(transactions.practiceId, practiceId),
-        gte(transactions.date, yearStart),
-        lte(transactions.date, monthEnd),
-        sql`${transactions.amount}::numeric < 0`
-      )
-    )
-    .groupBy(transactions.accountRef);
-
-  const monthMap = new Map(
-    monthActuals.map((r) => [r.accountRef, parseFloat(r.total)])
-  );
-  const ytdMap = new Map(
-    ytdActuals.map((r) => [r.accountRef, parseFloat(r.total)])
+  const index = fiscalIndexOfMonth(targetMonth, budget.fiscalYearStart);
+  const { months, totals } = await fiscalYearActuals(
+    practiceId,
+    year,
+    budget.fiscalYearStart,
+    index
   );
+  const monthKey = months[index].key;
 
   let totalTarget = 0;
   let totalActual = 0;
 
   const categories = budget.categories.map((cat) => {
-    const monthlyActual = monthMap.get(cat.accountRef) || 0;
-    const ytdActual = ytdMap.get(cat.accountRef) || 0;
-    const ytdTarget = cat.monthlyTarget * targetMonth;
-    const variance = cat.monthlyTarget - monthlyActual;
+    const actuals = totals.get(cat.accountRef);
+    const monthlyTarget = cat.monthlyTargets[index];
+    const monthlyActual = actuals?.byMonth.get(monthKey) || 0;
+    const ytdActual = actuals?.total || 0;
+    const ytdTarget = sum(cat.monthlyTargets.slice(0, index + 1));
+    const variance = monthlyTarget - monthlyActual;
     const variancePercent =
-      cat.monthlyTarget > 0
-        ? ((cat.monthlyTarget - monthlyActual) / cat.monthlyTarget) * 100
-        : 0;
-
-    let status: "under" | "on_track" | "over" = "on_track";
-    if (monthlyActual < cat.monthlyTarget * 0.9) status = "under";
-    else if (monthlyActual > cat.monthlyTarget * 1.1) status = "over";
+      monthlyTarget > 0 ? ((monthlyTarget - monthlyActual) / monthlyTarget) * 100 : 0;
 
-    totalTarget += cat.monthlyTarget;
+    totalTarget += monthlyTarget;
     totalActual += monthlyActual;
 
     return {
       accountRef: cat.accountRef,
-      monthlyTarget: cat.monthlyTarget,
-      monthlyActual: Math.round(monthlyActual * 100) / 100,
-      ytdTarget: Math.round(ytdTarget * 100) / 100,
-      ytdActual: Math.round(ytdActual * 100) / 100,
-      variance: Math.round(variance * 100) / 100,
+      monthlyTarget,
+      monthlyActual: round2(monthlyActual),
+      ytdTarget: round2(ytdTarget),
+      ytdActual: round2(ytdActual),
+      variance: round2(variance),
       variancePercent: Math.round(variancePercent * 10) / 10,
-      status,
+      status: budgetStatus(monthlyTarget, monthlyActual),
     };
   });
 
   return {
     categories,
-    totalTarget: Math.round(totalTarget * 100) / 100,
-    totalActual: Math.round(totalActual * 100) / 100,
-    totalVariance: Math.round((totalTarget - totalActual) * 100) / 100,
+    totalTarget: round2(totalTarget),
+    totalActual: round2(totalActual),
+    totalVariance: round2(totalTarget - totalActual),
+  };
+}
+
+/** Budget vs actual for each month or quarter of a fiscal year, or the year as a whole. */
+export async function calculateBudgetPeriods(
+  practiceId: string,
+  year: number,
+  granularity: BudgetGranularity,
+  version?: BudgetVersion
+): Promise<BudgetPeriods | null> {
+  const budget = await getBudget(practiceId, year, version);
+  if (!budget) return null;
+
+  const { months, totals } = await fiscalYearActuals(practiceId, year, budget.fiscalYearStart);
+  const now = new Date();
+  const currentKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+
+  const periods = fiscalPeriods(year, budget.fiscalYearStart, granularity).map((period) => {
+    let target = 0;
+    let actual = 0;
+
+    const categories = budget.categories.map((cat) => {
+      const byMonth = totals.get(cat.accountRef)?.byMonth;
+      const catTarget = sum(period.months.map((i) => cat.monthlyTargets[i]));
+      const catActual = sum(period.months.map((i) => byMonth?.get(months[i].key) || 0));
+      target += catTarget;
+      actual += catActual;
+      return {
+        accountRef: cat.accountRef,
+        target: round2(catTarget),
+        actual: round2(catActual),
+        variance: round2(catTarget - catActual),
+      };
+    });
+
+    return {
+      label: period.label,
+      start: period.start,
+      end: period.end,
+      started: period.start <= currentKey,
+      target: round2(target),
+      actual: round2(actual),
+      variance: round2(target - actual),
+      variancePercent: target > 0 ? Math.round(((target - actual) / target) * 1000) / 10 : 0,
+      status: budgetStatus(target, actual),
+      categories,
+    };
+  });
+
+  const totalTarget = sum(periods.map((p) => p.target));
+  const totalActual = sum(periods.map((p) => p.actual));
+  return {
+    year,
+    version: budget.version,
+    granularity,
+    periods,
+    totalTarget: round2(totalTarget),
+    totalActual: round2(totalActual),
+    totalVariance: round2(totalTarget - totalActual),
   };
 }
@@ -1,7 +1,10 @@
 import { db } from "@/lib/db";
 import { transactions, categorizations, practices } from "@/lib/db/schema";
-import { eq, and, gte, sql } from "drizzle-orm";
-import { getConfigForPractice } from "@/lib/industries";
+import { eq, and, gte, sql, isNull } from "drizzle-orm";
+import { countsTowardCashBasis } from "@/lib/qbo/transaction-types";
+import { expandSplitRows } from "@/lib/categorization/splits";
+import { loadAccountRoles, DEBT_SERVICE_ROLES } from "./account-roles";
+import { loadTransactionMatches } from "./transaction-matches";
 
 export interface FreeCashFlowReport {
   period: { start: Date; end: Date };
@@ -32,42 +35,6 @@ export interface MonthlyFreeCash {
   combinedFreeCash: number;
 }
 
-const DEBT_SERVICE_PATTERNS = [
-  "loan payment",
-  "note payable",
-  "loan interest",
-  "equipment loan",
-  "practice loan",
-  "mortgage",
-  "line of credit",
-];
-
-const OWNER_DRAW_PATTERNS = [
-  "owner's draw",
-  "owner's personal",
-  "distributions",
-  "owner salary",
-  "owner draw",
-];
-
-function isDebtService(
-  accountRef: string | null,
-  patterns: string[] = DEBT_SERVICE_PATTERNS
-): boolean {
-  if (!accountRef) return false;
-  const lower = accountRef.toLowerCase();
-  return patterns.some((p) => lower.includes(p));
-}
-
-function isOwnerDraw(
-  accountRef: string | null,
-  patterns: string[] = OWNER_DRAW_PATTERNS
-): boolean {
-  if (!accountRef) return false;
-  const lower = accountRef.toLowerCase();
-  return patterns.some((p) => lower.includes(p));
-}
-
 const latestCatId = sql`(
   SELECT c.id FROM categorizations c
   WHERE c.transaction_id = ${transactions.id}
@@ -84,10 +51,11 @@ export async function calculateFreeCashFlow(
   startDate.setHours(0, 0, 0, 0);
   const endDate = new Date();
 
-  // Load industry config for debt service and owner draw patterns
-  const industryConfig = await getConfigForPractice(practiceId);
-  const debtPatterns = industryConfig.debtServicePatterns;
-  const drawPatterns = industryConfig.ownerDrawPatterns;
+  // Debt service and owner draws are identified by chart-of-accounts role
+  const [roles, matches] = await Promise.all([
+    loadAccountRoles(practiceId),
+    loadTransactionMatches(practiceId),
+  ]);
 
   // Get practice reserve threshold
   const [practice] = await db
@@ -101,10 +69,13 @@ export async function calculateFreeCashFlow(
     : 10000;
 
   // Get all transactions with categorizations
-  const rows = await db
+  const txnRows = await db
     .select({
+      id: transactions.id,
+      categorizationId: categorizations.id,
       amount: transactions.amount,
       accountRef: transactions.accountRef,
+      qboTxnType: transactions.qboTxnType,
       category: categorizations.category,
       month: sql<string>`to_char(${transactions.date}, 'YYYY-MM')`,
     })
@@ -119,10 +90,14 @@ export async function calculateFreeCashFlow(
     .where(
       and(
         eq(transactions.practiceId, practiceId),
+        isNull(transactions.duplicateOfId),
         gte(transactions.date, startDate)
       )
     );
 
+  // Split categorizations contribute one row per line
+  const rows = await expandSplitRows(txnRows);
+
   // Monthly aggregation
   const monthlyMap = new Map<
     string,
@@ -143,8 +118,18 @@ export async function calculateFreeCashFlow(
   let totalPersonalExpenses = 0;
 
   for (const row of rows) {
+    // Cash basis: bills count when paid, transfers between own accounts never
+    if (!countsTowardCashBasis(row.qboTxnType)) continue;
+
+    // Money moving between the practice's own accounts nets to zero
+    const match = matches.get(row.id);
+    if (match?.kind === "transfer") continue;
+
+    // A refund is negative spend on the purchase's account, not income
+    const isRefund = match?.kind === "refund" && match.side === "inflow";
     const amount = parseFloat(row.amount);
     const month = row.month;
+    const role = roles.roleOf(isRefund ? match.counterpartAccountRef : row.accountRef);
 
     if (!monthlyMap.has(month)) {
       monthlyMap.set(month, {
@@ -158,7 +143,10 @@ export async function calculateFreeCashFlow(
     const m = monthlyMap.get(month)!;
 
     if (row.category === "personal") {
-      if (amount > 0 || isOwnerDraw(row.accountRef, drawPatterns)) {
+      if (isRefund) {
+        m.personalExpenses -= amount;
+        totalPersonalExpenses -= amount;
+      } else if (amount > 0 || role === "owner_draw") {
         // Personal income (owner draws are positive from personal perspective)
         const inc = Math.abs(amount);
         m.personalIncome += inc;
@@ -170,21 +158,22 @@ export async function calculateFreeCashFlow(
       }
     } else {
       // Business (including uncategorized defaulting to business)
-      if (amount > 0) {
+      if (amount > 0 && !isRefund) {
         m.bizRevenue += amount;
         totalBizRevenue += amount;
       } else {
-        const absAmt = Math.abs(amount);
-        if (isDebtService(row.accountRef, debtPatterns)) {
-          m.debtService += absAmt;
-          totalDebtService += absAmt;
-        } else if (isOwnerDraw(row.accountRef, drawPatterns)) {
+        // Outflows are negative; a refund's positive amount lands as negative spend
+        const spent = -amount;
+        if (role && DEBT_SERVICE_ROLES.includes(role)) {
+          m.debtService += spent;
+          totalDebtService += spent;
+        } else if (role === "owner_draw") {
           // Owner draws are personal income from business
-          m.personalIncome += absAmt;
-          totalPersonalIncome += absAmt;
+          m.personalIncome += spent;
+          totalPersonalIncome += spent;
         } else {
-          m.bizExpenses += absAmt;
-          totalBizExpenses += absAmt;
+          m.bizExpenses += spent;
+          totalBizExpenses += spent;
         }
       }
     }
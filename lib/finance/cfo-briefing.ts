@@ -2,15 +2,17 @@ import { db } from "@/lib/db";
 import {
   taxAlerts,
   referralOpportunities,
-  budgets,
   transactions,
   retirementProfiles,
 } from "@/lib/db/schema";
-import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { eq, and, gte, lte, sql, isNull } from "drizzle-orm";
 import { calculateProfitability } from "./profitability";
 import { calculateFreeCashFlow } from "./cash-flow";
 import { getAnnualDebtService } from "./loans";
 import { calculateValuation } from "./valuation";
+import { detectAnomalies, type Anomaly } from "./anomalies";
+import { getBudget, getFiscalYearStart } from "./budget";
+import { fiscalPositionOf } from "./budget-calendar";
 
 export interface CFOBriefing {
   headline: {
@@ -43,6 +45,7 @@ export interface CFOBriefing {
     taxAlerts: number;
     referralOpportunities: number;
     budgetOverages: number;
+    anomalies: number;
   };
 }
 
@@ -192,22 +195,13 @@ export async function generateCFOBriefing(
   // 8. Count budget overages
   let budgetOverages = 0;
   try {
-    const currentYear = now.getFullYear();
     const currentMonth = now.getMonth() + 1;
-    const monthStart = new Date(currentYear, currentMonth - 1, 1);
-    const monthEnd = new Date(currentYear, currentMonth, 0, 23, 59, 59);
+    const monthStart = new Date(now.getFullYear(), currentMonth - 1, 1);
+    const monthEnd = new Date(now.getFullYear(), currentMonth, 0, 23, 59, 59);
+    const fiscal = fiscalPositionOf(now, await getFiscalYearStart(practiceId));
+    const budget = await getBudget(practiceId, fiscal.year);
 
-    const budgetRows = await db
-      .select({
-        accountRef: budgets.accountRef,
-        monthlyTarget: budgets.monthlyTarget,
-      })
-      .from(budgets)
-      .where(
-        and(eq(budgets.practiceId, practiceId), eq(budgets.year, currentYear))
-      );
-
-    if (budgetRows.length > 0) {
+    if (budget) {
       const actuals = await db
         .select({
           accountRef: transactions.accountRef,
@@ -217,6 +211,7 @@ export async function generateCFOBriefing(
         .where(
           and(
             eq(transactions.practiceId, practiceId),
+            isNull(transactions.duplicateOfId),
             gte(transactions.date, monthStart),
             lte(transactions.date, monthEnd),
             sql`${transactions.amount}::numeric < 0`
@@ -228,9 +223,9 @@ export async function generateCFOBriefing(
         actuals.map((r) => [r.accountRef, parseFloat(r.total)])
       );
 
-      for (const b of budgetRows) {
+      for (const b of budget.categories) {
         const actual = actualMap.get(b.accountRef) ?? 0;
-        const target = parseFloat(b.monthlyTarget);
+        const target = b.monthlyTargets[fiscal.index];
         if (actual > target * 1.1) {
           budgetOverages++;
         }
@@ -240,9 +235,40 @@ export async function generateCFOBriefing(
     budgetOverages = 0;
   }
 
-  // 9. Generate action items by priority
+  // 9. Spending and revenue that break pattern
+  let anomalies: Anomaly[] = [];
+  try {
+    anomalies = await detectAnomalies(practiceId, { asOf: now });
+  } catch {
+    anomalies = [];
+  }
+
+  // 10. Generate action items by priority
   const actionItems: CFOBriefing["actionItems"] = [];
 
+  // The worst anomaly gets its own item; the rest are summarized in one
+  if (anomalies.length > 0) {
+    const [top, ...rest] = anomalies;
+    actionItems.push({
+      icon: top.kind === "revenue_drop" ? "TrendingDown" : "AlertTriangle",
+      title: top.title,
+      description: top.description,
+      urgency: top.severity,
+      link: "/finance/anomalies",
+      source: "anomalies",
+    });
+    if (rest.length > 0) {
+      actionItems.push({
+        icon: "AlertTriangle",
+        title: `${rest.length} More Unusual Item${rest.length > 1 ? "s" : ""}`,
+        description: `${rest.slice(0, 2).map((a) => a.title).join("; ")}${rest.length > 2 ? "…" : "."}`,
+        urgency: rest.some((a) => a.severity === "high") ? "medium" : "low",
+        link: "/finance/anomalies",
+        source: "anomalies",
+      });
+    }
+  }
+
   if (taxAlertCount > 0) {
     actionItems.push({
       icon: "FileText",
@@ -341,6 +367,7 @@ export async function generateCFOBriefing(
       taxAlerts: taxAlertCount,
       referralOpportunities: referralCount,
       budgetOverages,
+      anomalies: anomalies.length,
     },
   };
 }
@@ -77,12 +77,21 @@ export async function calculateDebtCapacity(
     endDate
   );
 
-  const annualNOI = profitability.netOperatingIncome;
+  // Interest is a financing cost, so add it back to get NOI before debt service
+  const interestPaid = profitability.outflowsByRole.interest ?? 0;
+  const annualNOI = profitability.netOperatingIncome + interestPaid;
   const annualRevenue = profitability.revenue.total;
   const annualExpenses = profitability.operatingExpenses.total;
 
-  // Get actual annual debt service from loans table
-  const annualDebtService = await getAnnualDebtService(practiceId);
+  // Get actual annual debt service from loans table, falling back to the
+  // principal and interest actually paid when no loans are recorded
+  const scheduledDebtService = await getAnnualDebtService(practiceId);
+  const annualDebtService =
+    scheduledDebtService > 0
+      ? scheduledDebtService
+      : Math.round(
+          ((profitability.outflowsByRole.debt_principal ?? 0) + interestPaid) * 100
+        ) / 100;
 
   // Calculate DSCR
   const currentDSCR =
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { pairDuplicates, type DuplicateMatchable } from "./duplicates";
+
+let nextId = 0;
+function txn(overrides: Partial<DuplicateMatchable>): DuplicateMatchable {
+  return {
+    id: `t${++nextId}`,
+    source: "qbo",
+    date: new Date("2026-03-10"),
+    amount: "-45.00",
+    qboTxnType: "Purchase",
+    plaidAccountId: null,
+    accountRef: null,
+    vendorName: "Henry Schein",
+    description: null,
+    ...overrides,
+  };
+}
+
+const bank = (overrides: Partial<DuplicateMatchable> = {}) =>
+  txn({ source: "plaid", qboTxnType: null, plaidAccountId: "chk", ...overrides });
+
+describe("pairDuplicates", () => {
+  it("pairs a QBO entry with its bank copy and keeps the QBO one", () => {
+    const books = txn({});
+    const feed = bank({ date: new Date("2026-03-11"), vendorName: "HENRY SCHEIN #4821" });
+
+    expect(pairDuplicates([feed, books])).toEqual([
+      {
+        transactionId: books.id,
+        duplicateTransactionId: feed.id,
+        score: 93,
+        reasons: ["Same amount", "1 day apart", "Same vendor", "Different sources"],
+      },
+    ]);
+  });
+
+  it("accepts amounts within a percent", () => {
+    const [pair] = pairDuplicates([txn({ amount: "-100.00" }), bank({ amount: "-100.50" })]);
+    expect(pair.reasons).toContain("Amounts within $0.50");
+    expect(pairDuplicates([txn({ amount: "-100.00" }), bank({ amount: "-101.50" })])).toEqual([]);
+  });
+
+  it("doesn't pair different payees, opposite signs or dates outside the window", () => {
+    expect(pairDuplicates([txn({}), bank({ vendorName: "Patterson Dental" })])).toEqual([]);
+    expect(pairDuplicates([txn({}), bank({ amount: "45.00" })])).toEqual([]);
+    expect(pairDuplicates([txn({}), bank({ date: new Date("2026-03-14") })])).toEqual([]);
+    expect(
+      pairDuplicates([txn({}), bank({ date: new Date("2026-03-14") })], { windowDays: 5 })
+    ).toHaveLength(1);
+  });
+
+  it("never pairs two QBO documents", () => {
+    expect(pairDuplicates([txn({ qboTxnType: "BillPayment" }), txn({})])).toEqual([]);
+  });
+
+  it("pairs bank rows only within one account", () => {
+    expect(pairDuplicates([bank(), bank({ plaidAccountId: "card" })])).toEqual([]);
+    expect(pairDuplicates([bank(), bank()])).toHaveLength(1);
+  });
+
+  it("pairs imported rows only within one statement account", () => {
+    const file = (accountRef: string) => txn({ source: "file", qboTxnType: null, accountRef });
+    expect(pairDuplicates([file("Checking"), file("Amex")])).toEqual([]);
+    expect(pairDuplicates([file("Checking"), file("Checking")])).toHaveLength(1);
+  });
+
+  it("skips unpaid bills, which get a cash copy of their own", () => {
+    expect(pairDuplicates([txn({ qboTxnType: "Bill" }), bank()])).toEqual([]);
+  });
+
+  it("puts each transaction in one pair, best score first", () => {
+    const books = txn({});
+    const later = bank({ date: new Date("2026-03-12") });
+    const sameDay = bank({ plaidAccountId: "card" });
+
+    const pairs = pairDuplicates([books, later, sameDay]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].duplicateTransactionId).toBe(sameDay.id);
+  });
+
+  it("skips pairs already reviewed and rows already pending", () => {
+    const books = txn({});
+    const feed = bank();
+    const reviewed = new Set([`${books.id}:${feed.id}`, `${feed.id}:${books.id}`]);
+    expect(pairDuplicates([books, feed], { reviewed })).toEqual([]);
+    expect(pairDuplicates([books, feed], { pending: new Set([feed.id]) })).toEqual([]);
+  });
+});
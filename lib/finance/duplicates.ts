@@ -0,0 +1,435 @@
+import { db } from "@/lib/db";
+import {
+  transactions,
+  duplicateCandidates,
+  type DuplicateCandidate,
+} from "@/lib/db/schema";
+import { eq, ne, and, or, gte, isNull, desc } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { countsTowardCashBasis } from "@/lib/qbo/transaction-types";
+import { normalizeVendor } from "@/lib/categorization/vendors";
+
+export interface DuplicateOptions {
+  // Days a bank feed can post a charge after (or before) the books do
+  windowDays?: number;
+  monthsBack?: number;
+}
+
+export interface DuplicateSide {
+  id: string;
+  source: string;
+  date: Date;
+  amount: string;
+  vendorName: string | null;
+  description: string | null;
+  accountRef: string | null;
+}
+
+export interface DuplicateCandidateDetail {
+  id: string;
+  score: number;
+  reasons: string[];
+  status: string;
+  createdAt: Date;
+  transaction: DuplicateSide;
+  duplicate: DuplicateSide;
+}
+
+export class DuplicateResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DuplicateResolutionError";
+  }
+}
+
+const DEFAULT_WINDOW_DAYS = 3;
+const DEFAULT_MONTHS_BACK = 13;
+// Pairs scoring below this aren't worth a reviewer's time
+const MIN_SCORE = 70;
+// Amounts within this fraction count as a near match (fees, rounding)
+const AMOUNT_TOLERANCE = 0.01;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Row {
+  id: string;
+  source: string;
+  date: Date;
+  amount: number;
+  qboTxnType: string | null;
+  plaidAccountId: string | null;
+  accountRef: string | null;
+  tokens: Set<string>;
+}
+
+function vendorTokens(vendorName: string | null, description: string | null): Set<string> {
+  const text = normalizeVendor(vendorName || description || "");
+  return new Set(text.split(/[^a-z0-9']+/).filter((t) => t.length > 1));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((t) => {
+    if (b.has(t)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/** Whether two rows could be the same charge recorded twice. */
+function canPair(a: Row, b: Row): boolean {
+  // QBO entities are distinct documents (a bill and its payment look alike)
+  if (a.source === "qbo" && b.source === "qbo") return false;
+  // Two bank rows are only duplicates within the same account; across
+  // accounts they're a transfer
+  if (a.source === "plaid" && b.source === "plaid") {
+    return !!a.plaidAccountId && a.plaidAccountId === b.plaidAccountId;
+  }
+  // Re-imports of one statement are caught by import IDs; overlapping
+  // statements in different formats still land here
+  if (a.source === "file" && b.source === "file") {
+    return !!a.accountRef && a.accountRef === b.accountRef;
+  }
+  return true;
+}
+
+function scorePair(
+  a: Row,
+  b: Row,
+  windowMs: number
+): { score: number; reasons: string[] } | null {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const diff = Math.abs(a.amount - b.amount);
+  if (diff < 0.005) {
+    score += 50;
+    reasons.push("Same amount");
+  } else if (diff <= Math.abs(a.amount) * AMOUNT_TOLERANCE) {
+    score += 35;
+    reasons.push(`Amounts within $${diff.toFixed(2)}`);
+  } else {
+    return null;
+  }
+
+  const gap = Math.abs(a.date.getTime() - b.date.getTime());
+  if (gap > windowMs) return null;
+  const days = Math.round(gap / DAY_MS);
+  score += Math.round(30 * (1 - days / (windowMs / DAY_MS + 1)));
+  reasons.push(days === 0 ? "Same day" : `${days} day${days === 1 ? "" : "s"} apart`);
+
+  const vendorScore = similarity(a.tokens, b.tokens);
+  if (a.tokens.size > 0 && b.tokens.size > 0) {
+    // Two different named payees are two different charges
+    if (vendorScore === 0) return null;
+    reasons.push(vendorScore === 1 ? "Same vendor" : "Similar vendor");
+  }
+  score += Math.round(20 * vendorScore);
+
+  if (a.source !== b.source) reasons.push("Different sources");
+  return { score, reasons };
+}
+
+export interface DuplicateMatchable {
+  id: string;
+  source: string;
+  date: Date;
+  amount: string;
+  qboTxnType: string | null;
+  plaidAccountId: string | null;
+  accountRef: string | null;
+  vendorName: string | null;
+  description: string | null;
+}
+
+export interface ProposedDuplicate {
+  transactionId: string;
+  duplicateTransactionId: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicatePairingOptions {
+  windowDays?: number;
+  // "a:b" pairs already reviewed, in both orders
+  reviewed?: Set<string>;
+  // Transactions already in a pending pair
+  pending?: Set<string>;
+}
+
+/**
+ * Pair suspected duplicates: same-direction transactions with (nearly) the
+ * same amount, close dates and a matching vendor. Each transaction joins at
+ * most one pair, best scores first, and the QBO copy is the keeper since
+ * it's the books of record.
+ */
+export function pairDuplicates(
+  txnRows: DuplicateMatchable[],
+  options: DuplicatePairingOptions = {}
+): ProposedDuplicate[] {
+  const windowMs = (options.windowDays ?? DEFAULT_WINDOW_DAYS) * DAY_MS;
+  const reviewed = options.reviewed ?? new Set<string>();
+  const pending = options.pending ?? new Set<string>();
+
+  const rows: Row[] = txnRows
+    // Unpaid invoices and bills have a cash copy of their own later
+    .filter((r) => countsTowardCashBasis(r.qboTxnType) && !pending.has(r.id))
+    .map((r) => ({
+      id: r.id,
+      source: r.source,
+      date: r.date,
+      amount: parseFloat(r.amount),
+      qboTxnType: r.qboTxnType,
+      plaidAccountId: r.plaidAccountId,
+      accountRef: r.accountRef,
+      tokens: vendorTokens(r.vendorName, r.description),
+    }))
+    .filter((r) => r.amount !== 0)
+    .sort((a, b) => a.amount - b.amount);
+
+  // Rows are sorted by amount, so near-equal amounts are neighbours
+  const pairs: Array<{ a: Row; b: Row; score: number; reasons: string[] }> = [];
+  for (let i = 0; i < rows.length; i++) {
+    const a = rows[i];
+    const tolerance = Math.max(Math.abs(a.amount) * AMOUNT_TOLERANCE, 0.005);
+    for (let j = i + 1; j < rows.length && rows[j].amount - a.amount <= tolerance; j++) {
+      const b = rows[j];
+      if (Math.sign(a.amount) !== Math.sign(b.amount)) continue;
+      if (!canPair(a, b) || reviewed.has(`${a.id}:${b.id}`)) continue;
+      const scored = scorePair(a, b, windowMs);
+      if (scored && scored.score >= MIN_SCORE) pairs.push({ a, b, ...scored });
+    }
+  }
+
+  // Best pairs first; a transaction can only be one half of one pair
+  pairs.sort((x, y) => y.score - x.score);
+  const used = new Set<string>();
+  const proposed: ProposedDuplicate[] = [];
+  for (const pair of pairs) {
+    if (used.has(pair.a.id) || used.has(pair.b.id)) continue;
+    used.add(pair.a.id);
+    used.add(pair.b.id);
+
+    const [keep, drop] = pair.b.source === "qbo" ? [pair.b, pair.a] : [pair.a, pair.b];
+    proposed.push({
+      transactionId: keep.id,
+      duplicateTransactionId: drop.id,
+      score: pair.score,
+      reasons: pair.reasons,
+    });
+  }
+  return proposed;
+}
+
+/**
+ * Find suspected duplicates across the practice's recent transactions,
+ * typically one from QBO and one from a bank feed. Pairs already reviewed
+ * aren't proposed again.
+ */
+export async function detectDuplicates(
+  practiceId: string,
+  options: DuplicateOptions = {}
+): Promise<{ found: number }> {
+  const since = new Date();
+  since.setMonth(since.getMonth() - (options.monthsBack ?? DEFAULT_MONTHS_BACK));
+
+  const [txnRows, existing] = await Promise.all([
+    db
+      .select({
+        id: transactions.id,
+        source: transactions.source,
+        date: transactions.date,
+        amount: transactions.amount,
+        qboTxnType: transactions.qboTxnType,
+        plaidAccountId: transactions.plaidAccountId,
+        accountRef: transactions.accountRef,
+        vendorName: transactions.vendorName,
+        description: transactions.description,
+      })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.practiceId, practiceId),
+          gte(transactions.date, since),
+          isNull(transactions.duplicateOfId)
+        )
+      ),
+    db
+      .select({
+        transactionId: duplicateCandidates.transactionId,
+        duplicateTransactionId: duplicateCandidates.duplicateTransactionId,
+        status: duplicateCandidates.status,
+      })
+      .from(duplicateCandidates)
+      .where(eq(duplicateCandidates.practiceId, practiceId)),
+  ]);
+
+  const reviewed = new Set<string>();
+  const pending = new Set<string>();
+  for (const c of existing) {
+    reviewed.add(`${c.transactionId}:${c.duplicateTransactionId}`);
+    reviewed.add(`${c.duplicateTransactionId}:${c.transactionId}`);
+    if (c.status === "pending") {
+      pending.add(c.transactionId);
+      pending.add(c.duplicateTransactionId);
+    }
+  }
+
+  const candidates = pairDuplicates(txnRows, {
+    windowDays: options.windowDays,
+    reviewed,
+    pending,
+  });
+
+  if (candidates.length > 0) {
+    await db
+      .insert(duplicateCandidates)
+      .values(candidates.map((c) => ({ practiceId, ...c })))
+      .onConflictDoNothing();
+  }
+  return { found: candidates.length };
+}
+
+export async function listDuplicateCandidates(
+  practiceId: string,
+  options: { status?: string; limit?: number } = {}
+): Promise<DuplicateCandidateDetail[]> {
+  const kept = alias(transactions, "kept");
+  const copy = alias(transactions, "copy");
+  const rows = await db
+    .select({
+      candidate: duplicateCandidates,
+      transaction: {
+        id: kept.id,
+        source: kept.source,
+        date: kept.date,
+        amount: kept.amount,
+        vendorName: kept.vendorName,
+        description: kept.description,
+        accountRef: kept.accountRef,
+      },
+      duplicate: {
+        id: copy.id,
+        source: copy.source,
+        date: copy.date,
+        amount: copy.amount,
+        vendorName: copy.vendorName,
+        description: copy.description,
+        accountRef: copy.accountRef,
+      },
+    })
+    .from(duplicateCandidates)
+    .innerJoin(kept, eq(kept.id, duplicateCandidates.transactionId))
+    .innerJoin(copy, eq(copy.id, duplicateCandidates.duplicateTransactionId))
+    .where(
+      and(
+        eq(duplicateCandidates.practiceId, practiceId),
+        eq(duplicateCandidates.status, options.status ?? "pending")
+      )
+    )
+    .orderBy(desc(duplicateCandidates.score), desc(kept.date))
+    .limit(options.limit ?? 100);
+
+  return rows.map((r) => ({
+    id: r.candidate.id,
+    score: r.candidate.score,
+    reasons: r.candidate.reasons,
+    status: r.candidate.status,
+    createdAt: r.candidate.createdAt,
+    transaction: r.transaction,
+    duplicate: r.duplicate,
+  }));
+}
+
+async function getPendingCandidate(
+  candidateId: string,
+  practiceId: string
+): Promise<DuplicateCandidate | null> {
+  const [candidate] = await db
+    .select()
+    .from(duplicateCandidates)
+    .where(
+      and(
+        eq(duplicateCandidates.id, candidateId),
+        eq(duplicateCandidates.practiceId, practiceId)
+      )
+    );
+  if (!candidate) return null;
+  if (candidate.status !== "pending") {
+    throw new DuplicateResolutionError(`This pair was already ${candidate.status}`);
+  }
+  return candidate;
+}
+
+export interface MergeResult {
+  candidate: DuplicateCandidate;
+  keptId: string;
+  removedId: string;
+}
+
+/**
+ * Merge a suspected pair: the other copy is marked as a duplicate of
+ * `keepId` (the pair's default keeper unless given) so the finance engines
+ * count the charge once.
+ */
+export async function mergeDuplicate(
+  candidateId: string,
+  practiceId: string,
+  userId: string,
+  keepId?: string
+): Promise<MergeResult | null> {
+  const candidate = await getPendingCandidate(candidateId, practiceId);
+  if (!candidate) return null;
+
+  const pair = [candidate.transactionId, candidate.duplicateTransactionId];
+  const keptId = keepId ?? candidate.transactionId;
+  if (!pair.includes(keptId)) {
+    throw new DuplicateResolutionError("keepId must be one of the pair");
+  }
+  const removedId = pair.find((id) => id !== keptId)!;
+
+  return db.transaction(async (tx) => {
+    await tx
+      .update(transactions)
+      .set({ duplicateOfId: keptId })
+      .where(and(eq(transactions.id, removedId), eq(transactions.practiceId, practiceId)));
+
+    // Anything else the merged copy was a pending suspect in is moot now
+    await tx
+      .delete(duplicateCandidates)
+      .where(
+        and(
+          eq(duplicateCandidates.status, "pending"),
+          ne(duplicateCandidates.id, candidateId),
+          or(
+            eq(duplicateCandidates.transactionId, removedId),
+            eq(duplicateCandidates.duplicateTransactionId, removedId)
+          )
+        )
+      );
+
+    const [resolved] = await tx
+      .update(duplicateCandidates)
+      .set({ status: "merged", resolvedBy: userId, resolvedAt: new Date() })
+      .where(eq(duplicateCandidates.id, candidateId))
+      .returning();
+    return { candidate: resolved, keptId, removedId };
+  });
+}
+
+/** Mark a suspected pair as two real transactions. */
+export async function keepBothTransactions(
+  candidateId: string,
+  practiceId: string,
+  userId: string
+): Promise<DuplicateCandidate | null> {
+  const candidate = await getPendingCandidate(candidateId, practiceId);
+  if (!candidate) return null;
+
+  const [resolved] = await db
+    .update(duplicateCandidates)
+    .set({ status: "kept", resolvedBy: userId, resolvedAt: new Date() })
+    .where(eq(duplicateCandidates.id, candidateId))
+    .returning();
+  return resolved;
+}
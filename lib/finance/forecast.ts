@@ -1,8 +1,9 @@
 import { db } from "@/lib/db";
 import { transactions, categorizations, forecasts } from "@/lib/db/schema";
-import { eq, and, gte, sql } from "drizzle-orm";
+import { eq, and, gte, sql, isNull } from "drizzle-orm";
 import type { IndustryConfig } from "@/lib/industries/types";
 import { getConfigForPractice } from "@/lib/industries";
+import { countsTowardCashBasis } from "@/lib/qbo/transaction-types";
 
 export interface ForecastResult {
   historicalMonths: Array<{ month: string; actual: number }>;
@@ -175,6 +176,7 @@ export async function calculateForecast(
     .select({
       amount: transactions.amount,
       accountRef: transactions.accountRef,
+      qboTxnType: transactions.qboTxnType,
       category: categorizations.category,
       month: sql<string>`to_char(${transactions.date}, 'YYYY-MM')`,
     })
@@ -189,6 +191,7 @@ export async function calculateForecast(
     .where(
       and(
         eq(transactions.practiceId, practiceId),
+        isNull(transactions.duplicateOfId),
         gte(transactions.date, startDate)
       )
     );
@@ -197,6 +200,9 @@ export async function calculateForecast(
   const monthlyMap = new Map<string, { revenue: number; expenses: number }>();
 
   for (const row of rows) {
+    // Forecasts project cash, so unpaid invoices and bills don't count yet
+    if (!countsTowardCashBasis(row.qboTxnType)) continue;
+
     const amount = parseFloat(row.amount);
     const month = row.month;
 
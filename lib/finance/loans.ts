@@ -1,6 +1,6 @@
 import { db } from "@/lib/db";
 import { loans, transactions, categorizations } from "@/lib/db/schema";
-import { eq, and, gte, lt, sql } from "drizzle-orm";
+import { eq, and, gte, lt, sql, isNull } from "drizzle-orm";
 import { getConfigForPractice } from "@/lib/industries";
 import type { Loan, NewLoan } from "@/lib/db/schema";
 
@@ -77,6 +77,7 @@ export async function detectLoans(
     .where(
       and(
         eq(transactions.practiceId, practiceId),
+        isNull(transactions.duplicateOfId),
         gte(transactions.date, startDate),
         lt(transactions.amount, sql`0`) // Only negative (outflow) transactions
       )
@@ -1,10 +1,25 @@
 import { db } from "@/lib/db";
 import { transactions, categorizations } from "@/lib/db/schema";
-import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { eq, and, gte, lte, sql, isNull } from "drizzle-orm";
 import { getConfigForPractice } from "@/lib/industries";
+import { countsTowardBasis } from "@/lib/qbo/transaction-types";
+import { expandSplitRows } from "@/lib/categorization/splits";
+import {
+  loadAccountRoles,
+  NON_OPERATING_ROLES,
+  type AccountRole,
+} from "./account-roles";
+import {
+  getReportingBasis,
+  getOpenItems,
+  type OpenItems,
+  type ReportingBasis,
+} from "./reporting-basis";
+import { loadTransactionMatches } from "./transaction-matches";
 
 export interface ProfitabilityReport {
   period: { start: Date; end: Date };
+  basis: ReportingBasis;
   revenue: {
     total: number;
     byCategory: Record<string, number>;
@@ -18,7 +33,12 @@ export interface ProfitabilityReport {
   netOperatingIncome: number;
   ownerCompensation: number;
   trueNetProfit: number;
+  // Business outflows by chart-of-accounts role, including the non-operating
+  // ones (debt principal, fixed assets) left out of operating expenses
+  outflowsByRole: Partial<Record<AccountRole, number>>;
   monthlyBreakdown: MonthlyProfitability[];
+  // Accrual basis only: invoices and bills still unpaid at the period end
+  openItems: OpenItems | null;
 }
 
 export interface MonthlyProfitability {
@@ -29,14 +49,6 @@ export interface MonthlyProfitability {
   overheadRatio: number;
 }
 
-const OWNER_ACCOUNT_REFS = [
-  "owner's draw",
-  "owner's personal",
-  "distributions",
-  "owner salary",
-  "owner draw",
-];
-
 export function getOverheadStatus(
   ratio: number,
   benchmarks?: {
@@ -66,16 +78,27 @@ const latestCatId = sql`(
   ORDER BY c.created_at DESC LIMIT 1
 )`;
 
+/**
+ * Profit and loss for a period. Cash basis counts money when it moves;
+ * accrual basis counts invoices and bills on their issue date instead of
+ * the payments that settle them. Defaults to the practice's basis.
+ */
 export async function calculateProfitability(
   practiceId: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  options: { basis?: ReportingBasis } = {}
 ): Promise<ProfitabilityReport> {
+  const basis = options.basis ?? (await getReportingBasis(practiceId));
+
   // Get all transactions with their latest categorization for the period
-  const rows = await db
+  const txnRows = await db
     .select({
+      id: transactions.id,
+      categorizationId: categorizations.id,
       amount: transactions.amount,
       accountRef: transactions.accountRef,
+      qboTxnType: transactions.qboTxnType,
       category: categorizations.category,
       month: sql<string>`to_char(${transactions.date}, 'YYYY-MM')`,
     })
@@ -90,17 +113,26 @@ export async function calculateProfitability(
     .where(
       and(
         eq(transactions.practiceId, practiceId),
+        isNull(transactions.duplicateOfId),
         gte(transactions.date, startDate),
         lte(transactions.date, endDate)
       )
     );
 
+  // Split categorizations contribute one row per line
+  const [rows, roles, matches] = await Promise.all([
+    expandSplitRows(txnRows),
+    loadAccountRoles(practiceId),
+    loadTransactionMatches(practiceId),
+  ]);
+
   // Aggregate
   const revenueByCategory: Record<string, number> = {};
   const expenseByCategory: Record<string, number> = {};
   let totalRevenue = 0;
   let totalExpenses = 0;
   let ownerComp = 0;
+  const outflowsByRole: Partial<Record<AccountRole, number>> = {};
 
   // Monthly aggregation
   const monthlyMap = new Map<
@@ -109,29 +141,43 @@ export async function calculateProfitability(
   >();
 
   for (const row of rows) {
+    // Each document counts once: the bill or its payment, never both, and
+    // transfers between the practice's own accounts never
+    if (!countsTowardBasis(row.qboTxnType, basis)) continue;
+
+    // Transfers between the practice's own accounts aren't income or spend
+    const match = matches.get(row.id);
+    if (match?.kind === "transfer") continue;
+
     const amount = parseFloat(row.amount);
-    const accountRef = row.accountRef || "Uncategorized";
+    // A refund nets against the purchase it reverses instead of being revenue
+    const refund = match?.kind === "refund" && match.side === "inflow" ? match : null;
+    const expenseRef = refund ? refund.counterpartAccountRef : row.accountRef;
+    const accountRef = expenseRef || "Uncategorized";
     const month = row.month;
     const isBusiness = row.category === "business";
-    const isOwnerDraw =
-      OWNER_ACCOUNT_REFS.includes(accountRef.toLowerCase());
+    const role = roles.roleOf(expenseRef);
 
     if (!monthlyMap.has(month)) {
       monthlyMap.set(month, { revenue: 0, expenses: 0 });
     }
     const m = monthlyMap.get(month)!;
 
-    if (amount > 0) {
+    if (amount > 0 && !refund) {
       // Revenue
       totalRevenue += amount;
       revenueByCategory[accountRef] =
         (revenueByCategory[accountRef] || 0) + amount;
       m.revenue += amount;
     } else if (isBusiness || row.category === null) {
-      const absAmount = Math.abs(amount);
-      if (isOwnerDraw) {
+      // Refunds come through as negative spend
+      const absAmount = refund ? -amount : Math.abs(amount);
+      if (role) outflowsByRole[role] = (outflowsByRole[role] || 0) + absAmount;
+
+      if (role === "owner_draw") {
         ownerComp += absAmount;
-      } else {
+      } else if (!role || !NON_OPERATING_ROLES.includes(role)) {
+        // Loan principal and asset purchases aren't operating expenses
         totalExpenses += absAmount;
         expenseByCategory[accountRef] =
           (expenseByCategory[accountRef] || 0) + absAmount;
@@ -145,7 +191,10 @@ export async function calculateProfitability(
   const trueNetProfit = netOperatingIncome - ownerComp;
 
   // Load industry config for overhead benchmarks
-  const config = await getConfigForPractice(practiceId);
+  const [config, openItems] = await Promise.all([
+    getConfigForPractice(practiceId),
+    basis === "accrual" ? getOpenItems(practiceId, endDate) : null,
+  ]);
 
   // Build monthly breakdown sorted by month
   const monthlyBreakdown: MonthlyProfitability[] = Array.from(
@@ -162,6 +211,7 @@ export async function calculateProfitability(
 
   return {
     period: { start: startDate, end: endDate },
+    basis,
     revenue: { total: totalRevenue, byCategory: revenueByCategory },
     operatingExpenses: { total: totalExpenses, byCategory: expenseByCategory },
     overheadRatio,
@@ -169,6 +219,8 @@ export async function calculateProfitability(
     netOperatingIncome,
     ownerCompensation: ownerComp,
     trueNetProfit,
+    outflowsByRole,
     monthlyBreakdown,
+    openItems,
   };
 }
@@ -0,0 +1,276 @@
+import { db } from "@/lib/db";
+import { transactions, categorizations } from "@/lib/db/schema";
+import { eq, and, gte, lt, sql, isNull } from "drizzle-orm";
+import { countsTowardCashBasis } from "@/lib/qbo/transaction-types";
+import { normalizeVendor } from "@/lib/categorization/vendors";
+import { loadTransactionMatches } from "./transaction-matches";
+
+export type RecurringCadence = "monthly" | "quarterly" | "annual";
+
+export interface PriceChange {
+  previousAmount: number;
+  currentAmount: number;
+  changePercent: number;
+  changedOn: Date;
+}
+
+export interface RecurringCharge {
+  name: string;
+  vendorKey: string;
+  cadence: RecurringCadence;
+  category: "business" | "personal" | "ambiguous" | null;
+  accountRef: string | null;
+  lastAmount: number;
+  averageAmount: number;
+  annualizedCost: number;
+  occurrences: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  nextExpectedDate: Date;
+  // Lapsed: the expected charge is well overdue, so it was probably cancelled
+  status: "active" | "lapsed";
+  priceChange: PriceChange | null;
+}
+
+export interface RecurringSummary {
+  charges: RecurringCharge[];
+  totals: {
+    annualized: number;
+    business: number;
+    personal: number;
+    activeCount: number;
+    priceIncreases: number;
+  };
+}
+
+interface CadenceSpec {
+  months: number;
+  perYear: number;
+  // Days between charges that still count as this cadence
+  minGap: number;
+  maxGap: number;
+  minOccurrences: number;
+  // Days past the expected date before a charge is considered lapsed
+  graceDays: number;
+}
+
+const CADENCES: Record<RecurringCadence, CadenceSpec> = {
+  monthly: { months: 1, perYear: 12, minGap: 25, maxGap: 36, minOccurrences: 3, graceDays: 10 },
+  quarterly: { months: 3, perYear: 4, minGap: 80, maxGap: 100, minOccurrences: 3, graceDays: 20 },
+  annual: { months: 12, perYear: 1, minGap: 340, maxGap: 390, minOccurrences: 2, graceDays: 30 },
+};
+
+// Share of gaps that must fit the cadence; allows one skipped or doubled month
+const MIN_REGULAR_SHARE = 0.75;
+// Same tolerance detectLoans uses to tell two charges from one vendor apart
+const AMOUNT_TOLERANCE = 0.05;
+// Smaller moves are tax or FX noise rather than a price change
+const MIN_PRICE_CHANGE = 0.02;
+// Two years, so an annual renewal can be seen twice
+const LOOKBACK_MONTHS = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const latestCatId = sql`(
+  SELECT c.id FROM categorizations c
+  WHERE c.transaction_id = ${transactions.id}
+  ORDER BY c.created_at DESC LIMIT 1
+)`;
+
+interface Charge {
+  date: Date;
+  amount: number; // positive cost
+  name: string;
+  category: RecurringCharge["category"];
+  accountRef: string | null;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** The cadence most gaps fit, if enough of them do. */
+function fitCadence(charges: Charge[]): RecurringCadence | null {
+  if (charges.length < 2) return null;
+  const gaps: number[] = [];
+  for (let i = 1; i < charges.length; i++) {
+    gaps.push((charges[i].date.getTime() - charges[i - 1].date.getTime()) / DAY_MS);
+  }
+
+  for (const cadence of Object.keys(CADENCES) as RecurringCadence[]) {
+    const spec = CADENCES[cadence];
+    if (charges.length < spec.minOccurrences) continue;
+    const regular = gaps.filter((g) => g >= spec.minGap && g <= spec.maxGap).length;
+    if (regular / gaps.length >= MIN_REGULAR_SHARE) return cadence;
+  }
+  return null;
+}
+
+/** Split one vendor's charges into runs of similar amounts (±5%). */
+function clusterByAmount(charges: Charge[]): Charge[][] {
+  const clusters: Charge[][] = [];
+  for (const charge of charges) {
+    const cluster = clusters.find((c) => {
+      const avg = c.reduce((s, x) => s + x.amount, 0) / c.length;
+      return Math.abs(charge.amount - avg) / avg <= AMOUNT_TOLERANCE;
+    });
+    if (cluster) cluster.push(charge);
+    else clusters.push([charge]);
+  }
+  return clusters;
+}
+
+/** The most recent move in price between consecutive charges, if any. */
+function latestPriceChange(charges: Charge[]): PriceChange | null {
+  for (let i = charges.length - 1; i > 0; i--) {
+    const current = charges[i].amount;
+    const previous = charges[i - 1].amount;
+    if (Math.abs(current - previous) / previous >= MIN_PRICE_CHANGE) {
+      return {
+        previousAmount: round2(previous),
+        currentAmount: round2(current),
+        changePercent: Math.round(((current - previous) / previous) * 1000) / 10,
+        changedOn: charges[i].date,
+      };
+    }
+  }
+  return null;
+}
+
+function toRecurringCharge(
+  vendorKey: string,
+  charges: Charge[],
+  cadence: RecurringCadence,
+  now: Date
+): RecurringCharge {
+  const spec = CADENCES[cadence];
+  const first = charges[0];
+  const last = charges[charges.length - 1];
+
+  const next = new Date(last.date);
+  next.setUTCMonth(next.getUTCMonth() + spec.months);
+  const lapsed = now.getTime() > next.getTime() + spec.graceDays * DAY_MS;
+
+  return {
+    name: last.name,
+    vendorKey,
+    cadence,
+    category: last.category,
+    accountRef: last.accountRef,
+    lastAmount: round2(last.amount),
+    averageAmount: round2(charges.reduce((s, c) => s + c.amount, 0) / charges.length),
+    annualizedCost: round2(last.amount * spec.perYear),
+    occurrences: charges.length,
+    firstSeen: first.date,
+    lastSeen: last.date,
+    nextExpectedDate: next,
+    status: lapsed ? "lapsed" : "active",
+    priceChange: latestPriceChange(charges),
+  };
+}
+
+/**
+ * Detect recurring charges (subscriptions, service contracts, rent) from
+ * outflows. Like detectLoans, charges are grouped by vendor, but any vendor
+ * qualifies: a vendor's charges form a series when their spacing fits a
+ * monthly, quarterly or annual cadence. When the whole vendor history
+ * doesn't, runs of similar amounts (±5%) are tried separately, so two
+ * plans from one vendor are found as two charges. Transfers between the
+ * practice's own accounts are ignored.
+ */
+export async function detectRecurringCharges(
+  practiceId: string,
+  now: Date = new Date()
+): Promise<RecurringSummary> {
+  const startDate = new Date(now);
+  startDate.setMonth(startDate.getMonth() - LOOKBACK_MONTHS);
+
+  const [rows, matches] = await Promise.all([
+    db
+      .select({
+        id: transactions.id,
+        vendorName: transactions.vendorName,
+        description: transactions.description,
+        amount: transactions.amount,
+        date: transactions.date,
+        accountRef: transactions.accountRef,
+        qboTxnType: transactions.qboTxnType,
+        category: categorizations.category,
+      })
+      .from(transactions)
+      .leftJoin(
+        categorizations,
+        and(
+          eq(transactions.id, categorizations.transactionId),
+          eq(categorizations.id, latestCatId)
+        )
+      )
+      .where(
+        and(
+          eq(transactions.practiceId, practiceId),
+          isNull(transactions.duplicateOfId),
+          gte(transactions.date, startDate),
+          lt(transactions.amount, sql`0`)
+        )
+      ),
+    loadTransactionMatches(practiceId),
+  ]);
+
+  const byVendor = new Map<string, Charge[]>();
+  for (const row of rows) {
+    if (!countsTowardCashBasis(row.qboTxnType)) continue;
+    if (matches.get(row.id)?.kind === "transfer") continue;
+
+    const name = row.vendorName || row.description;
+    if (!name) continue;
+    const vendorKey = normalizeVendor(name);
+    if (!vendorKey) continue;
+
+    const list = byVendor.get(vendorKey) || [];
+    list.push({
+      date: new Date(row.date),
+      amount: Math.abs(parseFloat(row.amount)),
+      name,
+      category: row.category,
+      accountRef: row.accountRef,
+    });
+    byVendor.set(vendorKey, list);
+  }
+
+  const charges: RecurringCharge[] = [];
+  for (const [vendorKey, vendorCharges] of byVendor) {
+    vendorCharges.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const cadence = fitCadence(vendorCharges);
+    if (cadence) {
+      charges.push(toRecurringCharge(vendorKey, vendorCharges, cadence, now));
+      continue;
+    }
+
+    for (const cluster of clusterByAmount(vendorCharges)) {
+      const clusterCadence = fitCadence(cluster);
+      if (clusterCadence) {
+        charges.push(toRecurringCharge(vendorKey, cluster, clusterCadence, now));
+      }
+    }
+  }
+
+  charges.sort((a, b) => {
+    if (a.status !== b.status) return a.status === "active" ? -1 : 1;
+    return b.annualizedCost - a.annualizedCost;
+  });
+
+  const active = charges.filter((c) => c.status === "active");
+  const sum = (list: RecurringCharge[]) => round2(list.reduce((s, c) => s + c.annualizedCost, 0));
+
+  return {
+    charges,
+    totals: {
+      annualized: sum(active),
+      business: sum(active.filter((c) => c.category === "business")),
+      personal: sum(active.filter((c) => c.category === "personal")),
+      activeCount: active.length,
+      priceIncreases: active.filter((c) => (c.priceChange?.changePercent ?? 0) > 0).length,
+    },
+  };
+}
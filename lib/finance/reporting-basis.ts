@@ -0,0 +1,86 @@
+import { db } from "@/lib/db";
+import {
+  practices,
+  transactions,
+  reportingBasisEnum,
+  type ReportingBasis,
+} from "@/lib/db/schema";
+import { eq, and, lte, gt, inArray, isNull } from "drizzle-orm";
+
+export type { ReportingBasis };
+
+export const REPORTING_BASES = reportingBasisEnum.enumValues;
+
+export function isReportingBasis(value: unknown): value is ReportingBasis {
+  return REPORTING_BASES.includes(value as ReportingBasis);
+}
+
+/** The basis a practice's reports use unless a report asks for another. */
+export async function getReportingBasis(practiceId: string): Promise<ReportingBasis> {
+  const [practice] = await db
+    .select({ reportingBasis: practices.reportingBasis })
+    .from(practices)
+    .where(eq(practices.id, practiceId));
+  return practice?.reportingBasis ?? "cash";
+}
+
+export async function setReportingBasis(
+  practiceId: string,
+  basis: ReportingBasis
+): Promise<ReportingBasis | null> {
+  const [practice] = await db
+    .update(practices)
+    .set({ reportingBasis: basis, updatedAt: new Date() })
+    .where(eq(practices.id, practiceId))
+    .returning({ reportingBasis: practices.reportingBasis });
+  return practice?.reportingBasis ?? null;
+}
+
+export interface OpenItemTotals {
+  total: number;
+  overdue: number;
+  count: number;
+}
+
+export interface OpenItems {
+  asOf: Date;
+  receivables: OpenItemTotals; // unpaid invoices
+  payables: OpenItemTotals; // unpaid bills
+}
+
+/**
+ * Unpaid invoices and bills issued on or before `asOf`, with the part past
+ * its due date. Balances are as of the last sync, so this is the current
+ * open amount of those documents rather than a historical snapshot.
+ */
+export async function getOpenItems(practiceId: string, asOf: Date): Promise<OpenItems> {
+  const rows = await db
+    .select({
+      qboTxnType: transactions.qboTxnType,
+      dueDate: transactions.dueDate,
+      openBalance: transactions.openBalance,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.practiceId, practiceId),
+        isNull(transactions.duplicateOfId),
+        inArray(transactions.qboTxnType, ["Invoice", "Bill"]),
+        lte(transactions.date, asOf),
+        gt(transactions.openBalance, "0")
+      )
+    );
+
+  const receivables: OpenItemTotals = { total: 0, overdue: 0, count: 0 };
+  const payables: OpenItemTotals = { total: 0, overdue: 0, count: 0 };
+
+  for (const row of rows) {
+    const balance = parseFloat(row.openBalance ?? "0");
+    const bucket = row.qboTxnType === "Invoice" ? receivables : payables;
+    bucket.total += balance;
+    bucket.count++;
+    if (row.dueDate && row.dueDate < asOf) bucket.overdue += balance;
+  }
+
+  return { asOf, receivables, payables };
+}
@@ -1,8 +1,15 @@
 import { db } from "@/lib/db";
-import { transactions, categorizations, practices } from "@/lib/db/schema";
-import { eq, and, gte, lte, sql } from "drizzle-orm";
+import {
+  transactions,
+  categorizations,
+  practices,
+  taxAlerts,
+  type TaxAlert,
+} from "@/lib/db/schema";
+import { eq, and, gte, lte, sql, isNull } from "drizzle-orm";
 import { getConfigForPractice } from "@/lib/industries";
 import { calculateProfitability } from "./profitability";
+import { loadAccountRoles } from "./account-roles";
 
 export interface TaxAlertData {
   type: string;
@@ -171,11 +178,14 @@ async function getTransactionBreakdown(
     .where(
       and(
         eq(transactions.practiceId, practiceId),
+        isNull(transactions.duplicateOfId),
         gte(transactions.date, startDate),
         lte(transactions.date, endDate)
       )
     );
 
+  const roles = await loadAccountRoles(practiceId);
+
   let equipmentTotal = 0;
   let retirementContributions = 0;
 
@@ -219,9 +229,10 @@ async function getTransactionBreakdown(
 
     // Detect equipment purchases (negative amounts = expenses)
     if (parseFloat(row.amount) < 0) {
-      const isEquipment = equipmentPatterns.some((p) =>
-        searchText.includes(p)
-      );
+      // Mapped accounts are trusted as-is; keywords only for the rest
+      const isEquipment = roles.isMapped(row.accountRef)
+        ? roles.roleOf(row.accountRef) === "fixed_asset"
+        : equipmentPatterns.some((p) => searchText.includes(p));
       if (isEquipment) {
         equipmentTotal += amount;
       }
@@ -561,3 +572,56 @@ function formatDate(d: Date): string {
     year: "numeric",
   });
 }
+
+/**
+ * Replace a practice's stored alerts for a tax year with freshly generated
+ * ones and return the stored rows.
+ */
+export async function regenerateTaxAlerts(
+  practiceId: string,
+  taxYear: number
+): Promise<TaxAlert[]> {
+  // Delete existing alerts for this practice/year (regenerate)
+  await db
+    .delete(taxAlerts)
+    .where(
+      and(
+        eq(taxAlerts.practiceId, practiceId),
+        eq(taxAlerts.taxYear, taxYear)
+      )
+    );
+
+  // Generate fresh alerts
+  const generated = await generateTaxAlerts(practiceId, taxYear);
+
+  if (generated.length > 0) {
+    const insertValues = generated.map((alert) => ({
+      practiceId,
+      alertType: alert.type,
+      title: alert.title,
+      description: alert.description,
+      priority: alert.priority,
+      taxYear,
+      expiresAt: alert.deadline || null,
+      metadata: {
+        potentialSavings: alert.potentialSavings,
+        deadline: alert.deadline?.toISOString(),
+        actionItems: alert.actionItems,
+        ...alert.metadata,
+      },
+    }));
+
+    await db.insert(taxAlerts).values(insertValues);
+  }
+
+  // Fetch inserted alerts (with IDs)
+  return db
+    .select()
+    .from(taxAlerts)
+    .where(
+      and(
+        eq(taxAlerts.practiceId, practiceId),
+        eq(taxAlerts.taxYear, taxYear)
+      )
+    );
+}
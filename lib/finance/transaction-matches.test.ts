@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  cashAccountKey,
+  pairOffsettingTransactions,
+  type MatchableTransaction,
+} from "./transaction-matches";
+
+const CASH_ACCOUNTS = new Set(["business checking", "savings", "amex"]);
+
+let nextId = 0;
+function txn(overrides: Partial<MatchableTransaction>): MatchableTransaction {
+  return {
+    id: `t${++nextId}`,
+    date: new Date("2026-03-10"),
+    amount: "0.00",
+    source: "qbo",
+    qboTxnType: "Purchase",
+    plaidAccountId: null,
+    accountRef: null,
+    vendorName: null,
+    ...overrides,
+  };
+}
+
+const pair = (rows: MatchableTransaction[]) =>
+  pairOffsettingTransactions(rows, { cashAccounts: CASH_ACCOUNTS });
+
+describe("cashAccountKey", () => {
+  it("uses the Plaid account when there is one", () => {
+    expect(cashAccountKey({ source: "plaid", plaidAccountId: "p1", accountRef: "Chk" }, CASH_ACCOUNTS))
+      .toBe("plaid:p1");
+  });
+
+  it("accepts QBO accounts only when they're bank or card accounts", () => {
+    expect(
+      cashAccountKey({ source: "qbo", plaidAccountId: null, accountRef: " Business Checking " }, CASH_ACCOUNTS)
+    ).toBe("ref:business checking");
+    expect(
+      cashAccountKey({ source: "qbo", plaidAccountId: null, accountRef: "Patient Revenue" }, CASH_ACCOUNTS)
+    ).toBeNull();
+  });
+
+  it("treats a statement import's account as the practice's own", () => {
+    expect(
+      cashAccountKey({ source: "file", plaidAccountId: null, accountRef: "Card 1234" }, CASH_ACCOUNTS)
+    ).toBe("ref:card 1234");
+  });
+});
+
+describe("pairOffsettingTransactions", () => {
+  it("pairs money moving between two of the practice's accounts", () => {
+    const out = txn({ amount: "-500.00", accountRef: "Business Checking" });
+    const into = txn({ amount: "500.00", accountRef: "Savings", date: new Date("2026-03-11") });
+    expect(pair([out, into])).toEqual([
+      { kind: "transfer", outflowTransactionId: out.id, inflowTransactionId: into.id, amount: "500.00" },
+    ]);
+  });
+
+  it("pairs a Plaid withdrawal with an imported deposit", () => {
+    const out = txn({ source: "plaid", qboTxnType: null, amount: "-250.00", plaidAccountId: "p1" });
+    const into = txn({ source: "file", qboTxnType: null, amount: "250.00", accountRef: "Card 1234" });
+    expect(pair([out, into])).toHaveLength(1);
+  });
+
+  it("doesn't pair a patient deposit with a same-sized supply purchase", () => {
+    const deposit = txn({
+      qboTxnType: "Deposit",
+      amount: "500.00",
+      accountRef: "Patient Revenue",
+      vendorName: "Jane Patient",
+    });
+    const purchase = txn({
+      amount: "-500.00",
+      accountRef: "Dental Supplies",
+      vendorName: "Henry Schein",
+      date: new Date("2026-03-08"),
+    });
+    expect(pair([deposit, purchase])).toEqual([]);
+  });
+
+  it("doesn't pair a deposit with a purchase paid from a bank account", () => {
+    const deposit = txn({ qboTxnType: "Deposit", amount: "500.00", accountRef: "Patient Revenue" });
+    const purchase = txn({ amount: "-500.00", accountRef: "Business Checking" });
+    expect(pair([deposit, purchase])).toEqual([]);
+  });
+
+  it("doesn't pair within one account or outside the window", () => {
+    const out = txn({ amount: "-100.00", accountRef: "Business Checking" });
+    const sameAccount = txn({ amount: "100.00", accountRef: "Business Checking" });
+    const late = txn({ amount: "100.00", accountRef: "Savings", date: new Date("2026-03-20") });
+    expect(pair([out, sameAccount, late])).toEqual([]);
+  });
+
+  it("pairs a refund with the earlier purchase from the same vendor", () => {
+    const purchase = txn({ amount: "-80.00", accountRef: "Supplies", vendorName: "Henry Schein" });
+    const refund = txn({
+      amount: "80.00",
+      accountRef: "Supplies",
+      vendorName: "HENRY SCHEIN",
+      date: new Date("2026-04-01"),
+    });
+    expect(pair([purchase, refund])).toEqual([
+      { kind: "refund", outflowTransactionId: purchase.id, inflowTransactionId: refund.id, amount: "80.00" },
+    ]);
+  });
+
+  it("skips taken transactions and dismissed pairs", () => {
+    const out = txn({ amount: "-500.00", accountRef: "Business Checking" });
+    const into = txn({ amount: "500.00", accountRef: "Savings" });
+    expect(
+      pairOffsettingTransactions([out, into], { cashAccounts: CASH_ACCOUNTS, taken: new Set([out.id]) })
+    ).toEqual([]);
+    expect(
+      pairOffsettingTransactions([out, into], {
+        cashAccounts: CASH_ACCOUNTS,
+        dismissed: new Set([`${out.id}:${into.id}`]),
+      })
+    ).toEqual([]);
+  });
+
+  it("ignores unpaid bills and invoices", () => {
+    const bill = txn({ qboTxnType: "Bill", amount: "-500.00", accountRef: "Business Checking" });
+    const into = txn({ amount: "500.00", accountRef: "Savings" });
+    expect(pair([bill, into])).toEqual([]);
+  });
+});
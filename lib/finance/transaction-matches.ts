@@ -0,0 +1,452 @@
+import { db } from "@/lib/db";
+import {
+  transactions,
+  transactionMatches,
+  chartOfAccounts,
+  importProfiles,
+  type Transaction,
+  type TransactionMatch,
+} from "@/lib/db/schema";
+import { eq, and, or, gte, isNull, inArray, desc } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { countsTowardCashBasis } from "@/lib/qbo/transaction-types";
+import { normalizeVendor } from "@/lib/categorization/vendors";
+
+export type MatchKind = TransactionMatch["kind"];
+
+export interface MatchOptions {
+  // Days allowed between the two sides of a transfer
+  transferWindowDays?: number;
+  // Days after a purchase that a refund from the same vendor can arrive
+  refundWindowDays?: number;
+  monthsBack?: number;
+}
+
+export interface MatchDetectionResult {
+  transfers: number;
+  refunds: number;
+}
+
+/** How a matched transaction should be treated by the finance engines */
+export interface MatchRef {
+  kind: MatchKind;
+  side: "outflow" | "inflow";
+  // The other side's account, so a refund can net against its purchase
+  counterpartAccountRef: string | null;
+}
+
+export interface MatchedTransaction {
+  id: string;
+  date: Date;
+  amount: string;
+  vendorName: string | null;
+  accountRef: string | null;
+}
+
+export interface TransactionMatchDetail {
+  id: string;
+  kind: MatchKind;
+  amount: string;
+  status: string;
+  createdAt: Date;
+  outflow: MatchedTransaction;
+  inflow: MatchedTransaction;
+}
+
+const DEFAULT_TRANSFER_WINDOW_DAYS = 3;
+const DEFAULT_REFUND_WINDOW_DAYS = 60;
+const DEFAULT_MONTHS_BACK = 13;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// QBO AccountTypes that hold the practice's own money
+const CASH_ACCOUNT_TYPES = ["Bank", "Credit Card"];
+
+interface Candidate {
+  id: string;
+  date: Date;
+  cents: number;
+  account: string | null;
+  vendor: string;
+}
+
+export interface MatchableTransaction {
+  id: string;
+  date: Date;
+  amount: string;
+  source: Transaction["source"];
+  qboTxnType: string | null;
+  plaidAccountId: string | null;
+  accountRef: string | null;
+  vendorName: string | null;
+}
+
+export interface ProposedMatch {
+  kind: MatchKind;
+  outflowTransactionId: string;
+  inflowTransactionId: string;
+  amount: string;
+}
+
+export interface PairingOptions {
+  // Lowercased names of the practice's bank and credit card accounts
+  cashAccounts: Set<string>;
+  // Transactions already in an active match
+  taken?: Set<string>;
+  // "outflowId:inflowId" pairs a user dismissed
+  dismissed?: Set<string>;
+  transferWindowDays?: number;
+  refundWindowDays?: number;
+}
+
+/**
+ * Which of the practice's own bank or card accounts a transaction moved
+ * through, or null when that isn't known. A QBO row's accountRef can just
+ * as well be the income or expense account it was booked to, so it only
+ * counts when it names a Bank or Credit Card account in the chart or an
+ * import profile's account; a statement import is always its own account.
+ */
+export function cashAccountKey(
+  row: Pick<MatchableTransaction, "source" | "plaidAccountId" | "accountRef">,
+  cashAccounts: Set<string>
+): string | null {
+  if (row.plaidAccountId) return `plaid:${row.plaidAccountId}`;
+  const ref = row.accountRef?.trim().toLowerCase();
+  if (!ref) return null;
+  return row.source === "file" || cashAccounts.has(ref) ? `ref:${ref}` : null;
+}
+
+/**
+ * Pair offsetting transactions (same amount, opposite sign). Money leaving
+ * one of the practice's bank or card accounts and arriving in another within
+ * the transfer window is an internal transfer; money back from the vendor of
+ * an earlier purchase within the refund window is a refund.
+ */
+export function pairOffsettingTransactions(
+  rows: MatchableTransaction[],
+  options: PairingOptions
+): ProposedMatch[] {
+  const transferWindow = (options.transferWindowDays ?? DEFAULT_TRANSFER_WINDOW_DAYS) * DAY_MS;
+  const refundWindow = (options.refundWindowDays ?? DEFAULT_REFUND_WINDOW_DAYS) * DAY_MS;
+  const taken = new Set(options.taken);
+  const dismissed = options.dismissed ?? new Set<string>();
+
+  const outflowsByCents = new Map<number, Candidate[]>();
+  const inflows: Candidate[] = [];
+  for (const row of rows) {
+    // Unpaid invoices and bills aren't money moving yet
+    if (!countsTowardCashBasis(row.qboTxnType) || taken.has(row.id)) continue;
+    const cents = Math.round(parseFloat(row.amount) * 100);
+    if (cents === 0) continue;
+
+    const candidate: Candidate = {
+      id: row.id,
+      date: row.date,
+      cents: Math.abs(cents),
+      account: cashAccountKey(row, options.cashAccounts),
+      vendor: row.vendorName ? normalizeVendor(row.vendorName) : "",
+    };
+    if (cents > 0) {
+      inflows.push(candidate);
+    } else {
+      const list = outflowsByCents.get(candidate.cents) || [];
+      list.push(candidate);
+      outflowsByCents.set(candidate.cents, list);
+    }
+  }
+  inflows.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const matches: ProposedMatch[] = [];
+  for (const inflow of inflows) {
+    const open = (outflowsByCents.get(inflow.cents) || []).filter(
+      (o) => !taken.has(o.id) && !dismissed.has(`${o.id}:${inflow.id}`)
+    );
+    if (open.length === 0) continue;
+
+    const gap = (o: Candidate) => Math.abs(inflow.date.getTime() - o.date.getTime());
+
+    const transfer = open
+      .filter(
+        (o) =>
+          !!o.account &&
+          !!inflow.account &&
+          o.account !== inflow.account &&
+          gap(o) <= transferWindow
+      )
+      .sort((a, b) => gap(a) - gap(b))[0];
+
+    const refund = transfer
+      ? undefined
+      : open
+          .filter(
+            (o) =>
+              !!inflow.vendor &&
+              o.vendor === inflow.vendor &&
+              o.date <= inflow.date &&
+              gap(o) <= refundWindow
+          )
+          .sort((a, b) => gap(a) - gap(b))[0];
+
+    const outflow = transfer ?? refund;
+    if (!outflow) continue;
+
+    taken.add(outflow.id);
+    taken.add(inflow.id);
+    matches.push({
+      kind: transfer ? "transfer" : "refund",
+      outflowTransactionId: outflow.id,
+      inflowTransactionId: inflow.id,
+      amount: (inflow.cents / 100).toFixed(2),
+    });
+  }
+  return matches;
+}
+
+/** Lowercased names of the practice's bank and credit card accounts. */
+async function loadCashAccounts(practiceId: string): Promise<Set<string>> {
+  const [chart, profiles] = await Promise.all([
+    db
+      .select({ name: chartOfAccounts.name, fullyQualifiedName: chartOfAccounts.fullyQualifiedName })
+      .from(chartOfAccounts)
+      .where(
+        and(
+          eq(chartOfAccounts.practiceId, practiceId),
+          inArray(chartOfAccounts.accountType, CASH_ACCOUNT_TYPES)
+        )
+      ),
+    db
+      .select({ accountName: importProfiles.accountName })
+      .from(importProfiles)
+      .where(eq(importProfiles.practiceId, practiceId)),
+  ]);
+
+  const names = [
+    ...chart.flatMap((a) => [a.name, a.fullyQualifiedName]),
+    ...profiles.map((p) => p.accountName),
+  ];
+  return new Set(
+    names.filter((n): n is string => !!n).map((n) => n.trim().toLowerCase())
+  );
+}
+
+/**
+ * Find transfer and refund pairs among recent transactions and record them
+ * as matches. Transactions already in a match, and pairs a user dismissed,
+ * are left alone.
+ */
+export async function detectTransactionMatches(
+  practiceId: string,
+  options: MatchOptions = {}
+): Promise<MatchDetectionResult> {
+  const since = new Date();
+  since.setMonth(since.getMonth() - (options.monthsBack ?? DEFAULT_MONTHS_BACK));
+
+  const [rows, existing, cashAccounts] = await Promise.all([
+    db
+      .select({
+        id: transactions.id,
+        date: transactions.date,
+        amount: transactions.amount,
+        source: transactions.source,
+        qboTxnType: transactions.qboTxnType,
+        plaidAccountId: transactions.plaidAccountId,
+        accountRef: transactions.accountRef,
+        vendorName: transactions.vendorName,
+      })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.practiceId, practiceId),
+          gte(transactions.date, since),
+          isNull(transactions.duplicateOfId)
+        )
+      ),
+    db
+      .select({
+        outflowTransactionId: transactionMatches.outflowTransactionId,
+        inflowTransactionId: transactionMatches.inflowTransactionId,
+        status: transactionMatches.status,
+      })
+      .from(transactionMatches)
+      .where(eq(transactionMatches.practiceId, practiceId)),
+    loadCashAccounts(practiceId),
+  ]);
+
+  const taken = new Set<string>();
+  const dismissed = new Set<string>();
+  for (const m of existing) {
+    if (m.status === "dismissed") {
+      dismissed.add(`${m.outflowTransactionId}:${m.inflowTransactionId}`);
+    } else {
+      taken.add(m.outflowTransactionId);
+      taken.add(m.inflowTransactionId);
+    }
+  }
+
+  const matches = pairOffsettingTransactions(rows, {
+    cashAccounts,
+    taken,
+    dismissed,
+    transferWindowDays: options.transferWindowDays,
+    refundWindowDays: options.refundWindowDays,
+  });
+
+  if (matches.length > 0) {
+    await db
+      .insert(transactionMatches)
+      .values(matches.map((m) => ({ practiceId, ...m })))
+      .onConflictDoNothing();
+  }
+
+  return {
+    transfers: matches.filter((m) => m.kind === "transfer").length,
+    refunds: matches.filter((m) => m.kind === "refund").length,
+  };
+}
+
+/**
+ * Active matches keyed by transaction ID, covering both sides of each pair.
+ * Finance engines skip transfers and net refunds against their purchase.
+ */
+export async function loadTransactionMatches(
+  practiceId: string
+): Promise<Map<string, MatchRef>> {
+  const outflow = alias(transactions, "outflow");
+  const inflow = alias(transactions, "inflow");
+
+  const rows = await db
+    .select({
+      kind: transactionMatches.kind,
+      outflowId: transactionMatches.outflowTransactionId,
+      inflowId: transactionMatches.inflowTransactionId,
+      outflowAccountRef: outflow.accountRef,
+      inflowAccountRef: inflow.accountRef,
+    })
+    .from(transactionMatches)
+    .innerJoin(outflow, eq(outflow.id, transactionMatches.outflowTransactionId))
+    .innerJoin(inflow, eq(inflow.id, transactionMatches.inflowTransactionId))
+    .where(
+      and(
+        eq(transactionMatches.practiceId, practiceId),
+        eq(transactionMatches.status, "active")
+      )
+    );
+
+  const byTransaction = new Map<string, MatchRef>();
+  for (const row of rows) {
+    byTransaction.set(row.outflowId, {
+      kind: row.kind,
+      side: "outflow",
+      counterpartAccountRef: row.inflowAccountRef,
+    });
+    byTransaction.set(row.inflowId, {
+      kind: row.kind,
+      side: "inflow",
+      counterpartAccountRef: row.outflowAccountRef,
+    });
+  }
+  return byTransaction;
+}
+
+export async function listTransactionMatches(
+  practiceId: string,
+  options: { status?: string; kind?: MatchKind; limit?: number } = {}
+): Promise<TransactionMatchDetail[]> {
+  const outflow = alias(transactions, "outflow");
+  const inflow = alias(transactions, "inflow");
+
+  const conditions = [
+    eq(transactionMatches.practiceId, practiceId),
+    eq(transactionMatches.status, options.status ?? "active"),
+  ];
+  if (options.kind) conditions.push(eq(transactionMatches.kind, options.kind));
+
+  const rows = await db
+    .select({
+      match: transactionMatches,
+      outflow: {
+        id: outflow.id,
+        date: outflow.date,
+        amount: outflow.amount,
+        vendorName: outflow.vendorName,
+        accountRef: outflow.accountRef,
+      },
+      inflow: {
+        id: inflow.id,
+        date: inflow.date,
+        amount: inflow.amount,
+        vendorName: inflow.vendorName,
+        accountRef: inflow.accountRef,
+      },
+    })
+    .from(transactionMatches)
+    .innerJoin(outflow, eq(outflow.id, transactionMatches.outflowTransactionId))
+    .innerJoin(inflow, eq(inflow.id, transactionMatches.inflowTransactionId))
+    .where(and(...conditions))
+    .orderBy(desc(inflow.date))
+    .limit(options.limit ?? 100);
+
+  return rows.map((r) => ({
+    id: r.match.id,
+    kind: r.match.kind,
+    amount: r.match.amount,
+    status: r.match.status,
+    createdAt: r.match.createdAt,
+    outflow: r.outflow,
+    inflow: r.inflow,
+  }));
+}
+
+/**
+ * Undo a match: both transactions count normally again, and detection
+ * won't pair them a second time.
+ */
+export async function dismissTransactionMatch(
+  matchId: string,
+  practiceId: string,
+  userId: string
+): Promise<TransactionMatch | null> {
+  const [match] = await db
+    .update(transactionMatches)
+    .set({ status: "dismissed", dismissedBy: userId, updatedAt: new Date() })
+    .where(
+      and(
+        eq(transactionMatches.id, matchId),
+        eq(transactionMatches.practiceId, practiceId),
+        eq(transactionMatches.status, "active")
+      )
+    )
+    .returning();
+  return match ?? null;
+}
+
+/** Active match kinds for a page of transactions, for list badges. */
+export async function getMatchKinds(
+  transactionIds: string[]
+): Promise<Map<string, MatchKind>> {
+  if (transactionIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({
+      kind: transactionMatches.kind,
+      outflowId: transactionMatches.outflowTransactionId,
+      inflowId: transactionMatches.inflowTransactionId,
+    })
+    .from(transactionMatches)
+    .where(
+      and(
+        eq(transactionMatches.status, "active"),
+        or(
+          inArray(transactionMatches.outflowTransactionId, transactionIds),
+          inArray(transactionMatches.inflowTransactionId, transactionIds)
+        )
+      )
+    );
+
+  const kinds = new Map<string, MatchKind>();
+  for (const row of rows) {
+    kinds.set(row.outflowId, row.kind);
+    kinds.set(row.inflowId, row.kind);
+  }
+  return kinds;
+}
@@ -1,8 +1,11 @@
 import { db } from "@/lib/db";
 import { transactions, categorizations, valuationSnapshots } from "@/lib/db/schema";
-import { eq, and, gte, lte, sql, desc } from "drizzle-orm";
+import { eq, and, gte, lte, sql, desc, isNull } from "drizzle-orm";
 import { getConfigForPractice } from "@/lib/industries";
 import { calculateProfitability } from "./profitability";
+import { countsTowardBasis } from "@/lib/qbo/transaction-types";
+import { loadAccountRoles, DEBT_SERVICE_ROLES } from "./account-roles";
+import { getReportingBasis, type ReportingBasis } from "./reporting-basis";
 
 // ── Types ───────────────────────────────────────────────────────────────────
 
@@ -52,33 +55,6 @@ export interface ValuationReport {
 const DISCLAIMER =
   "This analysis is for informational purposes only and does not constitute financial, tax, or legal advice. Consult your CPA, financial advisor, or attorney before making financial decisions.";
 
-const INTEREST_PATTERNS = [
-  "interest",
-  "loan interest",
-  "mortgage interest",
-  "finance charge",
-  "interest expense",
-];
-
-const DA_PATTERNS = [
-  "depreciation",
-  "amortization",
-  "depreciation expense",
-  "amortization expense",
-  "accumulated depreciation",
-];
-
-const DEBT_SERVICE_PATTERNS = [
-  "loan payment",
-  "note payable",
-  "loan interest",
-  "equipment loan",
-  "practice loan",
-  "mortgage",
-  "line of credit",
-  "interest",
-];
-
 const DEFAULT_MULTIPLIERS = {
   revenueMultiple: { low: 0.4, mid: 0.6, high: 0.8 },
   ebitdaMultiple: { low: 3.0, mid: 4.0, high: 5.0 },
@@ -87,20 +63,16 @@ const DEFAULT_MULTIPLIERS = {
 
 // ── Helpers ─────────────────────────────────────────────────────────────────
 
-function matchesPatterns(accountRef: string | null, patterns: string[]): boolean {
-  if (!accountRef) return false;
-  const lower = accountRef.toLowerCase();
-  return patterns.some((p) => lower.includes(p));
-}
-
 /**
- * Scan transactions to approximate interest expense and D&A.
- * These are typically broken out as account refs containing specific keywords.
+ * Sum interest expense, D&A and debt service from the accounts mapped to
+ * those roles in the practice's chart of accounts, on the same basis as the
+ * profitability report so a bill and the payment settling it count once.
  */
 async function estimateEbitdaAddbacks(
   practiceId: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  basis: ReportingBasis
 ): Promise<{ interestExpense: number; depreciationAmortization: number; debtService: number }> {
   const latestCatId = sql`(
     SELECT c.id FROM categorizations c
@@ -112,6 +84,7 @@ async function estimateEbitdaAddbacks(
     .select({
       amount: transactions.amount,
       accountRef: transactions.accountRef,
+      qboTxnType: transactions.qboTxnType,
       category: categorizations.category,
     })
     .from(transactions)
@@ -125,28 +98,34 @@ async function estimateEbitdaAddbacks(
     .where(
       and(
         eq(transactions.practiceId, practiceId),
+        isNull(transactions.duplicateOfId),
         gte(transactions.date, startDate),
         lte(transactions.date, endDate)
       )
     );
 
+  const roles = await loadAccountRoles(practiceId);
+
   let interestExpense = 0;
   let depreciationAmortization = 0;
   let debtService = 0;
 
   for (const row of rows) {
+    if (!countsTowardBasis(row.qboTxnType, basis)) continue;
     const amount = parseFloat(row.amount);
     if (amount >= 0) continue; // Only expenses (negative amounts)
 
     const absAmount = Math.abs(amount);
 
-    if (matchesPatterns(row.accountRef, INTEREST_PATTERNS)) {
+    const role = roles.roleOf(row.accountRef);
+
+    if (role === "interest") {
       interestExpense += absAmount;
     }
-    if (matchesPatterns(row.accountRef, DA_PATTERNS)) {
+    if (role === "depreciation") {
       depreciationAmortization += absAmount;
     }
-    if (matchesPatterns(row.accountRef, DEBT_SERVICE_PATTERNS)) {
+    if (role && DEBT_SERVICE_ROLES.includes(role)) {
       debtService += absAmount;
     }
   }
@@ -380,14 +359,16 @@ export async function calculateValuation(
   const endDate = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
 
   // 1. Get profitability report for trailing 12 months
+  const basis = await getReportingBasis(practiceId);
   const profitability = await calculateProfitability(
     practiceId,
     startDate,
-    endDate
+    endDate,
+    { basis }
   );
 
   // 2. Estimate EBITDA addbacks (interest, depreciation/amortization, debt service)
-  const addbacks = await estimateEbitdaAddbacks(practiceId, startDate, endDate);
+  const addbacks = await estimateEbitdaAddbacks(practiceId, startDate, endDate, basis);
 
   // 3. Compute EBITDA = NOI + D&A + interest expense
   // NOI already excludes owner compensation
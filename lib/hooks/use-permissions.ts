@@ -1,13 +1,39 @@
 "use client";
 
 import { useSession } from "next-auth/react";
+import { useQuery } from "@tanstack/react-query";
+import { hasPermission, permissionsForRole, type Permission } from "@/lib/auth/permissions";
+
+interface PermissionsResponse {
+  role: string;
+  customRole: { id: string; name: string } | null;
+  permissions: Permission[];
+}
 
 export function usePermissions() {
   const session = useSession();
   const role = session?.data?.user?.role || "accountant";
+
+  // Custom roles live in the database, not the session token
+  const { data } = useQuery<PermissionsResponse>({
+    queryKey: ["permissions", session?.data?.user?.practiceId],
+    queryFn: async () => {
+      const res = await fetch("/api/auth/permissions");
+      if (!res.ok) throw new Error("Failed to load permissions");
+      return res.json();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Until the server answers, assume the built-in role's permissions
+  const permissions = data?.permissions ?? permissionsForRole(role);
+  const can = (permission: Permission) => hasPermission(permissions, permission);
+
   return {
-    canWrite: role !== "accountant",
-    canAdmin: role === "owner",
+    can,
+    canWrite: permissions.some((p) => p.endsWith(":write")),
+    canAdmin: can("members:write"),
     role,
+    customRole: data?.customRole ?? null,
   };
 }
@@ -0,0 +1,210 @@
+import type { CsvColumnMapping } from "@/lib/db/schema";
+import { StatementImportError, type ParsedStatement, type StatementLine } from "./types";
+
+export const DATE_FORMATS = [
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "YYYY-MM-DD",
+  "MM-DD-YYYY",
+  "DD.MM.YYYY",
+] as const;
+
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+export interface CsvProfile {
+  columns: CsvColumnMapping;
+  dateFormat: string;
+  delimiter: string;
+  hasHeader: boolean;
+  invertAmounts: boolean;
+}
+
+/**
+ * Split CSV text into records. Handles quoted fields with embedded
+ * delimiters, doubled quotes and line breaks; blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some((f) => f.trim() !== "")) records.push(record);
+    record = [];
+    field = "";
+  };
+
+  // Strip a UTF-8 byte order mark; Excel exports often carry one
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === "") {
+      field = "";
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || record.length > 0) endRecord();
+  return records;
+}
+
+/** Parse a date in one of DATE_FORMATS as UTC midnight, like Plaid dates. */
+export function parseStatementDate(value: string, format: string): Date | null {
+  const parts = value.trim().split(/[^0-9]+/).filter(Boolean).map(Number);
+  if (parts.length < 3) return null;
+
+  const order = format.split(/[^A-Z]+/);
+  let year = parts[order.indexOf("YYYY")];
+  const month = parts[order.indexOf("MM")];
+  const day = parts[order.indexOf("DD")];
+  if (year === undefined || month === undefined || day === undefined) return null;
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+/** Parse "$1,234.56", "-12.00", "(12.00)" or "12.00-" into a number. */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim().replace(/[$,\s]/g, "");
+  if (text === "") return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  } else if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const amount = Number(text);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+/** Where each mapped column sits in a record, from the header or 1-based positions. */
+function resolveColumns(
+  columns: CsvColumnMapping,
+  header: string[] | null
+): Record<keyof CsvColumnMapping, number | undefined> {
+  const find = (name: string | undefined): number | undefined => {
+    if (!name) return undefined;
+    if (!header) {
+      const position = parseInt(name, 10);
+      if (!Number.isInteger(position) || position < 1) {
+        throw new StatementImportError(
+          `Column "${name}" must be a position (1, 2, ...) for files without a header row`
+        );
+      }
+      return position - 1;
+    }
+    const index = header.findIndex((h) => h.trim().toLowerCase() === name.trim().toLowerCase());
+    if (index === -1) {
+      throw new StatementImportError(`Column "${name}" not found in the file's header row`);
+    }
+    return index;
+  };
+
+  return {
+    date: find(columns.date),
+    description: find(columns.description),
+    vendor: find(columns.vendor),
+    amount: find(columns.amount),
+    debit: find(columns.debit),
+    credit: find(columns.credit),
+  };
+}
+
+/**
+ * Read a bank CSV through its profile. Amounts come out in our convention
+ * (positive = money in). Rows that can't be read are reported by line and
+ * skipped; a header or mapping problem throws.
+ *
+ * CSV exports carry no transaction IDs, so a line's key is its date, amount
+ * and description, plus a counter for identical lines in the same file.
+ */
+export function readCsvStatement(text: string, profile: CsvProfile): ParsedStatement {
+  const records = parseCsv(text, profile.delimiter);
+  const header = profile.hasHeader ? (records.shift() ?? null) : null;
+  if (profile.hasHeader && !header) throw new StatementImportError("The file is empty");
+
+  const columns = resolveColumns(profile.columns, header);
+  if (columns.amount === undefined && columns.debit === undefined && columns.credit === undefined) {
+    throw new StatementImportError(
+      "The profile needs an amount column, or debit and credit columns"
+    );
+  }
+
+  const lines: StatementLine[] = [];
+  const errors: string[] = [];
+  const seen = new Map<string, number>();
+  const firstLine = profile.hasHeader ? 2 : 1;
+
+  records.forEach((record, i) => {
+    const line = firstLine + i;
+    const cell = (index: number | undefined) =>
+      index === undefined ? "" : (record[index] ?? "").trim();
+
+    const date = parseStatementDate(cell(columns.date), profile.dateFormat);
+    if (!date) {
+      errors.push(`Line ${line}: unreadable date "${cell(columns.date)}"`);
+      return;
+    }
+
+    let amount: number | null;
+    if (columns.amount !== undefined) {
+      amount = parseStatementAmount(cell(columns.amount));
+    } else {
+      const debit = parseStatementAmount(cell(columns.debit)) ?? 0;
+      const credit = parseStatementAmount(cell(columns.credit)) ?? 0;
+      amount = Math.abs(credit) - Math.abs(debit);
+    }
+    if (amount === null) {
+      errors.push(`Line ${line}: unreadable amount`);
+      return;
+    }
+    if (profile.invertAmounts) amount = -amount;
+
+    const raw: Record<string, string> = {};
+    record.forEach((value, index) => {
+      raw[header?.[index]?.trim() || String(index + 1)] = value;
+    });
+
+    const description = cell(columns.description);
+    const base = `${date.toISOString().slice(0, 10)}|${amount.toFixed(2)}|${description.toLowerCase()}`;
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+
+    lines.push({
+      key: `${base}|${occurrence}`,
+      date,
+      amount,
+      vendor: cell(columns.vendor) || null,
+      description: description || null,
+      raw,
+    });
+  });
+
+  return { lines, errors };
+}
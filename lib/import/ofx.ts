@@ -0,0 +1,95 @@
+import { StatementImportError, type ParsedStatement, type StatementLine } from "./types";
+
+export interface OfxStatement extends ParsedStatement {
+  // Institution and account number as the file reports them
+  institution: string | null;
+  accountId: string | null;
+}
+
+/**
+ * Value of a leaf element. OFX 1.x is SGML where leaf elements usually
+ * aren't closed, so the value runs to the next tag or line break; OFX 2.x
+ * is XML and closes them. Both read the same way here.
+ */
+function field(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** "20240105120000.000[-5:EST]" → 2024-01-05 UTC midnight, like Plaid dates. */
+function parseOfxDate(value: string | null): Date | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Read an OFX or QFX (Quicken's OFX with an extra Intuit header) bank or
+ * credit card statement. Each transaction's FITID is the bank's own ID for
+ * it, so it keys the line; TRNAMT is already signed money-in positive.
+ */
+export function readOfxStatement(text: string): OfxStatement {
+  if (!/<OFX>/i.test(text)) {
+    throw new StatementImportError("Not an OFX/QFX file: no <OFX> element found");
+  }
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  const lines: StatementLine[] = [];
+  const errors: string[] = [];
+
+  blocks.forEach((block, i) => {
+    const number = i + 1;
+    const fitId = field(block, "FITID");
+    const date = parseOfxDate(field(block, "DTPOSTED"));
+    const amount = Number(field(block, "TRNAMT")?.replace(",", "."));
+
+    if (!fitId) {
+      errors.push(`Transaction ${number}: missing FITID`);
+      return;
+    }
+    if (!date) {
+      errors.push(`Transaction ${number}: unreadable posted date`);
+      return;
+    }
+    if (!Number.isFinite(amount)) {
+      errors.push(`Transaction ${number}: unreadable amount`);
+      return;
+    }
+
+    const name = field(block, "NAME") ?? field(block, "PAYEE");
+    const memo = field(block, "MEMO");
+    const raw: Record<string, string> = {};
+    for (const tag of ["TRNTYPE", "DTPOSTED", "TRNAMT", "FITID", "CHECKNUM", "NAME", "MEMO"]) {
+      const value = field(block, tag);
+      if (value) raw[tag] = value;
+    }
+
+    lines.push({
+      key: fitId,
+      date,
+      amount,
+      vendor: name,
+      description: memo ?? name,
+      raw,
+    });
+  });
+
+  return {
+    lines,
+    errors,
+    institution: field(text, "ORG"),
+    accountId: field(text, "ACCTID"),
+  };
+}
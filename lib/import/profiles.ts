@@ -0,0 +1,105 @@
+import { db } from "@/lib/db";
+import { importProfiles, type ImportProfile, type CsvColumnMapping } from "@/lib/db/schema";
+import { eq, and, asc } from "drizzle-orm";
+import { z } from "zod";
+import { DATE_FORMATS } from "./csv";
+
+const columnSchema = z.string().trim().min(1).optional();
+
+export const importProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  accountName: z.string().trim().min(1, "Account name is required").max(100),
+  columns: z
+    .object({
+      date: z.string().trim().min(1, "Map the date column"),
+      description: z.string().trim().min(1, "Map the description column"),
+      vendor: columnSchema,
+      amount: columnSchema,
+      debit: columnSchema,
+      credit: columnSchema,
+    })
+    .refine((c) => !!c.amount || (!!c.debit && !!c.credit), {
+      message: "Map an amount column, or both debit and credit columns",
+    }) satisfies z.ZodType<CsvColumnMapping>,
+  dateFormat: z.enum(DATE_FORMATS),
+  // Omitted settings take the column defaults: comma, header row, as-is signs
+  delimiter: z.enum([",", ";", "\t", "|"]).optional(),
+  hasHeader: z.boolean().optional(),
+  invertAmounts: z.boolean().optional(),
+});
+
+export type ImportProfileInput = z.infer<typeof importProfileSchema>;
+
+export class ImportProfileNameTakenError extends Error {
+  constructor(name: string) {
+    super(`A profile named "${name}" already exists`);
+    this.name = "ImportProfileNameTakenError";
+  }
+}
+
+export async function listImportProfiles(practiceId: string): Promise<ImportProfile[]> {
+  return db
+    .select()
+    .from(importProfiles)
+    .where(eq(importProfiles.practiceId, practiceId))
+    .orderBy(asc(importProfiles.name));
+}
+
+export async function getImportProfile(
+  profileId: string,
+  practiceId: string
+): Promise<ImportProfile | null> {
+  const [profile] = await db
+    .select()
+    .from(importProfiles)
+    .where(and(eq(importProfiles.id, profileId), eq(importProfiles.practiceId, practiceId)));
+  return profile ?? null;
+}
+
+export async function createImportProfile(
+  practiceId: string,
+  input: ImportProfileInput
+): Promise<ImportProfile> {
+  const [profile] = await db
+    .insert(importProfiles)
+    .values({ practiceId, ...input })
+    .onConflictDoNothing()
+    .returning();
+  if (!profile) throw new ImportProfileNameTakenError(input.name);
+  return profile;
+}
+
+export async function updateImportProfile(
+  profileId: string,
+  practiceId: string,
+  input: Partial<ImportProfileInput>
+): Promise<{ before: ImportProfile; after: ImportProfile } | null> {
+  const before = await getImportProfile(profileId, practiceId);
+  if (!before) return null;
+
+  if (input.name && input.name !== before.name) {
+    const [taken] = await db
+      .select({ id: importProfiles.id })
+      .from(importProfiles)
+      .where(and(eq(importProfiles.practiceId, practiceId), eq(importProfiles.name, input.name)));
+    if (taken) throw new ImportProfileNameTakenError(input.name);
+  }
+
+  const [after] = await db
+    .update(importProfiles)
+    .set({ ...input, updatedAt: new Date() })
+    .where(eq(importProfiles.id, profileId))
+    .returning();
+  return { before, after };
+}
+
+export async function deleteImportProfile(
+  profileId: string,
+  practiceId: string
+): Promise<ImportProfile | null> {
+  const [profile] = await db
+    .delete(importProfiles)
+    .where(and(eq(importProfiles.id, profileId), eq(importProfiles.practiceId, practiceId)))
+    .returning();
+  return profile ?? null;
+}
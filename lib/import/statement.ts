@@ -0,0 +1,134 @@
+import { createHash } from "crypto";
+import { db } from "@/lib/db";
+import { transactions, type ImportProfile } from "@/lib/db/schema";
+import { readCsvStatement } from "./csv";
+import { readOfxStatement } from "./ofx";
+import {
+  StatementImportError,
+  type ParsedStatement,
+  type StatementFormat,
+} from "./types";
+
+export interface StatementImportInput {
+  fileName: string;
+  content: string;
+  // Required for CSV files
+  profile?: ImportProfile | null;
+  // Overrides the account name derived from an OFX/QFX file
+  accountName?: string | null;
+}
+
+export interface StatementImportResult {
+  format: StatementFormat;
+  accountName: string;
+  imported: number;
+  // Already imported from an earlier upload of the same statement
+  skipped: number;
+  errors: string[];
+}
+
+// Row errors returned to the uploader; the rest are counted
+const MAX_REPORTED_ERRORS = 20;
+const INSERT_BATCH_SIZE = 500;
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "csv" || extension === "ofx" || extension === "qfx") return extension;
+  if (/OFXHEADER|<OFX>/i.test(content.slice(0, 2000))) return "ofx";
+  return null;
+}
+
+/** "Chase ····4321" from the file, so imported rows name their account. */
+function ofxAccountName(institution: string | null, accountId: string | null): string {
+  const last4 = accountId?.replace(/\s/g, "").slice(-4);
+  const name = institution ?? "Imported account";
+  return last4 ? `${name} ····${last4}` : name;
+}
+
+/** Synthetic ID: a hash of where the line came from and its key. */
+function importId(format: StatementFormat, scope: string, key: string): string {
+  const digest = createHash("sha256").update(`${scope}\n${key}`).digest("hex").slice(0, 32);
+  return `${format === "csv" ? "csv" : "ofx"}:${digest}`;
+}
+
+/**
+ * Import a CSV, OFX or QFX statement into transactions with source "file".
+ * Every line gets a synthetic import ID, so uploading the same statement
+ * (or one overlapping an earlier upload) only adds lines not seen before.
+ * Categorization and pair detection are left to the caller's jobs.
+ */
+export async function importStatement(
+  practiceId: string,
+  input: StatementImportInput
+): Promise<StatementImportResult> {
+  const format = detectStatementFormat(input.fileName, input.content);
+  if (!format) {
+    throw new StatementImportError("Unsupported file type: upload a .csv, .ofx or .qfx file");
+  }
+
+  let parsed: ParsedStatement;
+  let accountName: string;
+  let scope: string;
+
+  if (format === "csv") {
+    const profile = input.profile;
+    if (!profile) {
+      throw new StatementImportError("Choose a column-mapping profile to import a CSV file");
+    }
+    parsed = readCsvStatement(input.content, profile);
+    accountName = input.accountName || profile.accountName;
+    // CSV keys are only unique within one bank's export format
+    scope = `profile:${profile.id}`;
+  } else {
+    const statement = readOfxStatement(input.content);
+    parsed = statement;
+    accountName =
+      input.accountName || ofxAccountName(statement.institution, statement.accountId);
+    // FITIDs are unique per account at the institution
+    scope = `account:${statement.institution ?? ""}:${statement.accountId ?? ""}`;
+  }
+
+  if (parsed.lines.length === 0) {
+    throw new StatementImportError(
+      parsed.errors.length > 0
+        ? `No readable transactions: ${parsed.errors[0]}`
+        : "No transactions found in the file"
+    );
+  }
+
+  const rows = parsed.lines.map((line) => ({
+    practiceId,
+    source: "file" as const,
+    importTransactionId: importId(format, scope, line.key),
+    date: line.date,
+    amount: line.amount.toFixed(2),
+    vendorName: line.vendor || line.description || null,
+    description: line.description,
+    accountRef: accountName,
+    rawJson: { fileName: input.fileName, format, ...line.raw },
+    syncedAt: new Date(),
+  }));
+
+  let imported = 0;
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const inserted = await db
+      .insert(transactions)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoNothing()
+      .returning({ id: transactions.id });
+    imported += inserted.length;
+  }
+
+  const errors = parsed.errors.slice(0, MAX_REPORTED_ERRORS);
+  if (parsed.errors.length > MAX_REPORTED_ERRORS) {
+    errors.push(`…and ${parsed.errors.length - MAX_REPORTED_ERRORS} more unreadable rows`);
+  }
+
+  return {
+    format,
+    accountName,
+    imported,
+    skipped: rows.length - imported,
+    errors,
+  };
+}
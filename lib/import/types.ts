@@ -0,0 +1,26 @@
+export type StatementFormat = "csv" | "ofx" | "qfx";
+
+/** One transaction read from a statement file, before it becomes a row. */
+export interface StatementLine {
+  // Stable across re-imports of the same statement; hashed into the row's ID
+  key: string;
+  date: Date;
+  amount: number; // positive = money in
+  vendor: string | null;
+  description: string | null;
+  raw: Record<string, string>;
+}
+
+export interface ParsedStatement {
+  lines: StatementLine[];
+  // Rows that couldn't be read, by line or transaction number
+  errors: string[];
+}
+
+/** The file can't be imported at all (unknown format, bad mapping, no rows). */
+export class StatementImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementImportError";
+  }
+}
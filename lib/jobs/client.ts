@@ -0,0 +1,43 @@
+// Browser helpers for endpoints that enqueue a background job and answer
+// 202 { jobId }. Safe to import from client components.
+
+const POLL_INTERVAL_MS = 1500;
+
+/** Give up polling after this long; the job keeps running server-side */
+const POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+interface JobStatusResponse {
+  status: "queued" | "running" | "completed" | "failed";
+  result: unknown;
+  lastError: string | null;
+}
+
+/** Poll a job until it finishes. Resolves with its result, rejects if it failed. */
+export async function waitForJob<T>(jobId: string): Promise<T> {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const res = await fetch(`/api/jobs/${jobId}`);
+    if (!res.ok) throw new Error("Failed to check job status");
+    const job: JobStatusResponse = await res.json();
+
+    if (job.status === "completed") return job.result as T;
+    if (job.status === "failed") throw new Error(job.lastError || "Job failed");
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error("Timed out waiting for job — it is still running in the background");
+}
+
+/**
+ * POST to an endpoint and, if it queued a job, wait for the job's result.
+ * Endpoints that answer synchronously (e.g. demo mode) resolve immediately.
+ */
+export async function runJob<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(url, { method: "POST", ...init });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || "Request failed");
+  if (res.status === 202 && body.jobId) return waitForJob<T>(body.jobId);
+  return body as T;
+}
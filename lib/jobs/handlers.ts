@@ -0,0 +1,207 @@
+import { syncTransactions, SyncInProgressError } from "@/lib/qbo/sync";
+import { syncRealmChanges } from "@/lib/qbo/webhook";
+import { importChartOfAccounts } from "@/lib/qbo/chart-of-accounts";
+import { refreshPlaidBalances, syncPlaidTransactions } from "@/lib/plaid/sync";
+import {
+  categorizeUncategorized,
+  recategorizeRuleSourced,
+} from "@/lib/categorization/engine";
+import { mineRuleSuggestions } from "@/lib/categorization/rule-mining";
+import { refreshSnapshot } from "@/lib/finance/snapshot";
+import { regenerateTaxAlerts } from "@/lib/finance/tax-strategy";
+import { detectTransactionMatches } from "@/lib/finance/transaction-matches";
+import { detectDuplicates } from "@/lib/finance/duplicates";
+import { sendMonthlyDigests, sendWeeklyInsights } from "@/lib/email/digests";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { getTaskDefinition } from "@/lib/scheduler/tasks";
+import { markRunStarted, markRunFinished, skipReason } from "@/lib/scheduler/scheduler";
+import { enqueueJob } from "./queue";
+import type { Job } from "./types";
+
+export const JOB_QUEUES = ["sync", "categorization", "snapshots", "email"] as const;
+export type JobQueue = (typeof JOB_QUEUES)[number];
+
+/** Thrown by a handler when retrying the job can't help. */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+type JobHandler = (job: Job) => Promise<unknown>;
+
+function practiceOf(job: Job): string {
+  if (!job.practiceId) {
+    throw new PermanentJobError(`Job "${job.name}" requires a practice`);
+  }
+  return job.practiceId;
+}
+
+function userOf(job: Job): string | null {
+  return typeof job.payload.userId === "string" ? job.payload.userId : null;
+}
+
+/**
+ * New transactions may duplicate one from another source, or complete a
+ * transfer or refund pair.
+ */
+export async function enqueuePairDetection(practiceId: string) {
+  await enqueueJob("categorization", "duplicates.detect", {}, {
+    practiceId,
+    idempotencyKey: `duplicates:${practiceId}`,
+  });
+  await enqueueJob("categorization", "matches.detect", {}, {
+    practiceId,
+    idempotencyKey: `matches:${practiceId}`,
+  });
+}
+
+export const jobHandlers: Record<string, JobHandler> = {
+  "qbo.sync": async (job) => {
+    const practiceId = practiceOf(job);
+    try {
+      // Keep the chart of accounts current, first so journal entries can be
+      // signed by account type; a failure here shouldn't fail the sync
+      try {
+        await importChartOfAccounts(practiceId);
+      } catch (err) {
+        console.error(`Chart of accounts import failed for ${practiceId}:`, err);
+      }
+
+      const result = await syncTransactions(practiceId);
+
+      if (result.synced > 0) {
+        await enqueueJob("categorization", "categorize.uncategorized", {}, {
+          practiceId,
+          idempotencyKey: `categorize:${practiceId}`,
+        });
+        await enqueuePairDetection(practiceId);
+      }
+      return {
+        ...result,
+        message:
+          result.status === "failed"
+            ? `Sync paused after ${result.synced} new transactions — run again to resume`
+            : `Synced ${result.synced} new transactions, updated ${result.skipped}`,
+      };
+    } catch (e) {
+      if (e instanceof SyncInProgressError) throw new PermanentJobError(e.message);
+      throw e;
+    }
+  },
+
+  // Webhook-driven CDC sync; keyed by realm, which may back several practices
+  "qbo.sync-changes": async (job) => {
+    const realmId = String(job.payload.realmId);
+    const changedSince =
+      typeof job.payload.changedSince === "string" ? new Date(job.payload.changedSince) : undefined;
+    const results = await syncRealmChanges(realmId, changedSince);
+
+    for (const result of results) {
+      if (result.synced === 0) continue;
+      await enqueueJob("categorization", "categorize.uncategorized", {}, {
+        practiceId: result.practiceId,
+        idempotencyKey: `categorize:${result.practiceId}`,
+      });
+      await enqueuePairDetection(result.practiceId);
+    }
+    return {
+      practices: results.length,
+      synced: results.reduce((sum, r) => sum + r.synced, 0),
+      deleted: results.reduce((sum, r) => sum + r.deleted, 0),
+    };
+  },
+
+  "plaid.sync": async (job) => {
+    const practiceId = practiceOf(job);
+    const balances = await refreshPlaidBalances(practiceId);
+
+    // Pull transactions for connections that are still healthy, then run
+    // them through the same categorization pipeline as QBO transactions
+    const txnResult = await syncPlaidTransactions(practiceId);
+    const categorization =
+      txnResult.added > 0 ? await categorizeUncategorized(practiceId) : null;
+    if (txnResult.added > 0) await enqueuePairDetection(practiceId);
+
+    await logAuditEvent({
+      practiceId,
+      userId: userOf(job),
+      action: "plaid_sync_completed",
+      entityType: "plaid_connection",
+      newValue: {
+        connectionsProcessed: balances.connections,
+        accountsUpdated: balances.accountsUpdated,
+        transactionsAdded: txnResult.added,
+        transactionsModified: txnResult.modified,
+        transactionsRemoved: txnResult.removed,
+      },
+    });
+
+    return {
+      synced: balances.connections,
+      accountsUpdated: balances.accountsUpdated,
+      transactionsAdded: txnResult.added,
+      transactionsModified: txnResult.modified,
+      transactionsRemoved: txnResult.removed,
+      transactionErrors: txnResult.errors,
+      categorized: categorization?.categorized ?? 0,
+    };
+  },
+
+  "categorize.uncategorized": async (job) => categorizeUncategorized(practiceOf(job)),
+
+  "categorize.rerun": async (job) =>
+    recategorizeRuleSourced(practiceOf(job), { dryRun: false }),
+
+  "rules.mine": async (job) => {
+    const { suggestions, ...result } = await mineRuleSuggestions(practiceOf(job));
+    return { ...result, pending: suggestions.length };
+  },
+
+  "duplicates.detect": async (job) => detectDuplicates(practiceOf(job)),
+
+  "matches.detect": async (job) => detectTransactionMatches(practiceOf(job)),
+
+  "snapshot.refresh": async (job) => refreshSnapshot(practiceOf(job)),
+
+  "tax-alerts.generate": async (job) => {
+    const taxYear =
+      typeof job.payload.taxYear === "number" ? job.payload.taxYear : new Date().getFullYear();
+    const alerts = await regenerateTaxAlerts(practiceOf(job), taxYear);
+    return { taxYear, alertCount: alerts.length };
+  },
+
+  // Queued per practice by the scheduler; a job without one (left over from
+  // the retired all-practice cron routes) goes to every subscriber
+  "email.monthly-digest": async (job) =>
+    sendMonthlyDigests({ practiceId: job.practiceId ?? undefined }),
+
+  "email.weekly-insights": async (job) =>
+    sendWeeklyInsights({ practiceId: job.practiceId ?? undefined }),
+
+  // Runs a scheduled task's handler and records the outcome in its run history
+  "schedule.run": async (job) => {
+    const runId = String(job.payload.runId);
+    const run = await markRunStarted(runId);
+    if (!run) throw new PermanentJobError(`Scheduled run ${runId} not found`);
+
+    try {
+      const definition = getTaskDefinition(run.task);
+      if (!definition) throw new PermanentJobError(`Unknown scheduled task "${run.task}"`);
+
+      const reason = await skipReason(run);
+      const result = reason
+        ? { skipped: reason }
+        : await jobHandlers[definition.jobName](job);
+      await markRunFinished(runId, "completed", { result });
+      return result;
+    } catch (err) {
+      const retrying = !(err instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+      await markRunFinished(runId, retrying ? "queued" : "failed", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  },
+};
@@ -0,0 +1,136 @@
+import { db } from "@/lib/db";
+import { jobs } from "@/lib/db/schema";
+import { eq, and, or, inArray, desc, lt, sql } from "drizzle-orm";
+import type { JobBackend, JobFilter, EnqueueOptions } from "./types";
+
+/** Running jobs whose worker hasn't finished within this window are retaken */
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+export function createPostgresBackend(): JobBackend {
+  return {
+    async enqueue(queue, name, payload, options: EnqueueOptions) {
+      const values = {
+        queue,
+        name,
+        payload,
+        practiceId: options.practiceId ?? null,
+        idempotencyKey: options.idempotencyKey ?? null,
+        maxAttempts: options.maxAttempts ?? 3,
+        backoffMs: options.backoffMs ?? 5000,
+        runAt: new Date(Date.now() + (options.delayMs ?? 0)),
+      };
+
+      if (!options.idempotencyKey) {
+        const [job] = await db.insert(jobs).values(values).returning();
+        return job;
+      }
+
+      const key = options.idempotencyKey;
+      return db.transaction(async (tx) => {
+        // Serialize enqueues for the same key so two requests can't both insert
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`${queue}:${key}`}))`);
+
+        const [active] = await tx
+          .select()
+          .from(jobs)
+          .where(
+            and(
+              eq(jobs.queue, queue),
+              eq(jobs.idempotencyKey, key),
+              inArray(jobs.status, ["queued", "running"])
+            )
+          )
+          .limit(1);
+        if (active) return active;
+
+        const [job] = await tx.insert(jobs).values(values).returning();
+        return job;
+      });
+    },
+
+    async claim(queue) {
+      const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+      const next = sql`(
+        SELECT id FROM jobs
+        WHERE queue = ${queue}
+          AND (
+            (status = 'queued' AND run_at <= now())
+            OR (status = 'running' AND locked_at < ${staleBefore})
+          )
+        ORDER BY run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`;
+
+      const [job] = await db
+        .update(jobs)
+        .set({
+          status: "running",
+          attempts: sql`${jobs.attempts} + 1`,
+          lockedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(jobs.id, next))
+        .returning();
+      return job ?? null;
+    },
+
+    async complete(id, result) {
+      const now = new Date();
+      await db
+        .update(jobs)
+        .set({
+          status: "completed",
+          result: result ?? null,
+          lockedAt: null,
+          updatedAt: now,
+          completedAt: now,
+        })
+        .where(eq(jobs.id, id));
+    },
+
+    async fail(id, error, retryAt) {
+      const now = new Date();
+      await db
+        .update(jobs)
+        .set(
+          retryAt
+            ? { status: "queued", lastError: error, runAt: retryAt, lockedAt: null, updatedAt: now }
+            : { status: "failed", lastError: error, lockedAt: null, updatedAt: now, completedAt: now }
+        )
+        .where(eq(jobs.id, id));
+    },
+
+    async get(id) {
+      const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+      return job ?? null;
+    },
+
+    async list(filter: JobFilter) {
+      const conditions = [eq(jobs.practiceId, filter.practiceId)];
+      if (filter.queue) conditions.push(eq(jobs.queue, filter.queue));
+      if (filter.status) conditions.push(eq(jobs.status, filter.status));
+
+      return db
+        .select()
+        .from(jobs)
+        .where(and(...conditions))
+        .orderBy(desc(jobs.createdAt))
+        .limit(filter.limit ?? 50);
+    },
+  };
+}
+
+/** Delete finished jobs older than the cutoff. */
+export async function pruneFinishedJobs(olderThan: Date): Promise<number> {
+  const deleted = await db
+    .delete(jobs)
+    .where(
+      and(
+        or(eq(jobs.status, "completed"), eq(jobs.status, "failed")),
+        lt(jobs.completedAt, olderThan)
+      )
+    )
+    .returning({ id: jobs.id });
+  return deleted.length;
+}
@@ -0,0 +1,52 @@
+import { createPostgresBackend } from "./postgres-backend";
+import { createRedisBackend } from "./redis-backend";
+import type { Job, JobBackend, JobFilter, EnqueueOptions } from "./types";
+
+let backend: JobBackend | null = null;
+
+/**
+ * Jobs live in Redis when REDIS_URL is set, otherwise in the Postgres
+ * jobs table. Both backends behave the same to callers.
+ */
+export function getJobBackend(): JobBackend {
+  if (!backend) {
+    backend = process.env.REDIS_URL
+      ? createRedisBackend(process.env.REDIS_URL)
+      : createPostgresBackend();
+  }
+  return backend;
+}
+
+export async function enqueueJob(
+  queue: string,
+  name: string,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  return getJobBackend().enqueue(queue, name, payload, options);
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  return getJobBackend().get(id);
+}
+
+export async function listJobs(filter: JobFilter): Promise<Job[]> {
+  return getJobBackend().list(filter);
+}
+
+/** The fields the jobs status API exposes; payloads stay server-side. */
+export function toJobStatus(job: Job) {
+  return {
+    id: job.id,
+    queue: job.queue,
+    name: job.name,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    result: job.result,
+    lastError: job.lastError,
+    runAt: job.runAt,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
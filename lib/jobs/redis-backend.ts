@@ -0,0 +1,220 @@
+import Redis from "ioredis";
+import { randomUUID } from "crypto";
+import type { Job, JobBackend, JobFilter, EnqueueOptions } from "./types";
+
+const PREFIX = "jobs";
+
+/** Finished jobs stay readable for the status API this long */
+const FINISHED_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Running jobs whose worker hasn't finished within this window are retaken */
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Per-practice index is trimmed to the newest entries */
+const PRACTICE_INDEX_SIZE = 500;
+
+const keys = {
+  job: (id: string) => `${PREFIX}:job:${id}`,
+  due: (queue: string) => `${PREFIX}:queue:${queue}`,
+  running: (queue: string) => `${PREFIX}:running:${queue}`,
+  idempotency: (queue: string, key: string) => `${PREFIX}:idem:${queue}:${key}`,
+  practice: (practiceId: string) => `${PREFIX}:practice:${practiceId}`,
+};
+
+// Pop the next due job (or a stale running one) and mark it running, atomically
+const CLAIM_SCRIPT = `
+local id = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)[1]
+if id then
+  redis.call('ZREM', KEYS[1], id)
+else
+  id = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[2], 'LIMIT', 0, 1)[1]
+  if not id then return nil end
+end
+redis.call('ZADD', KEYS[2], ARGV[1], id)
+return id
+`;
+
+const DATE_FIELDS = ["runAt", "lockedAt", "createdAt", "updatedAt", "completedAt"] as const;
+
+function serialize(job: Job): string {
+  return JSON.stringify(job);
+}
+
+function deserialize(raw: string | null): Job | null {
+  if (!raw) return null;
+  const parsed = JSON.parse(raw);
+  for (const field of DATE_FIELDS) {
+    parsed[field] = parsed[field] ? new Date(parsed[field]) : null;
+  }
+  return parsed as Job;
+}
+
+export function createRedisBackend(url: string): JobBackend {
+  const redis = new Redis(url, { maxRetriesPerRequest: 2 });
+
+  async function load(id: string): Promise<Job | null> {
+    return deserialize(await redis.get(keys.job(id)));
+  }
+
+  async function finish(job: Job) {
+    await redis
+      .multi()
+      .set(keys.job(job.id), serialize(job), "EX", FINISHED_TTL_SECONDS)
+      .zrem(keys.running(job.queue), job.id)
+      .exec();
+    if (job.idempotencyKey) {
+      const idemKey = keys.idempotency(job.queue, job.idempotencyKey);
+      if ((await redis.get(idemKey)) === job.id) await redis.del(idemKey);
+    }
+  }
+
+  return {
+    async enqueue(queue, name, payload, options: EnqueueOptions) {
+      const now = new Date();
+      const job: Job = {
+        id: randomUUID(),
+        queue,
+        name,
+        practiceId: options.practiceId ?? null,
+        payload,
+        status: "queued",
+        attempts: 0,
+        maxAttempts: options.maxAttempts ?? 3,
+        backoffMs: options.backoffMs ?? 5000,
+        idempotencyKey: options.idempotencyKey ?? null,
+        runAt: new Date(now.getTime() + (options.delayMs ?? 0)),
+        lockedAt: null,
+        result: null,
+        lastError: null,
+        createdAt: now,
+        updatedAt: now,
+        completedAt: null,
+      };
+
+      if (job.idempotencyKey) {
+        const idemKey = keys.idempotency(queue, job.idempotencyKey);
+        const reserved = await redis.set(idemKey, job.id, "NX");
+        if (!reserved) {
+          const existing = await load((await redis.get(idemKey)) ?? "");
+          if (existing && (existing.status === "queued" || existing.status === "running")) {
+            return existing;
+          }
+          // The key outlived its job (e.g. job expired); take it over
+          await redis.set(idemKey, job.id);
+        }
+      }
+
+      const multi = redis
+        .multi()
+        .set(keys.job(job.id), serialize(job))
+        .zadd(keys.due(queue), job.runAt.getTime(), job.id);
+      if (job.practiceId) {
+        multi
+          .zadd(keys.practice(job.practiceId), now.getTime(), job.id)
+          .zremrangebyrank(keys.practice(job.practiceId), 0, -PRACTICE_INDEX_SIZE - 1);
+      }
+      await multi.exec();
+
+      return job;
+    },
+
+    async claim(queue) {
+      const now = Date.now();
+      const id = (await redis.eval(
+        CLAIM_SCRIPT,
+        2,
+        keys.due(queue),
+        keys.running(queue),
+        now,
+        now - LOCK_TIMEOUT_MS
+      )) as string | null;
+      if (!id) return null;
+
+      const job = await load(id);
+      if (!job) {
+        await redis.zrem(keys.running(queue), id);
+        return null;
+      }
+
+      const claimed: Job = {
+        ...job,
+        status: "running",
+        attempts: job.attempts + 1,
+        lockedAt: new Date(now),
+        updatedAt: new Date(now),
+      };
+      await redis.set(keys.job(id), serialize(claimed));
+      return claimed;
+    },
+
+    async complete(id, result) {
+      const job = await load(id);
+      if (!job) return;
+      const now = new Date();
+      await finish({
+        ...job,
+        status: "completed",
+        result: result ?? null,
+        lockedAt: null,
+        updatedAt: now,
+        completedAt: now,
+      });
+    },
+
+    async fail(id, error, retryAt) {
+      const job = await load(id);
+      if (!job) return;
+      const now = new Date();
+
+      if (!retryAt) {
+        await finish({
+          ...job,
+          status: "failed",
+          lastError: error,
+          lockedAt: null,
+          updatedAt: now,
+          completedAt: now,
+        });
+        return;
+      }
+
+      const retry: Job = {
+        ...job,
+        status: "queued",
+        lastError: error,
+        runAt: retryAt,
+        lockedAt: null,
+        updatedAt: now,
+      };
+      await redis
+        .multi()
+        .set(keys.job(id), serialize(retry))
+        .zrem(keys.running(job.queue), id)
+        .zadd(keys.due(job.queue), retryAt.getTime(), id)
+        .exec();
+    },
+
+    async get(id) {
+      return load(id);
+    },
+
+    async list(filter: JobFilter) {
+      const limit = filter.limit ?? 50;
+      const filtered = !!(filter.queue || filter.status);
+      const ids = await redis.zrevrange(
+        keys.practice(filter.practiceId),
+        0,
+        (filtered ? PRACTICE_INDEX_SIZE : limit) - 1
+      );
+      if (ids.length === 0) return [];
+
+      const raw = await redis.mget(ids.map(keys.job));
+      return raw
+        .map(deserialize)
+        .filter((job): job is Job => job !== null)
+        .filter((job) => !filter.queue || job.queue === filter.queue)
+        .filter((job) => !filter.status || job.status === filter.status)
+        .slice(0, limit);
+    },
+  };
+}
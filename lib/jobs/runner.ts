@@ -0,0 +1,52 @@
+import { getJobBackend } from "./queue";
+import { jobHandlers, PermanentJobError } from "./handlers";
+import type { Job } from "./types";
+
+/** Upper bound on jobs a single drain processes, so requests stay bounded */
+const DEFAULT_DRAIN_LIMIT = 25;
+
+/**
+ * Claim and run the next due job on a queue. A failed attempt is retried
+ * after backoffMs, doubling each time, until maxAttempts is reached; the
+ * retry runs on the next drain after that, from the worker or /api/cron.
+ * Returns the job that ran, or null if the queue had nothing due.
+ */
+export async function runNextJob(queue: string): Promise<Job | null> {
+  const backend = getJobBackend();
+  const job = await backend.claim(queue);
+  if (!job) return null;
+
+  try {
+    const handler = jobHandlers[job.name];
+    if (!handler) throw new PermanentJobError(`No handler for job "${job.name}"`);
+    const result = await handler(job);
+    await backend.complete(job.id, result ?? null);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const retry = !(err instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+    const retryAt = retry
+      ? new Date(Date.now() + job.backoffMs * 2 ** (job.attempts - 1))
+      : null;
+    console.error(
+      `Job ${job.name} (${job.id}) failed on attempt ${job.attempts}/${job.maxAttempts}:`,
+      err
+    );
+    await backend.fail(job.id, message, retryAt);
+  }
+
+  return job;
+}
+
+/** Run due jobs on a queue until it's empty or the limit is reached. */
+export async function drainQueue(
+  queue: string,
+  limit = DEFAULT_DRAIN_LIMIT
+): Promise<number> {
+  let processed = 0;
+  while (processed < limit) {
+    const job = await runNextJob(queue);
+    if (!job) break;
+    processed++;
+  }
+  return processed;
+}
@@ -0,0 +1,40 @@
+import type { Job } from "@/lib/db/schema";
+
+export type { Job };
+
+export type JobStatus = Job["status"];
+
+export interface EnqueueOptions {
+  practiceId?: string | null;
+  // While a job with the same key is queued or running on this queue,
+  // enqueueing again returns that job instead of creating a duplicate.
+  idempotencyKey?: string;
+  maxAttempts?: number;
+  // Retry delay doubles on every attempt: backoffMs, 2x, 4x...
+  backoffMs?: number;
+  delayMs?: number;
+}
+
+export interface JobFilter {
+  practiceId: string;
+  queue?: string;
+  status?: JobStatus;
+  limit?: number;
+}
+
+/** Storage for jobs. Implemented over Postgres and over Redis. */
+export interface JobBackend {
+  enqueue(
+    queue: string,
+    name: string,
+    payload: Record<string, unknown>,
+    options: EnqueueOptions
+  ): Promise<Job>;
+  /** Atomically take the next due job on a queue and mark it running. */
+  claim(queue: string): Promise<Job | null>;
+  complete(id: string, result: unknown): Promise<void>;
+  /** Record a failed attempt; retryAt null means no more retries. */
+  fail(id: string, error: string, retryAt: Date | null): Promise<void>;
+  get(id: string): Promise<Job | null>;
+  list(filter: JobFilter): Promise<Job[]>;
+}
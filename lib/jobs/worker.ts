@@ -0,0 +1,66 @@
+import "dotenv/config";
+import { JOB_QUEUES } from "./handlers";
+import { drainQueue } from "./runner";
+import { runDueSchedules } from "@/lib/scheduler/scheduler";
+
+/** How long the worker sleeps when every queue is empty */
+const IDLE_POLL_MS = 2000;
+
+/** How often the worker starts due schedules, standing in for /api/cron */
+const SCHEDULE_TICK_MS = 60 * 1000;
+
+let stopping = false;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Long-running worker: starts due schedules once a minute and processes
+ * every queue in turn, including retries whose backoff has elapsed.
+ *
+ * Web requests also drain their own queue after responding, but that only
+ * runs jobs already due. A failed job's retry comes due later, and nothing
+ * picks it up until this worker or the /api/cron tick drains its queue (or
+ * another request happens to drain the same one). One of the two must be
+ * deployed, or retries and schedules never run.
+ */
+async function main() {
+  console.log(`Job worker started (queues: ${JOB_QUEUES.join(", ")})`);
+
+  let lastTick = 0;
+
+  while (!stopping) {
+    if (Date.now() - lastTick >= SCHEDULE_TICK_MS) {
+      lastTick = Date.now();
+      try {
+        const { started } = await runDueSchedules();
+        if (started.length > 0) console.log(`Started ${started.length} scheduled task(s)`);
+      } catch (err) {
+        console.error("Scheduler tick failed:", err);
+      }
+    }
+
+    let processed = 0;
+    for (const queue of JOB_QUEUES) {
+      try {
+        processed += await drainQueue(queue);
+      } catch (err) {
+        console.error(`Worker error on queue ${queue}:`, err);
+      }
+    }
+    if (processed === 0) await sleep(IDLE_POLL_MS);
+  }
+
+  console.log("Job worker stopped");
+  process.exit(0);
+}
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    // Finish the job in hand, then exit
+    stopping = true;
+  });
+}
+
+main();
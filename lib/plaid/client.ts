@@ -1,4 +1,12 @@
-import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } from "plaid";
+import {
+  Configuration,
+  PlaidApi,
+  PlaidEnvironments,
+  Products,
+  CountryCode,
+  type Transaction as PlaidTransaction,
+  type RemovedTransaction,
+} from "plaid";
 import { encrypt, decrypt } from "@/lib/encryption";
 
 const configuration = new Configuration({
@@ -55,3 +63,64 @@ export async function getBalances(encryptedAccessToken: string) {
   });
   return response.data.accounts;
 }
+
+export interface TransactionUpdates {
+  added: PlaidTransaction[];
+  modified: PlaidTransaction[];
+  removed: RemovedTransaction[];
+  nextCursor: string;
+}
+
+/** Extract Plaid's error_code from an axios error thrown by the SDK. */
+export function getPlaidErrorCode(err: unknown): string | null {
+  const data = (err as { response?: { data?: { error_code?: string } } })
+    ?.response?.data;
+  return data?.error_code ?? null;
+}
+
+/**
+ * Pull every page of /transactions/sync since the given cursor.
+ * A null cursor fetches the item's full history. Per Plaid's guidance, if the
+ * data mutates mid-pagination the whole loop restarts from the original cursor.
+ */
+export async function getTransactionUpdates(
+  encryptedAccessToken: string,
+  cursor: string | null
+): Promise<TransactionUpdates> {
+  const accessToken = decrypt(encryptedAccessToken);
+  const MAX_RESTARTS = 3;
+
+  for (let attempt = 0; ; attempt++) {
+    const updates: TransactionUpdates = {
+      added: [],
+      modified: [],
+      removed: [],
+      nextCursor: cursor ?? "",
+    };
+
+    try {
+      let hasMore = true;
+      while (hasMore) {
+        const response = await plaidClient.transactionsSync({
+          access_token: accessToken,
+          cursor: updates.nextCursor || undefined,
+          count: 500,
+        });
+        updates.added.push(...response.data.added);
+        updates.modified.push(...response.data.modified);
+        updates.removed.push(...response.data.removed);
+        updates.nextCursor = response.data.next_cursor;
+        hasMore = response.data.has_more;
+      }
+      return updates;
+    } catch (err) {
+      if (
+        getPlaidErrorCode(err) === "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION" &&
+        attempt < MAX_RESTARTS
+      ) {
+        continue;
+      }
+      throw err;
+    }
+  }
+}
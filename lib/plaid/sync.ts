@@ -0,0 +1,301 @@
+import { db } from "@/lib/db";
+import {
+  transactions,
+  categorizations,
+  transactionMatches,
+  plaidConnections,
+  plaidAccounts,
+} from "@/lib/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import type { Transaction as PlaidTransaction } from "plaid";
+import { getBalances, getTransactionUpdates, getPlaidErrorCode } from "./client";
+
+interface PlaidSyncResult {
+  connections: number;
+  added: number;
+  modified: number;
+  removed: number;
+  errors: number;
+}
+
+// Plaid error codes that mean the user has to re-authenticate through Link
+const REAUTH_ERROR_CODES = ["ITEM_LOGIN_REQUIRED", "PENDING_EXPIRATION"];
+
+// How far apart a removed transaction and the one Plaid reissued in its
+// place can be dated
+const REPLACEMENT_WINDOW_MS = 5 * 24 * 60 * 60 * 1000;
+
+interface SyncedRow {
+  id: string;
+  plaidAccountId: string | null;
+  amount: string;
+  date: Date;
+}
+
+/**
+ * Map a Plaid transaction onto our transactions row.
+ * Plaid reports outflows as positive amounts; we store them negative
+ * to match the QBO convention (positive = money in).
+ */
+function toTransactionRow(
+  practiceId: string,
+  txn: PlaidTransaction,
+  account: { id: string; name: string } | undefined
+) {
+  return {
+    practiceId,
+    source: "plaid" as const,
+    plaidTransactionId: txn.transaction_id,
+    plaidAccountId: account?.id ?? null,
+    date: new Date(txn.date),
+    amount: String(-txn.amount),
+    vendorName: txn.merchant_name || txn.name || null,
+    description: txn.name || null,
+    accountRef: account?.name ?? null,
+    rawJson: txn,
+    syncedAt: new Date(),
+  };
+}
+
+/**
+ * The transaction added in the same sync that replaces a removed one: same
+ * account and amount, closest in date. Banks sometimes reissue a posted
+ * transaction under a new ID, which Plaid reports as a removal plus an add.
+ */
+function findReplacement(removed: SyncedRow, added: SyncedRow[]): SyncedRow | undefined {
+  const gap = (a: SyncedRow) => Math.abs(a.date.getTime() - removed.date.getTime());
+  return added
+    .filter(
+      (a) =>
+        a.plaidAccountId === removed.plaidAccountId &&
+        parseFloat(a.amount) === parseFloat(removed.amount) &&
+        gap(a) <= REPLACEMENT_WINDOW_MS
+    )
+    .sort((a, b) => gap(a) - gap(b))[0];
+}
+
+/**
+ * Carry a removed transaction's review work over to its replacement:
+ * categorizations (and their splits), transfer and refund matches, and
+ * copies merged into it as duplicates.
+ */
+async function moveReviewWork(fromId: string, toId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .update(categorizations)
+      .set({ transactionId: toId })
+      .where(eq(categorizations.transactionId, fromId));
+    await tx
+      .update(transactionMatches)
+      .set({ outflowTransactionId: toId })
+      .where(eq(transactionMatches.outflowTransactionId, fromId));
+    await tx
+      .update(transactionMatches)
+      .set({ inflowTransactionId: toId })
+      .where(eq(transactionMatches.inflowTransactionId, fromId));
+    await tx
+      .update(transactions)
+      .set({ duplicateOfId: toId })
+      .where(eq(transactions.duplicateOfId, fromId));
+  });
+}
+
+/**
+ * Pull new, modified and removed transactions from every active Plaid
+ * connection for a practice using /transactions/sync.
+ * The cursor is only advanced once a connection's updates are fully applied,
+ * so a failed run is retried from the same point next time.
+ * Pending transactions are skipped — Plaid re-issues them once posted.
+ * A removed transaction that was reissued under a new ID hands its review
+ * work to the new one before it's deleted.
+ */
+export async function syncPlaidTransactions(
+  practiceId: string
+): Promise<PlaidSyncResult> {
+  const connections = await db
+    .select()
+    .from(plaidConnections)
+    .where(
+      and(
+        eq(plaidConnections.practiceId, practiceId),
+        eq(plaidConnections.status, "active")
+      )
+    );
+
+  let added = 0;
+  let modified = 0;
+  let removed = 0;
+  let errors = 0;
+
+  for (const connection of connections) {
+    try {
+      const updates = await getTransactionUpdates(
+        connection.accessToken,
+        connection.transactionsCursor
+      );
+
+      const accounts = await db
+        .select({
+          id: plaidAccounts.id,
+          plaidAccountId: plaidAccounts.plaidAccountId,
+          name: plaidAccounts.name,
+        })
+        .from(plaidAccounts)
+        .where(eq(plaidAccounts.plaidConnectionId, connection.id));
+      const accountMap = new Map(accounts.map((a) => [a.plaidAccountId, a]));
+      const addedRows: SyncedRow[] = [];
+
+      for (const txn of [...updates.added, ...updates.modified]) {
+        if (txn.pending) continue;
+
+        const row = toTransactionRow(
+          practiceId,
+          txn,
+          accountMap.get(txn.account_id)
+        );
+
+        const [existing] = await db
+          .select({ id: transactions.id })
+          .from(transactions)
+          .where(
+            and(
+              eq(transactions.practiceId, practiceId),
+              eq(transactions.plaidTransactionId, txn.transaction_id)
+            )
+          );
+
+        if (existing) {
+          await db
+            .update(transactions)
+            .set(row)
+            .where(eq(transactions.id, existing.id));
+          modified++;
+        } else {
+          const [inserted] = await db
+            .insert(transactions)
+            .values(row)
+            .returning({ id: transactions.id });
+          addedRows.push({
+            id: inserted.id,
+            plaidAccountId: row.plaidAccountId,
+            amount: row.amount,
+            date: row.date,
+          });
+          added++;
+        }
+      }
+
+      const removedIds = updates.removed.map((r) => r.transaction_id);
+      if (removedIds.length > 0) {
+        const removedRows = await db
+          .select({
+            id: transactions.id,
+            plaidAccountId: transactions.plaidAccountId,
+            amount: transactions.amount,
+            date: transactions.date,
+          })
+          .from(transactions)
+          .where(
+            and(
+              eq(transactions.practiceId, practiceId),
+              inArray(transactions.plaidTransactionId, removedIds)
+            )
+          );
+
+        for (const row of removedRows) {
+          const replacement = findReplacement(row, addedRows);
+          if (replacement) {
+            addedRows.splice(addedRows.indexOf(replacement), 1);
+            await moveReviewWork(row.id, replacement.id);
+          }
+          await db.delete(transactions).where(eq(transactions.id, row.id));
+          removed++;
+        }
+      }
+
+      await db
+        .update(plaidConnections)
+        .set({
+          transactionsCursor: updates.nextCursor,
+          lastSyncedAt: new Date(),
+        })
+        .where(eq(plaidConnections.id, connection.id));
+    } catch (err) {
+      console.error(
+        `Plaid transaction sync error for connection ${connection.id}:`,
+        err
+      );
+      errors++;
+
+      const code = getPlaidErrorCode(err);
+      await db
+        .update(plaidConnections)
+        .set({
+          status:
+            code && REAUTH_ERROR_CODES.includes(code) ? "pending_reauth" : "error",
+        })
+        .where(eq(plaidConnections.id, connection.id));
+    }
+  }
+
+  return { connections: connections.length, added, modified, removed, errors };
+}
+
+/**
+ * Refresh current and available balances for every active Plaid connection.
+ * A connection that fails is marked errored and the rest carry on.
+ */
+export async function refreshPlaidBalances(
+  practiceId: string
+): Promise<{ connections: number; accountsUpdated: number }> {
+  const connections = await db
+    .select()
+    .from(plaidConnections)
+    .where(
+      and(
+        eq(plaidConnections.practiceId, practiceId),
+        eq(plaidConnections.status, "active")
+      )
+    );
+
+  let accountsUpdated = 0;
+
+  for (const connection of connections) {
+    try {
+      const accounts = await getBalances(connection.accessToken);
+
+      for (const account of accounts) {
+        await db
+          .update(plaidAccounts)
+          .set({
+            currentBalance: String(account.balances.current ?? 0),
+            availableBalance: account.balances.available != null
+              ? String(account.balances.available)
+              : null,
+            lastBalanceUpdate: new Date(),
+          })
+          .where(
+            and(
+              eq(plaidAccounts.plaidConnectionId, connection.id),
+              eq(plaidAccounts.plaidAccountId, account.account_id)
+            )
+          );
+        accountsUpdated++;
+      }
+
+      await db
+        .update(plaidConnections)
+        .set({ lastSyncedAt: new Date() })
+        .where(eq(plaidConnections.id, connection.id));
+    } catch (err) {
+      console.error(`Plaid sync error for connection ${connection.id}:`, err);
+      // Mark connection as errored but continue with others
+      await db
+        .update(plaidConnections)
+        .set({ status: "error" })
+        .where(eq(plaidConnections.id, connection.id));
+    }
+  }
+
+  return { connections: connections.length, accountsUpdated };
+}
@@ -0,0 +1,275 @@
+import { db } from "@/lib/db";
+import {
+  practices,
+  userPractices,
+  transactions,
+  categorizations,
+  taxAlerts,
+  plaidConnections,
+} from "@/lib/db/schema";
+import { eq, and, inArray, isNull, or, gt, sql } from "drizzle-orm";
+import { resolveAccess } from "@/lib/auth/roles";
+import { hasPermission, type Permission } from "@/lib/auth/permissions";
+import { isMissingRequiredTwoFactor } from "@/lib/auth/two-factor";
+import { getConfigForPractice } from "@/lib/industries";
+import { getLatestSnapshot } from "@/lib/finance/snapshot";
+import { getOverheadStatus } from "@/lib/finance/profitability";
+import { calculateDebtCapacity } from "@/lib/finance/debt-capacity";
+import { enqueueJob } from "@/lib/jobs/queue";
+import type { JobQueue } from "@/lib/jobs/handlers";
+
+export interface PortfolioPractice {
+  practiceId: string;
+  name: string;
+  industry: string;
+  role: string;
+  customRole: string | null;
+  isDefault: boolean;
+  reviewBacklog: { needsReview: number; uncategorized: number };
+  // From the cached monthly snapshot; null until one has been computed
+  overhead: {
+    ratio: number;
+    status: ReturnType<typeof getOverheadStatus>;
+    computedAt: Date;
+  } | null;
+  dscr: number | null;
+  openTaxAlerts: number;
+  lastSync: { at: Date; source: "qbo" | "plaid" } | null;
+  qboConnected: boolean;
+}
+
+// Practices the user is a member of but can't open until they set up 2FA
+export interface LockedPractice {
+  practiceId: string;
+  name: string;
+  reason: string;
+}
+
+export interface Portfolio {
+  practices: PortfolioPractice[];
+  locked: LockedPractice[];
+}
+
+const TWO_FACTOR_REQUIRED = "2FA required";
+
+export type PortfolioAction = "categorize" | "reports";
+
+interface ActionSpec {
+  permission: Permission;
+  jobs: { queue: JobQueue; name: string; key: string }[];
+}
+
+const ACTIONS: Record<PortfolioAction, ActionSpec> = {
+  categorize: {
+    permission: "transactions:write",
+    jobs: [{ queue: "categorization", name: "categorize.uncategorized", key: "categorize" }],
+  },
+  reports: {
+    permission: "reports:write",
+    jobs: [
+      { queue: "snapshots", name: "snapshot.refresh", key: "snapshot" },
+      { queue: "snapshots", name: "tax-alerts.generate", key: "tax-alerts" },
+    ],
+  },
+};
+
+export interface PortfolioActionResult {
+  queued: { practiceId: string; jobIds: string[] }[];
+  skipped: { practiceId: string; reason: string }[];
+  queues: JobQueue[];
+}
+
+const latestCatId = sql`(
+  SELECT c.id FROM categorizations c
+  WHERE c.transaction_id = ${transactions.id}
+  ORDER BY c.created_at DESC LIMIT 1
+)`;
+
+/**
+ * The user's memberships where they hold `permission`. Practices that
+ * require 2FA the user hasn't set up are held back as `locked`, the same
+ * as the route guard would refuse them.
+ */
+async function accessiblePractices(userId: string, permission: Permission) {
+  const memberships = await db
+    .select({
+      practiceId: practices.id,
+      name: practices.name,
+      industry: practices.industry,
+      qboConnected: sql<boolean>`${practices.qboTokens} is not null`,
+      qboLastSyncedAt: practices.qboLastSyncedAt,
+      isDefault: userPractices.isDefault,
+    })
+    .from(userPractices)
+    .innerJoin(practices, eq(userPractices.practiceId, practices.id))
+    .where(eq(userPractices.userId, userId))
+    .orderBy(practices.name);
+
+  const allowed = [];
+  const locked: LockedPractice[] = [];
+  for (const membership of memberships) {
+    const access = await resolveAccess(userId, membership.practiceId);
+    if (!access || !hasPermission(access.permissions, permission)) continue;
+    if (await isMissingRequiredTwoFactor(userId, membership.practiceId)) {
+      locked.push({
+        practiceId: membership.practiceId,
+        name: membership.name,
+        reason: TWO_FACTOR_REQUIRED,
+      });
+      continue;
+    }
+    allowed.push({ ...membership, access });
+  }
+  return { allowed, locked };
+}
+
+/**
+ * One row per client practice the user can see reports for, with what an
+ * advisor checks first: how much is waiting for review, overhead against
+ * the industry benchmark, DSCR, open tax alerts and when data last synced.
+ * Counts come from grouped queries across all practices; overhead and DSCR
+ * are worked out practice by practice.
+ */
+export async function getPortfolio(userId: string): Promise<Portfolio> {
+  const { allowed: members, locked } = await accessiblePractices(userId, "reports:read");
+  if (members.length === 0) return { practices: [], locked };
+  const ids = members.map((m) => m.practiceId);
+
+  const [backlogRows, alertRows, plaidRows] = await Promise.all([
+    db
+      .select({
+        practiceId: transactions.practiceId,
+        needsReview: sql<number>`(count(*) filter (where ${categorizations.category} = 'ambiguous' or ${categorizations.confidence} < 70))::int`,
+        uncategorized: sql<number>`(count(*) filter (where ${categorizations.id} is null))::int`,
+      })
+      .from(transactions)
+      .leftJoin(
+        categorizations,
+        and(
+          eq(transactions.id, categorizations.transactionId),
+          eq(categorizations.id, latestCatId)
+        )
+      )
+      .where(and(inArray(transactions.practiceId, ids), isNull(transactions.duplicateOfId)))
+      .groupBy(transactions.practiceId),
+    db
+      .select({
+        practiceId: taxAlerts.practiceId,
+        open: sql<number>`count(*)::int`,
+      })
+      .from(taxAlerts)
+      .where(
+        and(
+          inArray(taxAlerts.practiceId, ids),
+          eq(taxAlerts.isDismissed, false),
+          or(isNull(taxAlerts.expiresAt), gt(taxAlerts.expiresAt, new Date()))
+        )
+      )
+      .groupBy(taxAlerts.practiceId),
+    db
+      .select({
+        practiceId: plaidConnections.practiceId,
+        lastSyncedAt: sql<Date | null>`max(${plaidConnections.lastSyncedAt})`,
+      })
+      .from(plaidConnections)
+      .where(inArray(plaidConnections.practiceId, ids))
+      .groupBy(plaidConnections.practiceId),
+  ]);
+
+  const backlog = new Map(backlogRows.map((r) => [r.practiceId, r]));
+  const alerts = new Map(alertRows.map((r) => [r.practiceId, r.open]));
+  const plaidSync = new Map(plaidRows.map((r) => [r.practiceId, r.lastSyncedAt]));
+
+  const portfolio: PortfolioPractice[] = [];
+  for (const member of members) {
+    const [snapshot, config, dscr] = await Promise.all([
+      getLatestSnapshot(member.practiceId),
+      getConfigForPractice(member.practiceId),
+      calculateDebtCapacity(member.practiceId)
+        .then((report) => report.currentDSCR)
+        .catch(() => null),
+    ]);
+
+    const qboAt = member.qboLastSyncedAt;
+    const plaidRaw = plaidSync.get(member.practiceId);
+    const plaidAt = plaidRaw ? new Date(plaidRaw) : null;
+    const lastSync =
+      qboAt && (!plaidAt || qboAt >= plaidAt)
+        ? { at: qboAt, source: "qbo" as const }
+        : plaidAt
+          ? { at: plaidAt, source: "plaid" as const }
+          : null;
+
+    portfolio.push({
+      practiceId: member.practiceId,
+      name: member.name,
+      industry: member.industry,
+      role: member.access.role,
+      customRole: member.access.customRole?.name ?? null,
+      isDefault: member.isDefault,
+      reviewBacklog: {
+        needsReview: backlog.get(member.practiceId)?.needsReview ?? 0,
+        uncategorized: backlog.get(member.practiceId)?.uncategorized ?? 0,
+      },
+      overhead: snapshot
+        ? {
+            ratio: snapshot.overheadRatio,
+            status: getOverheadStatus(snapshot.overheadRatio, config.benchmarks),
+            computedAt: snapshot.computedAt,
+          }
+        : null,
+      dscr,
+      openTaxAlerts: alerts.get(member.practiceId) ?? 0,
+      lastSync,
+      qboConnected: member.qboConnected,
+    });
+  }
+
+  return { practices: portfolio, locked };
+}
+
+/**
+ * Queue a bulk action for each selected practice (all of them when none
+ * are given). Practices where the user lacks the action's permission, or
+ * that require 2FA they haven't set up, are skipped and reported rather
+ * than failing the batch.
+ */
+export async function runPortfolioAction(
+  userId: string,
+  action: PortfolioAction,
+  practiceIds?: string[]
+): Promise<PortfolioActionResult> {
+  const spec = ACTIONS[action];
+  const { allowed, locked } = await accessiblePractices(userId, spec.permission);
+  const allowedIds = new Set(allowed.map((m) => m.practiceId));
+  const lockedIds = new Set(locked.map((m) => m.practiceId));
+  const targets = practiceIds ?? [...allowedIds];
+
+  const result: PortfolioActionResult = {
+    queued: [],
+    skipped: [],
+    queues: [...new Set(spec.jobs.map((j) => j.queue))],
+  };
+
+  for (const practiceId of targets) {
+    if (lockedIds.has(practiceId)) {
+      result.skipped.push({ practiceId, reason: TWO_FACTOR_REQUIRED });
+      continue;
+    }
+    if (!allowedIds.has(practiceId)) {
+      result.skipped.push({ practiceId, reason: `Requires ${spec.permission}` });
+      continue;
+    }
+    const jobIds: string[] = [];
+    for (const job of spec.jobs) {
+      const queued = await enqueueJob(job.queue, job.name, {}, {
+        practiceId,
+        idempotencyKey: `${job.key}:${practiceId}`,
+      });
+      jobIds.push(queued.id);
+    }
+    result.queued.push({ practiceId, jobIds });
+  }
+
+  return result;
+}
@@ -15,6 +15,7 @@ export interface QBOAccount {
   type: string;
   subType?: string;
   fullyQualifiedName?: string;
+  parentId?: string;
 }
 
 export interface AccountMappingRow {
@@ -90,6 +91,7 @@ export async function getQBOAccounts(
         AccountType: string;
         AccountSubType?: string;
         FullyQualifiedName?: string;
+        ParentRef?: { value: string };
         Active?: boolean;
       }>;
     };
@@ -103,6 +105,7 @@ export async function getQBOAccounts(
     type: acct.AccountType,
     subType: acct.AccountSubType,
     fullyQualifiedName: acct.FullyQualifiedName,
+    parentId: acct.ParentRef?.value,
   }));
 }
 
@@ -0,0 +1,112 @@
+import { db } from "@/lib/db";
+import { chartOfAccounts, type AccountRole, type ChartAccount } from "@/lib/db/schema";
+import { eq, and, asc } from "drizzle-orm";
+import { inferAccountRole } from "@/lib/finance/account-roles";
+import { getQBOAccounts } from "./account-mapping-config";
+
+interface ImportResult {
+  imported: number;
+  updated: number;
+  deactivated: number;
+}
+
+/**
+ * Import the practice's QBO chart of accounts. New accounts get an inferred
+ * role; existing ones keep a role the user set and are re-inferred otherwise.
+ * Accounts no longer active in QBO are kept (old transactions still point at
+ * them) but marked inactive.
+ */
+export async function importChartOfAccounts(practiceId: string): Promise<ImportResult> {
+  const qboAccounts = await getQBOAccounts(practiceId);
+
+  const existing = await db
+    .select()
+    .from(chartOfAccounts)
+    .where(eq(chartOfAccounts.practiceId, practiceId));
+  const byQboId = new Map(existing.map((a) => [a.qboAccountId, a]));
+
+  let imported = 0;
+  let updated = 0;
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    for (const acct of qboAccounts) {
+      const fields = {
+        name: acct.name,
+        fullyQualifiedName: acct.fullyQualifiedName ?? null,
+        accountType: acct.type,
+        accountSubType: acct.subType ?? null,
+        parentQboAccountId: acct.parentId ?? null,
+        isActive: true,
+      };
+      const inferred = inferAccountRole({
+        name: acct.name,
+        accountType: acct.type,
+        accountSubType: acct.subType,
+      });
+
+      const prior = byQboId.get(acct.id);
+      if (!prior) {
+        await tx.insert(chartOfAccounts).values({
+          practiceId,
+          qboAccountId: acct.id,
+          ...fields,
+          role: inferred,
+        });
+        imported++;
+      } else {
+        await tx
+          .update(chartOfAccounts)
+          .set({
+            ...fields,
+            role: prior.roleSource === "user" ? prior.role : inferred,
+            updatedAt: now,
+          })
+          .where(eq(chartOfAccounts.id, prior.id));
+        updated++;
+      }
+    }
+  });
+
+  const activeIds = new Set(qboAccounts.map((a) => a.id));
+  const stale = existing.filter((a) => a.isActive && !activeIds.has(a.qboAccountId));
+  for (const account of stale) {
+    await db
+      .update(chartOfAccounts)
+      .set({ isActive: false, updatedAt: now })
+      .where(eq(chartOfAccounts.id, account.id));
+  }
+
+  return { imported, updated, deactivated: stale.length };
+}
+
+export async function listChartOfAccounts(practiceId: string): Promise<ChartAccount[]> {
+  return db
+    .select()
+    .from(chartOfAccounts)
+    .where(eq(chartOfAccounts.practiceId, practiceId))
+    .orderBy(asc(chartOfAccounts.accountType), asc(chartOfAccounts.name));
+}
+
+/**
+ * Set an account's role by hand. The role then survives re-imports; pass
+ * `null` to mark the account as having no role.
+ */
+export async function setAccountRole(
+  accountId: string,
+  practiceId: string,
+  role: AccountRole | null
+): Promise<{ before: ChartAccount; after: ChartAccount } | null> {
+  const [before] = await db
+    .select()
+    .from(chartOfAccounts)
+    .where(and(eq(chartOfAccounts.id, accountId), eq(chartOfAccounts.practiceId, practiceId)));
+  if (!before) return null;
+
+  const [after] = await db
+    .update(chartOfAccounts)
+    .set({ role, roleSource: "user", updatedAt: new Date() })
+    .where(eq(chartOfAccounts.id, accountId))
+    .returning();
+  return { before, after };
+}
@@ -1,39 +1,59 @@
 import { db } from "@/lib/db";
-import { transactions, practices as practicesTable } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
+import {
+  transactions,
+  chartOfAccounts,
+  practices as practicesTable,
+  syncRuns,
+  type SyncRun,
+} from "@/lib/db/schema";
+import { eq, and, desc, or, isNull, inArray } from "drizzle-orm";
 import { getValidTokens } from "./token-manager";
 import { makeApiCall } from "./client";
 import { isDemoMode } from "./demo-mode";
+import {
+  QBO_TXN_TYPES,
+  normalizeQboTransaction,
+  getLinkedBillIds,
+  getJournalAccountIds,
+  type QboEntity,
+} from "./transaction-types";
 
-interface QboTransaction {
-  Id: string;
-  TxnDate: string;
-  TotalAmt: number;
-  EntityRef?: { name: string };
-  PrivateNote?: string;
-  AccountRef?: { name: string };
-  Line?: Array<{ Description?: string; Amount?: number }>;
-}
+type QboTransaction = QboEntity;
 
 interface SyncResult {
+  runId: string | null;
+  status: SyncRun["status"];
   synced: number;
   skipped: number;
   errors: number;
 }
 
-/**
- * Fetch transactions from QBO for the last N months and upsert into our database.
- * Deduplicates by qbo_txn_id per practice.
- */
-export async function syncTransactions(
-  practiceId: string,
-  monthsBack = 12
-): Promise<SyncResult> {
-  if (isDemoMode()) {
-    // In demo mode, seed data is already in the DB
-    return { synced: 0, skipped: 0, errors: 0 };
+interface ChangeSyncResult {
+  synced: number;
+  skipped: number;
+  deleted: number;
+  errors: number;
+}
+
+export class SyncInProgressError extends Error {
+  constructor(public runId: string) {
+    super(`QBO sync already in progress (run ${runId})`);
+    this.name = "SyncInProgressError";
   }
+}
+
+/** QBO entity types we ingest as transactions */
+export const SYNC_ENTITIES = QBO_TXN_TYPES;
+
+const PAGE_SIZE = 1000; // QBO's MAXRESULTS ceiling
+const MAX_ERROR_MESSAGES = 50;
+// A "running" run with no progress for this long is assumed to have crashed
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+// QBO's Change Data Capture endpoint only looks back 30 days
+const CDC_MAX_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
 
+async function getPracticeConnection(practiceId: string) {
   const tokens = await getValidTokens(practiceId);
   if (!tokens) {
     throw new Error("No valid QBO tokens for practice");
@@ -47,76 +67,358 @@ export async function syncTransactions(
     throw new Error("Practice has no QBO realm ID");
   }
 
-  const startDate = new Date();
-  startDate.setMonth(startDate.getMonth() - monthsBack);
-  const startStr = startDate.toISOString().split("T")[0];
+  return { tokens, practice, realmId: practice.qboRealmId };
+}
 
-  let synced = 0;
-  let skipped = 0;
-  let errors = 0;
+/** Match a QBO entity by ID and type (rows synced before types were tracked have none). */
+function qboEntityMatch(practiceId: string, type: string, id: string) {
+  return and(
+    eq(transactions.practiceId, practiceId),
+    eq(transactions.qboTxnId, id),
+    or(eq(transactions.qboTxnType, type), isNull(transactions.qboTxnType))
+  );
+}
 
-  // Fetch from Purchase, Deposit, Transfer endpoints
-  const endpoints = ["Purchase", "Deposit", "Transfer"];
+/**
+ * Insert or update a single QBO entity as a transaction row.
+ * Deduplicates by entity type + qbo_txn_id per practice, since QBO IDs are
+ * only unique within an entity type.
+ */
+async function upsertQboTransaction(
+  practiceId: string,
+  type: string,
+  item: QboTransaction
+): Promise<"inserted" | "updated"> {
+  const existing = await db
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(qboEntityMatch(practiceId, type, item.Id));
 
-  for (const endpoint of endpoints) {
-    try {
-      const query = encodeURIComponent(
-        `SELECT * FROM ${endpoint} WHERE TxnDate >= '${startStr}' MAXRESULTS 1000`
+  // Journal entries are signed by the type of each account they post to
+  const accountTypes = new Map<string, string>();
+  const journalAccountIds = type === "JournalEntry" ? getJournalAccountIds(item) : [];
+  if (journalAccountIds.length > 0) {
+    const accounts = await db
+      .select({
+        qboAccountId: chartOfAccounts.qboAccountId,
+        accountType: chartOfAccounts.accountType,
+      })
+      .from(chartOfAccounts)
+      .where(
+        and(
+          eq(chartOfAccounts.practiceId, practiceId),
+          inArray(chartOfAccounts.qboAccountId, journalAccountIds)
+        )
       );
-      const data = (await makeApiCall(
-        tokens.accessToken,
-        practice.qboRealmId,
-        `query?query=${query}`
-      )) as {
-        QueryResponse?: Record<string, QboTransaction[]>;
-      };
+    for (const a of accounts) accountTypes.set(a.qboAccountId, a.accountType);
+  }
+
+  const normalized = normalizeQboTransaction(type, item, accountTypes);
+
+  // BillPayments carry only the bank account; classify them by the
+  // expense account of the bill they pay when we have it
+  if (type === "BillPayment") {
+    const billIds = getLinkedBillIds(item);
+    if (billIds.length > 0) {
+      const [bill] = await db
+        .select({ accountRef: transactions.accountRef })
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.practiceId, practiceId),
+            eq(transactions.qboTxnType, "Bill"),
+            inArray(transactions.qboTxnId, billIds)
+          )
+        )
+        .limit(1);
+      if (bill?.accountRef) normalized.accountRef = bill.accountRef;
+    }
+  }
+
+  const txnData = {
+    practiceId,
+    qboTxnId: item.Id,
+    qboTxnType: type,
+    date: new Date(item.TxnDate),
+    amount: normalized.amount.toFixed(2),
+    vendorName: normalized.vendorName,
+    description: normalized.description,
+    accountRef: normalized.accountRef,
+    dueDate: normalized.dueDate ? new Date(normalized.dueDate) : null,
+    openBalance: normalized.openBalance?.toFixed(2) ?? null,
+    rawJson: item,
+    syncedAt: new Date(),
+  };
+
+  if (existing.length > 0) {
+    await db
+      .update(transactions)
+      .set(txnData)
+      .where(eq(transactions.id, existing[0].id));
+    return "updated";
+  }
+
+  await db.insert(transactions).values(txnData);
+  return "inserted";
+}
+
+type EndpointCounts = SyncRun["endpointCounts"][string];
+
+/**
+ * Fetch transactions from QBO for the last N months and upsert into our database.
+ * Each endpoint is paged with STARTPOSITION and progress is persisted to a
+ * sync_runs row after every page. If a previous run failed (or died mid-run),
+ * the next call resumes it from its saved cursor instead of starting over.
+ */
+export async function syncTransactions(
+  practiceId: string,
+  monthsBack = 12
+): Promise<SyncResult> {
+  if (isDemoMode()) {
+    // In demo mode, seed data is already in the DB
+    return { runId: null, status: "completed", synced: 0, skipped: 0, errors: 0 };
+  }
+
+  const { tokens, realmId } = await getPracticeConnection(practiceId);
 
-      const items =
-        data?.QueryResponse?.[endpoint] || [];
+  const [latest] = await db
+    .select()
+    .from(syncRuns)
+    .where(eq(syncRuns.practiceId, practiceId))
+    .orderBy(desc(syncRuns.startedAt))
+    .limit(1);
+
+  const isStale =
+    latest?.status === "running" &&
+    Date.now() - latest.updatedAt.getTime() > STALE_RUN_MS;
+  if (latest?.status === "running" && !isStale) {
+    throw new SyncInProgressError(latest.id);
+  }
+
+  let run: SyncRun;
+  if (latest && (latest.status === "failed" || isStale)) {
+    [run] = await db
+      .update(syncRuns)
+      .set({ status: "running", updatedAt: new Date() })
+      .where(eq(syncRuns.id, latest.id))
+      .returning();
+  } else {
+    const startDate = new Date();
+    startDate.setMonth(startDate.getMonth() - monthsBack);
+    [run] = await db
+      .insert(syncRuns)
+      .values({
+        practiceId,
+        startDate: startDate.toISOString().split("T")[0],
+      })
+      .returning();
+  }
+
+  const counts: Record<string, EndpointCounts> = { ...run.endpointCounts };
+  const errorMessages = [...run.errorMessages];
+  const recordError = (message: string) => {
+    if (errorMessages.length < MAX_ERROR_MESSAGES) errorMessages.push(message);
+  };
+
+  const saveProgress = (
+    cursor: SyncRun["cursor"],
+    status: SyncRun["status"] = "running"
+  ) =>
+    db
+      .update(syncRuns)
+      .set({
+        status,
+        cursor,
+        endpointCounts: counts,
+        errorMessages,
+        updatedAt: new Date(),
+        completedAt: status === "completed" ? new Date() : null,
+      })
+      .where(eq(syncRuns.id, run.id));
+
+  const summarize = (status: SyncRun["status"]): SyncResult => {
+    const totals = Object.values(counts);
+    return {
+      runId: run.id,
+      status,
+      synced: totals.reduce((sum, c) => sum + c.inserted, 0),
+      skipped: totals.reduce((sum, c) => sum + c.updated, 0),
+      errors: totals.reduce((sum, c) => sum + c.errors, 0),
+    };
+  };
+
+  const resumeIdx = run.cursor ? SYNC_ENTITIES.indexOf(run.cursor.endpoint) : 0;
+
+  for (let i = Math.max(resumeIdx, 0); i < SYNC_ENTITIES.length; i++) {
+    const endpoint = SYNC_ENTITIES[i];
+    const where = `WHERE TxnDate >= '${run.startDate}'`;
+    let position =
+      run.cursor?.endpoint === endpoint ? run.cursor.startPosition : 1;
+
+    if (!counts[endpoint] || position === 1) {
+      counts[endpoint] = { total: null, fetched: 0, inserted: 0, updated: 0, errors: 0 };
+    }
+
+    if (counts[endpoint].total === null) {
+      try {
+        const countData = (await makeApiCall(
+          tokens.accessToken,
+          realmId,
+          `query?query=${encodeURIComponent(`SELECT COUNT(*) FROM ${endpoint} ${where}`)}`
+        )) as { QueryResponse?: { totalCount?: number } };
+        counts[endpoint].total = countData?.QueryResponse?.totalCount ?? null;
+      } catch {
+        // Totals are only for progress display — keep going without one
+      }
+    }
+
+    for (;;) {
+      let items: QboTransaction[];
+      try {
+        const query = encodeURIComponent(
+          `SELECT * FROM ${endpoint} ${where} ORDERBY MetaData.CreateTime STARTPOSITION ${position} MAXRESULTS ${PAGE_SIZE}`
+        );
+        const data = (await makeApiCall(
+          tokens.accessToken,
+          realmId,
+          `query?query=${query}`
+        )) as {
+          QueryResponse?: Record<string, QboTransaction[]>;
+        };
+        items = data?.QueryResponse?.[endpoint] || [];
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        counts[endpoint].errors++;
+        recordError(`${endpoint} @ ${position}: ${message}`);
+        await saveProgress({ endpoint, startPosition: position }, "failed");
+        return summarize("failed");
+      }
 
       for (const item of items) {
         try {
-          const existing = await db
-            .select({ id: transactions.id })
-            .from(transactions)
-            .where(
-              and(
-                eq(transactions.practiceId, practiceId),
-                eq(transactions.qboTxnId, item.Id)
-              )
-            );
-
-          const txnData = {
-            practiceId,
-            qboTxnId: item.Id,
-            date: new Date(item.TxnDate),
-            amount: String(item.TotalAmt),
-            vendorName: item.EntityRef?.name || null,
-            description:
-              item.PrivateNote || item.Line?.[0]?.Description || null,
-            accountRef: item.AccountRef?.name || null,
-            rawJson: item,
-            syncedAt: new Date(),
-          };
-
-          if (existing.length > 0) {
-            await db
-              .update(transactions)
-              .set(txnData)
-              .where(eq(transactions.id, existing[0].id));
-            skipped++;
-          } else {
-            await db.insert(transactions).values(txnData);
-            synced++;
+          const outcome = await upsertQboTransaction(practiceId, endpoint, item);
+          if (outcome === "inserted") counts[endpoint].inserted++;
+          else counts[endpoint].updated++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          counts[endpoint].errors++;
+          recordError(`${endpoint} ${item.Id}: ${message}`);
+        }
+      }
+
+      counts[endpoint].fetched += items.length;
+      position += items.length;
+      await saveProgress({ endpoint, startPosition: position });
+
+      if (items.length < PAGE_SIZE) break;
+    }
+  }
+
+  await saveProgress(null, "completed");
+  await db
+    .update(practicesTable)
+    .set({ qboLastSyncedAt: run.startedAt })
+    .where(eq(practicesTable.id, practiceId));
+
+  return summarize("completed");
+}
+
+/** Most recent sync run for a practice, for progress display. */
+export async function getLatestSyncRun(
+  practiceId: string
+): Promise<SyncRun | null> {
+  const [run] = await db
+    .select()
+    .from(syncRuns)
+    .where(eq(syncRuns.practiceId, practiceId))
+    .orderBy(desc(syncRuns.startedAt))
+    .limit(1);
+  return run ?? null;
+}
+
+/**
+ * Incremental sync via QBO Change Data Capture.
+ * Pulls every entity changed since `changedSince` (or the practice's last
+ * sync, capped at the 30-day CDC window), upserts live entities and removes
+ * deleted ones, then advances the practice's high-water mark unless any
+ * entity failed, so the next sync fetches it again.
+ */
+export async function syncChanges(
+  practiceId: string,
+  options?: { changedSince?: Date; entities?: string[] }
+): Promise<ChangeSyncResult> {
+  if (isDemoMode()) {
+    return { synced: 0, skipped: 0, deleted: 0, errors: 0 };
+  }
+
+  const { tokens, practice, realmId } = await getPracticeConnection(practiceId);
+  const syncStartedAt = new Date();
+
+  const earliest = new Date(Date.now() - CDC_MAX_LOOKBACK_MS);
+  const candidates = [options?.changedSince, practice.qboLastSyncedAt].filter(
+    (d): d is Date => d instanceof Date
+  );
+  const since = candidates.length
+    ? new Date(Math.min(...candidates.map((d) => d.getTime())))
+    : earliest;
+  const changedSince = since < earliest ? earliest : since;
+
+  const requested = options?.entities ?? SYNC_ENTITIES;
+  const entities = SYNC_ENTITIES.filter((e) => requested.includes(e));
+  if (entities.length === 0) {
+    return { synced: 0, skipped: 0, deleted: 0, errors: 0 };
+  }
+
+  const data = (await makeApiCall(
+    tokens.accessToken,
+    realmId,
+    `cdc?entities=${entities.join(",")}&changedSince=${encodeURIComponent(
+      changedSince.toISOString()
+    )}`
+  )) as {
+    CDCResponse?: Array<{
+      QueryResponse?: Array<Record<string, QboTransaction[]>>;
+    }>;
+  };
+
+  let synced = 0;
+  let skipped = 0;
+  let deleted = 0;
+  let errors = 0;
+
+  const responses = data?.CDCResponse?.[0]?.QueryResponse || [];
+  for (const response of responses) {
+    for (const entity of entities) {
+      for (const item of response[entity] || []) {
+        try {
+          if (item.status === "Deleted") {
+            const removed = await db
+              .delete(transactions)
+              .where(qboEntityMatch(practiceId, entity, item.Id))
+              .returning({ id: transactions.id });
+            deleted += removed.length;
+            continue;
           }
-        } catch {
+
+          const outcome = await upsertQboTransaction(practiceId, entity, item);
+          if (outcome === "inserted") synced++;
+          else skipped++;
+        } catch (error) {
+          console.error(`QBO change sync failed for ${entity} ${item.Id}:`, error);
           errors++;
         }
       }
-    } catch {
-      errors++;
     }
   }
 
-  return { synced, skipped, errors };
+  // A failed entity would fall outside the next CDC window, so only move
+  // the high-water mark once everything applied
+  if (errors === 0) {
+    await db
+      .update(practicesTable)
+      .set({ qboLastSyncedAt: syncStartedAt })
+      .where(eq(practicesTable.id, practiceId));
+  }
+
+  return { synced, skipped, deleted, errors };
 }
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  getJournalAccountIds,
+  normalizeQboTransaction,
+  type QboEntity,
+} from "./transaction-types";
+
+const ACCOUNT_TYPES = new Map([
+  ["1", "Bank"],
+  ["2", "Bank"],
+  ["3", "Accounts Receivable"],
+  ["4", "Accounts Payable"],
+  ["10", "Income"],
+  ["20", "Expense"],
+  ["21", "Cost of Goods Sold"],
+]);
+
+const NAMES: Record<string, string> = {
+  "1": "Checking",
+  "2": "Savings",
+  "3": "Accounts Receivable",
+  "4": "Accounts Payable",
+  "10": "Patient Revenue",
+  "20": "Wages",
+  "21": "Lab Fees",
+  "99": "Mystery Account",
+};
+
+function journalEntry(...lines: Array<["Debit" | "Credit", string, number]>): QboEntity {
+  return {
+    Id: "je-1",
+    TxnDate: "2026-03-31",
+    TotalAmt: lines.filter(([posting]) => posting === "Debit").reduce((s, [, , a]) => s + a, 0),
+    Line: lines.map(([PostingType, id, Amount]) => ({
+      Amount,
+      JournalEntryLineDetail: { PostingType, AccountRef: { value: id, name: NAMES[id] } },
+    })),
+  };
+}
+
+const normalizeJournal = (entry: QboEntity) =>
+  normalizeQboTransaction("JournalEntry", entry, ACCOUNT_TYPES);
+
+describe("normalizeQboTransaction journal entries", () => {
+  it("makes payroll an expense under the expense account", () => {
+    const result = normalizeJournal(journalEntry(["Debit", "20", 5000], ["Credit", "1", 5000]));
+    expect(result).toMatchObject({ amount: -5000, accountRef: "Wages" });
+  });
+
+  it("makes an income accrual revenue under the income account", () => {
+    const result = normalizeJournal(journalEntry(["Debit", "3", 1200], ["Credit", "10", 1200]));
+    expect(result).toMatchObject({ amount: 1200, accountRef: "Patient Revenue" });
+  });
+
+  it("makes an expense reversal positive", () => {
+    const result = normalizeJournal(journalEntry(["Debit", "4", 250], ["Credit", "21", 250]));
+    expect(result).toMatchObject({ amount: 250, accountRef: "Lab Fees" });
+  });
+
+  it("nets several income and expense lines", () => {
+    const result = normalizeJournal(
+      journalEntry(["Debit", "20", 800.1], ["Debit", "21", 199.95], ["Credit", "10", 300], ["Credit", "1", 700.05])
+    );
+    // -800.10 - 199.95 + 300, classified by the line that moves profit most
+    expect(result).toMatchObject({ amount: -700.05, accountRef: "Wages" });
+  });
+
+  it("leaves balance sheet reclasses at zero under the largest debit", () => {
+    const result = normalizeJournal(
+      journalEntry(["Debit", "2", 900], ["Debit", "3", 100], ["Credit", "1", 1000])
+    );
+    expect(result).toMatchObject({ amount: 0, accountRef: "Savings" });
+  });
+
+  it("ignores lines on accounts it has no type for", () => {
+    const entry = journalEntry(["Debit", "99", 400], ["Credit", "1", 400]);
+    expect(normalizeJournal(entry)).toMatchObject({ amount: 0, accountRef: "Mystery Account" });
+    expect(normalizeQboTransaction("JournalEntry", journalEntry(["Debit", "20", 400]))).toMatchObject({
+      amount: 0,
+    });
+  });
+});
+
+describe("getJournalAccountIds", () => {
+  it("lists each line's account", () => {
+    const entry = journalEntry(["Debit", "20", 10], ["Credit", "1", 10]);
+    entry.Line!.push({ Amount: 0, Description: "memo line" });
+    expect(getJournalAccountIds(entry)).toEqual(["20", "1"]);
+  });
+});
+
+describe("normalizeQboTransaction signs", () => {
+  const base = { Id: "1", TxnDate: "2026-03-10", TotalAmt: 80 };
+
+  it("treats purchases as money out unless they're card credits", () => {
+    expect(normalizeQboTransaction("Purchase", base).amount).toBe(-80);
+    expect(normalizeQboTransaction("Purchase", { ...base, Credit: true }).amount).toBe(80);
+  });
+
+  it("counts only a deposit's lines not linked to earlier revenue", () => {
+    const deposit: QboEntity = {
+      ...base,
+      Line: [
+        { Amount: 50, LinkedTxn: [{ TxnId: "p1", TxnType: "Payment" }] },
+        { Amount: 30, DepositLineDetail: { AccountRef: { name: "Other Income" } } },
+      ],
+    };
+    expect(normalizeQboTransaction("Deposit", deposit)).toMatchObject({
+      amount: 30,
+      accountRef: "Other Income",
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Per-entity normalization of QBO transactions into our signed-amount model:
+ * positive = money in (revenue), negative = money out (expense).
+ *
+ * QBO reports TotalAmt as a positive number on every entity, so the sign and
+ * the account we classify by have to come from the entity type itself.
+ */
+
+import type { ReportingBasis } from "@/lib/db/schema";
+
+interface Ref {
+  value?: string;
+  name?: string;
+}
+
+interface QboLine {
+  Amount?: number;
+  Description?: string;
+  LinkedTxn?: Array<{ TxnId: string; TxnType: string }>;
+  AccountBasedExpenseLineDetail?: { AccountRef?: Ref };
+  DepositLineDetail?: { AccountRef?: Ref; Entity?: Ref };
+  SalesItemLineDetail?: { ItemRef?: Ref };
+  JournalEntryLineDetail?: { PostingType?: "Debit" | "Credit"; AccountRef?: Ref };
+}
+
+export interface QboEntity {
+  Id: string;
+  TxnDate: string;
+  DueDate?: string; // Invoice, Bill
+  Balance?: number; // Invoice, Bill: amount still unpaid
+  TotalAmt?: number;
+  Amount?: number; // Transfer
+  DocNumber?: string;
+  PrivateNote?: string;
+  PaymentType?: string; // Purchase: Cash, Check, CreditCard
+  Credit?: boolean; // Purchase: true for credit card credits / refunds
+  EntityRef?: Ref;
+  VendorRef?: Ref;
+  CustomerRef?: Ref;
+  AccountRef?: Ref;
+  APAccountRef?: Ref;
+  DepositToAccountRef?: Ref;
+  FromAccountRef?: Ref;
+  ToAccountRef?: Ref;
+  CheckPayment?: { BankAccountRef?: Ref };
+  CreditCardPayment?: { CCAccountRef?: Ref };
+  Line?: QboLine[];
+  status?: string; // "Deleted" in CDC responses
+}
+
+export interface NormalizedQboTransaction {
+  amount: number;
+  vendorName: string | null;
+  description: string | null;
+  accountRef: string | null;
+  // Set on invoices and bills, for accrual reporting and aging
+  dueDate: string | null;
+  openBalance: number | null;
+}
+
+/**
+ * QBO entity types we ingest, in sync order. Bills sync before BillPayments
+ * so a payment can inherit the expense account of the bill it settles.
+ * Checks and credit card credits are Purchases (PaymentType / Credit flag),
+ * so they arrive through the Purchase endpoint.
+ */
+export const QBO_TXN_TYPES = [
+  "Purchase",
+  "Deposit",
+  "Transfer",
+  "Bill",
+  "BillPayment",
+  "JournalEntry",
+  "SalesReceipt",
+  "Invoice",
+  "Payment",
+];
+
+/**
+ * Types that don't move cash on their own date: Bills and Invoices are
+ * settled later by a BillPayment or Payment, and a Transfer just moves money
+ * between the practice's own accounts. Cash-basis reports skip them so
+ * nothing is counted twice.
+ */
+export const NON_CASH_QBO_TXN_TYPES = ["Bill", "Invoice", "Transfer"];
+
+/**
+ * The accrual-basis counterpart: Bills and Invoices are counted on the date
+ * they're issued, so the payments that settle them are skipped instead.
+ */
+export const NON_ACCRUAL_QBO_TXN_TYPES = ["BillPayment", "Payment", "Transfer"];
+
+/** QBO types whose AccountRef can be rewritten by write-back. */
+export const WRITABLE_QBO_TXN_TYPES = ["Purchase", "Deposit", "Transfer"];
+
+export function countsTowardCashBasis(qboTxnType: string | null): boolean {
+  return !qboTxnType || !NON_CASH_QBO_TXN_TYPES.includes(qboTxnType);
+}
+
+export function countsTowardBasis(
+  qboTxnType: string | null,
+  basis: ReportingBasis
+): boolean {
+  if (basis === "cash") return countsTowardCashBasis(qboTxnType);
+  return !qboTxnType || !NON_ACCRUAL_QBO_TXN_TYPES.includes(qboTxnType);
+}
+
+// QBO AccountTypes on the income statement. A journal entry line only
+// changes profit when it posts to one of these.
+const INCOME_ACCOUNT_TYPES = ["Income", "Other Income"];
+const EXPENSE_ACCOUNT_TYPES = ["Expense", "Cost of Goods Sold", "Other Expense"];
+
+/**
+ * A journal entry line's effect on profit: credits to income and expense
+ * accounts raise it, debits lower it, and lines on balance sheet accounts
+ * (or accounts we don't know the type of) leave it unchanged.
+ */
+function journalLineEffect(line: QboLine, accountType: string | undefined): number {
+  if (
+    !accountType ||
+    (!INCOME_ACCOUNT_TYPES.includes(accountType) && !EXPENSE_ACCOUNT_TYPES.includes(accountType))
+  ) {
+    return 0;
+  }
+  const amount = line.Amount ?? 0;
+  return line.JournalEntryLineDetail?.PostingType === "Credit" ? amount : -amount;
+}
+
+/** QBO account IDs a journal entry posts to, for looking up their types. */
+export function getJournalAccountIds(item: QboEntity): string[] {
+  return (item.Line || []).flatMap((l) => {
+    const id = l.JournalEntryLineDetail?.AccountRef?.value;
+    return id ? [id] : [];
+  });
+}
+
+function firstDescription(item: QboEntity): string | null {
+  return item.PrivateNote || item.Line?.find((l) => l.Description)?.Description || null;
+}
+
+/**
+ * `accountTypes` maps QBO account IDs to their AccountType; journal entries
+ * need it to tell which lines hit income or expense.
+ */
+export function normalizeQboTransaction(
+  type: string,
+  item: QboEntity,
+  accountTypes: Map<string, string> = new Map()
+): NormalizedQboTransaction {
+  const total = item.TotalAmt ?? 0;
+  const firstLine = item.Line?.[0];
+  const terms = { dueDate: null, openBalance: null };
+
+  switch (type) {
+    case "Purchase": {
+      // Credit card credits (refunds) are Purchases flagged Credit=true
+      const isCredit = item.Credit === true;
+      const checkNote =
+        item.PaymentType === "Check" && item.DocNumber
+          ? `Check #${item.DocNumber}`
+          : null;
+      return {
+        amount: isCredit ? total : -total,
+        vendorName: item.EntityRef?.name || null,
+        description: firstDescription(item) || checkNote,
+        accountRef: item.AccountRef?.name || null,
+        ...terms,
+      };
+    }
+
+    case "Deposit": {
+      // Lines linked to a Payment or SalesReceipt move revenue already
+      // recognized on that transaction out of Undeposited Funds — only
+      // unlinked lines are new money in.
+      const direct = (item.Line || []).filter((l) => !l.LinkedTxn?.length);
+      const directLine = direct[0];
+      return {
+        amount: direct.reduce((sum, l) => sum + (l.Amount ?? 0), 0),
+        vendorName: directLine?.DepositLineDetail?.Entity?.name || null,
+        description: firstDescription(item),
+        accountRef:
+          directLine?.DepositLineDetail?.AccountRef?.name ||
+          item.DepositToAccountRef?.name ||
+          null,
+        ...terms,
+      };
+    }
+
+    case "Transfer":
+      return {
+        amount: -(item.Amount ?? total),
+        vendorName: null,
+        description:
+          item.PrivateNote ||
+          (item.ToAccountRef?.name ? `Transfer to ${item.ToAccountRef.name}` : null),
+        accountRef: item.FromAccountRef?.name || null,
+        ...terms,
+      };
+
+    case "Bill":
+      return {
+        amount: -total,
+        vendorName: item.VendorRef?.name || null,
+        description: firstDescription(item),
+        accountRef:
+          firstLine?.AccountBasedExpenseLineDetail?.AccountRef?.name ||
+          item.APAccountRef?.name ||
+          null,
+        dueDate: item.DueDate || null,
+        openBalance: item.Balance ?? null,
+      };
+
+    case "BillPayment":
+      // The expense account lives on the linked Bill; sync fills it in
+      return {
+        amount: -total,
+        vendorName: item.VendorRef?.name || null,
+        description: firstDescription(item),
+        accountRef:
+          item.CheckPayment?.BankAccountRef?.name ||
+          item.CreditCardPayment?.CCAccountRef?.name ||
+          null,
+        ...terms,
+      };
+
+    case "JournalEntry": {
+      // The amount is the entry's net effect on profit: payroll or
+      // depreciation comes out negative, an income accrual or an expense
+      // reversal positive, and a balance sheet reclass zero. It's classified
+      // by the income or expense line that moves the most, else the largest
+      // debit.
+      const lines = (item.Line || []).map((l) => ({
+        line: l,
+        effect: journalLineEffect(
+          l,
+          accountTypes.get(l.JournalEntryLineDetail?.AccountRef?.value ?? "")
+        ),
+      }));
+      const largestEffect = lines
+        .filter((l) => l.effect !== 0)
+        .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect))[0]?.line;
+      const largestDebit = lines
+        .map((l) => l.line)
+        .filter((l) => l.JournalEntryLineDetail?.PostingType === "Debit")
+        .sort((a, b) => (b.Amount ?? 0) - (a.Amount ?? 0))[0];
+      const amount = lines.reduce((sum, l) => sum + l.effect, 0);
+      return {
+        amount: Math.round(amount * 100) / 100,
+        vendorName: null,
+        description: firstDescription(item),
+        accountRef:
+          (largestEffect ?? largestDebit)?.JournalEntryLineDetail?.AccountRef?.name || null,
+        ...terms,
+      };
+    }
+
+    case "SalesReceipt":
+      return {
+        amount: total,
+        vendorName: item.CustomerRef?.name || null,
+        description: firstDescription(item),
+        accountRef:
+          firstLine?.SalesItemLineDetail?.ItemRef?.name ||
+          item.DepositToAccountRef?.name ||
+          null,
+        ...terms,
+      };
+
+    case "Invoice":
+      // Revenue billed to a customer; the Payment that settles it is the cash
+      return {
+        amount: total,
+        vendorName: item.CustomerRef?.name || null,
+        description: firstDescription(item),
+        accountRef: firstLine?.SalesItemLineDetail?.ItemRef?.name || null,
+        dueDate: item.DueDate || null,
+        openBalance: item.Balance ?? null,
+      };
+
+    case "Payment":
+      return {
+        amount: total,
+        vendorName: item.CustomerRef?.name || null,
+        description: firstDescription(item),
+        accountRef: item.DepositToAccountRef?.name || null,
+        ...terms,
+      };
+
+    default:
+      return {
+        amount: total,
+        vendorName: item.EntityRef?.name || null,
+        description: firstDescription(item),
+        accountRef: item.AccountRef?.name || null,
+        ...terms,
+      };
+  }
+}
+
+/** Bill IDs a BillPayment settles, for inheriting the bill's account. */
+export function getLinkedBillIds(item: QboEntity): string[] {
+  return (item.Line || []).flatMap((l) =>
+    (l.LinkedTxn || []).filter((t) => t.TxnType === "Bill").map((t) => t.TxnId)
+  );
+}
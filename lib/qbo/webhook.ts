@@ -0,0 +1,170 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { db } from "@/lib/db";
+import { practices } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { syncChanges, SYNC_ENTITIES } from "./sync";
+import { logAuditEvent } from "@/lib/audit/logger";
+import { enqueueJob } from "@/lib/jobs/queue";
+
+interface WebhookEntity {
+  name: string;
+  id: string;
+  operation: string; // Create, Update, Delete, Merge, Void, Emailed
+  lastUpdated?: string;
+}
+
+interface WebhookPayload {
+  eventNotifications?: Array<{
+    realmId: string;
+    dataChangeEvent?: { entities?: WebhookEntity[] };
+  }>;
+}
+
+export interface RealmChange {
+  realmId: string;
+  entities: string[];
+  earliestUpdate: Date | null;
+}
+
+/**
+ * Verify the `intuit-signature` header: base64 HMAC-SHA256 of the raw
+ * request body, keyed with the app's webhook verifier token.
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string | null
+): boolean {
+  const verifierToken = process.env.INTUIT_WEBHOOK_VERIFIER_TOKEN;
+  if (!verifierToken || !signature) return false;
+
+  const expected = createHmac("sha256", verifierToken)
+    .update(rawBody)
+    .digest();
+  const provided = Buffer.from(signature, "base64");
+
+  return (
+    provided.length === expected.length && timingSafeEqual(provided, expected)
+  );
+}
+
+/**
+ * Collapse a webhook payload into one change set per realm, keeping only
+ * the entity types we sync and the earliest lastUpdated timestamp.
+ */
+export function parseWebhookPayload(payload: WebhookPayload): RealmChange[] {
+  const byRealm = new Map<string, RealmChange>();
+
+  for (const notification of payload.eventNotifications || []) {
+    if (!notification.realmId) continue;
+
+    const relevant = (notification.dataChangeEvent?.entities || []).filter(
+      (e) => SYNC_ENTITIES.includes(e.name)
+    );
+    if (relevant.length === 0) continue;
+
+    const change = byRealm.get(notification.realmId) || {
+      realmId: notification.realmId,
+      entities: [],
+      earliestUpdate: null,
+    };
+
+    for (const entity of relevant) {
+      if (!change.entities.includes(entity.name)) {
+        change.entities.push(entity.name);
+      }
+      const updated = entity.lastUpdated ? new Date(entity.lastUpdated) : null;
+      if (
+        updated &&
+        !isNaN(updated.getTime()) &&
+        (!change.earliestUpdate || updated < change.earliestUpdate)
+      ) {
+        change.earliestUpdate = updated;
+      }
+    }
+
+    byRealm.set(notification.realmId, change);
+  }
+
+  return Array.from(byRealm.values());
+}
+
+// ---------------------------------------------------------------------------
+// Per-realm sync jobs
+// ---------------------------------------------------------------------------
+
+export interface RealmSyncResult {
+  practiceId: string;
+  synced: number;
+  skipped: number;
+  deleted: number;
+  errors: number;
+}
+
+/**
+ * Run a CDC sync for every practice connected to the realm. Every synced
+ * entity type is pulled, not just the ones a webhook named, since one job
+ * can stand in for several coalesced webhooks.
+ */
+export async function syncRealmChanges(
+  realmId: string,
+  changedSince?: Date
+): Promise<RealmSyncResult[]> {
+  const connected = await db
+    .select({ id: practices.id })
+    .from(practices)
+    .where(eq(practices.qboRealmId, realmId));
+
+  if (connected.length === 0) {
+    console.warn(`QBO webhook for unknown realm ${realmId}`);
+    return [];
+  }
+
+  const results: RealmSyncResult[] = [];
+  const failed: string[] = [];
+  for (const practice of connected) {
+    try {
+      const result = await syncChanges(practice.id, { changedSince });
+      results.push({ practiceId: practice.id, ...result });
+
+      await logAuditEvent({
+        practiceId: practice.id,
+        userId: null,
+        action: "qbo_webhook_sync",
+        entityType: "practice",
+        entityId: practice.id,
+        newValue: { entities: SYNC_ENTITIES, ...result },
+      });
+      if (result.errors > 0) failed.push(practice.id);
+    } catch (error) {
+      console.error(`QBO webhook sync failed for practice ${practice.id}:`, error);
+      failed.push(practice.id);
+    }
+  }
+
+  // Upserts are idempotent, so a retry safely re-syncs the ones that worked
+  if (failed.length > 0) {
+    throw new Error(`QBO webhook sync failed for practices ${failed.join(", ")}`);
+  }
+  return results;
+}
+
+/**
+ * Queue a durable CDC sync for a realm. While one is still waiting, later
+ * changes fold into it (the sync reads everything since the practice's last
+ * sync); while one is running, a single follow-up is queued behind it so
+ * changes that land mid-sync aren't missed.
+ */
+export async function enqueueRealmChange(change: RealmChange): Promise<void> {
+  const payload = {
+    realmId: change.realmId,
+    changedSince: change.earliestUpdate?.toISOString() ?? null,
+  };
+  const job = await enqueueJob("sync", "qbo.sync-changes", payload, {
+    idempotencyKey: `qbo-sync:${change.realmId}`,
+  });
+  if (job.status === "running") {
+    await enqueueJob("sync", "qbo.sync-changes", payload, {
+      idempotencyKey: `qbo-sync:${change.realmId}:follow-up`,
+    });
+  }
+}
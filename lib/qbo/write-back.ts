@@ -11,6 +11,9 @@ import { getValidTokens } from "./token-manager";
 import { makeApiCall } from "./client";
 import { isDemoMode } from "./demo-mode";
 import { logAuditEvent } from "@/lib/audit/logger";
+import { WRITABLE_QBO_TXN_TYPES } from "./transaction-types";
+import { loadSplits } from "@/lib/categorization/splits";
+import type { CategorizationSplit } from "@/lib/db/schema";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -28,6 +31,15 @@ export interface WriteBackItem {
   amount: number;
   vendorName: string | null;
   date: Date;
+  splits?: WriteBackSplitLine[];
+}
+
+export interface WriteBackSplitLine {
+  category: string;
+  amount: number;
+  qboAccountId: string;
+  qboAccountName: string;
+  memo: string | null;
 }
 
 export interface WriteBackPreview {
@@ -85,10 +97,51 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Resolve each split line to a QBO account: the line's own account if the
+ * user picked one, otherwise the mapping for its category. Returns null if
+ * any line has no account to write to.
+ */
+function resolveSplitAccounts(
+  splits: CategorizationSplit[],
+  mappingMap: Record<string, { qboAccountId: string; qboAccountName: string }>
+): WriteBackSplitLine[] | null {
+  const lines: WriteBackSplitLine[] = [];
+  for (const split of splits) {
+    const mapping = mappingMap[split.category];
+    const qboAccountId = split.qboAccountId || mapping?.qboAccountId;
+    if (!qboAccountId) return null;
+    lines.push({
+      category: split.category,
+      amount: Math.abs(parseFloat(split.amount)),
+      qboAccountId,
+      qboAccountName:
+        split.accountRef ||
+        (mapping?.qboAccountId === qboAccountId ? mapping.qboAccountName : qboAccountId),
+      memo: split.memo,
+    });
+  }
+  return lines;
+}
+
 // ---------------------------------------------------------------------------
 // Preview
 // ---------------------------------------------------------------------------
 
+/**
+ * Target account for a whole-transaction categorization: the account a rule
+ * action pinned on the categorization, else the mapping for its category.
+ */
+function categorizationTarget(
+  cat: { category: string; qboAccountId: string | null; qboAccountName: string | null },
+  mappingMap: Record<string, { qboAccountId: string; qboAccountName: string }>
+): { qboAccountId: string; qboAccountName: string } {
+  if (cat.qboAccountId && cat.qboAccountName) {
+    return { qboAccountId: cat.qboAccountId, qboAccountName: cat.qboAccountName };
+  }
+  return mappingMap[cat.category];
+}
+
 /**
  * Build a preview of transactions eligible for QBO write-back.
  *
@@ -125,8 +178,12 @@ export async function previewWriteBack(
   }
 
   // 2. Fetch transactions with their latest categorization
-  // Using a subquery for the latest categorization per transaction
-  const conditions = [eq(transactions.practiceId, practiceId)];
+  // Using a subquery for the latest categorization per transaction.
+  // Only QBO-sourced transactions can be written back.
+  const conditions = [
+    eq(transactions.practiceId, practiceId),
+    eq(transactions.source, "qbo"),
+  ];
 
   if (options?.sinceDate) {
     conditions.push(gte(transactions.date, options.sinceDate));
@@ -136,6 +193,7 @@ export async function previewWriteBack(
     .select({
       id: transactions.id,
       qboTxnId: transactions.qboTxnId,
+      qboTxnType: transactions.qboTxnType,
       accountRef: transactions.accountRef,
       amount: transactions.amount,
       vendorName: transactions.vendorName,
@@ -150,10 +208,15 @@ export async function previewWriteBack(
   const items: WriteBackItem[] = [];
 
   for (const txn of txns) {
+    if (!txn.qboTxnId) continue;
+
     const [latestCat] = await db
       .select({
+        id: categorizations.id,
         category: categorizations.category,
         confidence: categorizations.confidence,
+        qboAccountId: categorizations.qboAccountId,
+        qboAccountName: categorizations.qboAccountName,
       })
       .from(categorizations)
       .where(eq(categorizations.transactionId, txn.id))
@@ -172,17 +235,22 @@ export async function previewWriteBack(
       continue;
     }
 
-    // Check if mapping exists for this category
-    const mapping = mappingMap[latestCat.category];
-    if (!mapping) continue;
+    // Split categorizations rewrite the expense lines instead of the header
+    const splits = (await loadSplits([latestCat.id])).get(latestCat.id);
+    const splitLines = splits ? resolveSplitAccounts(splits, mappingMap) : null;
+    if (splits && !splitLines) continue;
+
+    // A rule-assigned account wins over the category's mapping
+    const mapping = categorizationTarget(latestCat, mappingMap);
+    if (!mapping && !splitLines) continue;
 
     // Skip if already mapped to the target account
-    if (txn.accountRef === mapping.qboAccountName) continue;
+    if (!splitLines && txn.accountRef === mapping.qboAccountName) continue;
 
-    // Determine QBO transaction type from rawJson
+    // Determine QBO transaction type (older rows: infer from rawJson)
     const raw = txn.rawJson as Record<string, unknown> | null;
-    let qboTxnType = "Purchase";
-    if (raw) {
+    let qboTxnType = txn.qboTxnType || "Purchase";
+    if (!txn.qboTxnType && raw) {
       // QBO objects typically have a type indicator or we can infer from presence of fields
       if (raw.PaymentType !== undefined || raw.Credit !== undefined) {
         qboTxnType = "Purchase";
@@ -193,18 +261,25 @@ export async function previewWriteBack(
       }
     }
 
+    if (!WRITABLE_QBO_TXN_TYPES.includes(qboTxnType)) continue;
+    // Only Purchases have per-line expense accounts to split across
+    if (splitLines && qboTxnType !== "Purchase") continue;
+
     items.push({
       transactionId: txn.id,
       qboTxnId: txn.qboTxnId,
       qboTxnType,
       currentAccountRef: txn.accountRef || "Uncategorized",
-      targetAccountRef: mapping.qboAccountName,
-      targetAccountId: mapping.qboAccountId,
+      targetAccountRef: splitLines
+        ? `Split (${splitLines.length} lines)`
+        : mapping.qboAccountName,
+      targetAccountId: splitLines ? "" : mapping.qboAccountId,
       category: latestCat.category,
       confidence: latestCat.confidence,
       amount: parseFloat(txn.amount),
       vendorName: txn.vendorName,
       date: txn.date,
+      ...(splitLines ? { splits: splitLines } : {}),
     });
   }
 
@@ -284,6 +359,7 @@ export async function executeWriteBack(
         .select({
           id: transactions.id,
           qboTxnId: transactions.qboTxnId,
+          qboTxnType: transactions.qboTxnType,
           accountRef: transactions.accountRef,
           rawJson: transactions.rawJson,
         })
@@ -298,8 +374,19 @@ export async function executeWriteBack(
         continue;
       }
 
+      if (!txn.qboTxnId) {
+        errors.push({ transactionId: txnId, error: "Not a QuickBooks transaction" });
+        failed++;
+        continue;
+      }
+
       const [latestCat] = await db
-        .select({ category: categorizations.category })
+        .select({
+          id: categorizations.id,
+          category: categorizations.category,
+          qboAccountId: categorizations.qboAccountId,
+          qboAccountName: categorizations.qboAccountName,
+        })
         .from(categorizations)
         .where(eq(categorizations.transactionId, txnId))
         .orderBy(desc(categorizations.createdAt))
@@ -311,8 +398,19 @@ export async function executeWriteBack(
         continue;
       }
 
-      const mapping = mappingMap[latestCat.category];
-      if (!mapping) {
+      const splits = (await loadSplits([latestCat.id])).get(latestCat.id);
+      const splitLines = splits ? resolveSplitAccounts(splits, mappingMap) : null;
+      if (splits && !splitLines) {
+        errors.push({
+          transactionId: txnId,
+          error: "Split line has no QBO account mapping",
+        });
+        failed++;
+        continue;
+      }
+
+      const mapping = categorizationTarget(latestCat, mappingMap);
+      if (!mapping && !splitLines) {
         errors.push({
           transactionId: txnId,
           error: `No QBO mapping for category: ${latestCat.category}`,
@@ -321,10 +419,10 @@ export async function executeWriteBack(
         continue;
       }
 
-      // 2. Determine transaction type from raw JSON
+      // 2. Determine transaction type (older rows: infer from raw JSON)
       const raw = txn.rawJson as Record<string, unknown> | null;
-      let qboTxnType = "Purchase";
-      if (raw) {
+      let qboTxnType = txn.qboTxnType || "Purchase";
+      if (!txn.qboTxnType && raw) {
         if (raw.DepositToAccountRef !== undefined) {
           qboTxnType = "Deposit";
         } else if (raw.FromAccountRef !== undefined && raw.ToAccountRef !== undefined) {
@@ -332,6 +430,18 @@ export async function executeWriteBack(
         }
       }
 
+      if (
+        !WRITABLE_QBO_TXN_TYPES.includes(qboTxnType) ||
+        (splitLines && qboTxnType !== "Purchase")
+      ) {
+        errors.push({
+          transactionId: txnId,
+          error: `Write-back not supported for QBO ${qboTxnType}${splitLines ? " splits" : ""}`,
+        });
+        failed++;
+        continue;
+      }
+
       // 3. Read current QBO transaction to get SyncToken
       const qboData = (await makeApiCall(
         tokens.accessToken,
@@ -350,48 +460,85 @@ export async function executeWriteBack(
       }
 
       const syncToken = qboEntity.SyncToken as string;
-      const oldAccountRef = txn.accountRef;
-
-      // 4. Update the AccountRef on the QBO entity
-      const updatedEntity = {
-        ...qboEntity,
-        AccountRef: {
-          value: mapping.qboAccountId,
-          name: mapping.qboAccountName,
-        },
-        SyncToken: syncToken,
-        sparse: true, // sparse update — only send changed fields
-      };
-
-      // 5. POST update to QBO
-      await makeApiPost(
-        tokens.accessToken,
-        practice.qboRealmId,
-        `${qboTxnType.toLowerCase()}?operation=update`,
-        updatedEntity
-      );
-
-      // 6. Update local transaction
-      await db
-        .update(transactions)
-        .set({ accountRef: mapping.qboAccountName })
-        .where(eq(transactions.id, txnId));
-
-      // 7. Audit log
-      await logAuditEvent({
-        practiceId,
-        userId,
-        action: "qbo_write_back",
-        entityType: "transaction",
-        entityId: txnId,
-        oldValue: { accountRef: oldAccountRef },
-        newValue: {
-          accountRef: mapping.qboAccountName,
-          qboAccountId: mapping.qboAccountId,
-          qboTxnId: txn.qboTxnId,
-          category: latestCat.category,
-        },
-      });
+
+      if (splitLines) {
+        // 4. Replace the expense lines, one per split
+        await makeApiPost(
+          tokens.accessToken,
+          practice.qboRealmId,
+          `${qboTxnType.toLowerCase()}?operation=update`,
+          {
+            Id: qboEntity.Id,
+            SyncToken: syncToken,
+            sparse: true,
+            Line: splitLines.map((line) => ({
+              Amount: line.amount,
+              Description: line.memo ?? undefined,
+              DetailType: "AccountBasedExpenseLineDetail",
+              AccountBasedExpenseLineDetail: {
+                AccountRef: { value: line.qboAccountId, name: line.qboAccountName },
+              },
+            })),
+          }
+        );
+
+        await logAuditEvent({
+          practiceId,
+          userId,
+          action: "qbo_write_back",
+          entityType: "transaction",
+          entityId: txnId,
+          oldValue: { lines: qboEntity.Line ?? null },
+          newValue: {
+            qboTxnId: txn.qboTxnId,
+            category: latestCat.category,
+            splits: splitLines,
+          },
+        });
+      } else {
+        const oldAccountRef = txn.accountRef;
+
+        // 4. Update the AccountRef on the QBO entity
+        const updatedEntity = {
+          ...qboEntity,
+          AccountRef: {
+            value: mapping.qboAccountId,
+            name: mapping.qboAccountName,
+          },
+          SyncToken: syncToken,
+          sparse: true, // sparse update — only send changed fields
+        };
+
+        // 5. POST update to QBO
+        await makeApiPost(
+          tokens.accessToken,
+          practice.qboRealmId,
+          `${qboTxnType.toLowerCase()}?operation=update`,
+          updatedEntity
+        );
+
+        // 6. Update local transaction
+        await db
+          .update(transactions)
+          .set({ accountRef: mapping.qboAccountName })
+          .where(eq(transactions.id, txnId));
+
+        // 7. Audit log
+        await logAuditEvent({
+          practiceId,
+          userId,
+          action: "qbo_write_back",
+          entityType: "transaction",
+          entityId: txnId,
+          oldValue: { accountRef: oldAccountRef },
+          newValue: {
+            accountRef: mapping.qboAccountName,
+            qboAccountId: mapping.qboAccountId,
+            qboTxnId: txn.qboTxnId,
+            category: latestCat.category,
+          },
+        });
+      }
 
       succeeded++;
 
@@ -1,6 +1,6 @@
 import { db } from "@/lib/db";
 import { transactions, categorizations, retirementProfiles } from "@/lib/db/schema";
-import { eq, and, gte, sql } from "drizzle-orm";
+import { eq, and, gte, sql, isNull } from "drizzle-orm";
 import { calculateCostOfCapital } from "@/lib/finance/cost-of-capital";
 import { calculateNetWorth } from "@/lib/finance/net-worth";
 import { calculateProfitability } from "@/lib/finance/profitability";
@@ -108,6 +108,7 @@ async function scanTransactionsForKeywords(
     .where(
       and(
         eq(transactions.practiceId, practiceId),
+        isNull(transactions.duplicateOfId),
         gte(transactions.date, startDate)
       )
     );
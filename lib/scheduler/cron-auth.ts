@@ -0,0 +1,18 @@
+import { timingSafeEqual } from "crypto";
+
+export function isCronConfigured(): boolean {
+  return !!process.env.CRON_SECRET;
+}
+
+/**
+ * Cron callers authenticate with `Authorization: Bearer <CRON_SECRET>`,
+ * the header Vercel Cron sends. Always false when no secret is configured.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const given = Buffer.from(request.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
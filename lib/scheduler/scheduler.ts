@@ -0,0 +1,331 @@
+import { db } from "@/lib/db";
+import {
+  practices,
+  scheduledTasks,
+  scheduledTaskRuns,
+  type ScheduledTask,
+  type ScheduledTaskRun,
+} from "@/lib/db/schema";
+import { eq, and, lte, desc, inArray } from "drizzle-orm";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { SCHEDULED_TASKS, getTaskDefinition } from "./tasks";
+import { nextRunAfter, type PracticeCalendar, type ScheduleTiming } from "./timing";
+
+export class ScheduleBusyError extends Error {
+  constructor(public runId: string) {
+    super(`A run of this task is already in progress (run ${runId})`);
+    this.name = "ScheduleBusyError";
+  }
+}
+
+export interface ScheduleUpdate extends Partial<ScheduleTiming> {
+  isPaused?: boolean;
+}
+
+async function getCalendars(practiceId?: string): Promise<Map<string, PracticeCalendar>> {
+  const rows = await db
+    .select({
+      id: practices.id,
+      timeZone: practices.timeZone,
+      fiscalYearStart: practices.fiscalYearStart,
+    })
+    .from(practices)
+    .where(practiceId ? eq(practices.id, practiceId) : undefined);
+  return new Map(
+    rows.map((p) => [p.id, { timeZone: p.timeZone, fiscalYearStart: p.fiscalYearStart ?? 1 }])
+  );
+}
+
+/**
+ * Create any missing schedules with their defaults, for one practice or for
+ * all of them. Returns how many were created.
+ */
+export async function ensureSchedules(practiceId?: string): Promise<number> {
+  const calendars = await getCalendars(practiceId);
+  if (calendars.size === 0) return 0;
+
+  const existing = await db
+    .select({ practiceId: scheduledTasks.practiceId, task: scheduledTasks.task })
+    .from(scheduledTasks)
+    .where(practiceId ? eq(scheduledTasks.practiceId, practiceId) : undefined);
+  const have = new Set(existing.map((s) => `${s.practiceId}:${s.task}`));
+
+  const now = new Date();
+  const missing = [];
+  for (const [id, calendar] of Array.from(calendars.entries())) {
+    for (const def of SCHEDULED_TASKS) {
+      if (have.has(`${id}:${def.task}`)) continue;
+      missing.push({
+        practiceId: id,
+        task: def.task,
+        ...def.defaults,
+        nextRunAt: nextRunAfter(def.defaults, calendar, now),
+      });
+    }
+  }
+
+  if (missing.length === 0) return 0;
+  const inserted = await db
+    .insert(scheduledTasks)
+    .values(missing)
+    .onConflictDoNothing()
+    .returning({ id: scheduledTasks.id });
+  return inserted.length;
+}
+
+async function getActiveRun(scheduleId: string): Promise<ScheduledTaskRun | null> {
+  const [run] = await db
+    .select()
+    .from(scheduledTaskRuns)
+    .where(
+      and(
+        eq(scheduledTaskRuns.scheduleId, scheduleId),
+        inArray(scheduledTaskRuns.status, ["queued", "running"])
+      )
+    )
+    .limit(1);
+  return run ?? null;
+}
+
+async function startRun(
+  schedule: ScheduledTask,
+  trigger: "schedule" | "manual",
+  userId: string | null
+): Promise<ScheduledTaskRun> {
+  const definition = getTaskDefinition(schedule.task);
+  if (!definition) throw new Error(`Unknown scheduled task "${schedule.task}"`);
+
+  const [run] = await db
+    .insert(scheduledTaskRuns)
+    .values({
+      scheduleId: schedule.id,
+      practiceId: schedule.practiceId,
+      task: schedule.task,
+      trigger,
+      triggeredBy: userId,
+    })
+    .returning();
+
+  const job = await enqueueJob(
+    definition.queue,
+    "schedule.run",
+    { runId: run.id, userId },
+    { practiceId: schedule.practiceId, idempotencyKey: `schedule-run:${run.id}` }
+  );
+
+  const [updated] = await db
+    .update(scheduledTaskRuns)
+    .set({ jobId: job.id })
+    .where(eq(scheduledTaskRuns.id, run.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Start every unpaused schedule whose next run time has passed and move it
+ * to its following slot. Safe to call from overlapping cron ticks: a
+ * schedule is only started by the tick that advances its nextRunAt.
+ */
+export async function runDueSchedules(
+  now = new Date()
+): Promise<{ created: number; started: ScheduledTaskRun[]; skipped: number }> {
+  const created = await ensureSchedules();
+  const calendars = await getCalendars();
+
+  const due = await db
+    .select()
+    .from(scheduledTasks)
+    .where(and(eq(scheduledTasks.isPaused, false), lte(scheduledTasks.nextRunAt, now)));
+
+  const started: ScheduledTaskRun[] = [];
+  let skipped = 0;
+
+  for (const schedule of due) {
+    const calendar = calendars.get(schedule.practiceId);
+    if (!calendar || !schedule.nextRunAt) continue;
+
+    const [claimed] = await db
+      .update(scheduledTasks)
+      .set({
+        lastRunAt: now,
+        nextRunAt: nextRunAfter(schedule, calendar, now),
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(scheduledTasks.id, schedule.id),
+          eq(scheduledTasks.nextRunAt, schedule.nextRunAt)
+        )
+      )
+      .returning();
+    if (!claimed) continue;
+
+    // Don't pile up runs behind one that's still going
+    if (await getActiveRun(schedule.id)) {
+      skipped++;
+      continue;
+    }
+
+    try {
+      started.push(await startRun(claimed, "schedule", null));
+    } catch (err) {
+      console.error(`Failed to start scheduled ${schedule.task} for ${schedule.practiceId}:`, err);
+    }
+  }
+
+  return { created, started, skipped };
+}
+
+/** Run a schedule now, outside its normal timing. */
+export async function triggerSchedule(
+  scheduleId: string,
+  practiceId: string,
+  userId: string
+): Promise<ScheduledTaskRun | null> {
+  const [schedule] = await db
+    .select()
+    .from(scheduledTasks)
+    .where(and(eq(scheduledTasks.id, scheduleId), eq(scheduledTasks.practiceId, practiceId)));
+  if (!schedule) return null;
+
+  const active = await getActiveRun(schedule.id);
+  if (active) throw new ScheduleBusyError(active.id);
+
+  await db
+    .update(scheduledTasks)
+    .set({ lastRunAt: new Date(), updatedAt: new Date() })
+    .where(eq(scheduledTasks.id, schedule.id));
+
+  return startRun(schedule, "manual", userId);
+}
+
+/**
+ * Change a schedule's timing or pause it. The next run is recomputed from
+ * now, so resuming a paused schedule doesn't fire the runs it missed.
+ */
+export async function updateSchedule(
+  scheduleId: string,
+  practiceId: string,
+  update: ScheduleUpdate
+): Promise<ScheduledTask | null> {
+  const [schedule] = await db
+    .select()
+    .from(scheduledTasks)
+    .where(and(eq(scheduledTasks.id, scheduleId), eq(scheduledTasks.practiceId, practiceId)));
+  if (!schedule) return null;
+
+  const calendar = (await getCalendars(practiceId)).get(practiceId);
+  if (!calendar) return null;
+
+  const merged = { ...schedule, ...update };
+  const [updated] = await db
+    .update(scheduledTasks)
+    .set({
+      ...update,
+      nextRunAt: nextRunAfter(merged, calendar, new Date()),
+      updatedAt: new Date(),
+    })
+    .where(eq(scheduledTasks.id, scheduleId))
+    .returning();
+  return updated;
+}
+
+/** Change the practice's time zone or fiscal year and reschedule everything. */
+export async function updatePracticeCalendar(
+  practiceId: string,
+  update: Partial<PracticeCalendar>
+): Promise<PracticeCalendar | null> {
+  if (Object.keys(update).length > 0) {
+    await db
+      .update(practices)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(practices.id, practiceId));
+  }
+
+  const calendar = (await getCalendars(practiceId)).get(practiceId);
+  if (!calendar) return null;
+
+  const now = new Date();
+  const schedules = await db
+    .select()
+    .from(scheduledTasks)
+    .where(eq(scheduledTasks.practiceId, practiceId));
+  for (const schedule of schedules) {
+    await db
+      .update(scheduledTasks)
+      .set({ nextRunAt: nextRunAfter(schedule, calendar, now), updatedAt: now })
+      .where(eq(scheduledTasks.id, schedule.id));
+  }
+
+  return calendar;
+}
+
+export async function getSchedules(practiceId: string): Promise<ScheduledTask[]> {
+  await ensureSchedules(practiceId);
+  const schedules = await db
+    .select()
+    .from(scheduledTasks)
+    .where(eq(scheduledTasks.practiceId, practiceId));
+
+  // Catalog order rather than creation order
+  const order = SCHEDULED_TASKS.map((t) => t.task);
+  return schedules.sort((a, b) => order.indexOf(a.task) - order.indexOf(b.task));
+}
+
+export async function getRunHistory(
+  practiceId: string,
+  options: { scheduleId?: string; limit?: number } = {}
+): Promise<ScheduledTaskRun[]> {
+  const conditions = [eq(scheduledTaskRuns.practiceId, practiceId)];
+  if (options.scheduleId) conditions.push(eq(scheduledTaskRuns.scheduleId, options.scheduleId));
+
+  return db
+    .select()
+    .from(scheduledTaskRuns)
+    .where(and(...conditions))
+    .orderBy(desc(scheduledTaskRuns.createdAt))
+    .limit(options.limit ?? 50);
+}
+
+/** Mark a run as started; called by the job that executes it. */
+export async function markRunStarted(runId: string): Promise<ScheduledTaskRun | null> {
+  const [run] = await db
+    .update(scheduledTaskRuns)
+    .set({ status: "running", startedAt: new Date(), error: null })
+    .where(eq(scheduledTaskRuns.id, runId))
+    .returning();
+  return run ?? null;
+}
+
+/**
+ * Record the outcome of an attempt. A failed attempt that will be retried
+ * goes back to "queued" with its error kept for the history view.
+ */
+export async function markRunFinished(
+  runId: string,
+  status: "completed" | "failed" | "queued",
+  outcome: { result?: unknown; error?: string }
+): Promise<void> {
+  await db
+    .update(scheduledTaskRuns)
+    .set({
+      status,
+      result: outcome.result ?? null,
+      error: outcome.error ?? null,
+      completedAt: status === "queued" ? null : new Date(),
+    })
+    .where(eq(scheduledTaskRuns.id, runId));
+}
+
+/** Why a run should be skipped for this practice, or null to go ahead. */
+export async function skipReason(run: ScheduledTaskRun): Promise<string | null> {
+  const definition = getTaskDefinition(run.task);
+  if (definition?.requiresQbo) {
+    const [practice] = await db
+      .select({ qboRealmId: practices.qboRealmId })
+      .from(practices)
+      .where(eq(practices.id, run.practiceId));
+    if (!practice?.qboRealmId) return "QuickBooks is not connected";
+  }
+  return null;
+}
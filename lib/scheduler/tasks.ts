@@ -0,0 +1,71 @@
+import type { ScheduleTiming } from "./timing";
+import type { JobQueue } from "@/lib/jobs/handlers";
+
+export interface ScheduledTaskDefinition {
+  task: string;
+  label: string;
+  description: string;
+  queue: JobQueue;
+  // Job handler that does the work
+  jobName: string;
+  defaults: ScheduleTiming;
+  // Skip runs for practices that haven't connected QuickBooks
+  requiresQbo?: boolean;
+}
+
+/** Every practice gets one schedule per task, created with these defaults. */
+export const SCHEDULED_TASKS: ScheduledTaskDefinition[] = [
+  {
+    task: "qbo-sync",
+    label: "QuickBooks sync",
+    description: "Pull new and changed transactions from QuickBooks",
+    queue: "sync",
+    jobName: "qbo.sync",
+    defaults: { cadence: "daily", hour: 2, dayOfWeek: null, dayOfMonth: null },
+    requiresQbo: true,
+  },
+  {
+    task: "plaid-sync",
+    label: "Bank sync",
+    description: "Refresh balances and import transactions from connected banks",
+    queue: "sync",
+    jobName: "plaid.sync",
+    defaults: { cadence: "daily", hour: 3, dayOfWeek: null, dayOfMonth: null },
+  },
+  {
+    task: "snapshot-refresh",
+    label: "Financial snapshot",
+    description: "Recalculate the cached profitability and cash flow snapshot",
+    queue: "snapshots",
+    jobName: "snapshot.refresh",
+    defaults: { cadence: "daily", hour: 4, dayOfWeek: null, dayOfMonth: null },
+  },
+  {
+    task: "tax-alerts",
+    label: "Tax alerts",
+    description: "Regenerate tax strategy alerts at the start of each fiscal quarter",
+    queue: "snapshots",
+    jobName: "tax-alerts.generate",
+    defaults: { cadence: "quarterly", hour: 5, dayOfWeek: null, dayOfMonth: 1 },
+  },
+  {
+    task: "monthly-digest",
+    label: "Monthly digest email",
+    description: "Email last month's results to subscribed members",
+    queue: "email",
+    jobName: "email.monthly-digest",
+    defaults: { cadence: "monthly", hour: 7, dayOfWeek: null, dayOfMonth: 1 },
+  },
+  {
+    task: "weekly-insights",
+    label: "Weekly insights email",
+    description: "Email the past week's activity to subscribed members",
+    queue: "email",
+    jobName: "email.weekly-insights",
+    defaults: { cadence: "weekly", hour: 7, dayOfWeek: 1, dayOfMonth: null },
+  },
+];
+
+export function getTaskDefinition(task: string): ScheduledTaskDefinition | undefined {
+  return SCHEDULED_TASKS.find((t) => t.task === task);
+}
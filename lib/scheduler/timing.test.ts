@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { isValidTimeZone, nextRunAfter, type ScheduleTiming } from "./timing";
+
+const UTC = { timeZone: "UTC", fiscalYearStart: 1 };
+const NEW_YORK = { timeZone: "America/New_York", fiscalYearStart: 1 };
+
+const daily = (hour: number): ScheduleTiming => ({
+  cadence: "daily",
+  hour,
+  dayOfWeek: null,
+  dayOfMonth: null,
+});
+
+const next = (timing: ScheduleTiming, calendar: typeof UTC, after: string) =>
+  nextRunAfter(timing, calendar, new Date(after)).toISOString();
+
+describe("nextRunAfter", () => {
+  it("runs daily later the same day, else the next day", () => {
+    expect(next(daily(4), UTC, "2026-03-10T03:59:00Z")).toBe("2026-03-10T04:00:00.000Z");
+    expect(next(daily(4), UTC, "2026-03-10T12:00:00Z")).toBe("2026-03-11T04:00:00.000Z");
+  });
+
+  it("is strictly after the given time", () => {
+    expect(next(daily(4), UTC, "2026-03-10T04:00:00Z")).toBe("2026-03-11T04:00:00.000Z");
+  });
+
+  it("keeps the wall-clock hour in the practice's time zone across DST", () => {
+    // 4am EST is 09:00 UTC; DST starts on March 8, after which 4am EDT is 08:00 UTC
+    expect(next(daily(4), NEW_YORK, "2026-03-07T08:30:00Z")).toBe("2026-03-07T09:00:00.000Z");
+    expect(next(daily(4), NEW_YORK, "2026-03-07T12:00:00Z")).toBe("2026-03-08T08:00:00.000Z");
+    expect(next(daily(4), NEW_YORK, "2026-11-01T12:00:00Z")).toBe("2026-11-02T09:00:00.000Z");
+  });
+
+  it("uses the local date when it differs from UTC", () => {
+    // 16:00 UTC on March 10 is 01:00 on March 11 in Tokyo
+    const tokyo = { timeZone: "Asia/Tokyo", fiscalYearStart: 1 };
+    expect(next(daily(2), tokyo, "2026-03-10T16:00:00Z")).toBe("2026-03-10T17:00:00.000Z");
+  });
+
+  it("runs weekly on the given weekday", () => {
+    const mondays: ScheduleTiming = { cadence: "weekly", hour: 7, dayOfWeek: 1, dayOfMonth: null };
+    // October 19, 2026 is a Monday
+    expect(next(mondays, UTC, "2026-10-19T06:00:00Z")).toBe("2026-10-19T07:00:00.000Z");
+    expect(next(mondays, UTC, "2026-10-19T08:00:00Z")).toBe("2026-10-26T07:00:00.000Z");
+    expect(next(mondays, UTC, "2026-10-21T00:00:00Z")).toBe("2026-10-26T07:00:00.000Z");
+  });
+
+  it("runs monthly on the given day", () => {
+    const firsts: ScheduleTiming = { cadence: "monthly", hour: 7, dayOfWeek: null, dayOfMonth: 1 };
+    expect(next(firsts, UTC, "2026-01-31T00:00:00Z")).toBe("2026-02-01T07:00:00.000Z");
+    expect(next(firsts, UTC, "2026-12-01T08:00:00Z")).toBe("2027-01-01T07:00:00.000Z");
+
+    const fifteenths: ScheduleTiming = { ...firsts, dayOfMonth: 15 };
+    expect(next(fifteenths, UTC, "2026-02-15T06:00:00Z")).toBe("2026-02-15T07:00:00.000Z");
+  });
+
+  it("runs quarterly at the start of each fiscal quarter", () => {
+    const quarterly: ScheduleTiming = { cadence: "quarterly", hour: 5, dayOfWeek: null, dayOfMonth: 1 };
+    expect(next(quarterly, UTC, "2026-01-01T06:00:00Z")).toBe("2026-04-01T05:00:00.000Z");
+
+    // A July fiscal year has quarters starting in Jul, Oct, Jan and Apr
+    const julyYear = { timeZone: "UTC", fiscalYearStart: 7 };
+    expect(next(quarterly, julyYear, "2026-08-15T00:00:00Z")).toBe("2026-10-01T05:00:00.000Z");
+    expect(next(quarterly, julyYear, "2026-10-01T06:00:00Z")).toBe("2027-01-01T05:00:00.000Z");
+
+    // February fiscal year: Feb, May, Aug, Nov
+    const februaryYear = { timeZone: "UTC", fiscalYearStart: 2 };
+    expect(next(quarterly, februaryYear, "2026-03-01T00:00:00Z")).toBe("2026-05-01T05:00:00.000Z");
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects anything else", () => {
+    expect(isValidTimeZone("America/Chicago")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
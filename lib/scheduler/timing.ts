@@ -0,0 +1,120 @@
+import type { ScheduledTask } from "@/lib/db/schema";
+
+export type ScheduleTiming = Pick<
+  ScheduledTask,
+  "cadence" | "hour" | "dayOfWeek" | "dayOfMonth"
+>;
+
+export interface PracticeCalendar {
+  timeZone: string;
+  fiscalYearStart: number; // month 1-12
+}
+
+/** Far enough ahead to always reach the next fiscal quarter start */
+const MAX_LOOKAHEAD_DAYS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock date and time of an instant in a time zone. */
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: string) =>
+    parseInt(parts.find((p) => p.type === type)?.value ?? "0", 10);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** Milliseconds the zone is ahead of UTC at an instant. */
+function zoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock hour occurs in a time zone. Offsets are
+ * re-checked once so hours next to a DST change land correctly.
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour);
+  const offset = zoneOffset(new Date(guess), timeZone);
+  const adjusted = zoneOffset(new Date(guess - offset), timeZone);
+  return new Date(guess - adjusted);
+}
+
+function matchesDay(
+  timing: ScheduleTiming,
+  calendar: PracticeCalendar,
+  year: number,
+  month: number,
+  day: number
+): boolean {
+  switch (timing.cadence) {
+    case "daily":
+      return true;
+    case "weekly":
+      return new Date(Date.UTC(year, month - 1, day)).getUTCDay() === (timing.dayOfWeek ?? 1);
+    case "monthly":
+      return day === (timing.dayOfMonth ?? 1);
+    case "quarterly":
+      // First month of each fiscal quarter
+      return (
+        day === (timing.dayOfMonth ?? 1) &&
+        (month - calendar.fiscalYearStart + 12) % 3 === 0
+      );
+  }
+}
+
+/**
+ * The first time strictly after `after` that a schedule is due, evaluated
+ * in the practice's time zone and fiscal calendar.
+ */
+export function nextRunAfter(
+  timing: ScheduleTiming,
+  calendar: PracticeCalendar,
+  after: Date
+): Date {
+  const local = zonedParts(after, calendar.timeZone);
+  const start = Date.UTC(local.year, local.month - 1, local.day);
+
+  for (let i = 0; i <= MAX_LOOKAHEAD_DAYS; i++) {
+    const d = new Date(start + i * DAY_MS);
+    const [year, month, day] = [d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate()];
+    if (!matchesDay(timing, calendar, year, month, day)) continue;
+
+    const candidate = zonedTimeToUtc(year, month, day, timing.hour, calendar.timeZone);
+    if (candidate > after) return candidate;
+  }
+
+  throw new Error(`No run time found for ${timing.cadence} schedule`);
+}
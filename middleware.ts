@@ -1,7 +1,16 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 
-const PUBLIC_PATHS = ["/login", "/signup", "/api/auth", "/api/qbo/webhook"];
+const PUBLIC_PATHS = [
+  "/login",
+  "/signup",
+  "/invite",
+  "/api/invitations",
+  "/api/auth",
+  "/api/qbo/webhook",
+  // Authenticated with CRON_SECRET instead of a session
+  "/api/cron",
+];
 
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
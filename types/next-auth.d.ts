@@ -4,6 +4,7 @@ declare module "next-auth" {
   interface User {
     practiceId: string;
     role: string;
+    sessionId?: string;
   }
 
   interface Session {
@@ -13,6 +14,7 @@ declare module "next-auth" {
       name: string;
       practiceId: string;
       role: string;
+      sessionId?: string;
     };
   }
 }
@@ -21,5 +23,6 @@ declare module "next-auth/jwt" {
   interface JWT {
     practiceId?: string;
     role?: string;
+    sessionId?: string;
   }
 }